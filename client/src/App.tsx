@@ -11,9 +11,18 @@ import TeacherView from "@/pages/TeacherView";
 import ClassesPage from "@/pages/ClassesPage";
 import ClassDetailPage from "@/pages/ClassDetailPage";
 import SubjectsPage from "@/pages/SubjectsPage";
+import RoomsPage from "@/pages/RoomsPage";
+import AcademicCalendarPage from "@/pages/AcademicCalendarPage";
+import ExamsPage from "@/pages/ExamsPage";
+import SubstitutionsPage from "@/pages/SubstitutionsPage";
+import CoverReportPage from "@/pages/CoverReportPage";
+import LessonGroupsPage from "@/pages/LessonGroupsPage";
+import TimetableCandidatesPage from "@/pages/TimetableCandidatesPage";
 import SchoolsPage from "@/pages/SchoolsPage";
 import SettingsPage from "@/pages/SettingsPage";
 import TimetableStructurePage from "@/pages/TimetableStructurePage";
+import MyPreferencesPage from "@/pages/MyPreferencesPage";
+import MyCoverPage from "@/pages/MyCoverPage";
 import NotFound from "@/pages/not-found";
 import Layout from "@/components/Layout";
 import LoginPage from "@/pages/LoginPage";
@@ -35,6 +44,7 @@ function Router() {
 
   const isSuperAdmin = user?.role === "super_admin";
   const isSchoolAdmin = user?.role === "admin";
+  const isTeacher = user?.role === "teacher";
 
   return (
     <Layout>
@@ -48,9 +58,20 @@ function Router() {
         {isSchoolAdmin && <Route path="/classes" component={ClassesPage} />}
         {isSchoolAdmin && <Route path="/classes/:id" component={ClassDetailPage} />}
         {isSchoolAdmin && <Route path="/subjects" component={SubjectsPage} />}
+        {isSchoolAdmin && <Route path="/rooms" component={RoomsPage} />}
+        {isSchoolAdmin && <Route path="/lesson-groups" component={LessonGroupsPage} />}
+        {isSchoolAdmin && <Route path="/substitutions" component={SubstitutionsPage} />}
+        {isSchoolAdmin && <Route path="/cover-report" component={CoverReportPage} />}
         {isSchoolAdmin && <Route path="/timetable" component={TimetableView} />}
+        {isSchoolAdmin && <Route path="/timetable-candidates" component={TimetableCandidatesPage} />}
         {isSchoolAdmin && <Route path="/teachers" component={TeacherView} />}
         {isSchoolAdmin && <Route path="/timetable-structure" component={TimetableStructurePage} />}
+        {isSchoolAdmin && <Route path="/academic-calendar" component={AcademicCalendarPage} />}
+        {isSchoolAdmin && <Route path="/exams" component={ExamsPage} />}
+
+        {/* Teacher only pages */}
+        {isTeacher && <Route path="/my-preferences" component={MyPreferencesPage} />}
+        {isTeacher && <Route path="/my-cover" component={MyCoverPage} />}
         
         {/* Settings page - available to all authenticated users */}
         <Route path="/settings" component={SettingsPage} />
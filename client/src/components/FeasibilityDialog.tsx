@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface FeasibilityIssue {
+  type: "class_over_capacity" | "subject_over_capacity" | "no_qualified_teacher" | "teacher_over_capacity";
+  required: number;
+  available: number;
+  message: string;
+}
+
+interface FeasibilityReport {
+  feasible: boolean;
+  slotsPerWeek: number;
+  classes: { classId: string; name: string; required: number; available: number }[];
+  subjects: { subjectId: string; name: string; demand: number; capacity: number; qualifiedTeachers: number }[];
+  issues: FeasibilityIssue[];
+}
+
+interface FeasibilityDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Capacity analysis of the school's setup, to catch impossible requirements before generating
+export default function FeasibilityDialog({ isOpen, onClose }: FeasibilityDialogProps) {
+  const { data: report, isFetching, error } = useQuery<FeasibilityReport>({
+    queryKey: ["/api/timetable/feasibility"],
+    enabled: isOpen,
+    // Assignments change often; always analyse the current setup
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Capacity Check</DialogTitle>
+          <DialogDescription>
+            Compares what classes and subjects need with the available slots and teachers
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching ? (
+          <p className="text-center py-8 text-muted-foreground">Analysing...</p>
+        ) : error ? (
+          <p className="text-center py-8 text-destructive">{(error as Error).message}</p>
+        ) : report ? (
+          <div className="space-y-4">
+            {report.feasible ? (
+              <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800" data-testid="text-feasible">
+                <i className="fas fa-check-circle mr-2"></i>
+                No capacity problems found. Generation can still fail on clashes between individual lessons.
+              </div>
+            ) : (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3 space-y-1" data-testid="list-feasibility-issues">
+                <div className="text-sm font-medium text-red-800">
+                  <i className="fas fa-exclamation-triangle mr-2"></i>
+                  {report.issues.length} problem{report.issues.length !== 1 ? "s" : ""} will prevent a complete timetable
+                </div>
+                {report.issues.map((issue, index) => (
+                  <div key={index} className="text-sm text-red-700">• {issue.message}</div>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Classes ({report.slotsPerWeek} slots per week)</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead className="text-right">Required periods</TableHead>
+                    <TableHead className="text-right">Available slots</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.classes.map((row) => (
+                    <TableRow key={row.classId}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className={`text-right ${row.required > row.available ? "text-destructive font-medium" : ""}`}>
+                        {row.required}
+                      </TableCell>
+                      <TableCell className="text-right">{row.available}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Subjects</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subject</TableHead>
+                    <TableHead className="text-right">Demand</TableHead>
+                    <TableHead className="text-right">Teacher capacity</TableHead>
+                    <TableHead className="text-right">Qualified teachers</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.subjects.map((row) => (
+                    <TableRow key={row.subjectId}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className={`text-right ${row.demand > row.capacity ? "text-destructive font-medium" : ""}`}>
+                        {row.demand}
+                      </TableCell>
+                      <TableCell className="text-right">{row.capacity}</TableCell>
+                      <TableCell className="text-right">{row.qualifiedTeachers}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
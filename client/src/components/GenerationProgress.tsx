@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { GenerationJob, GenerationPhase } from "@/hooks/useGenerationJob";
+
+const phaseLabels: Record<GenerationPhase, string> = {
+  loading: "Loading school data",
+  searching: "Placing lessons",
+  repairing: "Resolving conflicts",
+  optimizing: "Optimizing schedule",
+  saving: "Saving timetable",
+};
+
+interface GenerationProgressProps {
+  job?: GenerationJob;
+  onCancel: () => void;
+  isCancelling?: boolean;
+}
+
+// Live status of a running generation job, with a way to stop it
+export default function GenerationProgress({ job, onCancel, isCancelling }: GenerationProgressProps) {
+  const label = !job || job.status === "queued"
+    ? "Waiting to start..."
+    : job.phase ? phaseLabels[job.phase] : "Starting...";
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2" data-testid="generation-progress">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          <i className="fas fa-cog fa-spin mr-2 text-primary"></i>
+          {label}
+        </span>
+        <span className="text-muted-foreground" data-testid="text-generation-percent">{job?.percent ?? 0}%</span>
+      </div>
+      <Progress value={job?.percent ?? 0} className="h-2" />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground" data-testid="text-generation-score">
+          {job?.bestScore !== null && job?.bestScore !== undefined
+            ? `Best penalty so far: ${job.bestScore}`
+            : "No complete timetable yet"}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={!job || isCancelling}
+          data-testid="button-cancel-generation"
+        >
+          {isCancelling ? "Cancelling..." : "Cancel"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+interface LessonGroupCellEntry {
+  room?: string | null;
+  subject?: { name: string } | null;
+  teacher?: { name: string } | null;
+  class?: { grade: string; section: string } | null;
+  lessonGroup?: { name: string } | null;
+}
+
+interface LessonGroupCellProps {
+  // Every entry of the group in this slot, for the class or teacher being viewed
+  entries: LessonGroupCellEntry[];
+  viewMode: "class" | "teacher";
+  periods?: number;
+}
+
+const unique = (values: string[]) => values.filter((value, index) => values.indexOf(value) === index);
+
+// A slot taken by a lesson group: a class sees every parallel stream with its
+// teacher, a teacher sees their subject and all the classes combined into it
+export default function LessonGroupCell({ entries, viewMode, periods = 1 }: LessonGroupCellProps) {
+  const [first] = entries;
+  const rooms = unique(entries.map(entry => entry.room || "").filter(Boolean));
+
+  const lines = viewMode === "class"
+    ? unique(entries.map(entry => `${entry.subject?.name || "Subject"} · ${entry.teacher?.name || "Teacher"}${entry.room ? ` • ${entry.room}` : ""}`))
+    : [
+        first.subject?.name || "Subject",
+        unique(entries.map(entry => (entry.class ? `${entry.class.grade}-${entry.class.section}` : ""))).filter(Boolean).join(", "),
+        ...(rooms.length > 0 ? [rooms.join(", ")] : []),
+      ];
+
+  return (
+    <div className="rounded-lg p-2 border h-full text-left bg-indigo-50 border-indigo-200" data-testid="lesson-group-cell">
+      <div className="font-medium text-sm text-indigo-900">
+        <i className="fas fa-layer-group mr-1"></i>
+        {first.lessonGroup?.name || "Lesson group"}
+      </div>
+      {periods > 1 && (
+        <div className="text-xs font-medium text-indigo-700">{periods} periods</div>
+      )}
+      {lines.map(line => (
+        <div key={line} className="text-xs text-indigo-700">{line}</div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { SubjectPlacementRules, TimetableStructure } from "@shared/schema";
+
+interface PlacementRulesFieldsProps {
+  value: SubjectPlacementRules;
+  onChange: (rules: SubjectPlacementRules) => void;
+  // Keeps test ids unique when the fields appear in more than one form
+  idPrefix: string;
+}
+
+// Short summary of a subject's placement rules for lists
+export function describePlacementRules(rules: SubjectPlacementRules | null | undefined): string {
+  const parts: string[] = [];
+  if (rules?.allowedPeriods?.length) parts.push(`Periods ${rules.allowedPeriods.join(", ")}`);
+  if (rules?.notAfterLunch) parts.push("not after lunch");
+  if (rules?.noConsecutiveDays) parts.push("no consecutive days");
+  return parts.length > 0 ? parts.join(" · ") : "Any time";
+}
+
+// Where the scheduler may put a subject's lessons: a window of periods, the period after lunch, spacing
+export default function PlacementRulesFields({ value, onChange, idPrefix }: PlacementRulesFieldsProps) {
+  const { data: structure } = useQuery<TimetableStructure>({
+    queryKey: ["/api/timetable-structure"],
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const periods = (structure?.timeSlots ?? []).filter(slot => !slot.isBreak);
+  const allowed = value.allowedPeriods ?? [];
+
+  const togglePeriod = (period: number, checked: boolean) => {
+    const next = checked ? [...allowed, period].sort((a, b) => a - b) : allowed.filter(p => p !== period);
+    // No period ticked means no window
+    onChange({ ...value, allowedPeriods: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Allowed Periods</Label>
+        {periods.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Set up the timetable structure to limit periods.</p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {periods.map(slot => (
+              <label key={slot.period} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={allowed.includes(slot.period)}
+                  onCheckedChange={(checked) => togglePeriod(slot.period, !!checked)}
+                  data-testid={`${idPrefix}-checkbox-period-${slot.period}`}
+                />
+                P{slot.period}
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">Leave all unticked to allow any period.</p>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={!!value.notAfterLunch}
+          onCheckedChange={(checked) => onChange({ ...value, notAfterLunch: !!checked })}
+          data-testid={`${idPrefix}-checkbox-not-after-lunch`}
+        />
+        Never in the period straight after lunch
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={!!value.noConsecutiveDays}
+          onCheckedChange={(checked) => onChange({ ...value, noConsecutiveDays: !!checked })}
+          data-testid={`${idPrefix}-checkbox-no-consecutive-days`}
+        />
+        Leave a day free between lessons (no consecutive days)
+      </label>
+    </div>
+  );
+}
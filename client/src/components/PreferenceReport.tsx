@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface PreferenceReportRow {
+  preferenceId: string;
+  teacherId: string;
+  teacherName: string;
+  type: "preferred_days" | "free_period" | "subject_priority";
+  strength: "hard" | "soft";
+  description: string;
+  satisfied: boolean;
+  violations: number;
+  detail: string;
+}
+
+interface PreferenceReportProps {
+  // Limits the report to one teacher; a signed-in teacher always sees only their own
+  teacherId?: string;
+  showTeacher?: boolean;
+}
+
+// Which teacher preferences the active timetable satisfies
+export default function PreferenceReport({ teacherId, showTeacher = false }: PreferenceReportProps) {
+  const { data: rows = [], isLoading, error } = useQuery<PreferenceReportRow[]>({
+    queryKey: ["/api/teacher-preferences", "report", teacherId ?? "all"],
+    queryFn: async () => {
+      const params = teacherId ? `?teacherId=${teacherId}` : "";
+      const response = await apiRequest("GET", `/api/teacher-preferences/report${params}`);
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-center py-6 text-muted-foreground">Checking preferences...</p>;
+  }
+  if (error) {
+    return <p className="text-center py-6 text-destructive">{(error as Error).message}</p>;
+  }
+  if (rows.length === 0) {
+    return <p className="text-center py-6 text-muted-foreground">No preferences have been recorded.</p>;
+  }
+
+  const satisfiedCount = rows.filter(row => row.satisfied).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground" data-testid="text-preferences-satisfied">
+        {satisfiedCount} of {rows.length} preference{rows.length !== 1 ? "s" : ""} satisfied by the active timetable
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {showTeacher && <TableHead>Teacher</TableHead>}
+            <TableHead>Preference</TableHead>
+            <TableHead>Strength</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.preferenceId} data-testid={`row-preference-report-${row.preferenceId}`}>
+              {showTeacher && <TableCell>{row.teacherName}</TableCell>}
+              <TableCell>{row.description}</TableCell>
+              <TableCell className="capitalize">{row.strength}</TableCell>
+              <TableCell>
+                {row.satisfied ? (
+                  <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Satisfied</Badge>
+                ) : (
+                  <Badge variant="destructive">Not satisfied</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{row.detail}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,61 +1,14 @@
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import UploadModal from "@/components/UploadModal";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
+import FeasibilityDialog from "@/components/FeasibilityDialog";
+import GenerationProgress from "@/components/GenerationProgress";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
 
 export default function QuickActions() {
   const [showUploadModal, setShowUploadModal] = useState(false);
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
-
-  const generateTimetableMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/timetable/generate", {
-        // Don't pass classId - we want to generate for all classes in user's school
-      });
-      return response.json();
-    },
-    onSuccess: (data) => {
-      if (data.success) {
-        toast({
-          title: "Success",
-          description: data.message,
-        });
-        // Invalidate all timetable-related queries to ensure auto-refresh
-        queryClient.invalidateQueries({ 
-          predicate: (query) => {
-            const queryKey = query.queryKey;
-            return queryKey[0] === "/api/timetable/detailed" || 
-                   queryKey[0] === "/api/timetable" ||
-                   queryKey[0] === "/api/stats";
-          }
-        });
-        
-        // Force refetch of the current timetable data
-        queryClient.refetchQueries({ 
-          predicate: (query) => {
-            const queryKey = query.queryKey;
-            return queryKey[0] === "/api/timetable/detailed";
-          }
-        });
-      } else {
-        toast({
-          title: "Generation Failed",
-          description: data.message,
-          variant: "destructive",
-        });
-      }
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: "Failed to generate timetable. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
+  const [showFeasibility, setShowFeasibility] = useState(false);
+  const generation = useGenerationJob();
 
   return (
     <>
@@ -66,16 +19,33 @@ export default function QuickActions() {
         </h3>
         
         <div className="space-y-3">
+          {generation.isRunning ? (
+            <GenerationProgress
+              job={generation.job}
+              onCancel={generation.cancel}
+              isCancelling={generation.isCancelling}
+            />
+          ) : (
+            <Button
+              className="w-full"
+              onClick={() => generation.start()}
+              data-testid="button-generate-timetable"
+            >
+              <i className="fas fa-magic mr-2"></i>
+              Generate New Timetable
+            </Button>
+          )}
+          
           <Button
+            variant="outline"
             className="w-full"
-            onClick={() => generateTimetableMutation.mutate()}
-            disabled={generateTimetableMutation.isPending}
-            data-testid="button-generate-timetable"
+            onClick={() => setShowFeasibility(true)}
+            data-testid="button-check-feasibility"
           >
-            <i className="fas fa-magic mr-2"></i>
-            {generateTimetableMutation.isPending ? "Generating..." : "Generate New Timetable"}
+            <i className="fas fa-clipboard-check mr-2"></i>
+            Check Capacity
           </Button>
-          
+
           <Button
             variant="secondary"
             className="w-full"
@@ -101,6 +71,11 @@ export default function QuickActions() {
         isOpen={showUploadModal} 
         onClose={() => setShowUploadModal(false)} 
       />
+
+      <FeasibilityDialog
+        isOpen={showFeasibility}
+        onClose={() => setShowFeasibility(false)}
+      />
     </>
   );
 }
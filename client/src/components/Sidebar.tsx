@@ -18,11 +18,26 @@ const getNavigationItems = (userRole: string | undefined) => {
     return [
       { path: "/", icon: "fas fa-tachometer-alt", label: "Dashboard" },
       { path: "/timetable", icon: "fas fa-calendar-alt", label: "Timetables" },
+      { path: "/timetable-candidates", icon: "fas fa-clone", label: "Compare Drafts" },
       { path: "/teachers", icon: "fas fa-chalkboard-teacher", label: "Teachers" },
       { path: "/classes", icon: "fas fa-users", label: "Classes" },
       { path: "/subjects", icon: "fas fa-book", label: "Subjects" },
+      { path: "/rooms", icon: "fas fa-door-open", label: "Rooms" },
+      { path: "/lesson-groups", icon: "fas fa-layer-group", label: "Lesson Groups" },
       { path: "/substitutions", icon: "fas fa-user-friends", label: "Substitutions" },
+      { path: "/cover-report", icon: "fas fa-balance-scale", label: "Cover Report" },
       { path: "/timetable-structure", icon: "fas fa-clock", label: "Time Table Structure" },
+      { path: "/academic-calendar", icon: "fas fa-calendar-week", label: "Academic Calendar" },
+      { path: "/exams", icon: "fas fa-file-signature", label: "Exams" },
+    ];
+  }
+
+  // Teacher: Their own scheduling preferences
+  if (userRole === "teacher") {
+    return [
+      { path: "/", icon: "fas fa-tachometer-alt", label: "Dashboard" },
+      { path: "/my-preferences", icon: "fas fa-sliders-h", label: "My Preferences" },
+      { path: "/my-cover", icon: "fas fa-user-clock", label: "My Cover" },
     ];
   }
 
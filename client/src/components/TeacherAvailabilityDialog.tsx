@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Teacher, TeacherUnavailability, TimetableStructure, Weekday } from "@shared/schema";
+
+interface TeacherAvailabilityDialogProps {
+  teacher: Teacher | null;
+  onClose: () => void;
+}
+
+// Weekly grid of the school's teaching periods; a marked period is never scheduled for the teacher
+export default function TeacherAvailabilityDialog({ teacher, onClose }: TeacherAvailabilityDialogProps) {
+  const { toast } = useToast();
+  const [unavailable, setUnavailable] = useState<TeacherUnavailability>({});
+
+  const { data: structure } = useQuery<TimetableStructure>({
+    queryKey: ["/api/timetable-structure"],
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  useEffect(() => {
+    setUnavailable(teacher?.unavailablePeriods ?? {});
+  }, [teacher]);
+
+  const days = (structure?.workingDays ?? ["monday", "tuesday", "wednesday", "thursday", "friday"]) as Weekday[];
+  const periods = (structure?.timeSlots ?? []).filter(slot => !slot.isBreak);
+
+  const isUnavailable = (day: Weekday, period: number) => !!unavailable[day]?.includes(period);
+
+  const togglePeriod = (day: Weekday, period: number) => {
+    setUnavailable(current => {
+      const periodsForDay = current[day] ?? [];
+      const next = periodsForDay.includes(period)
+        ? periodsForDay.filter(p => p !== period)
+        : [...periodsForDay, period].sort((a, b) => a - b);
+      return { ...current, [day]: next };
+    });
+  };
+
+  const toggleDay = (day: Weekday) => {
+    const allBlocked = periods.every(slot => isUnavailable(day, slot.period));
+    setUnavailable(current => ({
+      ...current,
+      [day]: allBlocked ? [] : periods.map(slot => slot.period),
+    }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Empty days are dropped so the stored value only lists real restrictions
+      const unavailablePeriods = Object.fromEntries(
+        Object.entries(unavailable).filter(([, list]) => list && list.length > 0)
+      );
+      const response = await apiRequest("PUT", `/api/teachers/${teacher!.id}`, { unavailablePeriods });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teachers"] });
+      toast({
+        title: "Success",
+        description: "Availability updated successfully",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update availability",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const blockedCount = Object.values(unavailable).reduce((sum, list) => sum + (list?.length ?? 0), 0);
+
+  return (
+    <Dialog open={!!teacher} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Availability - {teacher?.name}</DialogTitle>
+          <DialogDescription>
+            Click a period to mark it unavailable. Click a day to toggle the whole day.
+          </DialogDescription>
+        </DialogHeader>
+
+        {periods.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Set up the timetable structure before editing availability.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left font-medium text-muted-foreground">Day</th>
+                  {periods.map(slot => (
+                    <th key={slot.period} className="p-2 text-center font-medium">
+                      <div>P{slot.period}</div>
+                      <div className="text-xs font-normal text-muted-foreground">{slot.startTime}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(day => (
+                  <tr key={day}>
+                    <td className="p-1">
+                      <button
+                        type="button"
+                        className="capitalize font-medium hover:underline"
+                        onClick={() => toggleDay(day)}
+                        data-testid={`button-toggle-day-${day}`}
+                      >
+                        {day}
+                      </button>
+                    </td>
+                    {periods.map(slot => {
+                      const blocked = isUnavailable(day, slot.period);
+                      return (
+                        <td key={slot.period} className="p-1">
+                          <button
+                            type="button"
+                            className={`w-full h-9 rounded border text-xs transition-colors ${
+                              blocked
+                                ? "bg-red-100 border-red-300 text-red-800"
+                                : "bg-green-50 border-green-200 text-green-800 hover:bg-green-100"
+                            }`}
+                            onClick={() => togglePeriod(day, slot.period)}
+                            data-testid={`cell-availability-${day}-${slot.period}`}
+                          >
+                            {blocked ? "Unavailable" : "Free"}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          <span className="mr-auto text-sm text-muted-foreground" data-testid="text-unavailable-count">
+            {blockedCount} unavailable period{blockedCount !== 1 ? "s" : ""} per week
+          </span>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || periods.length === 0}
+            data-testid="button-save-availability"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { Subject, TeacherPreference, TeacherPreferenceType, TimetableStructure, Weekday } from "@shared/schema";
+
+const typeLabels: Record<TeacherPreferenceType, string> = {
+  preferred_days: "Preferred days",
+  free_period: "Free period",
+  subject_priority: "Subject priority",
+};
+
+const capitalize = (day: string) => day.charAt(0).toUpperCase() + day.slice(1);
+
+interface TeacherPreferencesEditorProps {
+  // Omitted for a teacher editing their own preferences
+  teacherId?: string;
+}
+
+interface DraftPreference {
+  type: TeacherPreferenceType;
+  strength: "hard" | "soft";
+  days: Weekday[];
+  day: Weekday | "";
+  period: string;
+  subjectId: string;
+  grade: string;
+  priority: "prefer" | "avoid";
+  note: string;
+}
+
+const emptyDraft: DraftPreference = {
+  type: "free_period",
+  strength: "soft",
+  days: [],
+  day: "",
+  period: "",
+  subjectId: "",
+  grade: "",
+  priority: "prefer",
+  note: "",
+};
+
+// List, add and remove a teacher's scheduling preferences
+export default function TeacherPreferencesEditor({ teacherId }: TeacherPreferencesEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DraftPreference>(emptyDraft);
+
+  // Without a teacherId the server returns the signed-in teacher's own preferences
+  const { data: preferences = [], isLoading } = useQuery<TeacherPreference[]>({
+    queryKey: ["/api/teacher-preferences", teacherId ?? "mine"],
+    queryFn: async () => {
+      const params = teacherId ? `?teacherId=${teacherId}` : "";
+      const response = await apiRequest("GET", `/api/teacher-preferences${params}`);
+      return response.json();
+    },
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+  });
+
+  const { data: structure } = useQuery<TimetableStructure>({
+    queryKey: ["/api/timetable-structure"],
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const workingDays = (structure?.workingDays ?? ["monday", "tuesday", "wednesday", "thursday", "friday"]) as Weekday[];
+  const periods = (structure?.timeSlots ?? []).filter(slot => !slot.isBreak);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/teacher-preferences"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/teacher-preferences", {
+        teacherId,
+        type: draft.type,
+        strength: draft.strength,
+        days: draft.type === "preferred_days" ? draft.days : [],
+        day: draft.type === "free_period" ? draft.day : null,
+        period: draft.type === "free_period" && draft.period ? Number(draft.period) : null,
+        subjectId: draft.type === "subject_priority" ? draft.subjectId : null,
+        grade: draft.type === "subject_priority" && draft.grade.trim() ? draft.grade.trim() : null,
+        priority: draft.type === "subject_priority" ? draft.priority : null,
+        note: draft.note.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDraft({ ...emptyDraft, type: draft.type, strength: draft.strength });
+      toast({
+        title: "Success",
+        description: "Preference added successfully",
+      });
+    },
+    onError: onError("Failed to add preference"),
+  });
+
+  const strengthMutation = useMutation({
+    mutationFn: async ({ id, strength }: { id: string; strength: "hard" | "soft" }) => {
+      const response = await apiRequest("PUT", `/api/teacher-preferences/${id}`, { strength });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to update preference"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/teacher-preferences/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to delete preference"),
+  });
+
+  const describe = (preference: TeacherPreference) => {
+    switch (preference.type) {
+      case "preferred_days":
+        return `Teach on ${preference.days.map(capitalize).join(", ")}`;
+      case "free_period":
+        return `Keep period ${preference.period} on ${capitalize(preference.day ?? "")} free`;
+      case "subject_priority": {
+        const subject = subjects.find(s => s.id === preference.subjectId)?.name || "Unknown subject";
+        const grade = preference.grade ? ` (grade ${preference.grade})` : "";
+        return `${preference.priority === "avoid" ? "Avoid" : "Prefer"} ${subject}${grade}`;
+      }
+    }
+  };
+
+  const isDraftComplete =
+    (draft.type === "preferred_days" && draft.days.length > 0) ||
+    (draft.type === "free_period" && !!draft.day && !!draft.period) ||
+    (draft.type === "subject_priority" && !!draft.subjectId);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2" data-testid="list-teacher-preferences">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading preferences...</p>
+        ) : preferences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No preferences yet.</p>
+        ) : (
+          preferences.map(preference => (
+            <div
+              key={preference.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-border p-2"
+              data-testid={`preference-${preference.id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {describe(preference)}
+                  <Badge variant="outline">{typeLabels[preference.type]}</Badge>
+                </div>
+                {preference.note && (
+                  <div className="text-xs text-muted-foreground truncate">{preference.note}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Select
+                  value={preference.strength}
+                  onValueChange={(strength) =>
+                    strengthMutation.mutate({ id: preference.id, strength: strength as "hard" | "soft" })}
+                >
+                  <SelectTrigger className="h-8 w-24" data-testid={`select-strength-${preference.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="soft">Soft</SelectItem>
+                    <SelectItem value="hard">Hard</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => deleteMutation.mutate(preference.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-preference-${preference.id}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select
+              value={draft.type}
+              onValueChange={(type) => setDraft({ ...draft, type: type as TeacherPreferenceType })}
+            >
+              <SelectTrigger data-testid="select-preference-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(typeLabels) as TeacherPreferenceType[]).map(type => (
+                  <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Strength</Label>
+            <Select
+              value={draft.strength}
+              onValueChange={(strength) => setDraft({ ...draft, strength: strength as "hard" | "soft" })}
+            >
+              <SelectTrigger data-testid="select-preference-strength">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="soft">Soft - honoured when possible</SelectItem>
+                <SelectItem value="hard">Hard - never broken</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {draft.type === "preferred_days" && (
+          <div className="flex flex-wrap gap-3">
+            {workingDays.map(day => (
+              <label key={day} className="flex items-center gap-2 text-sm capitalize">
+                <Checkbox
+                  checked={draft.days.includes(day)}
+                  onCheckedChange={(checked) => setDraft({
+                    ...draft,
+                    days: checked ? [...draft.days, day] : draft.days.filter(d => d !== day),
+                  })}
+                  data-testid={`checkbox-preferred-day-${day}`}
+                />
+                {day}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {draft.type === "free_period" && (
+          <div className="grid grid-cols-2 gap-3">
+            <Select value={draft.day} onValueChange={(day) => setDraft({ ...draft, day: day as Weekday })}>
+              <SelectTrigger data-testid="select-free-day">
+                <SelectValue placeholder="Day" />
+              </SelectTrigger>
+              <SelectContent>
+                {workingDays.map(day => (
+                  <SelectItem key={day} value={day}>{capitalize(day)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={draft.period} onValueChange={(period) => setDraft({ ...draft, period })}>
+              <SelectTrigger data-testid="select-free-period">
+                <SelectValue placeholder="Period" />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map(slot => (
+                  <SelectItem key={slot.period} value={String(slot.period)}>
+                    Period {slot.period} ({slot.startTime})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {draft.type === "subject_priority" && (
+          <div className="grid grid-cols-3 gap-3">
+            <Select
+              value={draft.priority}
+              onValueChange={(priority) => setDraft({ ...draft, priority: priority as "prefer" | "avoid" })}
+            >
+              <SelectTrigger data-testid="select-subject-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="prefer">Prefer</SelectItem>
+                <SelectItem value="avoid">Avoid</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={draft.subjectId} onValueChange={(subjectId) => setDraft({ ...draft, subjectId })}>
+              <SelectTrigger data-testid="select-preference-subject">
+                <SelectValue placeholder="Subject" />
+              </SelectTrigger>
+              <SelectContent>
+                {subjects.map(subject => (
+                  <SelectItem key={subject.id} value={subject.id}>{subject.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Grade (any)"
+              value={draft.grade}
+              onChange={(e) => setDraft({ ...draft, grade: e.target.value })}
+              data-testid="input-preference-grade"
+            />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Note (optional)"
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            data-testid="input-preference-note"
+          />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!isDraftComplete || createMutation.isPending}
+            data-testid="button-add-preference"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
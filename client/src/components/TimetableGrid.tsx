@@ -1,15 +1,22 @@
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { useState } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
+import { describeCycleDay, useCycleDay } from "@/hooks/useCycleDay";
+import { useEffectiveTimetable, type EffectiveLessonStatus } from "@/hooks/useEffectiveTimetable";
 import { apiRequest } from "@/lib/queryClient";
+import LessonGroupCell from "@/components/LessonGroupCell";
 import React from "react";
+import { structureCycleDays, type CycleDay, type TimetableCycle } from "@shared/schema";
+import { getCurrentDateIST, formatDateIST } from "@shared/utils/dateUtils";
 
 interface TimetableEntry {
   id: string;
   day: string;
+  cycleDay?: number | null;
   period: number;
   startTime: string;
   endTime: string;
@@ -24,7 +31,19 @@ interface TimetableEntry {
     grade: string;
     section: string;
   };
-  room?: string;
+  room?: string | null;
+  blockId?: string | null;
+  lessonGroupId?: string | null;
+  lessonGroup?: {
+    name: string;
+  } | null;
+  // Set when showing a date rather than the weekly pattern
+  status?: EffectiveLessonStatus;
+  substituteTeacherId?: string | null;
+  substituteTeacher?: {
+    name: string;
+  };
+  note?: string | null;
 }
 
 interface TimeSlot {
@@ -40,14 +59,12 @@ interface TimetableStructure {
   periodsPerDay: number;
   workingDays: string[];
   timeSlots: TimeSlot[];
+  cycle?: TimetableCycle;
   isActive: boolean;
 }
 
-// Function to sort working days in proper order
-const sortWorkingDays = (days: string[]): string[] => {
-  const dayOrder = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-  return dayOrder.filter(day => days.includes(day));
-};
+// Columns are told apart by cycle day on a fortnightly or rotating timetable
+const columnKey = (column: CycleDay) => column.cycleDay ? `${column.day}-${column.cycleDay}` : column.day;
 
 // Format time to 12-hour format with AM/PM
 const formatTime12Hour = (time24: string): string => {
@@ -62,6 +79,8 @@ export default function TimetableGrid() {
   const { user } = useAuth();
   const [selectedClass, setSelectedClass] = useState<string>("");
   const [viewMode, setViewMode] = useState<"class" | "teacher">("class");
+  // A date shows that day as taught, with its cover; empty shows the weekly pattern
+  const [viewDate, setViewDate] = useState("");
 
   const { data: classes, isLoading: classesLoading } = useQuery({
     queryKey: ["/api/classes"],
@@ -73,12 +92,27 @@ export default function TimetableGrid() {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
-  // Fetch timetable structure
+  // Fetch timetable structure; a class is shown in the periods of the structure it follows
+  const structureClassId = viewMode === "class" ? selectedClass : "";
   const { data: timetableStructure, isLoading: structureLoading } = useQuery<TimetableStructure>({
+    queryKey: ["/api/timetable-structure", structureClassId],
+    queryFn: async () => {
+      const params = structureClassId ? `?classId=${structureClassId}` : "";
+      const response = await apiRequest("GET", `/api/timetable-structure${params}`);
+      return response.json();
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  // The school's main structure sets the timetable cycle every class follows
+  const { data: mainStructure } = useQuery<TimetableStructure>({
     queryKey: ["/api/timetable-structure"],
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
+  const { data: today } = useCycleDay(getCurrentDateIST());
+  const { data: viewDay } = useCycleDay(viewDate, !!viewDate);
+  const { data: effective, isLoading: effectiveLoading } = useEffectiveTimetable(viewDate, viewMode, selectedClass);
 
   const shouldFetchTimetable = Boolean(selectedClass);
   const { data: timetableData, isLoading: timetableLoading } = useQuery<TimetableEntry[]>({
@@ -99,13 +133,40 @@ export default function TimetableGrid() {
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
 
-  const getTimetableEntry = (day: string, period: number): TimetableEntry | null => {
-    if (!timetableData || !Array.isArray(timetableData)) return null;
-    return timetableData.find((entry: TimetableEntry) => 
-      entry.day === day && entry.period === period
+  const gridEntries: TimetableEntry[] | undefined = viewDate ? effective?.lessons : timetableData;
+
+  const getTimetableEntry = (column: CycleDay, period: number): TimetableEntry | null => {
+    if (!gridEntries || !Array.isArray(gridEntries)) return null;
+    return gridEntries.find((entry: TimetableEntry) => 
+      entry.day === column.day && (entry.cycleDay ?? null) === column.cycleDay && entry.period === period
     ) || null;
   };
 
+  // All entries of a lesson group taught in the same slot as the given entry
+  const getGroupEntries = (entry: TimetableEntry): TimetableEntry[] => {
+    return (gridEntries || []).filter((other: TimetableEntry) =>
+      other.lessonGroupId === entry.lessonGroupId && other.day === entry.day &&
+      other.cycleDay === entry.cycleDay && other.period === entry.period
+    );
+  };
+
+  // Rows covered by the entry of this cell: the block length for the first
+  // period of a double/triple period, 0 for the periods that follow it
+  const getRowSpan = (day: CycleDay, slotIndex: number, slots: TimeSlot[]): number => {
+    const entry = getTimetableEntry(day, slots[slotIndex].period);
+    if (!entry?.blockId) return 1;
+
+    const sameBlock = (index: number) => {
+      const slot = slots[index];
+      return !!slot && !slot.isBreak && getTimetableEntry(day, slot.period)?.blockId === entry.blockId;
+    };
+    if (sameBlock(slotIndex - 1)) return 0;
+
+    let span = 1;
+    while (sameBlock(slotIndex + span)) span++;
+    return span;
+  };
+
   const getSubjectColor = (color: string) => {
     const colorMap: Record<string, string> = {
       '#3B82F6': 'bg-blue-50 border-blue-200 text-blue-900',
@@ -120,6 +181,30 @@ export default function TimetableGrid() {
     return colorMap[color] || 'bg-gray-50 border-gray-200 text-gray-900';
   };
 
+  // On a date, lessons not taught as planned stand out from the subject colours
+  const getLessonClasses = (entry: TimetableEntry) => {
+    switch (entry.status) {
+      case "covered": return 'bg-amber-50 border-amber-400 border-2 text-amber-900';
+      case "uncovered": return 'bg-red-50 border-red-400 border-dashed border-2 text-red-900';
+      case "cancelled": return 'bg-muted border-border text-muted-foreground line-through';
+      default: return getSubjectColor(entry.subject.color);
+    }
+  };
+
+  // Who teaches the lesson on the date, from the point of view of the grid
+  const getLessonTeacherLine = (entry: TimetableEntry) => {
+    if (viewMode === "teacher") {
+      const classLabel = `${entry.class.grade}-${entry.class.section}`;
+      if (entry.status === "covered" && entry.substituteTeacherId === selectedClass) {
+        return `${classLabel} · covering for ${entry.teacher.name}`;
+      }
+      if (entry.status === "covered") return `${classLabel} · covered by ${entry.substituteTeacher?.name ?? "a substitute"}`;
+      return classLabel;
+    }
+    if (entry.status === "covered") return `${entry.substituteTeacher?.name ?? "Substitute"} (for ${entry.teacher.name})`;
+    return entry.teacher.name;
+  };
+
   if (classesLoading || teachersLoading || structureLoading) {
     return <Skeleton className="h-96 w-full" />;
   }
@@ -137,7 +222,9 @@ export default function TimetableGrid() {
     { period: 8, startTime: "13:30", endTime: "14:15" },
   ];
   
-  const sortedDays = sortWorkingDays(workingDays);
+  const sortedDays = structureCycleDays({ workingDays }, mainStructure);
+  // A date shows the one cycle day it falls on, none when there are no classes
+  const columns = viewDate ? (effective?.cycleDay ? [effective.cycleDay] : []) : sortedDays;
 
   const selectOptions = viewMode === "class" ? classes : teachers;
   const selectPlaceholder = viewMode === "class" ? "Select a class" : "Select a teacher";
@@ -167,9 +254,19 @@ export default function TimetableGrid() {
           <div>
             <div className="flex items-center gap-4">
               <div>
-                <h3 className="text-lg font-semibold">Weekly Timetable</h3>
+                <h3 className="text-lg font-semibold">{viewDate ? "Daily Timetable" : "Weekly Timetable"}</h3>
                 <p className="text-muted-foreground text-sm">
-                  {currentWeek.start} - {currentWeek.end}
+                  {viewDate ? (
+                    <>
+                      {formatDateIST(viewDate)}
+                      {viewDay && ` · ${describeCycleDay(viewDay)}`}
+                    </>
+                  ) : (
+                    <>
+                      {currentWeek.start} - {currentWeek.end}
+                      {today?.schoolDay && ` · Today is ${describeCycleDay(today)}`}
+                    </>
+                  )}
                 </p>
               </div>
               
@@ -206,6 +303,21 @@ export default function TimetableGrid() {
               </SelectContent>
             </Select>
             
+            <Input
+              type="date"
+              className="w-40"
+              value={viewDate}
+              onChange={(e) => setViewDate(e.target.value)}
+              data-testid="input-timetable-date"
+            />
+            <Button
+              variant="outline"
+              onClick={() => setViewDate(viewDate ? "" : getCurrentDateIST())}
+              data-testid="button-toggle-timetable-date"
+            >
+              {viewDate ? "Weekly" : "Today"}
+            </Button>
+
             <Button variant="outline" data-testid="button-print-timetable">
               <i className="fas fa-print mr-2"></i>
               Print
@@ -262,50 +374,68 @@ export default function TimetableGrid() {
               </div>
             </div>
           </div>
-        ) : timetableLoading ? (
+        ) : (viewDate ? effectiveLoading : timetableLoading) ? (
           <div className="space-y-4">
             {Array.from({ length: 7 }).map((_, i) => (
               <Skeleton key={i} className="h-16 w-full" />
             ))}
           </div>
+        ) : columns.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg bg-muted/20">
+            <i className="fas fa-calendar-times text-4xl mb-4"></i>
+            <p>No classes on {formatDateIST(viewDate)}{viewDay && viewDay.events.length > 0 && `: ${viewDay.events.join(", ")}`}</p>
+          </div>
         ) : (
           <div className="overflow-x-auto">
             <table className="w-full" data-testid="timetable-grid">
               <thead>
                 <tr className="border-b border-border">
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Time</th>
-                  {sortedDays.map(day => (
-                    <th key={day} className="text-left py-3 px-4 font-medium text-muted-foreground">
-                      {day.charAt(0).toUpperCase() + day.slice(1)}
+                  {columns.map(day => (
+                    <th key={columnKey(day)} className="text-left py-3 px-4 font-medium text-muted-foreground">
+                      {day.label}
                     </th>
                   ))}
                 </tr>
               </thead>
               <tbody>
-                {timeSlots.map((timeSlot: TimeSlot) => (
+                {timeSlots.map((timeSlot: TimeSlot, slotIndex: number) => (
                   <tr key={timeSlot.period} className={`border-b border-border ${timeSlot.isBreak ? 'bg-orange-50' : ''}`}>
                     <td className={`py-4 px-4 font-medium text-sm ${timeSlot.isBreak ? 'bg-orange-100 text-orange-800' : 'bg-muted/50'}`}>
                       {formatTime12Hour(timeSlot.startTime)} - {formatTime12Hour(timeSlot.endTime)}
                     </td>
                     {timeSlot.isBreak ? (
-                      <td colSpan={sortedDays.length} className="py-4 px-4 text-center bg-orange-50 font-medium text-orange-800">
+                      <td colSpan={columns.length} className="py-4 px-4 text-center bg-orange-50 font-medium text-orange-800">
                         <i className="fas fa-coffee mr-2"></i>
                         Break Time
                       </td>
                     ) : (
-                      sortedDays.map(day => {
+                      columns.map(day => {
                         const entry = getTimetableEntry(day, timeSlot.period);
+                        const rowSpan = getRowSpan(day, slotIndex, timeSlots);
+                        if (rowSpan === 0) return null;
                         return (
-                          <td key={day} className="py-4 px-4" data-testid={`cell-${day}-${timeSlot.period}`}>
-                            {entry ? (
-                              <div className={`rounded-lg p-3 border ${getSubjectColor(entry.subject.color)}`}>
+                          <td key={columnKey(day)} rowSpan={rowSpan} className="py-4 px-4" data-testid={`cell-${columnKey(day)}-${timeSlot.period}`}>
+                            {entry?.lessonGroupId ? (
+                              <LessonGroupCell entries={getGroupEntries(entry)} viewMode={viewMode} periods={rowSpan} />
+                            ) : entry ? (
+                              <div className={`rounded-lg p-3 border h-full ${getLessonClasses(entry)}`} data-status={entry.status}>
                                 <div className="font-medium text-sm">{entry.subject.name}</div>
+                                {rowSpan > 1 && (
+                                  <div className="text-xs font-medium opacity-75">{rowSpan} periods</div>
+                                )}
                                 <div className="text-xs opacity-75">
-                                  {viewMode === "class" ? entry.teacher.name : `${entry.class.grade}-${entry.class.section}`}
+                                  {getLessonTeacherLine(entry)}
                                 </div>
                                 {entry.room && (
                                   <div className="text-xs opacity-75">{entry.room}</div>
                                 )}
+                                {entry.status === "uncovered" && (
+                                  <div className="text-xs font-medium">No cover confirmed</div>
+                                )}
+                                {entry.note && entry.status !== "scheduled" && (
+                                  <div className="text-xs opacity-75">{entry.note}</div>
+                                )}
                               </div>
                             ) : (
                               <div className="h-12 flex items-center justify-center text-muted-foreground text-sm">
@@ -323,12 +453,13 @@ export default function TimetableGrid() {
           </div>
         )}
         
-        {selectedClass && timetableData && (
+        {selectedClass && gridEntries && (
           <div className="mt-6 flex items-center justify-between">
             <div className="text-sm text-muted-foreground">
               <span className="flex items-center">
                 <i className="fas fa-info-circle mr-2"></i>
-                {timetableData.length} periods scheduled
+                {gridEntries.length} periods scheduled
+                {viewDate && ` · ${gridEntries.filter(entry => entry.status === "covered").length} covered, ${gridEntries.filter(entry => entry.status === "uncovered").length} without cover`}
               </span>
             </div>
             
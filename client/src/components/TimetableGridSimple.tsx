@@ -5,10 +5,13 @@ import { useState } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
+import LessonGroupCell from "@/components/LessonGroupCell";
+import { structureCycleDays, type CycleDay, type TimetableStructure } from "@shared/schema";
 
 interface TimetableEntry {
   id: string;
   day: string;
+  cycleDay?: number | null;
   period: number;
   startTime: string;
   endTime: string;
@@ -16,6 +19,8 @@ interface TimetableEntry {
   subjectName?: string;
   className?: string;
   room?: string;
+  lessonGroupId?: string | null;
+  lessonGroup?: { name: string } | null;
 }
 
 interface TimeSlot {
@@ -40,7 +45,7 @@ export default function TimetableGridSimple() {
   });
 
   // Fetch timetable structure to get the correct time slots
-  const structureQuery = useQuery({
+  const structureQuery = useQuery<TimetableStructure>({
     queryKey: ["/api/timetable-structure"],
   });
 
@@ -93,9 +98,9 @@ export default function TimetableGridSimple() {
   // Use structure data or fallback to defaults - ensure proper day ordering
   const structureWorkingDays = timetableStructure?.workingDays || ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
   
-  // Ensure days are in proper order: Monday to Saturday
-  const dayOrder = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-  const workingDays = dayOrder.filter(day => structureWorkingDays.includes(day));
+  // Monday to Saturday, or every day of a fortnightly or rotating cycle
+  const workingDays = structureCycleDays({ workingDays: structureWorkingDays }, timetableStructure);
+  const columnKey = (column: CycleDay) => column.cycleDay ? `${column.day}-${column.cycleDay}` : column.day;
   const timeSlots = timetableStructure?.timeSlots || [
     { period: 1, startTime: "08:00", endTime: "08:45" },
     { period: 2, startTime: "08:45", endTime: "09:30" },
@@ -107,13 +112,21 @@ export default function TimetableGridSimple() {
     { period: 8, startTime: "13:30", endTime: "14:15" },
   ];
 
-  const getTimetableEntry = (day: string, period: number): TimetableEntry | null => {
+  const getTimetableEntry = (column: CycleDay, period: number): TimetableEntry | null => {
     if (!timetableData || !Array.isArray(timetableData)) return null;
     return timetableData.find((entry: TimetableEntry) => 
-      entry.day === day && entry.period === period
+      entry.day === column.day && (entry.cycleDay ?? null) === column.cycleDay && entry.period === period
     ) || null;
   };
 
+  // All entries of a lesson group taught in the same slot as the given entry
+  const getGroupEntries = (entry: TimetableEntry): TimetableEntry[] => {
+    return timetableData.filter((other: TimetableEntry) =>
+      other.lessonGroupId === entry.lessonGroupId && other.day === entry.day &&
+      other.cycleDay === entry.cycleDay && other.period === entry.period
+    );
+  };
+
   const formatTime12Hour = (time24: string): string => {
     const [hours, minutes] = time24.split(':');
     const hour24 = parseInt(hours, 10);
@@ -188,8 +201,8 @@ export default function TimetableGridSimple() {
                 <tr className="border-b border-border">
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Time</th>
                   {workingDays.map(day => (
-                    <th key={day} className="text-left py-3 px-4 font-medium text-muted-foreground">
-                      {day.charAt(0).toUpperCase() + day.slice(1)}
+                    <th key={columnKey(day)} className="text-left py-3 px-4 font-medium text-muted-foreground">
+                      {day.label}
                     </th>
                   ))}
                 </tr>
@@ -209,8 +222,10 @@ export default function TimetableGridSimple() {
                       workingDays.map(day => {
                         const entry = getTimetableEntry(day, timeSlot.period);
                         return (
-                          <td key={day} className="py-4 px-4" data-testid={`cell-${day}-${timeSlot.period}`}>
-                            {entry ? (
+                          <td key={columnKey(day)} className="py-4 px-4" data-testid={`cell-${columnKey(day)}-${timeSlot.period}`}>
+                            {entry?.lessonGroupId ? (
+                              <LessonGroupCell entries={getGroupEntries(entry)} viewMode={viewMode} />
+                            ) : entry ? (
                               <div className="rounded-lg p-3 border bg-blue-50 border-blue-200">
                                 <div className="font-medium text-sm text-blue-900">
                                   {entry.subject?.name || entry.subjectName || 'Subject'}
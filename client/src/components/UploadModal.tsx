@@ -104,7 +104,7 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
             <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary transition-colors">
               <i className="fas fa-chalkboard-teacher text-3xl text-primary mb-3"></i>
               <h4 className="font-medium mb-2">Teachers</h4>
-              <p className="text-sm text-muted-foreground mb-3">Upload teacher information and availability</p>
+              <p className="text-sm text-muted-foreground mb-3">Upload teacher information and unavailable periods</p>
               <Input
                 type="file"
                 accept=".csv"
@@ -175,7 +175,7 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h5 className="font-medium text-blue-900 mb-2">CSV Format Requirements</h5>
             <ul className="text-sm text-blue-700 space-y-1">
-              <li>• Teachers: name, email, subjects, max_load, availability</li>
+              <li>• Teachers: name, email, subjects, max_load (optional: unavailable_periods, max_daily_periods, max_consecutive_periods)</li>
               <li>• Classes: grade, section, student_count, required_subjects, room</li>
               <li>• Subjects: name, code, periods_per_week, color</li>
             </ul>
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CalendarDay, Substitution, TimetableEntry } from "@shared/schema";
+import { getCurrentDateIST } from "@shared/utils/dateUtils";
+
+// How often today's cover plan is refreshed, to follow substitutes accepting and declining
+const TODAY_REFRESH_MS = 15000;
+
+// Cover created when a teacher was marked away
+export interface CoverPlanSummary {
+  lessons: number;
+  proposed: number;
+  dates: string[];
+}
+
+export interface CoverPlanDay {
+  date: string;
+  lessons: number;
+  pending: number;
+  confirmed: number;
+  unassigned: number;
+}
+
+export interface CoverPlan {
+  date: string;
+  day?: CalendarDay;
+  cover: { substitution: Substitution; entry: TimetableEntry }[];
+}
+
+// e.g. "5 lessons need cover; substitutes were proposed for 4"
+export function describeCover(cover: CoverPlanSummary): string {
+  const lessons = `${cover.lessons} lesson${cover.lessons !== 1 ? "s" : ""}`;
+  return cover.proposed === cover.lessons
+    ? `${lessons} need${cover.lessons === 1 ? "s" : ""} cover; substitutes were proposed for all of them`
+    : `${lessons} need${cover.lessons === 1 ? "s" : ""} cover; substitutes were proposed for ${cover.proposed}`;
+}
+
+// A day's cover plan: the substitutions of a date (YYYY-MM-DD) with their lessons
+export function useCoverPlan(date: string) {
+  return useQuery<CoverPlan>({
+    queryKey: ["/api/cover-plans", date],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/cover-plans/${date}`);
+      return response.json();
+    },
+    enabled: !!date,
+    refetchInterval: date === getCurrentDateIST() ? TODAY_REFRESH_MS : false,
+  });
+}
+
+// Where the substitute stands on a cover, e.g. "Accepted", "Awaiting reply" or "Confirmed by an admin"
+export function substituteResponse(substitution: Substitution): string | null {
+  if (!substitution.substituteTeacherId || substitution.status === "rejected") return null;
+  if (substitution.acceptedAt) return "Accepted";
+  return substitution.overriddenBy ? "Confirmed by an admin" : "Awaiting reply";
+}
+
+export interface ScoreComponent {
+  factor: "subject" | "familiarity" | "freePeriods" | "weekCovers" | "termCovers";
+  points: number;
+  detail: string;
+}
+
+export interface SubstituteSuggestions {
+  date: string;
+  timetableEntryId: string;
+  // Best first
+  suggestions: { teacherId: string; name: string; score: number; components: ScoreComponent[] }[];
+  excluded: { teacherId: string; name: string; reason: string }[];
+}
+
+// Ranked substitutes for a lesson on a date, fetched once enabled (e.g. when a picker opens)
+export function useSubstituteSuggestions(timetableEntryId: string, date: string, enabled = true) {
+  return useQuery<SubstituteSuggestions>({
+    queryKey: ["/api/substitutions/suggestions", timetableEntryId, date],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/substitutions/suggestions/${timetableEntryId}?date=${date}`);
+      return response.json();
+    },
+    enabled: enabled && !!date,
+  });
+}
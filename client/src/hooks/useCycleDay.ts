@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Weekday } from "@shared/schema";
+
+export interface ResolvedCycleDay {
+  date: string;
+  // False on weekends, holidays and other days without lessons
+  schoolDay: boolean;
+  // Teachers are expected at school; also true on days without lessons such as exam days
+  workingDay: boolean;
+  // Half days: the last period taught
+  lastPeriod: number | null;
+  // Names of the academic calendar entries of the day, terms aside
+  events: string[];
+  cycleDay?: number | null;
+  day?: Weekday;
+  // e.g. "Monday", "Monday B" or "Day 4"
+  label?: string;
+}
+
+// The cycle day's label, or what the academic calendar has on instead
+export function describeCycleDay(day: ResolvedCycleDay | undefined): string {
+  if (!day) return "";
+  const events = day.events.length > 0 ? day.events.join(", ") : undefined;
+  if (day.schoolDay) {
+    const halfDay = day.lastPeriod ? `, until period ${day.lastPeriod}` : "";
+    return `${day.label}${halfDay}${events ? ` · ${events}` : ""}`;
+  }
+  return events ?? "Not a school day";
+}
+
+// The day of the school's timetable cycle a date (YYYY-MM-DD) falls on
+export function useCycleDay(date: string, enabled = true) {
+  return useQuery<ResolvedCycleDay>({
+    queryKey: ["/api/timetable-structure/cycle-day", date],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/timetable-structure/cycle-day?date=${date}`);
+      return response.json();
+    },
+    enabled: enabled && !!date,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
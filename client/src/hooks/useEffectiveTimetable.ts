@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CalendarDay, CycleDay, TimetableEntry } from "@shared/schema";
+
+export type EffectiveLessonStatus = "scheduled" | "covered" | "uncovered" | "cancelled";
+
+export interface EffectiveLesson extends TimetableEntry {
+  status: EffectiveLessonStatus;
+  substitutionId: string | null;
+  substituteTeacherId: string | null;
+  // Why the lesson isn't taught as planned
+  note: string | null;
+  teacher: { name: string };
+  substituteTeacher?: { name: string };
+  subject: { name: string; color: string };
+  class: { grade: string; section: string };
+  lessonGroup?: { name: string };
+}
+
+export interface EffectiveTimetable {
+  date: string;
+  day: CalendarDay;
+  // Null when there are no classes
+  cycleDay: CycleDay | null;
+  lessons: EffectiveLesson[];
+}
+
+// A date's (YYYY-MM-DD) lessons as taught, for a class or a teacher, with confirmed cover
+export function useEffectiveTimetable(date: string, viewMode: "class" | "teacher", id: string) {
+  return useQuery<EffectiveTimetable>({
+    queryKey: ["/api/timetable/effective", date, viewMode, id],
+    queryFn: async () => {
+      const param = viewMode === "class" ? "classId" : "teacherId";
+      const response = await apiRequest("GET", `/api/timetable/effective?date=${date}&${param}=${id}`);
+      return response.json();
+    },
+    enabled: !!date && !!id,
+  });
+}
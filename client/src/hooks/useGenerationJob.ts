@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type GenerationJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+export type GenerationPhase = "loading" | "searching" | "repairing" | "optimizing" | "saving";
+
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  phase: GenerationPhase | null;
+  percent: number;
+  bestScore: number | null;
+  cancelRequested: boolean;
+  result: { success: boolean; message: string } | null;
+}
+
+interface GenerateRequest {
+  classId?: string;
+  seed?: number;
+  // More than one generates draft candidates to compare instead of a new active timetable
+  candidates?: number;
+}
+
+const isFinished = (job?: GenerationJob) =>
+  !!job && (job.status === "completed" || job.status === "failed" || job.status === "cancelled");
+
+// Submits a timetable generation job and follows it until it finishes
+export function useGenerationJob() {
+  const { toast } = useToast();
+  const [jobId, setJobId] = useState<string | null>(null);
+  const reportedJobId = useRef<string | null>(null);
+
+  const { data: job } = useQuery<GenerationJob>({
+    queryKey: ["/api/timetable/jobs", jobId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/timetable/jobs/${jobId}`);
+      return response.json();
+    },
+    enabled: !!jobId,
+    refetchInterval: query => (isFinished(query.state.data) ? false : 1000),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (request: GenerateRequest) => {
+      const response = await apiRequest("POST", "/api/timetable/generate", request);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setJobId(data.jobId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start timetable generation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/timetable/jobs/${jobId}/cancel`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/timetable/jobs", jobId], data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel timetable generation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Announce the outcome once, and refresh everything that shows the timetable
+  useEffect(() => {
+    if (!job || !isFinished(job) || reportedJobId.current === job.id) return;
+    reportedJobId.current = job.id;
+
+    if (job.status === "completed") {
+      toast({
+        title: "Success",
+        description: job.result?.message,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const queryKey = query.queryKey;
+          return queryKey[0] === "/api/timetable/detailed" ||
+                 queryKey[0] === "/api/timetable" ||
+                 queryKey[0] === "/api/stats" ||
+                 queryKey[0] === "/api/timetable/candidates" ||
+                 queryKey[0] === "/api/teacher-preferences";
+        }
+      });
+    } else if (job.status === "cancelled") {
+      toast({
+        title: "Generation Cancelled",
+        description: job.result?.message,
+      });
+    } else {
+      toast({
+        title: "Generation Failed",
+        description: job.result?.message,
+        variant: "destructive",
+      });
+    }
+  }, [job, toast]);
+
+  const isRunning = startMutation.isPending || (!!jobId && !isFinished(job));
+
+  return {
+    job: isRunning ? job : undefined,
+    isRunning,
+    start: (request: GenerateRequest = {}) => startMutation.mutate(request),
+    cancel: () => cancelMutation.mutate(),
+    isCancelling: cancelMutation.isPending || !!job?.cancelRequested,
+  };
+}
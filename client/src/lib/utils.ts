@@ -1,6 +1,28 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { CalendarEventType, RoomType } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export const roomTypeLabels: Record<RoomType, string> = {
+  classroom: "Classroom",
+  science_lab: "Science Lab",
+  chemistry_lab: "Chemistry Lab",
+  physics_lab: "Physics Lab",
+  biology_lab: "Biology Lab",
+  computer_room: "Computer Room",
+  gym: "Gym",
+  music_room: "Music Room",
+  art_room: "Art Room",
+  library: "Library",
+}
+
+export const calendarEventTypeLabels: Record<CalendarEventType, string> = {
+  term: "Term",
+  holiday: "Holiday",
+  exam_period: "Exam Period",
+  half_day: "Half Day",
+  event: "Event",
+}
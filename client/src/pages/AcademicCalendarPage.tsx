@@ -0,0 +1,560 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { calendarEventTypes, type AcademicCalendarEvent, type CalendarEventType } from "@shared/schema";
+import { formatDateIST, getCurrentDateIST } from "@shared/utils/dateUtils";
+import { calendarEventTypeLabels } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, CalendarDays, Upload } from "lucide-react";
+import { z } from "zod";
+
+const calendarEventFormSchema = z.object({
+  type: z.enum(calendarEventTypes),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+  lastPeriod: z.coerce.number().int().min(1).max(20).optional(),
+  notes: z.string().trim(),
+})
+  .refine(data => data.endDate >= data.startDate, {
+    message: "The end date is before the start date",
+    path: ["endDate"],
+  })
+  .refine(data => data.type !== "half_day" || !!data.lastPeriod, {
+    message: "Choose the last period taught on the half day",
+    path: ["lastPeriod"],
+  });
+
+type CalendarEventFormData = z.infer<typeof calendarEventFormSchema>;
+
+const emptyEvent: CalendarEventFormData = {
+  type: "holiday",
+  name: "",
+  startDate: "",
+  endDate: "",
+  lastPeriod: undefined,
+  notes: "",
+};
+
+const typeBadgeVariant: Record<CalendarEventType, "default" | "secondary" | "destructive" | "outline"> = {
+  term: "default",
+  holiday: "destructive",
+  exam_period: "secondary",
+  half_day: "secondary",
+  event: "outline",
+};
+
+const formatRange = (event: AcademicCalendarEvent) =>
+  event.startDate === event.endDate
+    ? formatDateIST(event.startDate)
+    : `${formatDateIST(event.startDate)} – ${formatDateIST(event.endDate)}`;
+
+// What an entry does to the timetable, for the list
+const effectOf = (event: AcademicCalendarEvent) => {
+  switch (event.type) {
+    case "term": return "Classes on working days";
+    case "holiday": return "No school";
+    case "exam_period": return "No timetabled classes";
+    case "half_day": return `Classes until period ${event.lastPeriod}`;
+    case "event": return "No change";
+  }
+};
+
+export default function AcademicCalendarPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<AcademicCalendarEvent | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importType, setImportType] = useState<CalendarEventType>("holiday");
+  const [showPast, setShowPast] = useState(false);
+
+  const form = useForm<CalendarEventFormData>({
+    resolver: zodResolver(calendarEventFormSchema),
+    defaultValues: emptyEvent,
+  });
+  const selectedType = form.watch("type");
+
+  const { data: events = [], isLoading } = useQuery<AcademicCalendarEvent[]>({
+    queryKey: ["/api/academic-calendar"],
+    enabled: !!user?.schoolId,
+  });
+
+  const today = getCurrentDateIST();
+  const shownEvents = showPast ? events : events.filter(event => event.endDate >= today);
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingEvent(null);
+    form.reset(emptyEvent);
+  };
+
+  // Calendar changes move the timetable cycle and what counts as a school day
+  const invalidateCalendar = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/academic-calendar"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/timetable-structure/cycle-day"] });
+  };
+
+  const saveEventMutation = useMutation({
+    mutationFn: async (data: CalendarEventFormData) => {
+      const body = {
+        ...data,
+        lastPeriod: data.type === "half_day" ? data.lastPeriod : null,
+        notes: data.notes || null,
+      };
+      const response = editingEvent
+        ? await apiRequest("PUT", `/api/academic-calendar/${editingEvent.id}`, body)
+        : await apiRequest("POST", "/api/academic-calendar", { ...body, schoolId: user?.schoolId });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCalendar();
+      toast({
+        title: "Success",
+        description: editingEvent ? "Calendar entry updated successfully" : "Calendar entry created successfully",
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save calendar entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEventMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/academic-calendar/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCalendar();
+      toast({
+        title: "Success",
+        description: "Calendar entry deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete calendar entry",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, defaultType }: { file: File; defaultType: CalendarEventType }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('defaultType', defaultType);
+
+      const token = localStorage.getItem("authToken");
+      const response = await fetch("/api/academic-calendar/import", {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error([data.message, ...(data.errors ?? [])].join(". "));
+      }
+      return data as { message: string; errors: string[] };
+    },
+    onSuccess: (data) => {
+      invalidateCalendar();
+      toast({
+        title: "Import Successful",
+        description: [data.message, ...data.errors].join(". "),
+      });
+      setIsImportOpen(false);
+      setImportFile(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startAdd = () => {
+    setEditingEvent(null);
+    form.reset(emptyEvent);
+    setIsDialogOpen(true);
+  };
+
+  const startEdit = (event: AcademicCalendarEvent) => {
+    setEditingEvent(event);
+    form.reset({
+      type: event.type,
+      name: event.name,
+      startDate: event.startDate,
+      endDate: event.endDate,
+      lastPeriod: event.lastPeriod ?? undefined,
+      notes: event.notes ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to manage the academic calendar.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <CalendarDays className="h-8 w-8" />
+            Academic Calendar
+          </h1>
+          <p className="text-muted-foreground">
+            Terms, holidays, exam periods and half days decide which days have classes
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-calendar">
+            <Upload className="mr-2 h-4 w-4" />
+            Import ICS
+          </Button>
+          <Button onClick={startAdd} data-testid="button-add-calendar-event">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Entry
+          </Button>
+        </div>
+      </div>
+
+      {/* Calendar Entries */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>{showPast ? "All Entries" : "Current and Upcoming"}</CardTitle>
+              <CardDescription>
+                Once a term is added, days outside all terms have no classes. Leave is only recorded on working days.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setShowPast(!showPast)} data-testid="button-toggle-past">
+              {showPast ? "Hide past entries" : "Show past entries"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : shownEvents.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarDays className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No calendar entries</h3>
+              <p className="text-muted-foreground mb-4">
+                Without a calendar every working day of the timetable structure has classes
+              </p>
+              <Button onClick={startAdd} data-testid="button-add-first-calendar-event">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Entry
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Timetable</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownEvents.map((event) => (
+                  <TableRow key={event.id} data-testid={`row-calendar-event-${event.id}`}>
+                    <TableCell className="font-medium" data-testid={`text-calendar-event-name-${event.id}`}>
+                      {event.name}
+                      {event.notes && (
+                        <p className="text-xs text-muted-foreground font-normal whitespace-pre-line">{event.notes}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={typeBadgeVariant[event.type]}>{calendarEventTypeLabels[event.type]}</Badge>
+                    </TableCell>
+                    <TableCell data-testid={`text-calendar-event-dates-${event.id}`}>
+                      {formatRange(event)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {effectOf(event)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startEdit(event)}
+                          data-testid={`button-edit-${event.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              data-testid={`button-delete-${event.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Calendar Entry</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{event.name}"? Leave already recorded for those dates is kept.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <DialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteEventMutation.mutate(event.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                data-testid={`button-confirm-delete-${event.id}`}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </DialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Entry Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingEvent ? "Edit Calendar Entry" : "Add Calendar Entry"}</DialogTitle>
+            <DialogDescription>
+              Entries cover their start and end dates and every day in between
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveEventMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-calendar-event-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {calendarEventTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {calendarEventTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Diwali" {...field} data-testid="input-calendar-event-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            // Most entries are a single day
+                            if (!form.getValues("endDate")) form.setValue("endDate", e.target.value);
+                          }}
+                          data-testid="input-calendar-event-start"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-calendar-event-end" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {selectedType === "half_day" && (
+                <FormField
+                  control={form.control}
+                  name="lastPeriod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Period Taught</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={20}
+                          {...field}
+                          value={field.value ?? ""}
+                          data-testid="input-calendar-event-last-period"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} data-testid="input-calendar-event-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={saveEventMutation.isPending}
+                  data-testid="button-save-calendar-event"
+                >
+                  {saveEventMutation.isPending ? "Saving..." : editingEvent ? "Update Entry" : "Create Entry"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Dialog */}
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import ICS Calendar</DialogTitle>
+            <DialogDescription>
+              Entries are sorted into terms, holidays, exams and half days by their titles. Importing the same file again updates the entries instead of adding them twice.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Calendar File (.ics)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+                data-testid="input-import-calendar-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Import Other Entries As</Label>
+              <Select value={importType} onValueChange={(value) => setImportType(value as CalendarEventType)}>
+                <SelectTrigger data-testid="select-import-default-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {calendarEventTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {calendarEventTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Choose Holiday for a public holiday calendar.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => importFile && importMutation.mutate({ file: importFile, defaultType: importType })}
+              disabled={!importFile || importMutation.isPending}
+              data-testid="button-confirm-import-calendar"
+            >
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -38,12 +39,26 @@ import {
   Download,
   FileSpreadsheet,
   Image,
-  Loader2
+  Loader2,
+  Lock,
+  Unlock
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { format } from "date-fns";
 import { z } from "zod";
+import {
+  MAX_BLOCK_LENGTH,
+  blocksFitWeeklyFrequency,
+  structureCycleDays,
+  type CycleDay,
+  type SubjectPlacementRules,
+  type TimetableStructure,
+} from "@shared/schema";
+import LessonGroupCell from "@/components/LessonGroupCell";
+import GenerationProgress from "@/components/GenerationProgress";
+import PlacementRulesFields, { describePlacementRules } from "@/components/PlacementRulesFields";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
 import * as XLSX from 'xlsx';
 import html2canvas from 'html2canvas';
 
@@ -76,6 +91,7 @@ interface Subject {
   code: string;
   periodsPerWeek: number;
   color: string;
+  placementRules?: SubjectPlacementRules;
   schoolId: string;
 }
 
@@ -85,6 +101,7 @@ interface TimetableEntry {
   teacherId: string;
   subjectId: string;
   day: string;
+  cycleDay?: number | null;
   period: number;
   startTime: string;
   endTime: string;
@@ -95,6 +112,9 @@ interface TimetableEntry {
     name: string;
     code: string;
   };
+  lessonGroupId?: string | null;
+  lessonGroup?: { name: string } | null;
+  isLocked?: boolean;
 }
 
 interface TimetableValidityPeriod {
@@ -110,7 +130,10 @@ interface ClassSubjectAssignment {
   classId: string;
   subjectId: string;
   weeklyFrequency: number;
+  blockLength: number;
+  blocksPerWeek: number;
   assignedTeacherId?: string | null;
+  placementRules?: SubjectPlacementRules | null;
   subject: Subject;
   assignedTeacher?: Teacher;
 }
@@ -124,8 +147,17 @@ const subjectAssignmentSchema = z.object({
   subjectId: z.string().min(1, "Subject is required"),
   weeklyFrequency: z.number().min(1, "Weekly frequency must be at least 1").max(8, "Weekly frequency cannot exceed 8 periods"),
 });
+const subjectPeriodsSchema = z.object({
+  weeklyFrequency: z.number().min(1, "Weekly frequency must be at least 1").max(8, "Weekly frequency cannot exceed 8 periods"),
+  blockLength: z.number().int().min(1).max(MAX_BLOCK_LENGTH, `Blocks cannot be longer than ${MAX_BLOCK_LENGTH} periods`),
+  blocksPerWeek: z.number().int().min(0, "Blocks per week cannot be negative"),
+}).refine(blocksFitWeeklyFrequency, {
+  message: "Blocks cannot take more periods than the weekly frequency",
+  path: ["blocksPerWeek"],
+});
 type TeacherAssignmentFormData = z.infer<typeof teacherAssignmentSchema>;
 type SubjectAssignmentFormData = z.infer<typeof subjectAssignmentSchema>;
+type SubjectPeriodsFormData = z.infer<typeof subjectPeriodsSchema>;
 
 export default function ClassDetailPage() {
   const [, params] = useRoute("/classes/:id");
@@ -136,6 +168,8 @@ export default function ClassDetailPage() {
   const [isSubjectAssignDialogOpen, setIsSubjectAssignDialogOpen] = useState(false);
   const [isEditSubjectDialogOpen, setIsEditSubjectDialogOpen] = useState(false);
   const [editingSubject, setEditingSubject] = useState<any>(null);
+  // This class's own placement rules for the subject being edited, null to follow the subject
+  const [placementOverride, setPlacementOverride] = useState<SubjectPlacementRules | null>(null);
   
   const [isDeleteSubjectDialogOpen, setIsDeleteSubjectDialogOpen] = useState(false);
   const [subjectToDelete, setSubjectToDelete] = useState<any>(null);
@@ -159,12 +193,12 @@ export default function ClassDetailPage() {
     },
   });
 
-  const editSubjectForm = useForm<{ weeklyFrequency: number }>({
-    resolver: zodResolver(z.object({
-      weeklyFrequency: z.number().min(1, "Weekly frequency must be at least 1").max(8, "Weekly frequency cannot exceed 8 periods")
-    })),
+  const editSubjectForm = useForm<SubjectPeriodsFormData>({
+    resolver: zodResolver(subjectPeriodsSchema),
     defaultValues: {
       weeklyFrequency: 1,
+      blockLength: 1,
+      blocksPerWeek: 0,
     },
   });
 
@@ -228,8 +262,18 @@ export default function ClassDetailPage() {
     queryKey: ["/api/subjects"],
   });
 
-  // Timetable structure query
+  // Timetable structure the class follows
   const { data: timetableStructure } = useQuery({
+    queryKey: ["/api/timetable-structure", classId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/timetable-structure?classId=${classId}`);
+      return response.json();
+    },
+    enabled: !!user?.schoolId && !!classId,
+  });
+
+  // The school's main structure sets the timetable cycle
+  const { data: mainStructure } = useQuery<TimetableStructure>({
     queryKey: ["/api/timetable-structure"],
     enabled: !!user?.schoolId,
   });
@@ -299,8 +343,11 @@ export default function ClassDetailPage() {
   });
 
   const updateSubjectMutation = useMutation({
-    mutationFn: async (data: { weeklyFrequency: number }) => {
-      const response = await apiRequest("PUT", `/api/class-subject-assignments/${editingSubject?.id}`, data);
+    mutationFn: async (data: SubjectPeriodsFormData) => {
+      const response = await apiRequest("PUT", `/api/class-subject-assignments/${editingSubject?.id}`, {
+        ...data,
+        placementRules: placementOverride,
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -364,52 +411,33 @@ export default function ClassDetailPage() {
     },
   });
 
-  const generateTimetableMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/timetable/generate", {
-        classId: classId
+  const toggleLockMutation = useMutation({
+    mutationFn: async (entry: TimetableEntry) => {
+      const response = await apiRequest("PATCH", `/api/timetable/entries/${entry.id}/lock`, {
+        isLocked: !entry.isLocked,
       });
       return response.json();
     },
-    onSuccess: (result) => {
-      if (result.success) {
-        toast({
-          title: "Success",
-          description: result.message,
-        });
-        // Invalidate all timetable-related queries and force refetch
-        queryClient.invalidateQueries({ 
-          predicate: (query) => {
-            const queryKey = query.queryKey;
-            return queryKey[0] === "/api/timetable/detailed" || 
-                   queryKey[0] === "/api/timetable";
-          }
-        });
-        
-        // Force refetch of the current timetable data
-        queryClient.refetchQueries({ 
-          predicate: (query) => {
-            const queryKey = query.queryKey;
-            return queryKey[0] === "/api/timetable/detailed";
-          }
-        });
-      } else {
-        toast({
-          title: "Error",
-          description: result.message,
-          variant: "destructive",
-        });
-      }
+    onSuccess: (_, entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timetable/detailed"] });
+      toast({
+        title: "Success",
+        description: entry.isLocked
+          ? "Lesson unlocked; it may move when the timetable is regenerated"
+          : "Lesson locked; it stays in place when the timetable is regenerated",
+      });
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to generate timetable",
+        description: error.message || "Failed to update lesson lock",
         variant: "destructive",
       });
     },
   });
 
+  const generation = useGenerationJob();
+
   if (classError) {
     return (
       <div className="container mx-auto py-8">
@@ -469,17 +497,21 @@ export default function ClassDetailPage() {
     { period: 8, startTime: "13:30", endTime: "14:15" },
   ];
 
-  // Sort working days in proper order
-  const sortWorkingDays = (days: string[]): string[] => {
-    const dayOrder = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-    return dayOrder.filter(day => days.includes(day));
-  };
-
-  const sortedWorkingDays = sortWorkingDays(workingDays);
+  // Working days in order, or every day of a fortnightly or rotating cycle
+  const sortedWorkingDays = structureCycleDays({ workingDays }, mainStructure);
+  const columnKey = (column: CycleDay) => column.cycleDay ? `${column.day}-${column.cycleDay}` : column.day;
 
-  const getTimetableEntry = (day: string, period: number) => {
+  const getTimetableEntry = (column: CycleDay, period: number) => {
     return timetableData.find(entry => 
-      entry.day === day.toLowerCase() && entry.period === period
+      entry.day === column.day && (entry.cycleDay ?? null) === column.cycleDay && entry.period === period
+    );
+  };
+
+  // All entries of a lesson group taught in the same slot as the given entry
+  const getGroupEntries = (entry: TimetableEntry): TimetableEntry[] => {
+    return timetableData.filter((other: TimetableEntry) =>
+      other.lessonGroupId === entry.lessonGroupId && other.day === entry.day &&
+      other.cycleDay === entry.cycleDay && other.period === entry.period
     );
   };
 
@@ -550,7 +582,7 @@ export default function ClassDetailPage() {
     const wb = XLSX.utils.book_new();
     
     // Prepare data in grid format
-    const headers = ['Period', ...sortedWorkingDays.map(day => day.charAt(0).toUpperCase() + day.slice(1))];
+    const headers = ['Period', ...sortedWorkingDays.map(day => day.label)];
     
     const data: any[][] = [
       ['WEEKLY TIMETABLE'],
@@ -571,7 +603,11 @@ export default function ClassDetailPage() {
         
         sortedWorkingDays.forEach(day => {
           const entry = getTimetableEntry(day, timeSlot.period);
-          if (entry) {
+          if (entry?.lessonGroupId) {
+            row.push(getGroupEntries(entry)
+              .map(groupEntry => `${groupEntry.subject?.name || 'Unknown'} - ${groupEntry.teacher?.name || 'Unknown'}`)
+              .join(' / '));
+          } else if (entry) {
             row.push(`${entry.subject?.name || 'Unknown'} - ${entry.teacher?.name || 'Unknown'}`);
           } else {
             row.push('Free Period');
@@ -667,10 +703,13 @@ export default function ClassDetailPage() {
   const handleEditSubject = (assignment: any) => {
     setEditingSubject(assignment);
     editSubjectForm.setValue("weeklyFrequency", assignment.weeklyFrequency);
+    editSubjectForm.setValue("blockLength", assignment.blockLength || 1);
+    editSubjectForm.setValue("blocksPerWeek", assignment.blocksPerWeek || 0);
+    setPlacementOverride(assignment.placementRules ?? null);
     setIsEditSubjectDialogOpen(true);
   };
 
-  const handleUpdateSubject = (data: { weeklyFrequency: number }) => {
+  const handleUpdateSubject = (data: SubjectPeriodsFormData) => {
     updateSubjectMutation.mutate(data);
   };
 
@@ -839,6 +878,12 @@ export default function ClassDetailPage() {
                     </div>
                     <div className="text-xs text-muted-foreground mt-1">
                       {assignment.weeklyFrequency} periods/week
+                      {assignment.blockLength > 1 && assignment.blocksPerWeek > 0 && (
+                        <> · {assignment.blocksPerWeek} × {assignment.blockLength}-period block{assignment.blocksPerWeek !== 1 ? "s" : ""}</>
+                      )}
+                      {assignment.placementRules && (
+                        <> · {describePlacementRules(assignment.placementRules)} (class rule)</>
+                      )}
                     </div>
                   </div>
                   <Button
@@ -1011,21 +1056,30 @@ export default function ClassDetailPage() {
               </DropdownMenu>
               
               <Button 
-                onClick={() => generateTimetableMutation.mutate()}
-                disabled={classSubjectAssignments.length === 0 || classTeachers.length === 0 || generateTimetableMutation.isPending}
+                onClick={() => generation.start({ classId })}
+                disabled={classSubjectAssignments.length === 0 || classTeachers.length === 0 || generation.isRunning}
                 data-testid="button-refresh-timetable"
               >
-                {generateTimetableMutation.isPending ? (
+                {generation.isRunning ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
                   <i className="fas fa-sync mr-2"></i>
                 )}
-                {generateTimetableMutation.isPending ? "Generating..." : "Refresh Table"}
+                {generation.isRunning ? "Generating..." : "Refresh Table"}
               </Button>
             </div>
           </div>
         </CardHeader>
         <CardContent>
+          {generation.isRunning && (
+            <div className="mb-4">
+              <GenerationProgress
+                job={generation.job}
+                onCancel={generation.cancel}
+                isCancelling={generation.isCancelling}
+              />
+            </div>
+          )}
           {classSubjectAssignments.length === 0 ? (
             <div className="text-center py-8">
               <Calendar className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -1056,16 +1110,16 @@ export default function ClassDetailPage() {
                 Click "Refresh Table" to automatically generate timetable based on assigned subjects and teachers.
               </p>
               <Button 
-                onClick={() => generateTimetableMutation.mutate()}
-                disabled={generateTimetableMutation.isPending}
+                onClick={() => generation.start({ classId })}
+                disabled={generation.isRunning}
                 data-testid="button-generate-timetable"
               >
-                {generateTimetableMutation.isPending ? (
+                {generation.isRunning ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
                   <i className="fas fa-magic mr-2"></i>
                 )}
-                {generateTimetableMutation.isPending ? "Generating..." : "Generate Timetable"}
+                {generation.isRunning ? "Generating..." : "Generate Timetable"}
               </Button>
             </div>
           ) : (
@@ -1078,8 +1132,8 @@ export default function ClassDetailPage() {
                       Time Period
                     </th>
                     {sortedWorkingDays.map(day => (
-                      <th key={day} className="border border-border p-3 bg-muted text-center font-medium">
-                        {day.charAt(0).toUpperCase() + day.slice(1)}
+                      <th key={columnKey(day)} className="border border-border p-3 bg-muted text-center font-medium">
+                        {day.label}
                       </th>
                     ))}
                   </tr>
@@ -1111,8 +1165,22 @@ export default function ClassDetailPage() {
                         sortedWorkingDays.map(day => {
                           const entry = getTimetableEntry(day, timeSlot.period);
                           return (
-                            <td key={day} className="border border-border p-3 text-center" data-testid={`timetable-${day}-${timeSlot.period}`}>
-                              {entry ? (
+                            <td key={columnKey(day)} className="relative border border-border p-3 text-center" data-testid={`timetable-${columnKey(day)}-${timeSlot.period}`}>
+                              {entry && (
+                                <button
+                                  type="button"
+                                  onClick={() => toggleLockMutation.mutate(entry)}
+                                  disabled={toggleLockMutation.isPending}
+                                  className={`absolute top-1 right-1 z-10 rounded p-0.5 ${entry.isLocked ? 'text-amber-600' : 'text-muted-foreground/40 hover:text-muted-foreground'}`}
+                                  title={entry.isLocked ? "Locked – kept when regenerating. Click to unlock" : "Lock this lesson in place"}
+                                  data-testid={`button-lock-${columnKey(day)}-${timeSlot.period}`}
+                                >
+                                  {entry.isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                </button>
+                              )}
+                              {entry?.lessonGroupId ? (
+                                <LessonGroupCell entries={getGroupEntries(entry)} viewMode="class" />
+                              ) : entry ? (
                                 <div className={`rounded-lg p-2 border ${getSubjectColor((entry.subject as any)?.color || '#3B82F6')}`}>
                                   <div className="font-medium text-sm">
                                     {entry.subject?.name || 'Unknown Subject'}
@@ -1409,6 +1477,75 @@ export default function ClassDetailPage() {
                 )}
               />
 
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editSubjectForm.control}
+                  name="blockLength"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Block Length (Periods)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          max={MAX_BLOCK_LENGTH}
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                          data-testid="input-edit-block-length"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editSubjectForm.control}
+                  name="blocksPerWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Blocks per Week</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          data-testid="input-edit-blocks-per-week"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Blocks are scheduled as consecutive periods that never span a break, e.g. a double period for a practical. The remaining periods are scheduled as single periods.
+              </p>
+
+              <div className="space-y-3 rounded-lg border border-border p-3">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <Checkbox
+                    checked={!!placementOverride}
+                    onCheckedChange={(checked) =>
+                      setPlacementOverride(checked ? { ...editingSubject?.subject?.placementRules } : null)}
+                    data-testid="checkbox-override-placement"
+                  />
+                  Own placement rules for this class
+                </label>
+                {placementOverride ? (
+                  <PlacementRulesFields
+                    value={placementOverride}
+                    onChange={setPlacementOverride}
+                    idPrefix="class-subject"
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Follows the subject's rules: {describePlacementRules(editingSubject?.subject?.placementRules)}
+                  </p>
+                )}
+              </div>
+
               <DialogFooter>
                 <Button
                   type="button"
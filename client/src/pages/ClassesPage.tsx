@@ -47,6 +47,7 @@ import { Plus, Edit, Trash2, Users, BookOpen, MapPin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { TimetableStructure } from "@shared/schema";
 
 interface Class {
   id: string;
@@ -56,6 +57,8 @@ interface Class {
   requiredSubjects: string[];
   schoolId: string;
   room?: string;
+  building?: string | null;
+  structureId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -68,6 +71,9 @@ const classFormSchema = z.object({
   ),
   studentCount: z.coerce.number().min(0, "Student count must be 0 or greater"),
   room: z.string().optional(),
+  building: z.string().optional(),
+  // null follows the school's main timetable structure
+  structureId: z.string().nullable().optional(),
 });
 
 type ClassFormData = z.infer<typeof classFormSchema>;
@@ -89,6 +95,10 @@ export default function ClassesPage() {
     queryKey: ["/api/classes"],
   });
 
+  const { data: structures = [] } = useQuery<TimetableStructure[]>({
+    queryKey: ["/api/timetable-structures"],
+  });
+
   const addForm = useForm<ClassFormData>({
     resolver: zodResolver(classFormSchema),
     defaultValues: {
@@ -96,6 +106,7 @@ export default function ClassesPage() {
       section: "",
       studentCount: 0,
       room: "",
+      building: "",
     },
   });
 
@@ -106,6 +117,7 @@ export default function ClassesPage() {
       section: "",
       studentCount: 0,
       room: "",
+      building: "",
     },
   });
 
@@ -139,6 +151,8 @@ export default function ClassesPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      // The class may now follow another structure's periods
+      queryClient.invalidateQueries({ queryKey: ["/api/timetable-structure"] });
       setEditingClass(null);
       editForm.reset();
       toast({
@@ -326,6 +340,8 @@ export default function ClassesPage() {
       section: classItem.section,
       studentCount: classItem.studentCount,
       room: classItem.room || "",
+      building: classItem.building || "",
+      structureId: classItem.structureId ?? null,
     });
   };
 
@@ -437,6 +453,23 @@ export default function ClassesPage() {
                     )}
                   />
                 </div>
+                <FormField
+                  control={addForm.control}
+                  name="building"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Building (Optional)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          placeholder="e.g., Junior block" 
+                          {...field} 
+                          data-testid="input-building"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="flex justify-end space-x-2">
                   <Button
                     type="button"
@@ -623,10 +656,12 @@ export default function ClassesPage() {
                             {classItem.studentCount} student{classItem.studentCount !== 1 ? 's' : ''}
                           </span>
                         </div>
-                        {classItem.room && (
+                        {(classItem.room || classItem.building) && (
                           <div className="flex items-center space-x-2">
                             <MapPin className="h-3 w-3 text-muted-foreground" />
-                            <span className="text-xs text-muted-foreground">{classItem.room}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {[classItem.room, classItem.building].filter(Boolean).join(", ")}
+                            </span>
                           </div>
                         )}
                       </CardContent>
@@ -684,6 +719,51 @@ export default function ClassesPage() {
                     )}
                   />
                 </div>
+                <FormField
+                  control={editForm.control}
+                  name="building"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Building (Optional)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          placeholder="e.g., Junior block" 
+                          {...field} 
+                          data-testid="input-edit-building"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {structures.length > 1 && (
+                  <FormField
+                    control={editForm.control}
+                    name="structureId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Timetable Structure</FormLabel>
+                        <Select
+                          value={structures.some(s => s.id === field.value && !s.isActive) ? field.value! : "main"}
+                          onValueChange={(value) => field.onChange(value === "main" ? null : value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-edit-structure">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="main">Main structure</SelectItem>
+                            {structures.filter(s => !s.isActive).map(s => (
+                              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
                 <div className="flex justify-end space-x-2">
                   <Button
                     type="button"
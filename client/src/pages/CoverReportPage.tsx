@@ -0,0 +1,479 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AcademicCalendarEvent, Class, Subject } from "@shared/schema";
+import { getCurrentDateIST, formatDateIST } from "@shared/utils/dateUtils";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Scale, Download, Printer } from "lucide-react";
+import * as XLSX from "xlsx";
+
+type ReportPeriod = "month" | "term" | "custom";
+
+interface CoverLedgerEntry {
+  substitutionId: string;
+  date: string;
+  period: number;
+  classId: string;
+  subjectId: string;
+  originalTeacherId: string;
+  substituteTeacherId: string;
+}
+
+interface CoverWeek {
+  start: string;
+  covers: number;
+}
+
+interface CoverLedgerRow {
+  teacherId: string;
+  name: string;
+  given: number;
+  received: number;
+  weeklyCoverCap: number | null;
+  busiestWeek: CoverWeek | null;
+  weeksOverCap: CoverWeek[];
+}
+
+interface CoverLedger {
+  from: string;
+  to: string;
+  weeklyCoverCap: number | null;
+  rows: CoverLedgerRow[];
+  entries: CoverLedgerEntry[];
+}
+
+// First and last day of a month given as YYYY-MM
+const monthRange = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, "0")}` };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export default function CoverReportPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const today = getCurrentDateIST();
+  const [reportPeriod, setReportPeriod] = useState<ReportPeriod>("month");
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [termId, setTermId] = useState("");
+  const [customRange, setCustomRange] = useState(monthRange(today.slice(0, 7)));
+  const [selectedTeacherId, setSelectedTeacherId] = useState<string | null>(null);
+  const [capInput, setCapInput] = useState("");
+
+  const { data: events = [] } = useQuery<AcademicCalendarEvent[]>({
+    queryKey: ["/api/academic-calendar"],
+    enabled: !!user?.schoolId,
+  });
+  const terms = events
+    .filter(event => event.type === "term")
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const term = terms.find(t => t.id === termId);
+
+  const range = reportPeriod === "month"
+    ? monthRange(month)
+    : reportPeriod === "term"
+      ? (term ? { from: term.startDate, to: term.endDate } : null)
+      : customRange;
+
+  const { data: ledger, isLoading } = useQuery<CoverLedger>({
+    queryKey: ["/api/cover-ledger", range?.from, range?.to],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/cover-ledger?from=${range!.from}&to=${range!.to}`);
+      return response.json();
+    },
+    enabled: !!user?.schoolId && !!range && range.from <= range.to,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user?.schoolId,
+  });
+
+  // Default to the term under way, else the latest one
+  useEffect(() => {
+    if (termId || terms.length === 0) return;
+    const current = terms.find(t => t.startDate <= today && today <= t.endDate) ?? terms[terms.length - 1];
+    setTermId(current.id);
+  }, [terms, termId, today]);
+
+  useEffect(() => {
+    setCapInput(ledger?.weeklyCoverCap?.toString() ?? "");
+  }, [ledger?.weeklyCoverCap]);
+
+  const rows = ledger?.rows ?? [];
+  const entries = ledger?.entries ?? [];
+  const selectedRow = rows.find(row => row.teacherId === selectedTeacherId);
+  const teacherName = (id: string) => rows.find(row => row.teacherId === id)?.name ?? "Unknown";
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name ?? "Unknown";
+  const className = (id: string) => {
+    const classData = classes.find(c => c.id === id);
+    return classData ? `${classData.grade}-${classData.section}` : "Unknown";
+  };
+  const capLabel = (cap: number | null) => (cap === null ? "No cap" : `${cap} / week`);
+  const weekLabel = (week: CoverWeek) =>
+    `${formatDateIST(week.start, { month: "short", day: "numeric", year: undefined })} (${week.covers})`;
+  const periodLabel = range
+    ? `${formatDateIST(range.from)} – ${formatDateIST(range.to)}`
+    : "No term selected";
+
+  const teacherEntries = selectedTeacherId
+    ? entries.filter(entry => entry.substituteTeacherId === selectedTeacherId || entry.originalTeacherId === selectedTeacherId)
+    : [];
+
+  const saveCapMutation = useMutation({
+    mutationFn: async (weeklyCoverCap: number | null) => {
+      const response = await apiRequest("PUT", "/api/cover-ledger/settings", { weeklyCoverCap });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cover-ledger"] });
+      toast({
+        title: "Cover Cap Saved",
+        description: "Teachers without a cap of their own are planned for cover within it",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the cover cap",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveCap = () => {
+    const cap = capInput.trim() === "" ? null : Number(capInput);
+    if (cap !== null && (!Number.isInteger(cap) || cap < 0)) {
+      toast({
+        title: "Invalid Cap",
+        description: "The cover cap must be a whole number of lessons, or empty for no cap",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveCapMutation.mutate(cap);
+  };
+
+  const ledgerRows = () => rows.map(row => [
+    row.name,
+    row.given,
+    row.received,
+    row.given - row.received,
+    capLabel(row.weeklyCoverCap),
+    row.busiestWeek ? weekLabel(row.busiestWeek) : "-",
+    row.weeksOverCap.length,
+  ]);
+  const ledgerHeader = ["Teacher", "Covers Given", "Covers Received", "Net", "Weekly Cap", "Busiest Week", "Weeks Over Cap"];
+
+  const entryRows = () => entries.map(entry => [
+    formatDateIST(entry.date),
+    entry.period,
+    className(entry.classId),
+    subjectName(entry.subjectId),
+    teacherName(entry.originalTeacherId),
+    teacherName(entry.substituteTeacherId),
+  ]);
+  const entryHeader = ["Date", "Period", "Class", "Subject", "Absent Teacher", "Covered By"];
+
+  const handleExportCsv = () => {
+    if (!ledger) return;
+
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["COVER DUTY REPORT"],
+      [periodLabel],
+      [],
+      ledgerHeader,
+      ...ledgerRows(),
+      [],
+      entryHeader,
+      ...entryRows(),
+    ]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, sheet, "Cover");
+    XLSX.writeFile(wb, `Cover_Report_${ledger.from}_${ledger.to}.csv`, { bookType: "csv" });
+  };
+
+  // A print-ready copy of the report; the browser's print dialog saves it as PDF
+  const handleExportPdf = () => {
+    if (!ledger) return;
+
+    const table = (header: string[], body: (string | number)[][]) => `
+      <table>
+        <thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join("")}</tr></thead>
+        <tbody>${body.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join("")}</tr>`).join("")}</tbody>
+      </table>`;
+
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      toast({
+        title: "Error",
+        description: "Allow pop-ups to export the report as PDF",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Cover Duty Report ${escapeHtml(periodLabel)}</title>
+          <style>
+            body { font-family: sans-serif; font-size: 12px; margin: 24px; }
+            h1 { font-size: 18px; margin-bottom: 4px; }
+            h2 { font-size: 14px; margin-top: 24px; }
+            table { border-collapse: collapse; width: 100%; }
+            th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+            th { background: #f3f3f3; }
+          </style>
+        </head>
+        <body>
+          <h1>Cover Duty Report</h1>
+          <div>${escapeHtml(periodLabel)} · School cap: ${escapeHtml(capLabel(ledger.weeklyCoverCap))}</div>
+          <h2>Cover per Teacher</h2>
+          ${table(ledgerHeader, ledgerRows())}
+          <h2>Confirmed Cover</h2>
+          ${table(entryHeader, entryRows())}
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to view the cover report.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Scale className="h-8 w-8" />
+            Cover Report
+          </h1>
+          <p className="text-muted-foreground">
+            Confirmed cover each teacher has given and received, against their weekly cover cap
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportCsv} disabled={!ledger} data-testid="button-export-cover-csv">
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportPdf} disabled={!ledger} data-testid="button-export-cover-pdf">
+            <Printer className="mr-2 h-4 w-4" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Period and cap */}
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-end gap-6">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Report</div>
+            <Select value={reportPeriod} onValueChange={(value) => setReportPeriod(value as ReportPeriod)}>
+              <SelectTrigger className="w-36" data-testid="select-report-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Month</SelectItem>
+                <SelectItem value="term">Term</SelectItem>
+                <SelectItem value="custom">Date Range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {reportPeriod === "month" && (
+            <Input
+              type="month"
+              className="w-44"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              data-testid="input-report-month"
+            />
+          )}
+          {reportPeriod === "term" && (
+            terms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add terms to the academic calendar to report by term</p>
+            ) : (
+              <Select value={termId} onValueChange={setTermId}>
+                <SelectTrigger className="w-56" data-testid="select-report-term">
+                  <SelectValue placeholder="Select a term" />
+                </SelectTrigger>
+                <SelectContent>
+                  {terms.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )
+          )}
+          {reportPeriod === "custom" && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-44"
+                value={customRange.from}
+                onChange={(e) => e.target.value && setCustomRange({ ...customRange, from: e.target.value })}
+                data-testid="input-report-from"
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="date"
+                className="w-44"
+                value={customRange.to}
+                onChange={(e) => e.target.value && setCustomRange({ ...customRange, to: e.target.value })}
+                data-testid="input-report-to"
+              />
+            </div>
+          )}
+
+          <div className="space-y-1 ml-auto">
+            <div className="text-sm font-medium">School cover cap (lessons / week)</div>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                className="w-28"
+                placeholder="No cap"
+                value={capInput}
+                onChange={(e) => setCapInput(e.target.value)}
+                data-testid="input-weekly-cover-cap"
+              />
+              <Button onClick={handleSaveCap} disabled={saveCapMutation.isPending} data-testid="button-save-cover-cap">
+                {saveCapMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cover per Teacher</CardTitle>
+          <CardDescription>
+            {periodLabel} · {entries.length} confirmed lesson{entries.length !== 1 ? "s" : ""} covered. Select a teacher to see their cover.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No teachers to report on</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {ledgerHeader.map(heading => (
+                    <TableHead key={heading}>{heading}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow
+                    key={row.teacherId}
+                    className={`cursor-pointer ${row.teacherId === selectedTeacherId ? "bg-muted" : ""}`}
+                    onClick={() => setSelectedTeacherId(row.teacherId === selectedTeacherId ? null : row.teacherId)}
+                    data-testid={`row-cover-ledger-${row.teacherId}`}
+                  >
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{row.given}</TableCell>
+                    <TableCell>{row.received}</TableCell>
+                    <TableCell>{row.given - row.received > 0 ? `+${row.given - row.received}` : row.given - row.received}</TableCell>
+                    <TableCell>{capLabel(row.weeklyCoverCap)}</TableCell>
+                    <TableCell>{row.busiestWeek ? weekLabel(row.busiestWeek) : "-"}</TableCell>
+                    <TableCell>
+                      {row.weeksOverCap.length > 0 ? (
+                        <Badge variant="destructive" title={row.weeksOverCap.map(weekLabel).join(", ")}>
+                          {row.weeksOverCap.length}
+                        </Badge>
+                      ) : (
+                        "0"
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* A teacher's cover */}
+      {selectedRow && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedRow.name}</CardTitle>
+            <CardDescription>
+              Covered {selectedRow.given} lesson{selectedRow.given !== 1 ? "s" : ""} and had {selectedRow.received} covered
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {teacherEntries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">No confirmed cover in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {entryHeader.map(heading => (
+                      <TableHead key={heading}>{heading}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {teacherEntries.map(entry => (
+                    <TableRow key={entry.substitutionId}>
+                      <TableCell>{formatDateIST(entry.date)}</TableCell>
+                      <TableCell>{entry.period}</TableCell>
+                      <TableCell>{className(entry.classId)}</TableCell>
+                      <TableCell>{subjectName(entry.subjectId)}</TableCell>
+                      <TableCell>{teacherName(entry.originalTeacherId)}</TableCell>
+                      <TableCell>
+                        {teacherName(entry.substituteTeacherId)}
+                        {entry.substituteTeacherId === selectedTeacherId && (
+                          <Badge variant="secondary" className="ml-2">Given</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
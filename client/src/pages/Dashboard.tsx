@@ -3,8 +3,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
+import { describeCycleDay, useCycleDay } from "@/hooks/useCycleDay";
 import { School, Users, Activity, Shield, CheckCircle, XCircle, CalendarDays } from "lucide-react";
-import { formatDistanceToNow, format } from "date-fns";
+import { formatDistanceToNow } from "date-fns";
 import { getCurrentDateIST, formatDateIST } from "@shared/utils/dateUtils";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -73,10 +74,7 @@ export default function Dashboard() {
     enabled: isSchoolAdmin,
   });
 
-  const { data: timetableStructure } = useQuery({
-    queryKey: ["/api/timetable-structure"],
-    enabled: isSchoolAdmin,
-  });
+  const { data: todayCycleDay } = useCycleDay(today, isSchoolAdmin);
 
   const { data: todayAttendance = [] } = useQuery<TeacherAttendance[]>({
     queryKey: ["/api/teacher-attendance", today],
@@ -87,9 +85,8 @@ export default function Dashboard() {
     enabled: isSchoolAdmin,
   });
   
-  // Check if today is an active school day
-  const todayDayName = format(new Date(), 'EEEE').toLowerCase(); // Gets day name like 'monday'
-  const isActiveDay = timetableStructure?.workingDays?.includes(todayDayName) || false;
+  // Check if today is an active school day (not a weekend or a holiday)
+  const isActiveDay = todayCycleDay?.workingDay || false;
 
   // Use the same logic as TeacherView - check each teacher's status
   const getTeacherAttendanceStatus = (teacherId: string) => {
@@ -366,8 +363,8 @@ export default function Dashboard() {
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">
                     {isActiveDay 
-                      ? `Present today (${formatDateIST(today, { month: 'short', day: 'numeric' })})`
-                      : "Not a school day"
+                      ? `Present today (${formatDateIST(today, { month: 'short', day: 'numeric' })}, ${describeCycleDay(todayCycleDay)})`
+                      : describeCycleDay(todayCycleDay) || "Not a school day"
                     }
                   </p>
                   {isActiveDay && teachersWithoutAttendance.length > 0 && (
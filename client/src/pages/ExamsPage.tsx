@@ -0,0 +1,1020 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { Class, ExamInvigilation, ExamPaper, ExamSeat, ExamSeries, ExamSitting, Room, Subject, Teacher } from "@shared/schema";
+import { formatDateIST } from "@shared/utils/dateUtils";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, ClipboardList, Download, Wand2 } from "lucide-react";
+import * as XLSX from "xlsx";
+import { z } from "zod";
+
+const seriesFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+  studentsPerInvigilator: z.coerce.number().int().min(1).max(500),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "The end date is before the start date",
+  path: ["endDate"],
+});
+
+type SeriesFormData = z.infer<typeof seriesFormSchema>;
+
+const paperFormSchema = z.object({
+  subjectId: z.string().min(1, "Subject is required"),
+  grade: z.string().min(1, "Grade is required"),
+  name: z.string().trim().max(100),
+  durationMinutes: z.coerce.number().int().min(15).max(480),
+  earliestDate: z.string(),
+  latestDate: z.string(),
+}).refine(data => !data.earliestDate || !data.latestDate || data.latestDate >= data.earliestDate, {
+  message: "The latest date is before the earliest date",
+  path: ["latestDate"],
+});
+
+type PaperFormData = z.infer<typeof paperFormSchema>;
+
+const emptySeries: SeriesFormData = { name: "", startDate: "", endDate: "", studentsPerInvigilator: 30 };
+const emptyPaper: PaperFormData = { subjectId: "", grade: "", name: "", durationMinutes: 120, earliestDate: "", latestDate: "" };
+
+const defaultSittings: ExamSitting[] = [
+  { name: "Morning", startTime: "09:00", endTime: "12:00" },
+  { name: "Afternoon", startTime: "13:30", endTime: "16:30" },
+];
+
+interface ExamScheduleSummary {
+  scheduled: number;
+  unplaced: { paperId: string; label: string; reason: string }[];
+  duties: number;
+  shortages: { date: string; sitting: number; roomId: string; needed: number; assigned: number }[];
+}
+
+interface ExamSchedule {
+  series: ExamSeries;
+  papers: ExamPaper[];
+  seats: ExamSeat[];
+  invigilations: ExamInvigilation[];
+}
+
+// Chronological order of (date, sitting) pairs
+const bySitting = <T extends { date: string | null; sitting: number | null }>(a: T, b: T) =>
+  (a.date ?? "").localeCompare(b.date ?? "") || (a.sitting ?? 0) - (b.sitting ?? 0);
+
+export default function ExamsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedSeriesId, setSelectedSeriesId] = useState<string>("");
+  const [isSeriesDialogOpen, setIsSeriesDialogOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<ExamSeries | null>(null);
+  const [sittings, setSittings] = useState<ExamSitting[]>(defaultSittings);
+  const [hallIds, setHallIds] = useState<string[]>([]);
+  const [isPaperDialogOpen, setIsPaperDialogOpen] = useState(false);
+  const [editingPaper, setEditingPaper] = useState<ExamPaper | null>(null);
+  const [lastRun, setLastRun] = useState<ExamScheduleSummary | null>(null);
+
+  const seriesForm = useForm<SeriesFormData>({
+    resolver: zodResolver(seriesFormSchema),
+    defaultValues: emptySeries,
+  });
+
+  const paperForm = useForm<PaperFormData>({
+    resolver: zodResolver(paperFormSchema),
+    defaultValues: emptyPaper,
+  });
+
+  const { data: seriesList = [], isLoading } = useQuery<ExamSeries[]>({
+    queryKey: ["/api/exam-series"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: teachers = [] } = useQuery<Teacher[]>({
+    queryKey: ["/api/teachers"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: schedule } = useQuery<ExamSchedule>({
+    queryKey: ["/api/exam-series", selectedSeriesId, "schedule"],
+    enabled: !!selectedSeriesId,
+  });
+
+  // Start on the most recent series
+  useEffect(() => {
+    if (!selectedSeriesId && seriesList.length > 0) {
+      setSelectedSeriesId(seriesList[seriesList.length - 1].id);
+    }
+  }, [seriesList, selectedSeriesId]);
+
+  const selectedSeries = seriesList.find(series => series.id === selectedSeriesId);
+  const papers = schedule?.papers ?? [];
+  const grades = useMemo(() => Array.from(new Set(classes.map(c => c.grade))).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })), [classes]);
+
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name ?? "Unknown";
+  const roomName = (id: string) => rooms.find(r => r.id === id)?.name ?? "Unknown";
+  const teacherName = (id: string) => teachers.find(t => t.id === id)?.name ?? "Unknown";
+  const className = (id: string) => {
+    const classData = classes.find(c => c.id === id);
+    return classData ? `${classData.grade}-${classData.section}` : "Unknown";
+  };
+  const paperLabel = (paper: ExamPaper) =>
+    `Grade ${paper.grade} ${subjectName(paper.subjectId)}${paper.name ? ` (${paper.name})` : ""}`;
+  const sittingLabel = (sitting: number | null) => {
+    const details = sitting !== null ? schedule?.series.sittings[sitting] : undefined;
+    return details ? `${details.name} ${details.startTime}–${details.endTime}` : "";
+  };
+
+  const seatingRows = useMemo(() => {
+    const paperById = new Map(papers.map(paper => [paper.id, paper]));
+    return (schedule?.seats ?? [])
+      .map(seat => ({ seat, paper: paperById.get(seat.paperId)! }))
+      .filter(row => row.paper)
+      .sort((a, b) => bySitting(a.paper, b.paper) || roomName(a.seat.roomId).localeCompare(roomName(b.seat.roomId)) || a.seat.seatFrom - b.seat.seatFrom);
+  }, [schedule, papers, rooms]);
+
+  const duties = useMemo(
+    () => [...(schedule?.invigilations ?? [])].sort((a, b) => bySitting(a, b) || roomName(a.roomId).localeCompare(roomName(b.roomId))),
+    [schedule, rooms]
+  );
+
+  const dutyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const duty of duties) counts.set(duty.teacherId, (counts.get(duty.teacherId) ?? 0) + 1);
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || teacherName(a[0]).localeCompare(teacherName(b[0])));
+  }, [duties, teachers]);
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/exam-series"] });
+  };
+
+  const closeSeriesDialog = () => {
+    setIsSeriesDialogOpen(false);
+    setEditingSeries(null);
+    seriesForm.reset(emptySeries);
+  };
+
+  const closePaperDialog = () => {
+    setIsPaperDialogOpen(false);
+    setEditingPaper(null);
+    paperForm.reset(emptyPaper);
+  };
+
+  const saveSeriesMutation = useMutation({
+    mutationFn: async (data: SeriesFormData) => {
+      const body = { ...data, sittings, hallIds };
+      const response = editingSeries
+        ? await apiRequest("PUT", `/api/exam-series/${editingSeries.id}`, body)
+        : await apiRequest("POST", "/api/exam-series", { ...body, schoolId: user?.schoolId });
+      return response.json() as Promise<ExamSeries>;
+    },
+    onSuccess: (series) => {
+      invalidateSchedule();
+      setSelectedSeriesId(series.id);
+      toast({
+        title: "Success",
+        description: editingSeries ? "Exam series updated successfully" : "Exam series created successfully",
+      });
+      closeSeriesDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save exam series",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSeriesMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/exam-series/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedSeriesId("");
+      setLastRun(null);
+      invalidateSchedule();
+      toast({
+        title: "Success",
+        description: "Exam series deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete exam series",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const savePaperMutation = useMutation({
+    mutationFn: async (data: PaperFormData) => {
+      const body = {
+        ...data,
+        name: data.name || null,
+        earliestDate: data.earliestDate || null,
+        latestDate: data.latestDate || null,
+      };
+      const response = editingPaper
+        ? await apiRequest("PUT", `/api/exam-papers/${editingPaper.id}`, body)
+        : await apiRequest("POST", `/api/exam-series/${selectedSeriesId}/papers`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSchedule();
+      toast({
+        title: "Success",
+        description: editingPaper ? "Exam paper updated successfully" : "Exam paper added successfully",
+      });
+      closePaperDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save exam paper",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePaperMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/exam-papers/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSchedule();
+      toast({
+        title: "Success",
+        description: "Exam paper deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete exam paper",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (seriesId: string) => {
+      const response = await apiRequest("POST", `/api/exam-series/${seriesId}/schedule`);
+      return response.json() as Promise<ExamScheduleSummary>;
+    },
+    onSuccess: (summary) => {
+      setLastRun(summary);
+      invalidateSchedule();
+      const unplaced = summary.unplaced.length > 0 ? `, ${summary.unplaced.length} could not be placed` : "";
+      toast({
+        title: "Exams Scheduled",
+        description: `${summary.scheduled} papers scheduled${unplaced}; ${summary.duties} invigilation duties assigned`,
+        variant: summary.unplaced.length > 0 || summary.shortages.length > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to schedule exams",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startAddSeries = () => {
+    setEditingSeries(null);
+    seriesForm.reset(emptySeries);
+    setSittings(defaultSittings);
+    setHallIds([]);
+    setIsSeriesDialogOpen(true);
+  };
+
+  const startEditSeries = (series: ExamSeries) => {
+    setEditingSeries(series);
+    seriesForm.reset({
+      name: series.name,
+      startDate: series.startDate,
+      endDate: series.endDate,
+      studentsPerInvigilator: series.studentsPerInvigilator,
+    });
+    setSittings(series.sittings);
+    setHallIds(series.hallIds);
+    setIsSeriesDialogOpen(true);
+  };
+
+  const startAddPaper = () => {
+    setEditingPaper(null);
+    paperForm.reset(emptyPaper);
+    setIsPaperDialogOpen(true);
+  };
+
+  const startEditPaper = (paper: ExamPaper) => {
+    setEditingPaper(paper);
+    paperForm.reset({
+      subjectId: paper.subjectId,
+      grade: paper.grade,
+      name: paper.name ?? "",
+      durationMinutes: paper.durationMinutes,
+      earliestDate: paper.earliestDate ?? "",
+      latestDate: paper.latestDate ?? "",
+    });
+    setIsPaperDialogOpen(true);
+  };
+
+  const updateSitting = (index: number, changes: Partial<ExamSitting>) => {
+    setSittings(sittings.map((sitting, i) => (i === index ? { ...sitting, ...changes } : sitting)));
+  };
+
+  const sittingsValid = sittings.length > 0 && sittings.every(s => s.name.trim() && s.endTime > s.startTime);
+
+  const exportRosters = () => {
+    if (!schedule || (seatingRows.length === 0 && duties.length === 0)) {
+      toast({
+        title: "No Data",
+        description: "Schedule the exams before exporting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const wb = XLSX.utils.book_new();
+
+    const seating: any[][] = [
+      ['SEATING PLAN'],
+      ['Exam Series: ' + schedule.series.name],
+      [],
+      ['Date', 'Sitting', 'Hall', 'Paper', 'Duration (min)', 'Class', 'Seats'],
+      ...seatingRows.map(({ seat, paper }) => [
+        formatDateIST(paper.date!),
+        sittingLabel(paper.sitting),
+        roomName(seat.roomId),
+        paperLabel(paper),
+        paper.durationMinutes,
+        className(seat.classId),
+        `${seat.seatFrom}–${seat.seatTo}`,
+      ]),
+    ];
+    const seatingSheet = XLSX.utils.aoa_to_sheet(seating);
+    seatingSheet['!cols'] = [{ wch: 14 }, { wch: 22 }, { wch: 18 }, { wch: 30 }, { wch: 14 }, { wch: 10 }, { wch: 10 }];
+    XLSX.utils.book_append_sheet(wb, seatingSheet, 'Seating');
+
+    const roster: any[][] = [
+      ['INVIGILATION DUTY ROSTER'],
+      ['Exam Series: ' + schedule.series.name],
+      [],
+      ['Date', 'Sitting', 'Hall', 'Invigilator'],
+      ...duties.map(duty => [
+        formatDateIST(duty.date),
+        sittingLabel(duty.sitting),
+        roomName(duty.roomId),
+        teacherName(duty.teacherId),
+      ]),
+      [],
+      ['Invigilator', 'Duties'],
+      ...dutyCounts.map(([teacherId, count]) => [teacherName(teacherId), count]),
+    ];
+    const rosterSheet = XLSX.utils.aoa_to_sheet(roster);
+    rosterSheet['!cols'] = [{ wch: 24 }, { wch: 22 }, { wch: 18 }, { wch: 24 }];
+    XLSX.utils.book_append_sheet(wb, rosterSheet, 'Invigilation');
+
+    const fileName = `Exams_${schedule.series.name.replace(/[^a-zA-Z0-9-]/g, '_')}.xlsx`;
+    XLSX.writeFile(wb, fileName);
+
+    toast({
+      title: "Export Successful",
+      description: "Seating plan and duty roster exported to Excel successfully",
+    });
+  };
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to schedule exams.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <ClipboardList className="h-8 w-8" />
+            Exams
+          </h1>
+          <p className="text-muted-foreground">
+            Schedule exam papers into halls without clashes and share out invigilation duties
+          </p>
+        </div>
+        <Button onClick={startAddSeries} data-testid="button-add-exam-series">
+          <Plus className="mr-2 h-4 w-4" />
+          New Series
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : seriesList.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <ClipboardList className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">No exam series</h3>
+            <p className="text-muted-foreground mb-4">
+              Create a series for each round of exams, e.g. the mid-year exams
+            </p>
+            <Button onClick={startAddSeries} data-testid="button-add-first-exam-series">
+              <Plus className="mr-2 h-4 w-4" />
+              New Series
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Series */}
+          <Card>
+            <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+              <Select value={selectedSeriesId} onValueChange={(value) => { setSelectedSeriesId(value); setLastRun(null); }}>
+                <SelectTrigger className="w-72" data-testid="select-exam-series">
+                  <SelectValue placeholder="Choose an exam series" />
+                </SelectTrigger>
+                <SelectContent>
+                  {seriesList.map((series) => (
+                    <SelectItem key={series.id} value={series.id}>
+                      {series.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedSeries && (
+                <>
+                  <span className="text-sm text-muted-foreground">
+                    {formatDateIST(selectedSeries.startDate)} – {formatDateIST(selectedSeries.endDate)} · {selectedSeries.hallIds.length} halls
+                    {selectedSeries.scheduledAt && ` · scheduled ${new Date(selectedSeries.scheduledAt).toLocaleString()}`}
+                  </span>
+                  <div className="flex gap-2 ml-auto">
+                    <Button variant="outline" size="sm" onClick={() => startEditSeries(selectedSeries)} data-testid="button-edit-exam-series">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" data-testid="button-delete-exam-series">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Exam Series</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{selectedSeries.name}"? Its papers, seating plan and duty roster are deleted with it.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <DialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteSeriesMutation.mutate(selectedSeries.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            data-testid="button-confirm-delete-exam-series"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </DialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                    <Button variant="outline" onClick={exportRosters} data-testid="button-export-exam-rosters">
+                      <Download className="mr-2 h-4 w-4" />
+                      Export
+                    </Button>
+                    <Button
+                      onClick={() => scheduleMutation.mutate(selectedSeries.id)}
+                      disabled={scheduleMutation.isPending || papers.length === 0}
+                      data-testid="button-schedule-exams"
+                    >
+                      <Wand2 className="mr-2 h-4 w-4" />
+                      {scheduleMutation.isPending ? "Scheduling..." : "Schedule Exams"}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Problems from the last run */}
+          {lastRun && (lastRun.unplaced.length > 0 || lastRun.shortages.length > 0) && (
+            <Card className="border-destructive">
+              <CardHeader>
+                <CardTitle>Needs Attention</CardTitle>
+                <CardDescription>
+                  Widen the paper's dates, add halls or sittings, or lower the students per invigilator, then schedule again
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {lastRun.unplaced.map((paper) => (
+                  <p key={paper.paperId} data-testid={`text-unplaced-${paper.paperId}`}>
+                    <span className="font-medium">{paper.label}</span>: {paper.reason}
+                  </p>
+                ))}
+                {lastRun.shortages.map((shortage) => (
+                  <p key={`${shortage.date}-${shortage.sitting}-${shortage.roomId}`}>
+                    <span className="font-medium">{roomName(shortage.roomId)}, {formatDateIST(shortage.date)} {sittingLabel(shortage.sitting)}</span>:
+                    {" "}{shortage.assigned} of {shortage.needed} invigilators available
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Papers */}
+          {selectedSeries && (
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>Papers</CardTitle>
+                    <CardDescription>
+                      Each paper is sat by the classes of its grade that take the subject. A class sits at most one paper a day.
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" onClick={startAddPaper} data-testid="button-add-exam-paper">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Paper
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {papers.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No papers in this series yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Paper</TableHead>
+                        <TableHead>Duration</TableHead>
+                        <TableHead>Allowed Dates</TableHead>
+                        <TableHead>Scheduled</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...papers].sort(bySitting).map((paper) => (
+                        <TableRow key={paper.id} data-testid={`row-exam-paper-${paper.id}`}>
+                          <TableCell className="font-medium">{paperLabel(paper)}</TableCell>
+                          <TableCell>{paper.durationMinutes} min</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {paper.earliestDate || paper.latestDate
+                              ? `${paper.earliestDate ? formatDateIST(paper.earliestDate) : "Start"} – ${paper.latestDate ? formatDateIST(paper.latestDate) : "End"}`
+                              : "Any"}
+                          </TableCell>
+                          <TableCell data-testid={`text-exam-paper-slot-${paper.id}`}>
+                            {paper.date ? (
+                              `${formatDateIST(paper.date)}, ${sittingLabel(paper.sitting)}`
+                            ) : (
+                              <Badge variant="outline">Not scheduled</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button variant="outline" size="sm" onClick={() => startEditPaper(paper)} data-testid={`button-edit-${paper.id}`}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => deletePaperMutation.mutate(paper.id)}
+                                data-testid={`button-delete-${paper.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Seating Plan */}
+          {seatingRows.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Seating Plan</CardTitle>
+                <CardDescription>Seats of each hall given to each class, per sitting</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Sitting</TableHead>
+                      <TableHead>Hall</TableHead>
+                      <TableHead>Paper</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead>Seats</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {seatingRows.map(({ seat, paper }) => (
+                      <TableRow key={seat.id}>
+                        <TableCell>{formatDateIST(paper.date!)}</TableCell>
+                        <TableCell>{sittingLabel(paper.sitting)}</TableCell>
+                        <TableCell>{roomName(seat.roomId)}</TableCell>
+                        <TableCell>{paperLabel(paper)}</TableCell>
+                        <TableCell>{className(seat.classId)}</TableCell>
+                        <TableCell>{seat.seatFrom}–{seat.seatTo}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Invigilation */}
+          {duties.length > 0 && (
+            <div className="grid gap-6 lg:grid-cols-3">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Invigilation Duties</CardTitle>
+                  <CardDescription>Nobody invigilates a hall where a subject they teach is being sat</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Sitting</TableHead>
+                        <TableHead>Hall</TableHead>
+                        <TableHead>Invigilator</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {duties.map((duty) => (
+                        <TableRow key={duty.id}>
+                          <TableCell>{formatDateIST(duty.date)}</TableCell>
+                          <TableCell>{sittingLabel(duty.sitting)}</TableCell>
+                          <TableCell>{roomName(duty.roomId)}</TableCell>
+                          <TableCell>{teacherName(duty.teacherId)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Duties per Teacher</CardTitle>
+                  <CardDescription>Duties are shared out as evenly as possible</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Teacher</TableHead>
+                        <TableHead className="text-right">Duties</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dutyCounts.map(([teacherId, count]) => (
+                        <TableRow key={teacherId} data-testid={`row-duty-count-${teacherId}`}>
+                          <TableCell>{teacherName(teacherId)}</TableCell>
+                          <TableCell className="text-right">{count}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Add / Edit Series Dialog */}
+      <Dialog open={isSeriesDialogOpen} onOpenChange={(open) => !open && closeSeriesDialog()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSeries ? "Edit Exam Series" : "New Exam Series"}</DialogTitle>
+            <DialogDescription>
+              Exams are only held on working days of the academic calendar between these dates
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...seriesForm}>
+            <form onSubmit={seriesForm.handleSubmit((data) => saveSeriesMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={seriesForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Mid-Year Exams" {...field} data-testid="input-exam-series-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={seriesForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-exam-series-start" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={seriesForm.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-exam-series-end" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={seriesForm.control}
+                  name="studentsPerInvigilator"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Students per Invigilator</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={500} {...field} data-testid="input-exam-series-ratio" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <Label>Sittings</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={sittings.length >= 4}
+                    onClick={() => setSittings([...sittings, { name: "", startTime: "", endTime: "" }])}
+                    data-testid="button-add-sitting"
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Sitting
+                  </Button>
+                </div>
+                {sittings.map((sitting, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                    <Input
+                      placeholder="e.g., Morning"
+                      value={sitting.name}
+                      onChange={(e) => updateSitting(index, { name: e.target.value })}
+                      data-testid={`input-sitting-name-${index}`}
+                    />
+                    <Input
+                      type="time"
+                      value={sitting.startTime}
+                      onChange={(e) => updateSitting(index, { startTime: e.target.value })}
+                      data-testid={`input-sitting-start-${index}`}
+                    />
+                    <Input
+                      type="time"
+                      value={sitting.endTime}
+                      onChange={(e) => updateSitting(index, { endTime: e.target.value })}
+                      data-testid={`input-sitting-end-${index}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={sittings.length === 1}
+                      onClick={() => setSittings(sittings.filter((_, i) => i !== index))}
+                      data-testid={`button-remove-sitting-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  A paper only goes in a sitting long enough for it.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Exam Halls</Label>
+                {rooms.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Add rooms first; their capacities are the hall sizes.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {rooms.map((room) => (
+                      <label key={room.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={hallIds.includes(room.id)}
+                          onCheckedChange={(checked) =>
+                            setHallIds(checked ? [...hallIds, room.id] : hallIds.filter(id => id !== room.id))
+                          }
+                          data-testid={`checkbox-hall-${room.id}`}
+                        />
+                        {room.name} ({room.capacity} seats)
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={saveSeriesMutation.isPending || !sittingsValid}
+                  data-testid="button-save-exam-series"
+                >
+                  {saveSeriesMutation.isPending ? "Saving..." : editingSeries ? "Update Series" : "Create Series"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add / Edit Paper Dialog */}
+      <Dialog open={isPaperDialogOpen} onOpenChange={(open) => !open && closePaperDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPaper ? "Edit Exam Paper" : "Add Exam Paper"}</DialogTitle>
+            <DialogDescription>
+              Leave the dates empty to let the paper go anywhere in the series
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...paperForm}>
+            <form onSubmit={paperForm.handleSubmit((data) => savePaperMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={paperForm.control}
+                  name="grade"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Grade</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-exam-paper-grade">
+                            <SelectValue placeholder="Choose a grade" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {grades.map((grade) => (
+                            <SelectItem key={grade} value={grade}>
+                              Grade {grade}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={paperForm.control}
+                  name="subjectId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Subject</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-exam-paper-subject">
+                            <SelectValue placeholder="Choose a subject" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {subjects.map((subject) => (
+                            <SelectItem key={subject.id} value={subject.id}>
+                              {subject.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={paperForm.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Paper Name (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Paper 2" {...field} data-testid="input-exam-paper-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={paperForm.control}
+                  name="durationMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={15} max={480} {...field} data-testid="input-exam-paper-duration" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={paperForm.control}
+                  name="earliestDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Not Before</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-exam-paper-earliest" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={paperForm.control}
+                  name="latestDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Not After</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-exam-paper-latest" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={savePaperMutation.isPending}
+                  data-testid="button-save-exam-paper"
+                >
+                  {savePaperMutation.isPending ? "Saving..." : editingPaper ? "Update Paper" : "Add Paper"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
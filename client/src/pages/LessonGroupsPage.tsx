@@ -0,0 +1,497 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { MAX_BLOCK_LENGTH, type Class, type LessonGroup, type Subject, type Teacher } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, Layers, X } from "lucide-react";
+import { z } from "zod";
+
+const lessonGroupFormSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required"),
+  weeklyFrequency: z.coerce.number().int().min(1, "At least 1 period per week"),
+  blockLength: z.coerce.number().int().min(1).max(MAX_BLOCK_LENGTH),
+  classIds: z.array(z.string()).min(1, "Select at least one class"),
+  streams: z.array(z.object({
+    subjectId: z.string().min(1, "Select a subject"),
+    teacherId: z.string().min(1, "Select a teacher"),
+  })).min(1, "Add at least one stream"),
+  isActive: z.boolean(),
+}).refine((data) => data.weeklyFrequency % data.blockLength === 0, {
+  message: "Weekly frequency must be a multiple of the block length",
+  path: ["weeklyFrequency"],
+}).refine((data) => new Set(data.streams.map((stream) => stream.teacherId)).size === data.streams.length, {
+  message: "Each stream needs a different teacher",
+  path: ["streams"],
+});
+
+type LessonGroupFormData = z.infer<typeof lessonGroupFormSchema>;
+
+const emptyGroup: LessonGroupFormData = {
+  name: "",
+  weeklyFrequency: 2,
+  blockLength: 1,
+  classIds: [],
+  streams: [{ subjectId: "", teacherId: "" }],
+  isActive: true,
+};
+
+export default function LessonGroupsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<LessonGroup | null>(null);
+
+  const form = useForm<LessonGroupFormData>({
+    resolver: zodResolver(lessonGroupFormSchema),
+    defaultValues: emptyGroup,
+  });
+  const streamFields = useFieldArray({ control: form.control, name: "streams" });
+
+  const { data: groups = [], isLoading } = useQuery<LessonGroup[]>({
+    queryKey: ["/api/lesson-groups"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: teachers = [] } = useQuery<Teacher[]>({
+    queryKey: ["/api/teachers"],
+    enabled: !!user?.schoolId,
+  });
+
+  const classLabel = (id: string) => {
+    const cls = classes.find((c) => c.id === id);
+    return cls ? `${cls.grade}-${cls.section}` : "Unknown class";
+  };
+  const subjectName = (id: string) => subjects.find((s) => s.id === id)?.name || "Unknown subject";
+  const teacherName = (id: string) => teachers.find((t) => t.id === id)?.name || "Unknown teacher";
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingGroup(null);
+    form.reset(emptyGroup);
+  };
+
+  const saveGroupMutation = useMutation({
+    mutationFn: async (data: LessonGroupFormData) => {
+      const response = editingGroup
+        ? await apiRequest("PUT", `/api/lesson-groups/${editingGroup.id}`, data)
+        : await apiRequest("POST", "/api/lesson-groups", { ...data, schoolId: user?.schoolId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lesson-groups"] });
+      toast({
+        title: "Success",
+        description: editingGroup ? "Lesson group updated successfully" : "Lesson group created successfully",
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save lesson group",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/lesson-groups/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lesson-groups"] });
+      toast({
+        title: "Success",
+        description: "Lesson group deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete lesson group",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startAdd = () => {
+    setEditingGroup(null);
+    form.reset(emptyGroup);
+    setIsDialogOpen(true);
+  };
+
+  const startEdit = (group: LessonGroup) => {
+    setEditingGroup(group);
+    form.reset({
+      name: group.name,
+      weeklyFrequency: group.weeklyFrequency,
+      blockLength: group.blockLength,
+      classIds: group.classIds,
+      streams: group.streams,
+      isActive: group.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to manage lesson groups.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Layers className="h-8 w-8" />
+            Lesson Groups
+          </h1>
+          <p className="text-muted-foreground">
+            Combined classes, electives and split groups that are taught in the same slot
+          </p>
+        </div>
+        <Button onClick={startAdd} data-testid="button-add-lesson-group">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Lesson Group
+        </Button>
+      </div>
+
+      {/* Lesson Groups List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Lesson Groups</CardTitle>
+          <CardDescription>
+            {groups.length} lesson group{groups.length !== 1 ? 's' : ''} in your school
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8">
+              <Layers className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No lesson groups found</h3>
+              <p className="text-muted-foreground mb-4">
+                Group classes for a combined lesson, or split a class between teachers
+              </p>
+              <Button onClick={startAdd} data-testid="button-add-first-lesson-group">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Lesson Group
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Classes</TableHead>
+                  <TableHead>Streams</TableHead>
+                  <TableHead>Periods</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => (
+                  <TableRow key={group.id} data-testid={`row-lesson-group-${group.id}`}>
+                    <TableCell className="font-medium" data-testid={`text-lesson-group-name-${group.id}`}>
+                      {group.name}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {group.classIds.map((classId) => (
+                          <Badge key={classId} variant="outline">{classLabel(classId)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {group.streams.map((stream) => (
+                        <div key={stream.teacherId} className="text-sm">
+                          {subjectName(stream.subjectId)} · {teacherName(stream.teacherId)}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell data-testid={`text-lesson-group-periods-${group.id}`}>
+                      {group.weeklyFrequency}/week
+                      {group.blockLength > 1 && ` · ${group.blockLength}-period blocks`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={group.isActive ? "default" : "secondary"}>
+                        {group.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startEdit(group)}
+                          data-testid={`button-edit-${group.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              data-testid={`button-delete-${group.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Lesson Group</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{group.name}"? Its lessons stay in existing timetables until they are regenerated.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <DialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteGroupMutation.mutate(group.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                data-testid={`button-confirm-delete-${group.id}`}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </DialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Lesson Group Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingGroup ? "Edit Lesson Group" : "Add New Lesson Group"}</DialogTitle>
+            <DialogDescription>
+              Every selected class attends in the same slot, and every stream is taught at that time by its own teacher
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveGroupMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Group Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Grade 11 Electives" {...field} data-testid="input-lesson-group-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="weeklyFrequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Periods per Week</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} data-testid="input-lesson-group-frequency" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="blockLength"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Block Length</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={MAX_BLOCK_LENGTH} {...field} data-testid="input-lesson-group-block-length" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="classIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Classes</FormLabel>
+                    <div className="grid grid-cols-3 gap-2 rounded-lg border p-3">
+                      {classes.map((cls) => (
+                        <label key={cls.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(cls.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(checked
+                                ? [...field.value, cls.id]
+                                : field.value.filter((id) => id !== cls.id))
+                            }
+                            data-testid={`checkbox-lesson-group-class-${cls.id}`}
+                          />
+                          {cls.grade}-{cls.section}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Streams</FormLabel>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => streamFields.append({ subjectId: "", teacherId: "" })}
+                    data-testid="button-add-stream"
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Stream
+                  </Button>
+                </div>
+                {streamFields.fields.map((stream, index) => (
+                  <div key={stream.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`streams.${index}.subjectId`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-stream-subject-${index}`}>
+                                <SelectValue placeholder="Subject" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {subjects.map((subject) => (
+                                <SelectItem key={subject.id} value={subject.id}>
+                                  {subject.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`streams.${index}.teacherId`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid={`select-stream-teacher-${index}`}>
+                                <SelectValue placeholder="Teacher" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {teachers.filter((teacher) => teacher.isActive).map((teacher) => (
+                                <SelectItem key={teacher.id} value={teacher.id}>
+                                  {teacher.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={streamFields.fields.length === 1}
+                      onClick={() => streamFields.remove(index)}
+                      data-testid={`button-remove-stream-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-sm font-medium text-destructive">
+                  {form.formState.errors.streams?.message || form.formState.errors.streams?.root?.message}
+                </p>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <FormLabel>Include in timetable generation</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-lesson-group-active" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={saveGroupMutation.isPending}
+                  data-testid="button-save-lesson-group"
+                >
+                  {saveGroupMutation.isPending ? "Saving..." : editingGroup ? "Update Lesson Group" : "Create Lesson Group"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Class, Subject, Substitution, Teacher, TimetableEntry } from "@shared/schema";
+import { formatDateIST } from "@shared/utils/dateUtils";
+import { CheckCircle, XCircle } from "lucide-react";
+
+interface MyCover {
+  substitution: Substitution;
+  entry: TimetableEntry;
+}
+
+// Where a signed-in teacher sees the lessons they are asked to cover, and accepts or declines them
+export default function MyCoverPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [declining, setDeclining] = useState<MyCover | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: cover = [], isLoading } = useQuery<MyCover[]>({
+    queryKey: ["/api/substitutions/mine"],
+    enabled: !!user?.teacherId,
+  });
+
+  const { data: teachers = [] } = useQuery<Teacher[]>({
+    queryKey: ["/api/teachers"],
+    enabled: !!user?.teacherId,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.teacherId,
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user?.teacherId,
+  });
+
+  const teacherName = (id: string) => teachers.find(t => t.id === id)?.name ?? "Unknown";
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name ?? "Unknown";
+  const className = (id: string) => {
+    const classData = classes.find(c => c.id === id);
+    return classData ? `${classData.grade}-${classData.section}` : "Unknown";
+  };
+
+  const awaitingReply = cover.filter(item => !item.substitution.acceptedAt).length;
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, response, reason }: { id: string; response: "accept" | "decline"; reason?: string }) => {
+      const result = await apiRequest("POST", `/api/substitutions/${id}/${response}`, reason ? { reason } : undefined);
+      return result.json();
+    },
+    onSuccess: (_, { response }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/substitutions/mine"] });
+      setDeclining(null);
+      setReason("");
+      toast({
+        title: response === "accept" ? "Cover Accepted" : "Cover Declined",
+        description: response === "accept"
+          ? "The lesson is yours to cover"
+          : "The lesson has been offered to the next available teacher",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to answer the cover request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.teacherId) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Your account is not linked to a teacher profile yet. Ask your school admin to link it.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">My Cover</h1>
+        <p className="text-muted-foreground">
+          Lessons you are asked to cover for absent colleagues
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming Cover</CardTitle>
+          <CardDescription>
+            {awaitingReply > 0
+              ? `${awaitingReply} lesson${awaitingReply !== 1 ? "s" : ""} awaiting your reply. Declined lessons go to the next available teacher.`
+              : "You have answered every cover request"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : cover.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">You have no cover coming up</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Covering For</TableHead>
+                  <TableHead className="text-right">Reply</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cover.map((item) => {
+                  const { substitution, entry } = item;
+                  return (
+                    <TableRow key={substitution.id} data-testid={`row-my-cover-${substitution.id}`}>
+                      <TableCell>{formatDateIST(substitution.date)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">Period {entry.period}</div>
+                        <div className="text-xs text-muted-foreground">{entry.startTime}–{entry.endTime}</div>
+                      </TableCell>
+                      <TableCell>{className(entry.classId)}</TableCell>
+                      <TableCell>{subjectName(entry.subjectId)}</TableCell>
+                      <TableCell>
+                        {teacherName(substitution.originalTeacherId)}
+                        {substitution.reason && (
+                          <p className="text-xs text-muted-foreground">{substitution.reason}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end items-center gap-2">
+                          {substitution.acceptedAt ? (
+                            <Badge>Accepted</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={respondMutation.isPending}
+                              onClick={() => respondMutation.mutate({ id: substitution.id, response: "accept" })}
+                              data-testid={`button-accept-cover-${substitution.id}`}
+                            >
+                              <CheckCircle className="mr-2 h-4 w-4" />
+                              Accept
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={respondMutation.isPending}
+                            onClick={() => setDeclining(item)}
+                            data-testid={`button-decline-cover-${substitution.id}`}
+                          >
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Decline
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!declining} onOpenChange={(open) => { if (!open) { setDeclining(null); setReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Decline Cover</DialogTitle>
+            <DialogDescription>
+              {declining && `Period ${declining.entry.period}, ${className(declining.entry.classId)} ${subjectName(declining.entry.subjectId)} on ${formatDateIST(declining.substitution.date)}. Your school admin will see the reason.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Why can't you cover this lesson?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-decline-reason"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeclining(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || respondMutation.isPending}
+              onClick={() => declining && respondMutation.mutate({ id: declining.substitution.id, response: "decline", reason: reason.trim() })}
+              data-testid="button-confirm-decline"
+            >
+              {respondMutation.isPending ? "Declining..." : "Decline"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import TeacherPreferencesEditor from "@/components/TeacherPreferencesEditor";
+import PreferenceReport from "@/components/PreferenceReport";
+
+// Where a signed-in teacher records when and what they would like to teach
+export default function MyPreferencesPage() {
+  const { user } = useAuth();
+
+  if (!user?.teacherId) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Your account is not linked to a teacher profile yet. Ask your school admin to link it.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">My Preferences</h1>
+        <p className="text-muted-foreground">
+          Tell the scheduler which days, periods and subjects suit you
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preferences</CardTitle>
+          <CardDescription>
+            Soft preferences are honoured whenever the timetable allows; hard ones are never broken,
+            so use them sparingly.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TeacherPreferencesEditor />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Timetable</CardTitle>
+          <CardDescription>How the active timetable matches your preferences</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PreferenceReport />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { roomTypes, type Room } from "@shared/schema";
+import { roomTypeLabels } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, DoorOpen } from "lucide-react";
+import { z } from "zod";
+
+const roomFormSchema = z.object({
+  name: z.string().trim().min(1, "Room name is required"),
+  type: z.enum(roomTypes),
+  capacity: z.coerce.number().int().min(1, "Capacity must be at least 1"),
+  building: z.string().trim().max(100),
+  isActive: z.boolean(),
+});
+
+type RoomFormData = z.infer<typeof roomFormSchema>;
+
+const emptyRoom: RoomFormData = {
+  name: "",
+  type: "classroom",
+  capacity: 40,
+  building: "",
+  isActive: true,
+};
+
+export default function RoomsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+
+  const form = useForm<RoomFormData>({
+    resolver: zodResolver(roomFormSchema),
+    defaultValues: emptyRoom,
+  });
+
+  const { data: rooms = [], isLoading } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+    enabled: !!user?.schoolId,
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRoom(null);
+    form.reset(emptyRoom);
+  };
+
+  const saveRoomMutation = useMutation({
+    mutationFn: async (data: RoomFormData) => {
+      const response = editingRoom
+        ? await apiRequest("PUT", `/api/rooms/${editingRoom.id}`, { ...data, building: data.building || null })
+        : await apiRequest("POST", "/api/rooms", { ...data, building: data.building || null, schoolId: user?.schoolId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      toast({
+        title: "Success",
+        description: editingRoom ? "Room updated successfully" : "Room created successfully",
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save room",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRoomMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/rooms/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+      toast({
+        title: "Success",
+        description: "Room deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete room",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startAdd = () => {
+    setEditingRoom(null);
+    form.reset(emptyRoom);
+    setIsDialogOpen(true);
+  };
+
+  const startEdit = (room: Room) => {
+    setEditingRoom(room);
+    form.reset({
+      name: room.name,
+      type: room.type,
+      capacity: room.capacity,
+      building: room.building ?? "",
+      isActive: room.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to manage rooms.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <DoorOpen className="h-8 w-8" />
+            Rooms
+          </h1>
+          <p className="text-muted-foreground">
+            Classrooms, labs and other spaces the scheduler can book
+          </p>
+        </div>
+        <Button onClick={startAdd} data-testid="button-add-room">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Room
+        </Button>
+      </div>
+
+      {/* Rooms List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Rooms</CardTitle>
+          <CardDescription>
+            {rooms.length} room{rooms.length !== 1 ? 's' : ''} in your school
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : rooms.length === 0 ? (
+            <div className="text-center py-8">
+              <DoorOpen className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No rooms found</h3>
+              <p className="text-muted-foreground mb-4">
+                Add labs and special rooms so subjects that need them can be scheduled
+              </p>
+              <Button onClick={startAdd} data-testid="button-add-first-room">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Room
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Capacity</TableHead>
+                  <TableHead>Building</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rooms.map((room) => (
+                  <TableRow key={room.id} data-testid={`row-room-${room.id}`}>
+                    <TableCell className="font-medium" data-testid={`text-room-name-${room.id}`}>
+                      {room.name}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{roomTypeLabels[room.type]}</Badge>
+                    </TableCell>
+                    <TableCell data-testid={`text-room-capacity-${room.id}`}>
+                      {room.capacity} seats
+                    </TableCell>
+                    <TableCell className="text-muted-foreground" data-testid={`text-room-building-${room.id}`}>
+                      {room.building || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={room.isActive ? "default" : "secondary"}>
+                        {room.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startEdit(room)}
+                          data-testid={`button-edit-${room.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              data-testid={`button-delete-${room.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Room</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{room.name}"? Existing timetable entries keep the room name but lose the booking.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <DialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteRoomMutation.mutate(room.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                data-testid={`button-confirm-delete-${room.id}`}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </DialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Room Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRoom ? "Edit Room" : "Add New Room"}</DialogTitle>
+            <DialogDescription>
+              Subjects that require a room type are only scheduled in active rooms of that type with enough seats for the class
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveRoomMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Room Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Chemistry Lab 1" {...field} data-testid="input-room-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-room-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {roomTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {roomTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capacity</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} data-testid="input-room-capacity" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="building"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Building (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Senior block" {...field} data-testid="input-room-building" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <FormLabel>Available for scheduling</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-room-active" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={saveRoomMutation.isPending}
+                  data-testid="button-save-room"
+                >
+                  {saveRoomMutation.isPending ? "Saving..." : editingRoom ? "Update Room" : "Create Room"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
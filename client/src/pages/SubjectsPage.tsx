@@ -9,10 +9,13 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { DialogFooter } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertSubjectSchema, type Subject } from "@shared/schema";
+import { insertSubjectSchema, roomTypes, type Subject } from "@shared/schema";
+import { roomTypeLabels } from "@/lib/utils";
+import PlacementRulesFields, { describePlacementRules } from "@/components/PlacementRulesFields";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Edit, Trash2, BookOpen } from "lucide-react";
@@ -25,6 +28,9 @@ const formSchema = insertSubjectSchema.extend({
   color: z.string().regex(/^#[0-9A-F]{6}$/i, "Must be a valid color hex code"),
 }).omit({ code: true, periodsPerWeek: true });
 
+// Select items cannot have an empty value, so "no special room" gets its own
+const NO_ROOM_TYPE = "none";
+
 export default function SubjectsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -36,6 +42,8 @@ export default function SubjectsPage() {
     defaultValues: {
       name: "",
       color: "#3B82F6",
+      requiredRoomType: null,
+      placementRules: {},
       schoolId: user?.schoolId || "",
     },
   });
@@ -45,6 +53,8 @@ export default function SubjectsPage() {
     defaultValues: {
       name: "",
       color: "#3B82F6",
+      requiredRoomType: null,
+      placementRules: {},
       schoolId: user?.schoolId || "",
     },
   });
@@ -152,6 +162,8 @@ export default function SubjectsPage() {
     editForm.reset({
       name: subject.name,
       color: subject.color,
+      requiredRoomType: subject.requiredRoomType,
+      placementRules: subject.placementRules ?? {},
       schoolId: subject.schoolId,
     });
   };
@@ -229,6 +241,51 @@ export default function SubjectsPage() {
                     )}
                   />
 
+                  <FormField
+                    control={addForm.control}
+                    name="requiredRoomType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Required Room</FormLabel>
+                        <Select
+                          value={field.value ?? NO_ROOM_TYPE}
+                          onValueChange={(value) => field.onChange(value === NO_ROOM_TYPE ? null : value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-subject-room-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_ROOM_TYPE}>Class's own room</SelectItem>
+                            {roomTypes.filter((type) => type !== "classroom").map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {roomTypeLabels[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={addForm.control}
+                    name="placementRules"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Placement Rules</FormLabel>
+                        <PlacementRulesFields
+                          value={field.value ?? {}}
+                          onChange={field.onChange}
+                          idPrefix="subject"
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <DialogFooter>
                     <Button 
                       type="submit" 
@@ -277,6 +334,8 @@ export default function SubjectsPage() {
                   <TableHead>Subject</TableHead>
                   <TableHead>Code</TableHead>
                   <TableHead>Color</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Placement</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -303,6 +362,12 @@ export default function SubjectsPage() {
                         </span>
                       </div>
                     </TableCell>
+                    <TableCell className="text-sm text-muted-foreground" data-testid={`text-subject-room-${subject.id}`}>
+                      {subject.requiredRoomType ? roomTypeLabels[subject.requiredRoomType] : "Own room"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground" data-testid={`text-subject-placement-${subject.id}`}>
+                      {describePlacementRules(subject.placementRules)}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
                         <Button
@@ -391,6 +456,51 @@ export default function SubjectsPage() {
                 )}
               />
 
+              <FormField
+                control={editForm.control}
+                name="requiredRoomType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Required Room</FormLabel>
+                    <Select
+                      value={field.value ?? NO_ROOM_TYPE}
+                      onValueChange={(value) => field.onChange(value === NO_ROOM_TYPE ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-edit-subject-room-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ROOM_TYPE}>Class's own room</SelectItem>
+                        {roomTypes.filter((type) => type !== "classroom").map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {roomTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="placementRules"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Placement Rules</FormLabel>
+                    <PlacementRulesFields
+                      value={field.value ?? {}}
+                      onChange={field.onChange}
+                      idPrefix="edit-subject"
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button 
                   type="submit" 
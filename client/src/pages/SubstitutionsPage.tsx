@@ -0,0 +1,397 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Class, Subject, Substitution, Teacher } from "@shared/schema";
+import { getCurrentDateIST, formatDateIST } from "@shared/utils/dateUtils";
+import { useAuth } from "@/hooks/useAuth";
+import { substituteResponse, useCoverPlan, useSubstituteSuggestions, type CoverPlanDay } from "@/hooks/useCoverPlan";
+import { useToast } from "@/hooks/use-toast";
+import { UserCheck, CheckCircle, XCircle, RefreshCw } from "lucide-react";
+
+// Days ahead listed as needing review
+const UPCOMING_DAYS = 30;
+
+const NO_SUBSTITUTE = "none";
+
+const statusBadgeVariant: Record<Substitution["status"], "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  confirmed: "default",
+  rejected: "destructive",
+};
+
+const addDays = (date: string, days: number) => {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().split("T")[0];
+};
+
+// Picks a substitute from the ranked suggestions, loaded when opened
+function SubstitutePicker({ substitution, date, currentName, onChange }: {
+  substitution: Substitution;
+  date: string;
+  currentName: string;
+  onChange: (teacherId: string | null) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading, error } = useSubstituteSuggestions(substitution.timetableEntryId, date, open);
+  const suggestions = data?.suggestions ?? [];
+
+  return (
+    <Select
+      open={open}
+      onOpenChange={setOpen}
+      value={substitution.substituteTeacherId ?? NO_SUBSTITUTE}
+      onValueChange={(value) => onChange(value === NO_SUBSTITUTE ? null : value)}
+    >
+      <SelectTrigger className="w-56" data-testid={`select-substitute-${substitution.id}`}>
+        <SelectValue>{substitution.substituteTeacherId ? currentName : "Nobody yet"}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_SUBSTITUTE}>Nobody yet</SelectItem>
+        {substitution.substituteTeacherId && !suggestions.some(s => s.teacherId === substitution.substituteTeacherId) && (
+          <SelectItem value={substitution.substituteTeacherId}>{currentName}</SelectItem>
+        )}
+        {isLoading && <div className="px-2 py-1.5 text-sm text-muted-foreground">Ranking teachers...</div>}
+        {error && <div className="px-2 py-1.5 text-sm text-destructive">{(error as Error).message}</div>}
+        {suggestions.map((suggestion) => (
+          <SelectItem key={suggestion.teacherId} value={suggestion.teacherId} data-testid={`option-substitute-${suggestion.teacherId}`}>
+            <div>
+              <div>{suggestion.name} · {suggestion.score} pts</div>
+              <div className="text-xs text-muted-foreground">
+                {suggestion.components.filter(component => component.points !== 0).map(component => component.detail).join(", ")}
+              </div>
+            </div>
+          </SelectItem>
+        ))}
+        {data && data.excluded.length > 0 && (
+          <div className="px-2 py-1.5 text-xs text-muted-foreground border-t mt-1">
+            {data.excluded.map(teacher => `${teacher.name}: ${teacher.reason}`).join("; ")}
+          </div>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function SubstitutionsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const today = getCurrentDateIST();
+  const [selectedDate, setSelectedDate] = useState(today);
+
+  const { data: plan, isLoading } = useCoverPlan(selectedDate);
+
+  const { data: upcoming = [] } = useQuery<CoverPlanDay[]>({
+    queryKey: ["/api/cover-plans", "days", today],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/cover-plans?from=${today}&to=${addDays(today, UPCOMING_DAYS)}`);
+      return response.json();
+    },
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: teachers = [] } = useQuery<Teacher[]>({
+    queryKey: ["/api/teachers"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user?.schoolId,
+  });
+
+  const teacherName = (id: string | null) => teachers.find(t => t.id === id)?.name ?? "Unknown";
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name ?? "Unknown";
+  const className = (id: string) => {
+    const classData = classes.find(c => c.id === id);
+    return classData ? `${classData.grade}-${classData.section}` : "Unknown";
+  };
+
+  const cover = plan?.cover ?? [];
+  const pendingCount = cover.filter(item => item.substitution.status === "pending" && item.substitution.substituteTeacherId).length;
+
+  const invalidateCover = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cover-plans"] });
+  };
+
+  const updateSubstitutionMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<Pick<Substitution, "substituteTeacherId" | "status">> }) => {
+      const response = await apiRequest("PUT", `/api/substitutions/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCover();
+      queryClient.invalidateQueries({ queryKey: ["/api/substitutions/suggestions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update substitution",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const planCoverMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await apiRequest("POST", `/api/cover-plans/${date}/plan`);
+      return response.json() as Promise<{ lessons: number; proposed: number }>;
+    },
+    onSuccess: (result) => {
+      invalidateCover();
+      toast({
+        title: "Cover Planned",
+        description: result.lessons > 0
+          ? `${result.lessons} more lesson${result.lessons !== 1 ? "s" : ""} added to the plan, ${result.proposed} with a substitute`
+          : "Every lesson of an absent teacher already has cover",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to plan cover",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Confirming doesn't wait for the substitutes to accept; the server records who confirmed
+  const confirmSubstitutionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/substitutions/${id}/confirm`);
+      return response.json();
+    },
+    onSuccess: invalidateCover,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to confirm cover",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmPlanMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await apiRequest("POST", `/api/cover-plans/${date}/confirm`, { override: true });
+      return response.json() as Promise<{ confirmed: number; unassigned: number }>;
+    },
+    onSuccess: (result) => {
+      invalidateCover();
+      toast({
+        title: "Cover Plan Confirmed",
+        description: result.unassigned > 0
+          ? `${result.confirmed} substitutions confirmed; ${result.unassigned} lessons still need a substitute`
+          : `${result.confirmed} substitutions confirmed`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to confirm cover plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to manage substitutions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <UserCheck className="h-8 w-8" />
+            Substitutions
+          </h1>
+          <p className="text-muted-foreground">
+            Lessons of absent teachers get a proposed substitute; review each day's cover plan and confirm it
+          </p>
+        </div>
+        <Input
+          type="date"
+          className="w-44"
+          value={selectedDate}
+          onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+          data-testid="input-cover-date"
+        />
+      </div>
+
+      {/* Days needing review */}
+      {upcoming.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {upcoming.map((day) => (
+            <Button
+              key={day.date}
+              variant={day.date === selectedDate ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedDate(day.date)}
+              data-testid={`button-cover-day-${day.date}`}
+            >
+              {formatDateIST(day.date, { month: "short", day: "numeric", year: undefined })}
+              {day.pending > 0 && (
+                <Badge variant="secondary" className="ml-2">{day.pending} to review</Badge>
+              )}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Cover Plan */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Cover Plan for {formatDateIST(selectedDate)}</CardTitle>
+              <CardDescription>
+                {plan?.day && !plan.day.hasClasses
+                  ? "There are no classes on this day"
+                  : plan?.day?.lastPeriod
+                    ? `Half day: classes until period ${plan.day.lastPeriod}`
+                    : selectedDate === today
+                      ? "Updates as substitutes accept or decline; a declined lesson goes to the next best substitute"
+                      : "Substitutes are ranked by subject, knowing the class, free periods and the cover they have already done"}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => planCoverMutation.mutate(selectedDate)}
+                disabled={planCoverMutation.isPending}
+                data-testid="button-plan-cover"
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                {planCoverMutation.isPending ? "Planning..." : "Plan Missing Cover"}
+              </Button>
+              <Button
+                onClick={() => confirmPlanMutation.mutate(selectedDate)}
+                disabled={confirmPlanMutation.isPending || pendingCount === 0}
+                data-testid="button-confirm-cover-plan"
+              >
+                <CheckCircle className="mr-2 h-4 w-4" />
+                {confirmPlanMutation.isPending ? "Confirming..." : `Confirm ${pendingCount} Without Replies`}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : cover.length === 0 ? (
+            <div className="text-center py-8">
+              <UserCheck className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No cover needed</h3>
+              <p className="text-muted-foreground">
+                Marking a teacher absent or on leave plans cover for their lessons here
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Absent Teacher</TableHead>
+                  <TableHead>Substitute</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cover.map(({ substitution, entry }) => (
+                  <TableRow key={substitution.id} data-testid={`row-cover-${substitution.id}`}>
+                    <TableCell>
+                      <div className="font-medium">Period {entry.period}</div>
+                      <div className="text-xs text-muted-foreground">{entry.startTime}–{entry.endTime}</div>
+                    </TableCell>
+                    <TableCell>{className(entry.classId)}</TableCell>
+                    <TableCell>{subjectName(entry.subjectId)}</TableCell>
+                    <TableCell>
+                      {teacherName(substitution.originalTeacherId)}
+                      {substitution.reason && (
+                        <p className="text-xs text-muted-foreground">{substitution.reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <SubstitutePicker
+                        substitution={substitution}
+                        date={selectedDate}
+                        currentName={teacherName(substitution.substituteTeacherId)}
+                        onChange={(substituteTeacherId) => updateSubstitutionMutation.mutate({
+                          id: substitution.id,
+                          changes: { substituteTeacherId, status: "pending" },
+                        })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusBadgeVariant[substitution.status]}>
+                        {substitution.status.charAt(0).toUpperCase() + substitution.status.slice(1)}
+                      </Badge>
+                      {substituteResponse(substitution) && (
+                        <p className="text-xs text-muted-foreground mt-1">{substituteResponse(substitution)}</p>
+                      )}
+                      {substitution.declines.map((decline) => (
+                        <p key={decline.declinedAt} className="text-xs text-destructive mt-1">
+                          Declined by {teacherName(decline.teacherId)}: {decline.reason}
+                        </p>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={!substitution.substituteTeacherId || substitution.status !== "pending" || confirmSubstitutionMutation.isPending}
+                          onClick={() => confirmSubstitutionMutation.mutate(substitution.id)}
+                          title="Confirm without waiting for the substitute to accept"
+                          data-testid={`button-confirm-${substitution.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={substitution.status === "rejected"}
+                          onClick={() => updateSubstitutionMutation.mutate({ id: substitution.id, changes: { status: "rejected" } })}
+                          data-testid={`button-reject-${substitution.id}`}
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,30 +12,133 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { useForm } from "react-hook-form";
+import { useForm, type Control } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertTeacherSchema, insertTeacherAttendanceSchema, bulkAttendanceSchema, type Teacher, type TimetableEntry, type TeacherAttendance } from "@shared/schema";
 import { getCurrentDateIST, formatDateIST } from "@shared/utils/dateUtils";
+import TeacherAvailabilityDialog from "@/components/TeacherAvailabilityDialog";
+import TeacherPreferencesEditor from "@/components/TeacherPreferencesEditor";
+import PreferenceReport from "@/components/PreferenceReport";
 import { useAuth } from "@/hooks/useAuth";
+import { describeCycleDay, useCycleDay } from "@/hooks/useCycleDay";
+import { describeCover, type CoverPlanSummary } from "@/hooks/useCoverPlan";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, User, Users, Mail, Phone, IdCard, Calendar, CalendarDays, Clock, CheckCircle, XCircle, BookOpen } from "lucide-react";
+import { Plus, Edit, Trash2, User, Users, Mail, Phone, IdCard, Calendar, CalendarDays, Clock, CheckCircle, XCircle, BookOpen, SlidersHorizontal } from "lucide-react";
 import { z } from "zod";
 
 type TeacherFormData = z.infer<typeof insertTeacherSchema>;
 
+// An empty limit field means no limit
+const optionalLimit = z.preprocess(
+  (value) => (value === "" || value === null || value === undefined ? null : Number(value)),
+  z.number().int().min(1, "Must be at least 1").nullable()
+);
+
 const formSchema = insertTeacherSchema.extend({
   name: z.string().min(1, "Teacher name is required"),
   email: z.string().email("Please enter a valid email address").optional().or(z.literal("")),
   contactNumber: z.string().min(1, "Contact number is required"),
   schoolIdNumber: z.string().min(1, "School ID number is required"),
   subjects: z.array(z.string()).min(1, "Please select at least one subject"),
-}).omit({ availability: true, maxLoad: true });
+  maxLoad: z.coerce.number().int().min(0, "Weekly load cannot be negative"),
+  maxDailyPeriods: optionalLimit,
+  maxConsecutivePeriods: optionalLimit,
+  // Unlike the period limits, a cover cap of 0 keeps the teacher off cover
+  maxWeeklyCovers: z.preprocess(
+    (value) => (value === "" || value === null || value === undefined ? null : Number(value)),
+    z.number().int().min(0, "Cover cap cannot be negative").nullable()
+  ),
+}).omit({ availability: true, unavailablePeriods: true });
+
+// Periods-per-week, per-day and in-a-row limits the scheduler enforces, and the cover planner's weekly cap
+function TeachingLimitFields({ control }: { control: Control<TeacherFormData> }) {
+  return (
+    <div className="grid grid-cols-4 gap-3">
+      <FormField
+        control={control}
+        name="maxLoad"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Periods / Week</FormLabel>
+            <FormControl>
+              <Input type="number" min={0} {...field} data-testid="input-teacher-max-load" />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="maxDailyPeriods"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Periods / Day</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={field.value ?? ""}
+                onChange={field.onChange}
+                data-testid="input-teacher-max-daily"
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="maxConsecutivePeriods"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>In a Row</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={field.value ?? ""}
+                onChange={field.onChange}
+                data-testid="input-teacher-max-consecutive"
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="maxWeeklyCovers"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Covers / Week</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min={0}
+                placeholder="School cap"
+                value={field.value ?? ""}
+                onChange={field.onChange}
+                data-testid="input-teacher-max-weekly-covers"
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
 
 export default function TeacherView() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingTeacher, setEditingTeacher] = useState<Teacher | null>(null);
+  const [availabilityTeacher, setAvailabilityTeacher] = useState<Teacher | null>(null);
+  // Teacher whose preferences are being edited; null shows the report for everyone
+  const [preferenceTeacherId, setPreferenceTeacherId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("teachers");
   const [isBulkAttendanceOpen, setIsBulkAttendanceOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState(getCurrentDateIST());
@@ -50,6 +153,10 @@ export default function TeacherView() {
       schoolId: user?.schoolId || "",
       isActive: true,
       subjects: [],
+      maxLoad: 30,
+      maxDailyPeriods: null,
+      maxConsecutivePeriods: null,
+      maxWeeklyCovers: null,
     },
   });
 
@@ -63,6 +170,10 @@ export default function TeacherView() {
       schoolId: user?.schoolId || "",
       isActive: true,
       subjects: [],
+      maxLoad: 30,
+      maxDailyPeriods: null,
+      maxConsecutivePeriods: null,
+      maxWeeklyCovers: null,
     },
   });
 
@@ -95,10 +206,8 @@ export default function TeacherView() {
     },
   });
 
-  const { data: timetableStructure } = useQuery({
-    queryKey: ["/api/timetable-structure"],
-    enabled: !!user?.schoolId,
-  });
+  // Whether the selected date is a school day, and which day of the timetable cycle it is
+  const { data: selectedCycleDay } = useCycleDay(selectedDate, !!user?.schoolId);
 
   // Query for timetable entries
   const { data: timetableEntries = [], isLoading: isTimetableLoading } = useQuery({
@@ -196,14 +305,6 @@ export default function TeacherView() {
       const response = await apiRequest("POST", "/api/teachers", { 
         ...data, 
         schoolId: user?.schoolId,
-        availability: {
-          monday: [],
-          tuesday: [],
-          wednesday: [],
-          thursday: [],
-          friday: []
-        },
-        maxLoad: 30
       });
       return response.json();
     },
@@ -280,11 +381,14 @@ export default function TeacherView() {
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: TeacherAttendance & { cover?: CoverPlanSummary }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/teacher-attendance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cover-plans"] });
       toast({
         title: "Success",
-        description: "Attendance marked successfully",
+        description: data.cover?.lessons
+          ? `Attendance marked. ${describeCover(data.cover)}`
+          : "Attendance marked successfully",
       });
     },
     onError: (error: Error) => {
@@ -301,13 +405,16 @@ export default function TeacherView() {
       const response = await apiRequest("POST", "/api/teacher-attendance/bulk", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ records, cover }: { records: TeacherAttendance[]; cover?: CoverPlanSummary }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/teacher-attendance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cover-plans"] });
       setIsBulkAttendanceOpen(false);
       bulkAttendanceForm.reset();
       toast({
         title: "Success",
-        description: "Bulk attendance marked successfully",
+        description: records.length > 0
+          ? `Leave recorded for ${records.length} working day${records.length !== 1 ? "s" : ""}.${cover?.lessons ? ` ${describeCover(cover)}` : ""}`
+          : "There are no working days in that period",
       });
     },
     onError: (error: Error) => {
@@ -343,6 +450,10 @@ export default function TeacherView() {
       schoolId: teacher.schoolId,
       isActive: teacher.isActive,
       subjects: teacher.subjects || [],
+      maxLoad: teacher.maxLoad,
+      maxDailyPeriods: teacher.maxDailyPeriods ?? null,
+      maxConsecutivePeriods: teacher.maxConsecutivePeriods ?? null,
+      maxWeeklyCovers: teacher.maxWeeklyCovers ?? null,
     });
   };
 
@@ -355,9 +466,8 @@ export default function TeacherView() {
     bulkAttendanceMutation.mutate(data);
   };
 
-  // Check if selected date is an active school day
-  const selectedDayName = new Date(selectedDate).toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  const isActiveDay = timetableStructure?.workingDays?.includes(selectedDayName) || false;
+  // Check if selected date is an active school day (not a weekend or a holiday)
+  const isActiveDay = selectedCycleDay?.workingDay || false;
 
   // Get attendance status for a teacher (only on active days)
   const getTeacherAttendanceStatus = (teacherId: string) => {
@@ -401,7 +511,7 @@ export default function TeacherView() {
 
       {/* Tabbed Navigation */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="teachers" className="flex items-center gap-2">
             <User className="h-4 w-4" />
             Teachers
@@ -414,6 +524,10 @@ export default function TeacherView() {
             <CalendarDays className="h-4 w-4" />
             Teachers on Leave
           </TabsTrigger>
+          <TabsTrigger value="preferences" className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            Preferences
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="teachers" className="space-y-4">
@@ -561,6 +675,8 @@ export default function TeacherView() {
                     )}
                   />
 
+                  <TeachingLimitFields control={addForm.control} />
+
                   <DialogFooter>
                     <Button 
                       type="submit" 
@@ -673,6 +789,16 @@ export default function TeacherView() {
                     )}
 
                     <div className="flex justify-end gap-1 pt-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAvailabilityTeacher(teacher)}
+                        data-testid={`button-availability-teacher-${teacher.id}`}
+                        className="h-7 w-7 p-0"
+                        title="Availability"
+                      >
+                        <CalendarDays className="h-3 w-3" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -722,6 +848,11 @@ export default function TeacherView() {
         </CardContent>
       </Card>
 
+      <TeacherAvailabilityDialog
+        teacher={availabilityTeacher}
+        onClose={() => setAvailabilityTeacher(null)}
+      />
+
       {/* Edit Teacher Dialog */}
       <Dialog open={!!editingTeacher} onOpenChange={() => setEditingTeacher(null)}>
         <DialogContent>
@@ -860,6 +991,8 @@ export default function TeacherView() {
                 )}
               />
 
+              <TeachingLimitFields control={editForm.control} />
+
               <DialogFooter>
                 <Button 
                   type="submit" 
@@ -916,7 +1049,8 @@ export default function TeacherView() {
                       <DialogHeader>
                         <DialogTitle>Mark Leave Period</DialogTitle>
                         <DialogDescription>
-                          Mark a teacher as absent for multiple days (leave period)
+                          Mark a teacher as absent for multiple days (leave period). Weekends, holidays and days
+                          outside term are not counted.
                         </DialogDescription>
                       </DialogHeader>
                       <Form {...bulkAttendanceForm}>
@@ -1097,7 +1231,7 @@ export default function TeacherView() {
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold">
                     Attendance for {selectedDate ? formatDateIST(selectedDate) : "Today"}
-                    {!isActiveDay && <span className="text-sm font-normal text-muted-foreground ml-2">(Not a school day)</span>}
+                    <span className="text-sm font-normal text-muted-foreground ml-2">({describeCycleDay(selectedCycleDay)})</span>
                   </h3>
                   {!isActiveDay ? (
                     <div className="p-4 text-center text-muted-foreground border rounded-lg">
@@ -1338,6 +1472,40 @@ export default function TeacherView() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="preferences" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <SlidersHorizontal className="h-5 w-5" />
+                Teacher Preferences
+              </CardTitle>
+              <CardDescription>
+                Preferred days, free periods and subject priorities, and whether the active timetable honours them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Select
+                value={preferenceTeacherId ?? "all"}
+                onValueChange={(value) => setPreferenceTeacherId(value === "all" ? null : value)}
+              >
+                <SelectTrigger className="w-64" data-testid="select-preference-teacher">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All teachers</SelectItem>
+                  {teachers.map((teacher) => (
+                    <SelectItem key={teacher.id} value={teacher.id}>{teacher.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {preferenceTeacherId && <TeacherPreferencesEditor teacherId={preferenceTeacherId} />}
+
+              <PreferenceReport teacherId={preferenceTeacherId ?? undefined} showTeacher={!preferenceTeacherId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import GenerationProgress from "@/components/GenerationProgress";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import type { Class, Subject, Teacher, TimetableCandidate, TimetableEntry } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { GitCompare, CheckCircle, Trash2, Sparkles } from "lucide-react";
+
+const DAY_ORDER = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const CANDIDATE_COUNTS = [2, 3, 4, 5];
+
+const statusStyles: Record<TimetableCandidate["status"], string> = {
+  draft: "bg-blue-100 text-blue-800",
+  active: "bg-green-100 text-green-800",
+  discarded: "bg-gray-100 text-gray-600",
+};
+
+export default function TimetableCandidatesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const generation = useGenerationJob();
+  const [candidateCount, setCandidateCount] = useState("3");
+  const [leftId, setLeftId] = useState("");
+  const [rightId, setRightId] = useState("");
+  const [classId, setClassId] = useState("");
+
+  const { data: candidates = [], isLoading } = useQuery<TimetableCandidate[]>({
+    queryKey: ["/api/timetable/candidates"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: teachers = [] } = useQuery<Teacher[]>({
+    queryKey: ["/api/teachers"],
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: leftEntries = [] } = useQuery<TimetableEntry[]>({
+    queryKey: ["/api/timetable/candidates", leftId, "entries"],
+    enabled: !!leftId,
+  });
+
+  const { data: rightEntries = [] } = useQuery<TimetableEntry[]>({
+    queryKey: ["/api/timetable/candidates", rightId, "entries"],
+    enabled: !!rightId,
+  });
+
+  // Compare the first two candidates of the newest run until the admin picks others
+  const [latest] = candidates;
+  const latestSet = latest ? candidates.filter((c) => c.setId === latest.setId) : [];
+  useEffect(() => {
+    if (latestSet.length >= 2 && !candidates.some((c) => c.id === leftId)) {
+      setLeftId(latestSet[0].id);
+      setRightId(latestSet[1].id);
+    }
+  }, [candidates]);
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/timetable/candidates/${id}/activate`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const queryKey = query.queryKey;
+          return queryKey[0] === "/api/timetable/candidates" ||
+                 queryKey[0] === "/api/timetable/detailed" ||
+                 queryKey[0] === "/api/timetable";
+        }
+      });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to activate candidate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/timetable/candidates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timetable/candidates"] });
+      toast({
+        title: "Success",
+        description: "Candidate deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete candidate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const candidateLabel = (candidate: TimetableCandidate) =>
+    `Candidate ${candidate.number} · ${candidate.createdAt ? new Date(candidate.createdAt).toLocaleString() : ""}`;
+  const subjectName = (id: string) => subjects.find((s) => s.id === id)?.name || "Unknown subject";
+  const teacherName = (id: string) => teachers.find((t) => t.id === id)?.name || "Unknown teacher";
+
+  // Classes covered by either candidate; the first one is compared until another is chosen
+  const comparedClasses = classes
+    .filter((cls) => leftEntries.some((e) => e.classId === cls.id) || rightEntries.some((e) => e.classId === cls.id))
+    .sort((a, b) => `${a.grade}-${a.section}`.localeCompare(`${b.grade}-${b.section}`));
+  const selectedClassId = comparedClasses.some((c) => c.id === classId) ? classId : comparedClasses[0]?.id;
+
+  const cellsOf = (entries: TimetableEntry[]) => {
+    const cells = new Map<string, string>();
+    entries
+      .filter((e) => e.classId === selectedClassId)
+      .forEach((e) => {
+        const key = `${e.day}|${e.period}`;
+        const lesson = `${subjectName(e.subjectId)} · ${teacherName(e.teacherId)}`;
+        const existing = cells.get(key);
+        // Parallel streams of a lesson group share the cell
+        cells.set(key, existing ? [existing, lesson].sort().join(" / ") : lesson);
+      });
+    return cells;
+  };
+
+  const comparison = useMemo(() => {
+    const left = cellsOf(leftEntries);
+    const right = cellsOf(rightEntries);
+    const keys = Array.from(new Set([...Array.from(left.keys()), ...Array.from(right.keys())]));
+    const days = DAY_ORDER.filter((day) => keys.some((key) => key.startsWith(`${day}|`)));
+    const periods = Array.from(new Set(keys.map((key) => Number(key.split("|")[1])))).sort((a, b) => a - b);
+    const changed = keys.filter((key) => left.get(key) !== right.get(key)).length;
+    return { left, right, days, periods, changed };
+  }, [leftEntries, rightEntries, selectedClassId, subjects, teachers]);
+
+  if (!user?.schoolId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              You need to be associated with a school to compare timetable candidates.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <GitCompare className="h-8 w-8" />
+            Timetable Candidates
+          </h1>
+          <p className="text-muted-foreground">
+            Generate several timetables at once, compare them and activate the one you prefer
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={candidateCount} onValueChange={setCandidateCount} disabled={generation.isRunning}>
+            <SelectTrigger className="w-[150px]" data-testid="select-candidate-count">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CANDIDATE_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>{count} candidates</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => generation.start({ candidates: Number(candidateCount) })}
+            disabled={generation.isRunning}
+            data-testid="button-generate-candidates"
+          >
+            <Sparkles className="mr-2 h-4 w-4" />
+            {generation.isRunning ? "Generating..." : "Generate Candidates"}
+          </Button>
+        </div>
+      </div>
+
+      {generation.isRunning && (
+        <GenerationProgress
+          job={generation.job}
+          onCancel={generation.cancel}
+          isCancelling={generation.isCancelling}
+        />
+      )}
+
+      {/* Candidates List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Candidates</CardTitle>
+          <CardDescription>
+            Lower is better for every measure. Activating a candidate replaces the current timetable of the classes it covers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading candidates...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No candidates yet. Generate some to compare them here.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Candidate</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Penalty</TableHead>
+                  <TableHead className="text-right">Unfilled periods</TableHead>
+                  <TableHead className="text-right">Teacher gaps</TableHead>
+                  <TableHead className="text-right">Load variance</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {candidates.map((candidate) => (
+                  <TableRow key={candidate.id} data-testid={`row-candidate-${candidate.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{candidateLabel(candidate)}</div>
+                      <div className="text-xs text-muted-foreground">Seed {candidate.seed}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={statusStyles[candidate.status]}>{candidate.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{candidate.score ?? "—"}</TableCell>
+                    <TableCell className={`text-right ${candidate.metrics.unfilledPeriods > 0 ? "text-destructive font-medium" : ""}`}>
+                      {candidate.metrics.unfilledPeriods}
+                    </TableCell>
+                    <TableCell className="text-right">{candidate.metrics.teacherGaps}</TableCell>
+                    <TableCell className="text-right">{candidate.metrics.loadVariance}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => activateMutation.mutate(candidate.id)}
+                        disabled={candidate.status === "active" || activateMutation.isPending}
+                        data-testid={`button-activate-candidate-${candidate.id}`}
+                      >
+                        <CheckCircle className="mr-1 h-4 w-4" />
+                        Activate
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={candidate.status === "active"}
+                            data-testid={`button-delete-candidate-${candidate.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete candidate?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This removes {candidateLabel(candidate)} and its draft timetable. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(candidate.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              data-testid={`button-confirm-delete-${candidate.id}`}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Side-by-side comparison */}
+      {candidates.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare</CardTitle>
+            <CardDescription>
+              Highlighted periods differ between the two candidates
+              {leftId && rightId ? ` (${comparison.changed} changed)` : ""}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <Select value={leftId} onValueChange={setLeftId}>
+                <SelectTrigger data-testid="select-candidate-left">
+                  <SelectValue placeholder="First candidate" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>{candidateLabel(candidate)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={rightId} onValueChange={setRightId}>
+                <SelectTrigger data-testid="select-candidate-right">
+                  <SelectValue placeholder="Second candidate" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>{candidateLabel(candidate)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={selectedClassId || ""} onValueChange={setClassId}>
+                <SelectTrigger data-testid="select-compare-class">
+                  <SelectValue placeholder="Class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {comparedClasses.map((cls) => (
+                    <SelectItem key={cls.id} value={cls.id}>Class {cls.grade}-{cls.section}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {comparison.days.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">Select two candidates to compare.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse border border-border text-sm">
+                  <thead>
+                    <tr>
+                      <th className="border border-border p-2 bg-muted text-left font-medium">Period</th>
+                      {comparison.days.map((day) => (
+                        <th key={day} className="border border-border p-2 bg-muted text-center font-medium">
+                          {day.charAt(0).toUpperCase() + day.slice(1)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.periods.map((period) => (
+                      <tr key={period}>
+                        <td className="border border-border p-2 font-medium bg-muted/30">P{period}</td>
+                        {comparison.days.map((day) => {
+                          const key = `${day}|${period}`;
+                          const left = comparison.left.get(key);
+                          const right = comparison.right.get(key);
+                          return (
+                            <td
+                              key={day}
+                              className={`border border-border p-2 align-top ${left !== right ? "bg-amber-50" : ""}`}
+                              data-testid={`compare-${day}-${period}`}
+                            >
+                              {left === right ? (
+                                <span className={left ? "" : "text-muted-foreground"}>{left || "Free"}</span>
+                              ) : (
+                                <div className="space-y-1">
+                                  <div className="text-blue-800"><span className="font-semibold">A:</span> {left || "Free"}</div>
+                                  <div className="text-purple-800"><span className="font-semibold">B:</span> {right || "Free"}</div>
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,11 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { Clock, Save, Plus, Trash2, Settings, Grid3X3, List } from "lucide-react";
-import type { TimetableStructure, InsertTimetableStructure } from "@shared/schema";
+import { Clock, Save, Plus, Trash2, Settings, Grid3X3, List, Star } from "lucide-react";
+import {
+  DEFAULT_SOFT_CONSTRAINT_WEIGHTS,
+  DEFAULT_TIMETABLE_CYCLE,
+  cycleDaysOf,
+  softConstraintKeys,
+  type Class,
+  type SoftConstraintKey,
+  type Subject,
+  type TimetableCycle,
+  type TimetableStructure,
+  type InsertTimetableStructure,
+  type Weekday,
+} from "@shared/schema";
 
 interface TimeSlot {
   period: number;
@@ -21,9 +34,38 @@ interface TimeSlot {
 const defaultWorkingDays = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
 
 // Function to sort working days in proper order
-const sortWorkingDays = (days: string[]): string[] => {
+const sortWorkingDays = (days: ArrayLike<string>): string[] => {
   const dayOrder = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-  return dayOrder.filter(day => days.includes(day));
+  const working = Array.from(days);
+  return dayOrder.filter(day => working.includes(day));
+};
+
+const softConstraintLabels: Record<SoftConstraintKey, { label: string; description: string }> = {
+  teacherIdleGap: {
+    label: "Teacher idle gaps",
+    description: "Free periods between a teacher's first and last lesson of the day",
+  },
+  sameSubjectTwiceInDay: {
+    label: "Same subject twice a day",
+    description: "A class having the same subject more than once on a day",
+  },
+  heavySubjectAfterLunch: {
+    label: "Heavy subjects after lunch",
+    description: "Heavy subjects scheduled after the last break of the day",
+  },
+  teacherFirstAndLastPeriod: {
+    label: "Teacher first and last period",
+    description: "A teacher teaching both the first and the last period of a day",
+  },
+  teacherPreference: {
+    label: "Teacher preferences",
+    description: "A lesson that goes against one of the teachers' soft preferences",
+  },
+};
+
+const defaultSoftConstraints = {
+  weights: DEFAULT_SOFT_CONSTRAINT_WEIGHTS,
+  heavySubjectIds: [] as string[],
 };
 
 const defaultTimeSlots: TimeSlot[] = [
@@ -42,11 +84,20 @@ export default function TimetableStructurePage() {
   const { user } = useAuth();
   const [editMode, setEditMode] = useState(false);
   const [viewMode, setViewMode] = useState<'settings' | 'grid'>('settings');
+  // Structure being shown; null shows the main one
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Day whose periods are being edited; "all" edits the periods every day shares
+  const [slotDay, setSlotDay] = useState<Weekday | "all">("all");
+  const [newStructureName, setNewStructureName] = useState("");
+  const [newHoliday, setNewHoliday] = useState("");
   const [structure, setStructure] = useState<InsertTimetableStructure>({
     schoolId: user?.schoolId || "", 
+    name: "Main",
     periodsPerDay: 8,
     workingDays: defaultWorkingDays,
     timeSlots: defaultTimeSlots,
+    daySlots: {},
+    softConstraints: defaultSoftConstraints,
   });
 
   // Update structure when user context changes
@@ -59,9 +110,25 @@ export default function TimetableStructurePage() {
     }
   }, [user?.schoolId]);
 
-  // Fetch current timetable structure
-  const { data: currentStructure, isLoading } = useQuery({
-    queryKey: ["/api/timetable-structure"],
+  // Fetch the school's timetable structures, the main one first
+  const { data: structures = [], isLoading } = useQuery<TimetableStructure[]>({
+    queryKey: ["/api/timetable-structures"],
+    enabled: !!user?.schoolId,
+  });
+  const currentStructure = structures.find(s => s.id === selectedId) ?? structures[0];
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: !!user?.schoolId,
+  });
+  // Classes without a structure of their own follow the main one
+  const linkedClasses = currentStructure
+    ? classes.filter(c => c.structureId === currentStructure.id ||
+        (currentStructure.isActive && !structures.some(s => s.id === c.structureId)))
+    : [];
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
     enabled: !!user?.schoolId,
   });
 
@@ -70,24 +137,42 @@ export default function TimetableStructurePage() {
     if (currentStructure && currentStructure.id) {
       setStructure({
         schoolId: currentStructure.schoolId,
+        name: currentStructure.name,
         periodsPerDay: currentStructure.periodsPerDay,
         workingDays: currentStructure.workingDays,
         timeSlots: currentStructure.timeSlots,
+        daySlots: currentStructure.daySlots ?? {},
+        travelMinutes: currentStructure.travelMinutes,
+        cycle: currentStructure.cycle ?? DEFAULT_TIMETABLE_CYCLE,
+        // Structures saved before a rule existed have no weight for it yet
+        softConstraints: currentStructure.softConstraints
+          ? {
+              ...currentStructure.softConstraints,
+              weights: { ...DEFAULT_SOFT_CONSTRAINT_WEIGHTS, ...currentStructure.softConstraints.weights },
+            }
+          : defaultSoftConstraints,
         isActive: currentStructure.isActive,
       });
     }
   }, [currentStructure]);
 
-  // Update structure mutation
+  const invalidateStructures = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/timetable-structures"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/timetable-structure"] });
+  };
+
+  // Update structure mutation; the first structure of a school is created as its main one
   const updateStructureMutation = useMutation({
     mutationFn: (data: InsertTimetableStructure) =>
-      apiRequest("POST", "/api/timetable-structure", data),
+      currentStructure
+        ? apiRequest("PUT", `/api/timetable-structure/${currentStructure.id}`, data)
+        : apiRequest("POST", "/api/timetable-structure", data),
     onSuccess: () => {
       toast({
         title: "Success",
         description: "Timetable structure updated successfully",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/timetable-structure"] });
+      invalidateStructures();
       setEditMode(false);
     },
     onError: () => {
@@ -99,10 +184,81 @@ export default function TimetableStructurePage() {
     },
   });
 
+  // A further structure (e.g. an afternoon shift) starts as a copy of the one shown
+  const createStructureMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { isActive, ...copy } = structure;
+      const response = await apiRequest("POST", "/api/timetable-structures", { ...copy, name });
+      return response.json() as Promise<TimetableStructure>;
+    },
+    onSuccess: (created) => {
+      toast({
+        title: "Success",
+        description: `Structure "${created.name}" created`,
+      });
+      invalidateStructures();
+      setSelectedId(created.id);
+      setNewStructureName("");
+      setEditMode(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create timetable structure",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const makeMainMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("PUT", `/api/timetable-structure/${id}`, { isActive: true }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Main timetable structure changed",
+      });
+      invalidateStructures();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change the main structure",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteStructureMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/timetable-structure/${id}`),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Timetable structure deleted",
+      });
+      invalidateStructures();
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      setSelectedId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete timetable structure",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSave = () => {
     updateStructureMutation.mutate(structure);
   };
 
+  const cycle = structure.cycle ?? DEFAULT_TIMETABLE_CYCLE;
+  const cycleDays = cycleDaysOf(cycle, (structure.workingDays ?? []) as Weekday[]);
+
+  const updateCycle = (changes: Partial<TimetableCycle>) => {
+    setStructure(prev => ({ ...prev, cycle: { ...(prev.cycle ?? DEFAULT_TIMETABLE_CYCLE), ...changes } }));
+  };
+
   // Format time to 12-hour format with AM/PM
   const formatTime12Hour = (time24: string): string => {
     const [hours, minutes] = time24.split(':');
@@ -112,44 +268,81 @@ export default function TimetableStructurePage() {
     return `${hour12}:${minutes} ${ampm}`;
   };
 
+  // Periods being edited: those every day shares, or a day's own list when it has one
+  const dayHasOwnSlots = slotDay !== "all" && !!structure.daySlots?.[slotDay];
+  const editedSlots = dayHasOwnSlots ? structure.daySlots![slotDay as Weekday]! : structure.timeSlots ?? [];
+
+  const updateEditedSlots = (update: (slots: TimeSlot[]) => TimeSlot[]) => {
+    setStructure(prev => {
+      if (slotDay === "all" || !prev.daySlots?.[slotDay]) {
+        const timeSlots = update(prev.timeSlots ?? []);
+        return { ...prev, timeSlots, periodsPerDay: timeSlots.length };
+      }
+      return { ...prev, daySlots: { ...prev.daySlots, [slotDay]: update(prev.daySlots[slotDay]!) } };
+    });
+  };
+
+  // A day with its own periods starts from the shared ones; without them it follows the shared ones again
+  const toggleOwnDaySlots = (own: boolean) => {
+    if (slotDay === "all") return;
+    setStructure(prev => {
+      const { [slotDay]: _, ...otherDays } = prev.daySlots ?? {};
+      return { ...prev, daySlots: own ? { ...otherDays, [slotDay]: prev.timeSlots ?? [] } : otherDays };
+    });
+  };
+
   const addTimeSlot = () => {
-    const newPeriod = structure.timeSlots.length + 1;
-    const lastSlot = structure.timeSlots[structure.timeSlots.length - 1];
+    const newPeriod = editedSlots.length + 1;
+    const lastSlot = editedSlots[editedSlots.length - 1];
     const newStartTime = lastSlot ? lastSlot.endTime : "09:00";
     
-    setStructure(prev => ({
-      ...prev,
-      timeSlots: [
-        ...prev.timeSlots,
-        { period: newPeriod, startTime: newStartTime, endTime: "09:45" }
-      ],
-      periodsPerDay: prev.periodsPerDay + 1,
-    }));
+    updateEditedSlots(slots => [
+      ...slots,
+      { period: newPeriod, startTime: newStartTime, endTime: "09:45" }
+    ]);
   };
 
   const removeTimeSlot = (index: number) => {
+    updateEditedSlots(slots => slots.filter((_, i) => i !== index));
+  };
+
+  const updateTimeSlot = (index: number, field: keyof TimeSlot, value: string | boolean) => {
+    updateEditedSlots(slots => slots.map((slot, i) => 
+      i === index ? { ...slot, [field]: value } : slot
+    ));
+  };
+
+  const toggleWorkingDay = (day: string) => {
     setStructure(prev => ({
       ...prev,
-      timeSlots: prev.timeSlots.filter((_, i) => i !== index),
-      periodsPerDay: prev.periodsPerDay - 1,
+      workingDays: prev.workingDays.includes(day)
+        ? prev.workingDays.filter(d => d !== day)
+        : [...prev.workingDays, day],
     }));
   };
 
-  const updateTimeSlot = (index: number, field: keyof TimeSlot, value: string | boolean) => {
+  const softConstraints = structure.softConstraints || defaultSoftConstraints;
+
+  const updateWeight = (key: SoftConstraintKey, value: string) => {
+    const weight = Math.max(0, Math.min(100, parseInt(value, 10) || 0));
     setStructure(prev => ({
       ...prev,
-      timeSlots: prev.timeSlots.map((slot, i) => 
-        i === index ? { ...slot, [field]: value } : slot
-      ),
+      softConstraints: {
+        ...softConstraints,
+        weights: { ...softConstraints.weights, [key]: weight },
+      },
     }));
   };
 
-  const toggleWorkingDay = (day: string) => {
+  const toggleHeavySubject = (subjectId: string) => {
     setStructure(prev => ({
       ...prev,
-      workingDays: prev.workingDays.includes(day)
-        ? prev.workingDays.filter(d => d !== day)
-        : [...prev.workingDays, day],
+      softConstraints: {
+        ...softConstraints,
+        heavySubjectIds: softConstraints.heavySubjectIds.includes(subjectId)
+          ? softConstraints.heavySubjectIds.filter(id => id !== subjectId)
+          : [...softConstraints.heavySubjectIds, subjectId],
+      },
     }));
   };
 
@@ -218,6 +411,104 @@ export default function TimetableStructurePage() {
         </div>
       </div>
 
+      {/* Structures (shifts or campuses) of the school */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Structures</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Structure</Label>
+              <Select
+                value={currentStructure?.id ?? ""}
+                onValueChange={(id) => {
+                  setSelectedId(id);
+                  setSlotDay("all");
+                  setEditMode(false);
+                }}
+                disabled={structures.length === 0}
+              >
+                <SelectTrigger className="w-56" data-testid="select-structure">
+                  <SelectValue placeholder="No structure yet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {structures.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}{s.isActive ? " (main)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="structure-name">Name</Label>
+              <Input
+                id="structure-name"
+                value={structure.name ?? ""}
+                onChange={(e) => setStructure(prev => ({ ...prev, name: e.target.value }))}
+                disabled={!editMode}
+                className="w-56"
+                data-testid="input-structure-name"
+              />
+            </div>
+            {currentStructure && (
+              currentStructure.isActive ? (
+                <Badge variant="default" className="mb-2">Main structure</Badge>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => makeMainMutation.mutate(currentStructure.id)}
+                    disabled={makeMainMutation.isPending}
+                    data-testid="button-make-main-structure"
+                  >
+                    <Star className="h-4 w-4 mr-2" />
+                    Make Main
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => deleteStructureMutation.mutate(currentStructure.id)}
+                    disabled={deleteStructureMutation.isPending}
+                    data-testid="button-delete-structure"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                    Delete
+                  </Button>
+                </>
+              )
+            )}
+            {currentStructure && (
+              <div className="flex items-end gap-2 ml-auto">
+                <Input
+                  placeholder="New structure, e.g. Afternoon shift"
+                  value={newStructureName}
+                  onChange={(e) => setNewStructureName(e.target.value)}
+                  className="w-64"
+                  data-testid="input-new-structure-name"
+                />
+                <Button
+                  onClick={() => createStructureMutation.mutate(newStructureName.trim())}
+                  disabled={!newStructureName.trim() || createStructureMutation.isPending}
+                  data-testid="button-create-structure"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Structure
+                </Button>
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground mt-4" data-testid="text-structure-classes">
+            {currentStructure?.isActive
+              ? "Classes without a structure of their own follow the main structure. "
+              : "Link classes to this structure from their class settings. "}
+            {linkedClasses.length > 0
+              ? `Followed by ${linkedClasses.map(c => `${c.grade}-${c.section}`).join(", ")}.`
+              : "No classes follow it yet."}
+          </p>
+        </CardContent>
+      </Card>
+
       {viewMode === 'settings' ? (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Working Days Configuration */}
@@ -286,6 +577,137 @@ export default function TimetableStructurePage() {
                   </div>
                 </>
               )}
+              {/* The main structure's travel time applies to every shift */}
+              {(!currentStructure || currentStructure.isActive) && (
+                <div className="pt-4 border-t space-y-1">
+                  <div className="flex justify-between items-center gap-4">
+                    <Label htmlFor="travel-minutes" className="text-sm text-muted-foreground font-normal">
+                      Travel Between Buildings (min)
+                    </Label>
+                    <Input
+                      id="travel-minutes"
+                      type="number"
+                      min={0}
+                      max={120}
+                      value={structure.travelMinutes ?? 0}
+                      onChange={(e) => setStructure(prev => ({
+                        ...prev,
+                        travelMinutes: Math.max(0, Math.min(120, parseInt(e.target.value, 10) || 0)),
+                      }))}
+                      disabled={!editMode}
+                      className="w-20 text-sm"
+                      data-testid="input-travel-minutes"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Teachers are not given lessons in different buildings with less time than this between them.
+                  </p>
+                </div>
+              )}
+              {/* The main structure's cycle applies to the whole school */}
+              {(!currentStructure || currentStructure.isActive) && (
+                <div className="pt-4 border-t space-y-3">
+                  <div className="flex justify-between items-center gap-4">
+                    <Label className="text-sm text-muted-foreground font-normal">Timetable Cycle</Label>
+                    <Select
+                      value={cycle.type}
+                      onValueChange={(type) => updateCycle({
+                        type: type as TimetableCycle["type"],
+                        length: type === "weekly" ? 1 : type === "weeks" ? 2 : 6,
+                      })}
+                      disabled={!editMode}
+                    >
+                      <SelectTrigger className="w-40" data-testid="select-cycle-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="weekly">Same every week</SelectItem>
+                        <SelectItem value="weeks">Rotating weeks (A/B)</SelectItem>
+                        <SelectItem value="days">Rotating days (Day 1-N)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {cycle.type !== "weekly" && (
+                    <>
+                      <div className="flex justify-between items-center gap-4">
+                        <Label htmlFor="cycle-length" className="text-sm text-muted-foreground font-normal">
+                          {cycle.type === "weeks" ? "Weeks in Cycle" : "Days in Cycle"}
+                        </Label>
+                        <Input
+                          id="cycle-length"
+                          type="number"
+                          min={2}
+                          max={10}
+                          value={cycle.length}
+                          onChange={(e) => updateCycle({
+                            length: Math.max(2, Math.min(10, parseInt(e.target.value, 10) || 2)),
+                          })}
+                          disabled={!editMode}
+                          className="w-20 text-sm"
+                          data-testid="input-cycle-length"
+                        />
+                      </div>
+                      <div className="flex justify-between items-center gap-4">
+                        <Label htmlFor="cycle-start" className="text-sm text-muted-foreground font-normal">
+                          {cycle.type === "weeks" ? "A Date in Week A" : "A Date on Day 1"}
+                        </Label>
+                        <Input
+                          id="cycle-start"
+                          type="date"
+                          value={cycle.startDate ?? ""}
+                          onChange={(e) => updateCycle({ startDate: e.target.value || null })}
+                          disabled={!editMode}
+                          className="w-40 text-sm"
+                          data-testid="input-cycle-start"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm text-muted-foreground font-normal">Holidays (cycle does not move on)</Label>
+                        {editMode && (
+                          <div className="flex gap-2">
+                            <Input
+                              type="date"
+                              value={newHoliday}
+                              onChange={(e) => setNewHoliday(e.target.value)}
+                              className="text-sm"
+                              data-testid="input-cycle-holiday"
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                updateCycle({ holidays: Array.from(new Set([...cycle.holidays, newHoliday])).sort() });
+                                setNewHoliday("");
+                              }}
+                              disabled={!newHoliday}
+                              data-testid="button-add-holiday"
+                            >
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {cycle.holidays.map(holiday => (
+                            <Badge
+                              key={holiday}
+                              variant="secondary"
+                              className={editMode ? "cursor-pointer" : ""}
+                              onClick={() => editMode && updateCycle({ holidays: cycle.holidays.filter(h => h !== holiday) })}
+                              data-testid={`badge-holiday-${holiday}`}
+                            >
+                              {holiday}{editMode && " ×"}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {cycleDays.length} days in the cycle: {cycleDays.map(day => day.label).join(", ")}.
+                        Periods per week and teacher weekly loads are scaled to the length of the cycle.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -295,7 +717,7 @@ export default function TimetableStructurePage() {
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               Period Structure
-              {editMode && (
+              {editMode && (slotDay === "all" || dayHasOwnSlots) && (
                 <Button
                   size="sm"
                   variant="outline"
@@ -309,8 +731,33 @@ export default function TimetableStructurePage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
+            <div className="flex items-center gap-3 mb-3">
+              <Select value={slotDay} onValueChange={(day) => setSlotDay(day as Weekday | "all")}>
+                <SelectTrigger className="w-40" data-testid="select-slot-day">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Every day</SelectItem>
+                  {sortWorkingDays(structure.workingDays ?? []).map((day) => (
+                    <SelectItem key={day} value={day} className="capitalize">{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {slotDay !== "all" && (
+                <label className="flex items-center space-x-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={dayHasOwnSlots}
+                    onChange={(e) => toggleOwnDaySlots(e.target.checked)}
+                    disabled={!editMode}
+                    data-testid="checkbox-own-day-periods"
+                  />
+                  <span>Own periods on this day</span>
+                </label>
+              )}
+            </div>
             <div className="space-y-3 max-h-96 overflow-y-auto">
-              {structure.timeSlots.map((slot, index) => (
+              {editedSlots.map((slot, index) => (
                 <div
                   key={index}
                   className={`p-3 border rounded-lg ${slot.isBreak ? 'bg-orange-50 border-orange-200' : 'bg-gray-50'}`}
@@ -320,7 +767,7 @@ export default function TimetableStructurePage() {
                     <span className="font-medium">
                       {slot.isBreak ? 'Break' : `Period ${slot.period}`}
                     </span>
-                    {editMode && (
+                    {editMode && (slotDay === "all" || dayHasOwnSlots) && (
                       <Button
                         size="sm"
                         variant="ghost"
@@ -340,7 +787,7 @@ export default function TimetableStructurePage() {
                         type="time"
                         value={slot.startTime}
                         onChange={(e) => updateTimeSlot(index, 'startTime', e.target.value)}
-                        disabled={!editMode}
+                        disabled={!editMode || (slotDay !== "all" && !dayHasOwnSlots)}
                         className="text-sm"
                         data-testid={`input-start-time-${index}`}
                       />
@@ -352,14 +799,14 @@ export default function TimetableStructurePage() {
                         type="time"
                         value={slot.endTime}
                         onChange={(e) => updateTimeSlot(index, 'endTime', e.target.value)}
-                        disabled={!editMode}
+                        disabled={!editMode || (slotDay !== "all" && !dayHasOwnSlots)}
                         className="text-sm"
                         data-testid={`input-end-time-${index}`}
                       />
                     </div>
                   </div>
                   
-                  {editMode && (
+                  {editMode && (slotDay === "all" || dayHasOwnSlots) && (
                     <div className="mt-2">
                       <label className="flex items-center space-x-2 text-xs">
                         <input
@@ -377,6 +824,66 @@ export default function TimetableStructurePage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Soft Constraint Weights */}
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>Optimization Weights</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              Penalty added to a generated timetable for every occurrence. Higher weights are avoided more strongly; 0 ignores the rule.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {softConstraintKeys.map((key) => (
+                <div key={key} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <div>
+                    <Label htmlFor={`weight-${key}`} className="font-medium">
+                      {softConstraintLabels[key].label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{softConstraintLabels[key].description}</p>
+                  </div>
+                  <Input
+                    id={`weight-${key}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={softConstraints.weights[key]}
+                    onChange={(e) => updateWeight(key, e.target.value)}
+                    disabled={!editMode}
+                    className="w-20 text-sm"
+                    data-testid={`input-weight-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-6">
+              <Label className="font-medium">Heavy Subjects</Label>
+              <p className="text-xs text-muted-foreground mb-3">
+                Preferably scheduled before the last break of the day.
+              </p>
+              <div className="flex flex-wrap gap-4">
+                {subjects.map((subject) => (
+                  <label key={subject.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={softConstraints.heavySubjectIds.includes(subject.id)}
+                      onChange={() => editMode && toggleHeavySubject(subject.id)}
+                      disabled={!editMode}
+                      className="rounded"
+                      data-testid={`checkbox-heavy-${subject.id}`}
+                    />
+                    <span>{subject.name}</span>
+                  </label>
+                ))}
+                {subjects.length === 0 && (
+                  <span className="text-sm text-muted-foreground">No subjects added yet</span>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
         </div>
       ) : (
         // Grid View
@@ -1,5 +1,6 @@
 import { storage } from "./storage";
 import { hashPassword } from "./auth";
+import { DEFAULT_PERIOD_TIMES, weekdays, type TeacherUnavailability } from "@shared/schema";
 
 /**
  * Bootstrap script to create the initial Super Admin user
@@ -41,4 +42,55 @@ export async function createSuperAdmin() {
   } catch (error) {
     console.error("❌ Failed to create Super Admin:", error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Converts legacy "HH:MM-HH:MM" availability lists into period-level unavailability.
+ * A day with a non-empty list made the teacher available only in the listed slots,
+ * so every teaching period of that day whose times are not listed becomes unavailable.
+ * The legacy lists are cleared afterwards, which makes this safe to run on every start.
+ */
+export async function migrateTeacherAvailability() {
+  try {
+    const teachers = await storage.getTeachers();
+    const periodsBySchool = new Map<string, { period: number; startTime: string; endTime: string }[]>();
+    let migrated = 0;
+
+    for (const teacher of teachers) {
+      const legacy = teacher.availability;
+      if (!weekdays.some(day => legacy?.[day]?.length)) continue;
+
+      if (!periodsBySchool.has(teacher.schoolId)) {
+        const structure = await storage.getTimetableStructureBySchool(teacher.schoolId);
+        periodsBySchool.set(
+          teacher.schoolId,
+          structure?.timeSlots?.filter(slot => !slot.isBreak) ?? DEFAULT_PERIOD_TIMES
+        );
+      }
+      const periods = periodsBySchool.get(teacher.schoolId)!;
+
+      const unavailablePeriods: TeacherUnavailability = { ...teacher.unavailablePeriods };
+      for (const day of weekdays) {
+        const slots = legacy[day];
+        if (!slots?.length) continue;
+        const blocked = periods
+          .filter(slot => !slots.includes(`${slot.startTime}-${slot.endTime}`))
+          .map(slot => slot.period);
+        unavailablePeriods[day] = Array.from(new Set([...(unavailablePeriods[day] ?? []), ...blocked]))
+          .sort((a, b) => a - b);
+      }
+
+      await storage.updateTeacher(teacher.id, {
+        unavailablePeriods,
+        availability: { monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [] },
+      });
+      migrated++;
+    }
+
+    if (migrated > 0) {
+      console.log(`✅ Converted availability of ${migrated} teacher(s) to unavailable periods`);
+    }
+  } catch (error) {
+    console.error("❌ Failed to migrate teacher availability:", error);
+  }
+}
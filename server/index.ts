@@ -1,7 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { createSuperAdmin } from "./bootstrap";
+import { createSuperAdmin, migrateTeacherAvailability } from "./bootstrap";
 
 // Set timezone to IST (Indian Standard Time)
 process.env.TZ = 'Asia/Kolkata';
@@ -43,6 +43,7 @@ app.use((req, res, next) => {
 (async () => {
   // Create super admin if credentials are provided
   await createSuperAdmin();
+  await migrateTeacherAvailability();
   
   const server = await registerRoutes(app);
 
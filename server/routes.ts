@@ -1,22 +1,53 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { scheduler } from "./services/scheduler";
+import { scheduler, MAX_CANDIDATES } from "./services/scheduler";
+import { generationJobs } from "./services/generationJobs";
+import { MAX_SEED } from "./services/solver";
 import { CSVProcessor } from "./services/csvProcessor";
+import { evaluatePreferences } from "./services/preferences";
+import { parseIcsCalendar } from "./services/icsImport";
+import { generateExamSchedule } from "./services/examScheduler";
+import { loadCoverDay, nextSubstitute, planCoverForAbsence, rankSubstitutes } from "./services/coverPlanner";
+import { getCoverLedger } from "./services/coverLedger";
+import { getEffectiveTimetable } from "./services/effectiveTimetable";
 import { 
   insertTeacherSchema, 
   insertSubjectSchema, 
+  insertRoomSchema,
   insertClassSchema,
   updateClassSchema,
   insertSubstitutionSchema,
+  declineSubstitutionSchema,
+  type Substitution,
   insertSchoolSchema,
   insertClassSubjectAssignmentSchema,
+  updateClassSubjectAssignmentSchema,
+  blocksFitWeeklyFrequency,
+  insertLessonGroupSchema,
+  updateLessonGroupSchema,
+  lessonGroupFitsBlocks,
+  lessonGroupTeachersDistinct,
+  type LessonGroupStream,
+  insertTeacherPreferenceSchema,
+  updateTeacherPreferenceSchema,
+  teacherPreferenceComplete,
+  type Teacher,
   insertTimetableStructureSchema,
+  timetableEntryLockSchema,
   insertTeacherAttendanceSchema,
-  bulkAttendanceSchema
+  bulkAttendanceSchema,
+  insertAcademicCalendarEventSchema,
+  calendarEventIssue,
+  calendarEventTypes,
+  type CalendarEventType,
+  insertExamSeriesSchema,
+  insertExamPaperSchema,
+  coverSettingsSchema,
 } from "@shared/schema";
 import multer from "multer";
 import { setupCustomAuth, authenticateToken as authMiddleware } from "./auth";
+import { getCurrentDateIST, toISTDateString } from "@shared/utils/dateUtils";
 
 // Configure multer for file uploads
 const upload = multer({ 
@@ -464,6 +495,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Marking a teacher away plans cover for their lessons; marking them present again
+  // drops the cover still pending for the day
+  const updateCover = async (attendance: { teacherId: string; attendanceDate: string; status: string; reason: string | null }) => {
+    if (attendance.status === "present") {
+      await storage.clearPendingCover(attendance.teacherId, attendance.attendanceDate);
+      return undefined;
+    }
+    const teacher = await storage.getTeacher(attendance.teacherId);
+    return teacher && await planCoverForAbsence(teacher, [attendance.attendanceDate], attendance.reason);
+  };
+
   // Teacher Attendance routes
   app.get("/api/teacher-attendance", authMiddleware, async (req: any, res) => {
     try {
@@ -518,7 +560,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const validatedData = insertTeacherAttendanceSchema.parse(requestBody);
       const attendance = await storage.markTeacherAttendance(validatedData);
-      res.status(201).json(attendance);
+      const cover = await updateCover(attendance);
+      res.status(201).json({ ...attendance, cover });
     } catch (error) {
       console.error("Error marking teacher attendance:", error);
       res.status(500).json({ message: "Failed to mark teacher attendance" });
@@ -545,7 +588,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const attendanceRecords = await storage.markBulkTeacherAttendance(validatedData, user.id);
-      res.status(201).json(attendanceRecords);
+      const teacher = await storage.getTeacher(validatedData.teacherId);
+      const cover = teacher && await planCoverForAbsence(
+        teacher,
+        attendanceRecords.map(record => record.attendanceDate),
+        validatedData.reason ?? null
+      );
+      res.status(201).json({ records: attendanceRecords, cover });
     } catch (error) {
       console.error("Error marking bulk teacher attendance:", error);
       res.status(500).json({ message: "Failed to mark bulk teacher attendance" });
@@ -567,7 +616,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = insertTeacherAttendanceSchema.partial().parse(requestBody);
       const attendance = await storage.updateTeacherAttendance(attendanceId, validatedData);
-      res.json(attendance);
+      const cover = validatedData.status ? await updateCover(attendance) : undefined;
+      res.json({ ...attendance, cover });
     } catch (error) {
       console.error("Error updating teacher attendance:", error);
       res.status(500).json({ message: "Failed to update teacher attendance" });
@@ -584,7 +634,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      await storage.deleteTeacherAttendance(attendanceId);
+      const deleted = await storage.deleteTeacherAttendance(attendanceId);
+      if (deleted) {
+        await storage.clearPendingCover(deleted.teacherId, deleted.attendanceDate);
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting teacher attendance:", error);
@@ -610,15 +663,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user;
       const schoolId = req.query.schoolId as string;
       
-      // Only school admins and super admins can access subjects
-      if (user.role !== 'admin' && user.role !== 'super_admin') {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       let targetSchoolId: string | undefined;
 
-      // For school admins, only show subjects from their school
-      if (user.role === 'admin') {
+      // School admins, and teachers picking subject preferences, only see subjects from their school
+      if (user.role === 'admin' || user.role === 'teacher') {
         if (!user.schoolId) {
           return res.status(400).json({ message: "User is not associated with a school" });
         }
@@ -770,6 +818,431 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Room endpoints
+  app.get("/api/rooms", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can access rooms
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let targetSchoolId: string | undefined;
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        targetSchoolId = user.schoolId;
+      } else {
+        targetSchoolId = req.query.schoolId as string;
+      }
+
+      const rooms = await storage.getRooms(targetSchoolId);
+      res.json(rooms);
+    } catch (error) {
+      console.error("Error fetching rooms:", error);
+      res.status(500).json({ message: "Failed to fetch rooms" });
+    }
+  });
+
+  app.post("/api/rooms", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can create rooms
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const requestBody = { ...req.body };
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        requestBody.schoolId = user.schoolId;
+      } else if (!requestBody.schoolId) {
+        return res.status(400).json({ message: "School ID is required for super admin" });
+      }
+
+      const validatedData = insertRoomSchema.parse(requestBody);
+      const room = await storage.createRoom(validatedData);
+      res.status(201).json(room);
+    } catch (error) {
+      console.error("Error creating room:", error);
+      res.status(400).json({ message: "Invalid room data" });
+    }
+  });
+
+  app.put("/api/rooms/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const roomId = req.params.id;
+
+      // Only school admins and super admins can update rooms
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingRoom = await storage.getRoom(roomId);
+      if (!existingRoom) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (user.role === 'admin' && user.schoolId && existingRoom.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - room not in your school" });
+      }
+
+      const validatedData = insertRoomSchema.partial().parse(req.body);
+
+      // Ensure school ID cannot be changed by school admins
+      if (user.role === 'admin') {
+        delete validatedData.schoolId;
+      }
+
+      const updatedRoom = await storage.updateRoom(roomId, validatedData);
+      res.json(updatedRoom);
+    } catch (error) {
+      console.error("Error updating room:", error);
+      res.status(400).json({ message: "Failed to update room" });
+    }
+  });
+
+  app.delete("/api/rooms/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const roomId = req.params.id;
+
+      // Only school admins and super admins can delete rooms
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingRoom = await storage.getRoom(roomId);
+      if (!existingRoom) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (user.role === 'admin' && user.schoolId && existingRoom.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - room not in your school" });
+      }
+
+      await storage.deleteRoom(roomId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting room:", error);
+      res.status(500).json({ message: "Failed to delete room" });
+    }
+  });
+
+  // Lesson group endpoints
+  // Classes, subjects and teachers of a lesson group must all belong to its school
+  const lessonGroupMembersInSchool = async (
+    schoolId: string,
+    classIds: string[],
+    streams: LessonGroupStream[]
+  ) => {
+    const [schoolClasses, schoolSubjects, schoolTeachers] = await Promise.all([
+      storage.getClasses(schoolId),
+      storage.getSubjects(schoolId),
+      storage.getTeachers(schoolId),
+    ]);
+    const classIdSet = new Set(schoolClasses.map((c) => c.id));
+    const subjectIdSet = new Set(schoolSubjects.map((s) => s.id));
+    const teacherIdSet = new Set(schoolTeachers.map((t) => t.id));
+    return (
+      classIds.every((id) => classIdSet.has(id)) &&
+      streams.every((stream) => subjectIdSet.has(stream.subjectId) && teacherIdSet.has(stream.teacherId))
+    );
+  };
+
+  app.get("/api/lesson-groups", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can access lesson groups
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let targetSchoolId: string | undefined;
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        targetSchoolId = user.schoolId;
+      } else {
+        targetSchoolId = req.query.schoolId as string;
+      }
+
+      const groups = await storage.getLessonGroups(targetSchoolId);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error fetching lesson groups:", error);
+      res.status(500).json({ message: "Failed to fetch lesson groups" });
+    }
+  });
+
+  app.post("/api/lesson-groups", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can create lesson groups
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const requestBody = { ...req.body };
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        requestBody.schoolId = user.schoolId;
+      } else if (!requestBody.schoolId) {
+        return res.status(400).json({ message: "School ID is required for super admin" });
+      }
+
+      const validatedData = insertLessonGroupSchema.parse(requestBody);
+      if (!(await lessonGroupMembersInSchool(validatedData.schoolId, validatedData.classIds, validatedData.streams))) {
+        return res.status(400).json({ message: "Classes, subjects and teachers must belong to the school" });
+      }
+
+      const group = await storage.createLessonGroup(validatedData);
+      res.status(201).json(group);
+    } catch (error) {
+      console.error("Error creating lesson group:", error);
+      res.status(400).json({ message: "Invalid lesson group data" });
+    }
+  });
+
+  app.put("/api/lesson-groups/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const groupId = req.params.id;
+
+      // Only school admins and super admins can update lesson groups
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingGroup = await storage.getLessonGroup(groupId);
+      if (!existingGroup) {
+        return res.status(404).json({ message: "Lesson group not found" });
+      }
+
+      if (user.role === 'admin' && user.schoolId && existingGroup.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - lesson group not in your school" });
+      }
+
+      const validatedData = updateLessonGroupSchema.parse(req.body);
+
+      // Lesson groups cannot be moved between schools
+      delete validatedData.schoolId;
+
+      const merged = { ...existingGroup, ...validatedData };
+      if (!lessonGroupFitsBlocks(merged)) {
+        return res.status(400).json({ message: "Weekly frequency must be a multiple of the block length" });
+      }
+      if (!lessonGroupTeachersDistinct(merged)) {
+        return res.status(400).json({ message: "Each stream needs a different teacher" });
+      }
+      if (!(await lessonGroupMembersInSchool(existingGroup.schoolId, merged.classIds, merged.streams))) {
+        return res.status(400).json({ message: "Classes, subjects and teachers must belong to the school" });
+      }
+
+      const updatedGroup = await storage.updateLessonGroup(groupId, validatedData);
+      res.json(updatedGroup);
+    } catch (error) {
+      console.error("Error updating lesson group:", error);
+      res.status(400).json({ message: "Failed to update lesson group" });
+    }
+  });
+
+  app.delete("/api/lesson-groups/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const groupId = req.params.id;
+
+      // Only school admins and super admins can delete lesson groups
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingGroup = await storage.getLessonGroup(groupId);
+      if (!existingGroup) {
+        return res.status(404).json({ message: "Lesson group not found" });
+      }
+
+      if (user.role === 'admin' && user.schoolId && existingGroup.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - lesson group not in your school" });
+      }
+
+      await storage.deleteLessonGroup(groupId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting lesson group:", error);
+      res.status(500).json({ message: "Failed to delete lesson group" });
+    }
+  });
+
+  // Teacher preference endpoints. Teachers manage their own preferences,
+  // school admins those of every teacher in their school.
+  const canManagePreferencesOf = (user: any, teacher: Teacher) =>
+    user.role === 'super_admin' ||
+    (user.role === 'admin' && teacher.schoolId === user.schoolId) ||
+    (user.role === 'teacher' && !!user.teacherId && teacher.id === user.teacherId);
+
+  const preferenceSubjectInSchool = async (schoolId: string, subjectId?: string | null) =>
+    !subjectId || (await storage.getSubjects(schoolId)).some((s) => s.id === subjectId);
+
+  // School and teacher whose preferences a request may list; an error message when it may not
+  const preferenceScope = (user: any, query: any): { schoolId?: string; teacherId?: string; error?: string } => {
+    if (user.role === 'teacher') {
+      if (!user.teacherId || !user.schoolId) {
+        return { error: "No teacher profile is linked to this account" };
+      }
+      return { schoolId: user.schoolId, teacherId: user.teacherId };
+    }
+    if (user.role === 'admin') {
+      if (!user.schoolId) {
+        return { error: "User is not associated with a school" };
+      }
+      return { schoolId: user.schoolId, teacherId: query.teacherId as string | undefined };
+    }
+    if (!query.schoolId) {
+      return { error: "School ID is required for super admin" };
+    }
+    return { schoolId: query.schoolId as string, teacherId: query.teacherId as string | undefined };
+  };
+
+  app.get("/api/teacher-preferences", authMiddleware, async (req: any, res) => {
+    try {
+      const scope = preferenceScope(req.user, req.query);
+      if (scope.error) {
+        return res.status(403).json({ message: scope.error });
+      }
+
+      const preferences = await storage.getTeacherPreferences(scope.schoolId!, scope.teacherId);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error fetching teacher preferences:", error);
+      res.status(500).json({ message: "Failed to fetch teacher preferences" });
+    }
+  });
+
+  // Which preferences the active timetable satisfies
+  app.get("/api/teacher-preferences/report", authMiddleware, async (req: any, res) => {
+    try {
+      const scope = preferenceScope(req.user, req.query);
+      if (scope.error) {
+        return res.status(403).json({ message: scope.error });
+      }
+      const schoolId = scope.schoolId!;
+
+      const [preferences, classes, teachers, subjects] = await Promise.all([
+        storage.getTeacherPreferences(schoolId, scope.teacherId),
+        storage.getClasses(schoolId),
+        storage.getTeachers(schoolId),
+        storage.getSubjects(schoolId),
+      ]);
+      const entries = (await Promise.all(classes.map((c) => storage.getTimetableForClass(c.id)))).flat();
+
+      res.json(evaluatePreferences(preferences, entries, teachers, classes, subjects));
+    } catch (error) {
+      console.error("Error building teacher preference report:", error);
+      res.status(500).json({ message: "Failed to build teacher preference report" });
+    }
+  });
+
+  app.post("/api/teacher-preferences", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      const requestBody = { ...req.body };
+      if (user.role === 'teacher') {
+        requestBody.teacherId = user.teacherId;
+      }
+
+      const teacher = requestBody.teacherId ? await storage.getTeacher(requestBody.teacherId) : undefined;
+      if (!teacher) {
+        return res.status(404).json({ message: "Teacher not found" });
+      }
+      if (!canManagePreferencesOf(user, teacher)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      requestBody.schoolId = teacher.schoolId;
+
+      const validatedData = insertTeacherPreferenceSchema.parse(requestBody);
+      if (!(await preferenceSubjectInSchool(teacher.schoolId, validatedData.subjectId))) {
+        return res.status(400).json({ message: "Subject must belong to the school" });
+      }
+
+      const preference = await storage.createTeacherPreference(validatedData);
+      res.status(201).json(preference);
+    } catch (error) {
+      console.error("Error creating teacher preference:", error);
+      res.status(400).json({ message: "Invalid teacher preference data" });
+    }
+  });
+
+  app.put("/api/teacher-preferences/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      const existingPreference = await storage.getTeacherPreference(req.params.id);
+      if (!existingPreference) {
+        return res.status(404).json({ message: "Teacher preference not found" });
+      }
+
+      const teacher = await storage.getTeacher(existingPreference.teacherId);
+      if (!teacher || !canManagePreferencesOf(user, teacher)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validatedData = updateTeacherPreferenceSchema.parse(req.body);
+
+      // Preferences stay with their teacher
+      delete validatedData.teacherId;
+      delete validatedData.schoolId;
+
+      const merged = { ...existingPreference, ...validatedData };
+      if (!teacherPreferenceComplete(merged)) {
+        return res.status(400).json({ message: "The preference is missing the fields its type needs" });
+      }
+      if (!(await preferenceSubjectInSchool(teacher.schoolId, merged.subjectId))) {
+        return res.status(400).json({ message: "Subject must belong to the school" });
+      }
+
+      const updatedPreference = await storage.updateTeacherPreference(req.params.id, validatedData);
+      res.json(updatedPreference);
+    } catch (error) {
+      console.error("Error updating teacher preference:", error);
+      res.status(400).json({ message: "Failed to update teacher preference" });
+    }
+  });
+
+  app.delete("/api/teacher-preferences/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      const existingPreference = await storage.getTeacherPreference(req.params.id);
+      if (!existingPreference) {
+        return res.status(404).json({ message: "Teacher preference not found" });
+      }
+
+      const teacher = await storage.getTeacher(existingPreference.teacherId);
+      if (!teacher || !canManagePreferencesOf(user, teacher)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteTeacherPreference(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting teacher preference:", error);
+      res.status(500).json({ message: "Failed to delete teacher preference" });
+    }
+  });
+
   // Class endpoints
   app.get("/api/classes", authMiddleware, async (req: any, res) => {
     try {
@@ -811,6 +1284,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // A class can only follow one of its own school's timetable structures
+  const structureInSchool = async (schoolId: string, structureId?: string | null) =>
+    !structureId || (await storage.getTimetableStructure(structureId))?.schoolId === schoolId;
+
   app.post("/api/classes", authMiddleware, async (req: any, res) => {
     try {
       const user = req.user;
@@ -845,6 +1322,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log("Final request body before validation:", requestBody);
       const validatedData = insertClassSchema.parse(requestBody);
+      if (!(await structureInSchool(validatedData.schoolId, validatedData.structureId))) {
+        return res.status(400).json({ message: "Timetable structure must belong to the school" });
+      }
       const classData = await storage.createClass(validatedData);
       res.status(201).json(classData);
     } catch (error) {
@@ -882,6 +1362,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if the new grade-section combination already exists in the same school
       const schoolId = existingClass.schoolId;
+      if (!(await structureInSchool(validatedData.schoolId ?? schoolId, validatedData.structureId))) {
+        return res.status(400).json({ message: "Timetable structure must belong to the school" });
+      }
       const isDuplicate = await storage.checkClassExists(
         validatedData.grade || existingClass.grade,
         validatedData.section !== undefined ? validatedData.section : existingClass.section,
@@ -977,10 +1460,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         schoolId = user.schoolId;
       }
 
-      const [teachers, subjects, classes] = await Promise.all([
+      const [teachers, subjects, classes, lessonGroups] = await Promise.all([
         storage.getTeachers(schoolId),
         storage.getSubjects(schoolId),
         storage.getClasses(schoolId),
+        storage.getLessonGroups(schoolId),
       ]);
 
       // Enrich timetable with related data
@@ -988,12 +1472,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const teacher = teachers.find(t => t.id === entry.teacherId);
         const subject = subjects.find(s => s.id === entry.subjectId);
         const classData = classes.find(c => c.id === entry.classId);
+        const lessonGroup = entry.lessonGroupId
+          ? lessonGroups.find(g => g.id === entry.lessonGroupId)
+          : undefined;
 
         return {
           ...entry,
           teacher,
           subject,
           class: classData,
+          lessonGroup,
         };
       });
 
@@ -1004,20 +1492,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Timetable Versions API
-  app.get("/api/timetable-versions", authMiddleware, async (req: any, res) => {
+  // The timetable as taught on a date, for the school, a class or a teacher: confirmed
+  // substitutes, lessons of absent teachers without cover and the academic calendar
+  app.get("/api/timetable/effective", authMiddleware, async (req: any, res) => {
     try {
-      const { classId, weekStart, weekEnd } = req.query;
-      
-      if (!classId || !weekStart || !weekEnd) {
-        return res.status(400).json({ message: "classId, weekStart, and weekEnd are required" });
+      const user = req.user;
+      const { date, classId, teacherId } = req.query as { date?: string; classId?: string; teacherId?: string };
+
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "A date (YYYY-MM-DD) is required" });
       }
 
-      const versions = await storage.getTimetableVersionsForClass(
-        classId as string, 
-        weekStart as string, 
-        weekEnd as string
-      );
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const [teachers, subjects, classes, lessonGroups] = await Promise.all([
+        storage.getTeachers(schoolId),
+        storage.getSubjects(schoolId),
+        storage.getClasses(schoolId),
+        storage.getLessonGroups(schoolId),
+      ]);
+      if (classId && !classes.some(c => c.id === classId)) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      if (teacherId && !teachers.some(t => t.id === teacherId)) {
+        return res.status(404).json({ message: "Teacher not found" });
+      }
+
+      const timetable = await getEffectiveTimetable(schoolId, date, { classId, teacherId });
+      const lessons = timetable.lessons.map(lesson => ({
+        ...lesson,
+        teacher: teachers.find(t => t.id === lesson.teacherId),
+        substituteTeacher: lesson.substituteTeacherId ? teachers.find(t => t.id === lesson.substituteTeacherId) : undefined,
+        subject: subjects.find(s => s.id === lesson.subjectId),
+        class: classes.find(c => c.id === lesson.classId),
+        lessonGroup: lesson.lessonGroupId ? lessonGroups.find(g => g.id === lesson.lessonGroupId) : undefined,
+      }));
+
+      res.json({ ...timetable, lessons });
+    } catch (error) {
+      console.error("Error fetching effective timetable:", error);
+      res.status(500).json({ message: "Failed to fetch effective timetable" });
+    }
+  });
+
+  // Lock an entry so that regenerating the timetable keeps it in place
+  app.patch("/api/timetable/entries/:id/lock", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can lock timetable entries
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const entry = await storage.getTimetableEntry(req.params.id);
+      if (!entry || !entry.isActive) {
+        return res.status(404).json({ message: "Timetable entry not found" });
+      }
+
+      if (user.role === 'admin') {
+        const classData = await storage.getClass(entry.classId);
+        if (!classData || classData.schoolId !== user.schoolId) {
+          return res.status(403).json({ message: "Access denied - entry not in your school" });
+        }
+      }
+
+      const { isLocked } = timetableEntryLockSchema.parse(req.body);
+      const entries = await storage.setTimetableEntryLock(entry.id, isLocked);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error locking timetable entry:", error);
+      res.status(400).json({ message: "Failed to update timetable entry lock" });
+    }
+  });
+
+  // Timetable Versions API
+  app.get("/api/timetable-versions", authMiddleware, async (req: any, res) => {
+    try {
+      const { classId, weekStart, weekEnd } = req.query;
+      
+      if (!classId || !weekStart || !weekEnd) {
+        return res.status(400).json({ message: "classId, weekStart, and weekEnd are required" });
+      }
+
+      const versions = await storage.getTimetableVersionsForClass(
+        classId as string, 
+        weekStart as string, 
+        weekEnd as string
+      );
       
       res.json(versions);
     } catch (error) {
@@ -1241,10 +1806,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Substitution endpoints
-  app.get("/api/substitutions", async (req, res) => {
+  // Substitution endpoints. Admins manage their school's substitutions; the
+  // substitute teacher accepts or declines their own.
+
+  // The school of a substitution's lesson, and the lesson
+  const substitutionLesson = async (substitution: Pick<Substitution, "timetableEntryId">) => {
+    const entry = await storage.getTimetableEntry(substitution.timetableEntryId);
+    const classData = entry && await storage.getClass(entry.classId);
+    return entry && classData ? { entry, schoolId: classData.schoolId } : undefined;
+  };
+
+  // Why the teachers can't take part in cover for a lesson of the school, if they can't
+  const substitutionTeachersIssue = async (schoolId: string, substitution: Partial<Pick<Substitution, "originalTeacherId" | "substituteTeacherId">>) => {
+    for (const teacherId of [substitution.originalTeacherId, substitution.substituteTeacherId]) {
+      if (!teacherId) continue;
+      const teacher = await storage.getTeacher(teacherId);
+      if (!teacher || teacher.schoolId !== schoolId) {
+        return "Teacher not found in this school";
+      }
+      if (!teacher.isActive) {
+        return `${teacher.name} is no longer an active teacher`;
+      }
+    }
+  };
+
+  app.get("/api/substitutions", authMiddleware, async (req: any, res) => {
     try {
-      const substitutions = await storage.getSubstitutions();
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId as string | undefined : user.schoolId;
+      if (user.role === 'admin' && !schoolId) {
+        return res.status(400).json({ message: "User is not associated with a school" });
+      }
+
+      const substitutions = await storage.getSubstitutions(schoolId);
       res.json(substitutions);
     } catch (error) {
       console.error("Error fetching substitutions:", error);
@@ -1252,9 +1851,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/substitutions/active", async (req, res) => {
+  app.get("/api/substitutions/active", authMiddleware, async (req: any, res) => {
     try {
-      const substitutions = await storage.getActiveSubstitutions();
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const substitutions = await storage.getActiveSubstitutions(schoolId as string);
       res.json(substitutions);
     } catch (error) {
       console.error("Error fetching active substitutions:", error);
@@ -1262,9 +1872,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/substitutions", async (req, res) => {
+  // The signed-in teacher's cover from today on, with the lessons
+  app.get("/api/substitutions/mine", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'teacher') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!user.teacherId) {
+        return res.status(400).json({ message: "No teacher profile is linked to this account" });
+      }
+
+      const cover = await storage.getCoverForTeacher(user.teacherId, getCurrentDateIST());
+      res.json(cover);
+    } catch (error) {
+      console.error("Error fetching teacher cover:", error);
+      res.status(500).json({ message: "Failed to fetch your cover" });
+    }
+  });
+
+  app.post("/api/substitutions", authMiddleware, async (req: any, res) => {
     try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       const validatedData = insertSubstitutionSchema.parse(req.body);
+
+      // Only lessons that take place on the date can be covered
+      const lesson = await substitutionLesson(validatedData);
+      if (!lesson) {
+        return res.status(404).json({ message: "Timetable entry not found" });
+      }
+      if (user.role === 'admin' && lesson.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - lesson not in your school" });
+      }
+      const issue = await substitutionTeachersIssue(lesson.schoolId, validatedData)
+        ?? await storage.getLessonDateIssue(lesson.schoolId, lesson.entry, toISTDateString(validatedData.date));
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+
       const substitution = await storage.createSubstitution(validatedData);
       res.status(201).json(substitution);
     } catch (error) {
@@ -1273,10 +1924,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/substitutions/:id", async (req, res) => {
+  app.put("/api/substitutions/:id", authMiddleware, async (req: any, res) => {
     try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingSubstitution = await storage.getSubstitution(req.params.id);
+      const lesson = existingSubstitution && await substitutionLesson(existingSubstitution);
+      if (!existingSubstitution || !lesson) {
+        return res.status(404).json({ message: "Substitution not found" });
+      }
+      if (user.role === 'admin' && lesson.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - substitution not in your school" });
+      }
+
+      // The lesson stays the same; cover for another lesson is another substitution
       const validatedData = insertSubstitutionSchema.partial().parse(req.body);
-      const substitution = await storage.updateSubstitution(req.params.id, validatedData);
+      delete validatedData.timetableEntryId;
+      const issue = await substitutionTeachersIssue(lesson.schoolId, validatedData);
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+
+      const substitution = await storage.updateSubstitution(existingSubstitution.id, validatedData);
       res.json(substitution);
     } catch (error) {
       console.error("Error updating substitution:", error);
@@ -1284,164 +1957,496 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Timetable validity period endpoints
-  app.get("/api/timetable-validity", authMiddleware, async (req: any, res) => {
+  // The substitute's own cover that they can still answer, or why they can't
+  const coverToAnswer = async (user: any, id: string) => {
+    if (user.role !== 'teacher' || !user.teacherId) {
+      return { status: 403, message: "Access denied" };
+    }
+    const substitution = await storage.getSubstitution(id);
+    if (!substitution) {
+      return { status: 404, message: "Substitution not found" };
+    }
+    if (substitution.substituteTeacherId !== user.teacherId) {
+      return { status: 403, message: "Access denied - you are not the substitute for this lesson" };
+    }
+    if (substitution.status === "rejected") {
+      return { status: 400, message: "This cover has been cancelled" };
+    }
+    if (toISTDateString(substitution.date) < getCurrentDateIST()) {
+      return { status: 400, message: "This cover is in the past" };
+    }
+    return { substitution };
+  };
+
+  app.post("/api/substitutions/:id/accept", authMiddleware, async (req: any, res) => {
     try {
-      const classId = req.query.classId as string;
-      const periods = await storage.getTimetableValidityPeriods(classId);
-      res.json(periods);
+      const { substitution, status, message } = await coverToAnswer(req.user, req.params.id);
+      if (!substitution) {
+        return res.status(status!).json({ message });
+      }
+
+      const accepted = await storage.acceptSubstitution(substitution.id);
+      res.json(accepted);
     } catch (error) {
-      console.error("Error fetching timetable validity periods:", error);
-      res.status(500).json({ message: "Failed to fetch validity periods" });
+      console.error("Error accepting substitution:", error);
+      res.status(500).json({ message: "Failed to accept cover" });
     }
   });
 
-  app.get("/api/timetable-validity/:id", authMiddleware, async (req: any, res) => {
+  // Declining hands the cover to the next best substitute, who has to accept it in turn
+  app.post("/api/substitutions/:id/decline", authMiddleware, async (req: any, res) => {
     try {
-      const period = await storage.getTimetableValidityPeriod(req.params.id);
-      if (!period) {
-        return res.status(404).json({ message: "Validity period not found" });
+      const { substitution, status, message } = await coverToAnswer(req.user, req.params.id);
+      if (!substitution) {
+        return res.status(status!).json({ message });
       }
-      res.json(period);
+
+      const validation = declineSubstitutionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0].message });
+      }
+
+      const lesson = await substitutionLesson(substitution);
+      if (!lesson) {
+        return res.status(404).json({ message: "Timetable entry not found" });
+      }
+
+      const decline = { teacherId: req.user.teacherId, reason: validation.data.reason, declinedAt: new Date().toISOString() };
+      const declinedBy = [...substitution.declines.map(d => d.teacherId), decline.teacherId];
+      const substituteTeacherId = await nextSubstitute(lesson.schoolId, toISTDateString(substitution.date), lesson.entry, declinedBy, substitution.id);
+
+      const declined = await storage.declineSubstitution(substitution.id, decline, substituteTeacherId);
+      res.json(declined);
     } catch (error) {
-      console.error("Error fetching validity period:", error);
-      res.status(500).json({ message: "Failed to fetch validity period" });
+      console.error("Error declining substitution:", error);
+      res.status(500).json({ message: "Failed to decline cover" });
     }
   });
 
-  app.post("/api/timetable-validity", authMiddleware, async (req: any, res) => {
+  // An admin confirms the cover without waiting for the substitute to accept; the admin is recorded
+  app.post("/api/substitutions/:id/confirm", authMiddleware, async (req: any, res) => {
     try {
       const user = req.user;
-      
-      // Only school admins and super admins can create validity periods
+
       if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const { insertTimetableValidityPeriodSchema } = await import("@shared/schema");
-      const validatedData = insertTimetableValidityPeriodSchema.parse(req.body);
-      
-      const period = await storage.createTimetableValidityPeriod(validatedData);
-      res.status(201).json(period);
+      const substitution = await storage.getSubstitution(req.params.id);
+      const lesson = substitution && await substitutionLesson(substitution);
+      if (!substitution || !lesson) {
+        return res.status(404).json({ message: "Substitution not found" });
+      }
+      if (user.role === 'admin' && lesson.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - substitution not in your school" });
+      }
+      if (substitution.status !== "pending" || !substitution.substituteTeacherId) {
+        return res.status(400).json({ message: "Only pending cover with a substitute can be confirmed" });
+      }
+
+      const confirmed = await storage.overrideSubstitution(substitution.id, user.id);
+      res.json(confirmed);
     } catch (error) {
-      console.error("Error creating validity period:", error);
-      res.status(400).json({ message: "Invalid validity period data" });
+      console.error("Error confirming substitution:", error);
+      res.status(500).json({ message: "Failed to confirm cover" });
     }
   });
 
-  app.put("/api/timetable-validity/:id", authMiddleware, async (req: any, res) => {
+  // Cover plan endpoints: the substitutions of each day, for review
+
+  // Days with cover between from and to, with how much of it is settled
+  app.get("/api/cover-plans", authMiddleware, async (req: any, res) => {
     try {
       const user = req.user;
-      
-      // Only school admins and super admins can update validity periods
+      const { from, to } = req.query as { from?: string; to?: string };
+      const isDate = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
       if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (!isDate(from) || !isDate(to) || to! < from!) {
+        return res.status(400).json({ message: "A date range (from, to as YYYY-MM-DD) is required" });
+      }
 
-      const { insertTimetableValidityPeriodSchema } = await import("@shared/schema");
-      const validatedData = insertTimetableValidityPeriodSchema.partial().parse(req.body);
-      
-      const period = await storage.updateTimetableValidityPeriod(req.params.id, validatedData);
-      res.json(period);
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const substitutions = await storage.getSubstitutionsBetween(schoolId as string, from!, to!);
+      const days = new Map<string, { date: string; lessons: number; pending: number; confirmed: number; unassigned: number }>();
+      for (const substitution of substitutions.filter(s => s.status !== "rejected")) {
+        const date = toISTDateString(substitution.date);
+        if (!days.has(date)) days.set(date, { date, lessons: 0, pending: 0, confirmed: 0, unassigned: 0 });
+        const day = days.get(date)!;
+        day.lessons++;
+        if (substitution.status === "confirmed") day.confirmed++;
+        else day.pending++;
+        if (!substitution.substituteTeacherId) day.unassigned++;
+      }
+
+      res.json(Array.from(days.values()));
     } catch (error) {
-      console.error("Error updating validity period:", error);
-      res.status(400).json({ message: "Failed to update validity period" });
+      console.error("Error fetching cover plans:", error);
+      res.status(500).json({ message: "Failed to fetch cover plans" });
     }
   });
 
-  app.delete("/api/timetable-validity/:id", authMiddleware, async (req: any, res) => {
+  // A day's cover plan: every substitution of the day with the lesson it covers
+  app.get("/api/cover-plans/:date", authMiddleware, async (req: any, res) => {
     try {
       const user = req.user;
-      
-      // Only school admins and super admins can delete validity periods
+      const { date } = req.params;
+
       if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
 
-      await storage.deleteTimetableValidityPeriod(req.params.id);
-      res.status(204).send();
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const [[day], substitutions] = await Promise.all([
+        storage.getCalendarDays(schoolId as string, date, date),
+        storage.getSubstitutionsBetween(schoolId as string, date, date),
+      ]);
+      const entries = await Promise.all(substitutions.map(substitution => storage.getTimetableEntry(substitution.timetableEntryId)));
+      const cover = substitutions
+        .map((substitution, index) => ({ substitution, entry: entries[index] }))
+        .filter(item => item.entry)
+        .sort((a, b) => a.entry!.period - b.entry!.period);
+
+      res.json({ date, day, cover });
     } catch (error) {
-      console.error("Error deleting validity period:", error);
-      res.status(500).json({ message: "Failed to delete validity period" });
+      console.error("Error fetching cover plan:", error);
+      res.status(500).json({ message: "Failed to fetch cover plan" });
     }
   });
 
-  // CSV upload endpoints
-  app.post("/api/upload/teachers", upload.single('file'), async (req, res) => {
+  // Plan cover again for everyone away on the date, e.g. after the timetable changed
+  app.post("/api/cover-plans/:date/plan", authMiddleware, async (req: any, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
-      }
-
-      const csvContent = req.file.buffer.toString('utf-8');
-      const result = CSVProcessor.processTeachersCSV(csvContent);
+      const user = req.user;
+      const { date } = req.params;
 
-      if (!result.success) {
-        return res.status(400).json({ 
-          message: "Failed to process CSV",
-          errors: result.errors 
-        });
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
       }
 
-      // Save teachers to database
-      const createdTeachers = [];
-      const creationErrors = [];
-      for (const teacherData of result.data) {
-        try {
-          const teacher = await storage.createTeacher(teacherData);
-          createdTeachers.push(teacher);
-        } catch (error) {
-          console.error("Error creating teacher:", error);
-          if (error && typeof error === 'object' && 'code' in error && 'constraint' in error) {
-            if (error.code === '23505' && error.constraint === 'teachers_email_unique') {
-              creationErrors.push(`Teacher with email ${teacherData.email} already exists`);
-            } else {
-              creationErrors.push(`Failed to create teacher: ${teacherData.name}`);
-            }
-          } else {
-            creationErrors.push(`Failed to create teacher: ${teacherData.name}`);
-          }
-        }
+      const schoolId = user.role === 'super_admin' ? req.body.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
       }
 
-      const allErrors = [...result.errors, ...creationErrors];
-      res.json({
-        message: `Successfully processed ${createdTeachers.length} teachers${creationErrors.length > 0 ? ` with ${creationErrors.length} errors` : ''}`,
-        teachers: createdTeachers,
-        errors: allErrors
-      });
+      const attendance = await storage.getTeacherAttendance(schoolId, date);
+      let lessons = 0;
+      let proposed = 0;
+      for (const record of attendance.filter(record => record.status !== "present")) {
+        const teacher = await storage.getTeacher(record.teacherId);
+        if (!teacher) continue;
+        const cover = await planCoverForAbsence(teacher, [date], record.reason);
+        lessons += cover.lessons;
+        proposed += cover.proposed;
+      }
 
+      res.json({ lessons, proposed });
     } catch (error) {
-      console.error("Error uploading teachers:", error);
-      res.status(500).json({ message: "Failed to upload teachers" });
+      console.error("Error planning cover:", error);
+      res.status(500).json({ message: "Failed to plan cover" });
     }
   });
 
-  app.post("/api/upload/subjects", upload.single('file'), async (req, res) => {
+  // Confirm every pending substitution of the day that has a substitute, without
+  // waiting for the substitutes to accept. Needs { override: true }; the admin is recorded.
+  app.post("/api/cover-plans/:date/confirm", authMiddleware, async (req: any, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
-      }
+      const user = req.user;
+      const { date } = req.params;
 
-      const csvContent = req.file.buffer.toString('utf-8');
-      const result = CSVProcessor.processSubjectsCSV(csvContent);
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
 
-      if (!result.success) {
-        return res.status(400).json({ 
-          message: "Failed to process CSV",
-          errors: result.errors 
-        });
+      const schoolId = user.role === 'super_admin' ? req.body.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+      if (req.body?.override !== true) {
+        return res.status(400).json({ message: "Confirming cover the substitutes haven't accepted needs override" });
       }
 
-      // Save subjects to database
-      const createdSubjects = [];
-      for (const subjectData of result.data) {
-        try {
-          const subject = await storage.createSubject(subjectData);
-          createdSubjects.push(subject);
-        } catch (error) {
-          console.error("Error creating subject:", error);
-        }
+      const pending = (await storage.getSubstitutionsBetween(schoolId, date, date))
+        .filter(substitution => substitution.status === "pending");
+      let confirmed = 0;
+      for (const substitution of pending.filter(s => s.substituteTeacherId)) {
+        await storage.overrideSubstitution(substitution.id, user.id);
+        confirmed++;
+      }
+
+      res.json({ confirmed, unassigned: pending.length - confirmed });
+    } catch (error) {
+      console.error("Error confirming cover plan:", error);
+      res.status(500).json({ message: "Failed to confirm cover plan" });
+    }
+  });
+
+  // Cover ledger endpoints: cover given and received per teacher, from confirmed substitutions
+
+  app.get("/api/cover-ledger", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const { from, to } = req.query as { from?: string; to?: string };
+      const isDate = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!isDate(from) || !isDate(to) || to! < from!) {
+        return res.status(400).json({ message: "A date range (from, to as YYYY-MM-DD) is required" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      res.json(await getCoverLedger(schoolId as string, from!, to!));
+    } catch (error) {
+      console.error("Error fetching cover ledger:", error);
+      res.status(500).json({ message: "Failed to fetch cover ledger" });
+    }
+  });
+
+  // The school's weekly cover cap; teachers with their own cap keep it
+  app.put("/api/cover-ledger/settings", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.body.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const validatedData = coverSettingsSchema.parse(req.body);
+      const school = await storage.updateSchool(schoolId, validatedData);
+      res.json({ weeklyCoverCap: school.weeklyCoverCap });
+    } catch (error) {
+      console.error("Error updating cover settings:", error);
+      res.status(400).json({ message: "Invalid cover settings" });
+    }
+  });
+
+  // Timetable validity period endpoints
+
+  // A timetable has to be in use on at least one day with classes on the academic calendar
+  const validityPeriodIssue = async (schoolId: string, validFrom: string, validTo: string) => {
+    if (validTo < validFrom) return "The end date is before the start date";
+    const days = await storage.getCalendarDays(schoolId, validFrom, validTo);
+    if (!days.some(day => day.hasClasses)) return "There are no days with classes between those dates";
+    return undefined;
+  };
+
+  app.get("/api/timetable-validity", authMiddleware, async (req: any, res) => {
+    try {
+      const classId = req.query.classId as string;
+      const periods = await storage.getTimetableValidityPeriods(classId);
+
+      // Days the timetable is taught on within each period, by the academic calendar
+      const withClassDays = await Promise.all(periods.map(async period => {
+        const classData = await storage.getClass(period.classId);
+        const days = classData ? await storage.getCalendarDays(classData.schoolId, period.validFrom, period.validTo) : [];
+        return { ...period, classDays: days.filter(day => day.hasClasses).length };
+      }));
+      res.json(withClassDays);
+    } catch (error) {
+      console.error("Error fetching timetable validity periods:", error);
+      res.status(500).json({ message: "Failed to fetch validity periods" });
+    }
+  });
+
+  app.get("/api/timetable-validity/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const period = await storage.getTimetableValidityPeriod(req.params.id);
+      if (!period) {
+        return res.status(404).json({ message: "Validity period not found" });
+      }
+      res.json(period);
+    } catch (error) {
+      console.error("Error fetching validity period:", error);
+      res.status(500).json({ message: "Failed to fetch validity period" });
+    }
+  });
+
+  app.post("/api/timetable-validity", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      
+      // Only school admins and super admins can create validity periods
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { insertTimetableValidityPeriodSchema } = await import("@shared/schema");
+      const validatedData = insertTimetableValidityPeriodSchema.parse(req.body);
+
+      const classData = await storage.getClass(validatedData.classId);
+      if (!classData) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      const issue = await validityPeriodIssue(classData.schoolId, validatedData.validFrom, validatedData.validTo);
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+      
+      const period = await storage.createTimetableValidityPeriod(validatedData);
+      res.status(201).json(period);
+    } catch (error) {
+      console.error("Error creating validity period:", error);
+      res.status(400).json({ message: "Invalid validity period data" });
+    }
+  });
+
+  app.put("/api/timetable-validity/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      
+      // Only school admins and super admins can update validity periods
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { insertTimetableValidityPeriodSchema } = await import("@shared/schema");
+      const validatedData = insertTimetableValidityPeriodSchema.partial().parse(req.body);
+
+      const existingPeriod = await storage.getTimetableValidityPeriod(req.params.id);
+      if (!existingPeriod) {
+        return res.status(404).json({ message: "Validity period not found" });
+      }
+      const merged = { ...existingPeriod, ...validatedData };
+      const classData = await storage.getClass(merged.classId);
+      if (!classData) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      const issue = await validityPeriodIssue(classData.schoolId, merged.validFrom, merged.validTo);
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+      
+      const period = await storage.updateTimetableValidityPeriod(req.params.id, validatedData);
+      res.json(period);
+    } catch (error) {
+      console.error("Error updating validity period:", error);
+      res.status(400).json({ message: "Failed to update validity period" });
+    }
+  });
+
+  app.delete("/api/timetable-validity/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      
+      // Only school admins and super admins can delete validity periods
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteTimetableValidityPeriod(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting validity period:", error);
+      res.status(500).json({ message: "Failed to delete validity period" });
+    }
+  });
+
+  // CSV upload endpoints
+  app.post("/api/upload/teachers", upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const csvContent = req.file.buffer.toString('utf-8');
+      const result = CSVProcessor.processTeachersCSV(csvContent);
+
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Failed to process CSV",
+          errors: result.errors 
+        });
+      }
+
+      // Save teachers to database
+      const createdTeachers = [];
+      const creationErrors = [];
+      for (const teacherData of result.data) {
+        try {
+          const teacher = await storage.createTeacher(teacherData);
+          createdTeachers.push(teacher);
+        } catch (error) {
+          console.error("Error creating teacher:", error);
+          if (error && typeof error === 'object' && 'code' in error && 'constraint' in error) {
+            if (error.code === '23505' && error.constraint === 'teachers_email_unique') {
+              creationErrors.push(`Teacher with email ${teacherData.email} already exists`);
+            } else {
+              creationErrors.push(`Failed to create teacher: ${teacherData.name}`);
+            }
+          } else {
+            creationErrors.push(`Failed to create teacher: ${teacherData.name}`);
+          }
+        }
+      }
+
+      const allErrors = [...result.errors, ...creationErrors];
+      res.json({
+        message: `Successfully processed ${createdTeachers.length} teachers${creationErrors.length > 0 ? ` with ${creationErrors.length} errors` : ''}`,
+        teachers: createdTeachers,
+        errors: allErrors
+      });
+
+    } catch (error) {
+      console.error("Error uploading teachers:", error);
+      res.status(500).json({ message: "Failed to upload teachers" });
+    }
+  });
+
+  app.post("/api/upload/subjects", upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const csvContent = req.file.buffer.toString('utf-8');
+      const result = CSVProcessor.processSubjectsCSV(csvContent);
+
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Failed to process CSV",
+          errors: result.errors 
+        });
+      }
+
+      // Save subjects to database
+      const createdSubjects = [];
+      for (const subjectData of result.data) {
+        try {
+          const subject = await storage.createSubject(subjectData);
+          createdSubjects.push(subject);
+        } catch (error) {
+          console.error("Error creating subject:", error);
+        }
       }
 
       res.json({
@@ -1495,35 +2500,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Suggest substitute teachers
-  app.get("/api/substitutions/suggest/:timetableEntryId", async (req, res) => {
+  // Ranked substitutes for a lesson on a date, with the points behind each score
+  // and the teachers left out with the reason
+  app.get("/api/substitutions/suggestions/:timetableEntryId", authMiddleware, async (req: any, res) => {
     try {
-      const { timetableEntryId } = req.params;
-      
-      // Get the timetable entry
-      const timetableEntries = await storage.getTimetableEntries();
-      const entry = timetableEntries.find(e => e.id === timetableEntryId);
-      
-      if (!entry) {
+      const user = req.user;
+      const date = req.query.date as string | undefined;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "A date (YYYY-MM-DD) is required" });
+      }
+
+      const entry = await storage.getTimetableEntry(req.params.timetableEntryId);
+      const classData = entry && await storage.getClass(entry.classId);
+      if (!entry || !classData) {
         return res.status(404).json({ message: "Timetable entry not found" });
       }
+      if (user.role === 'admin' && classData.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - lesson not in your school" });
+      }
 
-      // Find available substitute teachers - need to get school from class
-      const classes = await storage.getClasses();
-      const classData = classes.find(c => c.id === entry.classId);
-      const schoolId = classData?.schoolId || "";
-      
-      const availableTeachers = await storage.getAvailableTeachers(
-        entry.day,
-        entry.period,
-        entry.subjectId,
-        schoolId
+      const issue = await storage.getLessonDateIssue(classData.schoolId, entry, date);
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+
+      // The lesson's own teacher isn't a candidate, nor is anyone who declined the
+      // cover; the cover already planned for this lesson doesn't count against its substitute
+      const planned = (await storage.getSubstitutionsBetween(classData.schoolId, date, date))
+        .find(substitution => substitution.timetableEntryId === entry.id && substitution.status !== "rejected");
+      const day = await loadCoverDay(classData.schoolId, date, planned?.id);
+      const declines = planned?.declines ?? [];
+      const { suggestions, excluded } = rankSubstitutes(
+        day.toCover(entry),
+        day.teachers.filter(teacher => teacher.id !== entry.teacherId && !declines.some(d => d.teacherId === teacher.id)),
+        day.state
       );
+      for (const decline of declines) {
+        const teacher = day.teachers.find(t => t.id === decline.teacherId);
+        if (teacher) excluded.push({ teacherId: teacher.id, name: teacher.name, reason: `Declined: ${decline.reason}` });
+      }
 
-      res.json(availableTeachers);
+      res.json({ date, timetableEntryId: entry.id, suggestions, excluded });
     } catch (error) {
-      console.error("Error suggesting substitute teachers:", error);
-      res.status(500).json({ message: "Failed to suggest substitute teachers" });
+      console.error("Error ranking substitute teachers:", error);
+      res.status(500).json({ message: "Failed to rank substitute teachers" });
     }
   });
 
@@ -1585,7 +2609,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const assignmentId = req.params.id;
-      const updateData = req.body;
+      const updateData = updateClassSubjectAssignmentSchema.parse(req.body);
+
+      const existingAssignment = await storage.getClassSubjectAssignment(assignmentId);
+      if (!existingAssignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      if (!blocksFitWeeklyFrequency({ ...existingAssignment, ...updateData })) {
+        return res.status(400).json({ message: "Blocks cannot take more periods than the weekly frequency" });
+      }
       
       const assignment = await storage.updateClassSubjectAssignment(assignmentId, updateData);
       res.json(assignment);
@@ -1618,7 +2650,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = req.user;
       
-      // Get timetable structure for the school
+      // The structure a class follows, when one is asked for
+      if (req.query.classId) {
+        const classData = await storage.getClass(req.query.classId as string);
+        if (!classData) {
+          return res.status(404).json({ message: "Class not found" });
+        }
+        if (user.role !== 'super_admin' && classData.schoolId !== user.schoolId) {
+          return res.status(403).json({ message: "Access denied - class not in your school" });
+        }
+        return res.json(await storage.getTimetableStructureForClass(classData.id));
+      }
+      
+      // Get the school's main timetable structure
       let structure;
       if (user.role === 'super_admin') {
         const { schoolId } = req.query;
@@ -1636,6 +2680,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The day of the school's timetable cycle a date falls on, e.g. Week B Monday or Day 4
+  app.get("/api/timetable-structure/cycle-day", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const date = req.query.date as string;
+      
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "A date (YYYY-MM-DD) is required" });
+      }
+      
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+      
+      const cycleDay = await storage.getCycleDay(schoolId as string, date);
+      const [calendarDay] = await storage.getCalendarDays(schoolId as string, date, date);
+      res.json({
+        date,
+        schoolDay: !!cycleDay,
+        // Teachers are at school: a day with classes, or e.g. an exam day
+        workingDay: !!cycleDay || (calendarDay.workingDay && !calendarDay.hasClasses),
+        lastPeriod: calendarDay.lastPeriod,
+        // Holidays, exams and other calendar entries of the day; terms go without saying
+        events: calendarDay.events.filter(event => event.type !== "term").map(event => event.name),
+        ...cycleDay,
+      });
+    } catch (error) {
+      console.error("Error resolving cycle day:", error);
+      res.status(500).json({ message: "Failed to resolve cycle day" });
+    }
+  });
+
   app.post("/api/timetable-structure", authMiddleware, async (req: any, res) => {
     try {
       const user = req.user;
@@ -1671,26 +2748,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/timetable-structure/:id", authMiddleware, async (req: any, res) => {
+  // Every structure (shift) of a school, the main one first
+  app.get("/api/timetable-structures", authMiddleware, async (req: any, res) => {
     try {
       const user = req.user;
       
-      // Only school admins and super admins can update timetable structure
       if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Access denied" });
       }
-
-      const structureId = req.params.id;
-      const updateData = req.body;
       
-      // Check if structure exists and user has permission
-      const existingStructure = await storage.getTimetableStructure(structureId);
-      if (!existingStructure) {
-        return res.status(404).json({ message: "Timetable structure not found" });
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
       }
-
-      if (user.role === 'admin' && user.schoolId && existingStructure.schoolId !== user.schoolId) {
-        return res.status(403).json({ message: "Access denied - structure not in your school" });
+      
+      res.json(await storage.getTimetableStructures(schoolId as string));
+    } catch (error) {
+      console.error("Error fetching timetable structures:", error);
+      res.status(500).json({ message: "Failed to fetch timetable structures" });
+    }
+  });
+
+  // Add a further named structure; it only becomes the main one when the school has none
+  app.post("/api/timetable-structures", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const requestBody = { ...req.body };
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        requestBody.schoolId = user.schoolId;
+      }
+      
+      const validatedData = insertTimetableStructureSchema.parse(requestBody);
+      const main = await storage.getTimetableStructureBySchool(validatedData.schoolId);
+      const structure = await storage.createTimetableStructure({ ...validatedData, isActive: !main });
+      res.status(201).json(structure);
+    } catch (error) {
+      console.error("Error creating timetable structure:", error);
+      res.status(400).json({ message: "Invalid structure data" });
+    }
+  });
+
+  app.put("/api/timetable-structure/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      
+      // Only school admins and super admins can update timetable structure
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const structureId = req.params.id;
+      const updateData = insertTimetableStructureSchema.partial().parse(req.body);
+      delete updateData.schoolId;
+      
+      // Check if structure exists and user has permission
+      const existingStructure = await storage.getTimetableStructure(structureId);
+      if (!existingStructure) {
+        return res.status(404).json({ message: "Timetable structure not found" });
+      }
+
+      if (user.role === 'admin' && user.schoolId && existingStructure.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - structure not in your school" });
+      }
+
+      // The main structure changes by making another one main
+      if (updateData.isActive === false && existingStructure.isActive) {
+        return res.status(400).json({ message: "Make another structure the main one instead" });
       }
       
       const structure = await storage.updateTimetableStructure(structureId, updateData);
@@ -1721,6 +2852,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (user.role === 'admin' && user.schoolId && existingStructure.schoolId !== user.schoolId) {
         return res.status(403).json({ message: "Access denied - structure not in your school" });
       }
+
+      // Classes without a structure of their own fall back to the main one
+      if (existingStructure.isActive && (await storage.getTimetableStructures(existingStructure.schoolId)).length > 1) {
+        return res.status(400).json({ message: "Make another structure the main one before deleting this one" });
+      }
       
       await storage.deleteTimetableStructure(structureId);
       res.json({ message: "Timetable structure deleted successfully" });
@@ -1730,6 +2866,489 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Academic calendar endpoints
+  app.get("/api/academic-calendar", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const events = await storage.getAcademicCalendarEvents(schoolId as string);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching academic calendar:", error);
+      res.status(500).json({ message: "Failed to fetch academic calendar" });
+    }
+  });
+
+  // How the calendar treats each date of a range: working day, classes, half day
+  app.get("/api/academic-calendar/days", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const { from, to } = req.query as { from?: string; to?: string };
+      const isDate = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+      if (!isDate(from) || !isDate(to) || to! < from!) {
+        return res.status(400).json({ message: "A date range (from, to as YYYY-MM-DD) is required" });
+      }
+      if (Date.parse(to!) - Date.parse(from!) > 366 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: "The date range can be at most a year" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      const days = await storage.getCalendarDays(schoolId as string, from!, to!);
+      res.json(days);
+    } catch (error) {
+      console.error("Error fetching calendar days:", error);
+      res.status(500).json({ message: "Failed to fetch calendar days" });
+    }
+  });
+
+  app.post("/api/academic-calendar", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can edit the academic calendar
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const requestBody = { ...req.body };
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        requestBody.schoolId = user.schoolId;
+      } else if (!requestBody.schoolId) {
+        return res.status(400).json({ message: "School ID is required for super admin" });
+      }
+
+      const validatedData = insertAcademicCalendarEventSchema.parse(requestBody);
+      const issue = calendarEventIssue(validatedData);
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+
+      const event = await storage.createAcademicCalendarEvent(validatedData);
+      res.status(201).json(event);
+    } catch (error) {
+      console.error("Error creating calendar event:", error);
+      res.status(400).json({ message: "Invalid calendar event data" });
+    }
+  });
+
+  app.put("/api/academic-calendar/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can edit the academic calendar
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingEvent = await storage.getAcademicCalendarEvent(req.params.id);
+      if (!existingEvent) {
+        return res.status(404).json({ message: "Calendar event not found" });
+      }
+
+      if (user.role === 'admin' && existingEvent.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - event not in your school" });
+      }
+
+      const validatedData = insertAcademicCalendarEventSchema.partial().parse(req.body);
+      delete validatedData.schoolId;
+
+      const issue = calendarEventIssue({ ...existingEvent, ...validatedData });
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+
+      const event = await storage.updateAcademicCalendarEvent(existingEvent.id, validatedData);
+      res.json(event);
+    } catch (error) {
+      console.error("Error updating calendar event:", error);
+      res.status(400).json({ message: "Failed to update calendar event" });
+    }
+  });
+
+  app.delete("/api/academic-calendar/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can edit the academic calendar
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingEvent = await storage.getAcademicCalendarEvent(req.params.id);
+      if (!existingEvent) {
+        return res.status(404).json({ message: "Calendar event not found" });
+      }
+
+      if (user.role === 'admin' && existingEvent.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - event not in your school" });
+      }
+
+      await storage.deleteAcademicCalendarEvent(existingEvent.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting calendar event:", error);
+      res.status(500).json({ message: "Failed to delete calendar event" });
+    }
+  });
+
+  // Import an ICS (iCalendar) file, e.g. a published list of public holidays
+  app.post("/api/academic-calendar/import", authMiddleware, upload.single('file'), async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can edit the academic calendar
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.body.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "School ID is required" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      // Entries the file doesn't say the type of, e.g. holidays in a public holiday calendar
+      const defaultType: CalendarEventType = calendarEventTypes.includes(req.body.defaultType)
+        ? req.body.defaultType
+        : "event";
+
+      // Half days run until the middle teaching period of the main structure's day
+      const structure = await storage.getTimetableStructureBySchool(schoolId);
+      const teachingPeriods = (structure?.timeSlots ?? []).filter(slot => !slot.isBreak).map(slot => slot.period);
+      const halfDayLastPeriod = teachingPeriods[Math.ceil(teachingPeriods.length / 2) - 1] ?? 4;
+
+      const result = parseIcsCalendar(req.file.buffer.toString('utf-8'), defaultType, halfDayLastPeriod);
+      if (result.events.length === 0) {
+        return res.status(400).json({ message: "Failed to process ICS file", errors: result.errors });
+      }
+
+      const { created, updated } = await storage.importAcademicCalendarEvents(
+        schoolId,
+        result.events.map(event => ({ ...event, schoolId }))
+      );
+      res.json({
+        message: `Imported ${created} new and ${updated} updated calendar entr${created + updated !== 1 ? "ies" : "y"}`,
+        created,
+        updated,
+        errors: result.errors,
+      });
+    } catch (error) {
+      console.error("Error importing academic calendar:", error);
+      res.status(500).json({ message: "Failed to import academic calendar" });
+    }
+  });
+
+  // Exam series endpoints
+  app.get("/api/exam-series", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can access exam schedules
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      const series = await storage.getExamSeriesList(schoolId as string | undefined);
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching exam series:", error);
+      res.status(500).json({ message: "Failed to fetch exam series" });
+    }
+  });
+
+  app.post("/api/exam-series", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can create exam series
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const requestBody = { ...req.body };
+      if (user.role === 'admin') {
+        if (!user.schoolId) {
+          return res.status(400).json({ message: "User is not associated with a school" });
+        }
+        requestBody.schoolId = user.schoolId;
+      } else if (!requestBody.schoolId) {
+        return res.status(400).json({ message: "School ID is required for super admin" });
+      }
+
+      const validatedData = insertExamSeriesSchema.parse(requestBody);
+      if (validatedData.endDate < validatedData.startDate) {
+        return res.status(400).json({ message: "The end date is before the start date" });
+      }
+
+      const series = await storage.createExamSeries(validatedData);
+      res.status(201).json(series);
+    } catch (error) {
+      console.error("Error creating exam series:", error);
+      res.status(400).json({ message: "Invalid exam series data" });
+    }
+  });
+
+  app.put("/api/exam-series/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can update exam series
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingSeries = await storage.getExamSeries(req.params.id);
+      if (!existingSeries) {
+        return res.status(404).json({ message: "Exam series not found" });
+      }
+
+      if (user.role === 'admin' && existingSeries.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam series not in your school" });
+      }
+
+      const validatedData = insertExamSeriesSchema.partial().parse(req.body);
+      delete validatedData.schoolId;
+      const merged = { ...existingSeries, ...validatedData };
+      if (merged.endDate < merged.startDate) {
+        return res.status(400).json({ message: "The end date is before the start date" });
+      }
+
+      const series = await storage.updateExamSeries(existingSeries.id, validatedData);
+      res.json(series);
+    } catch (error) {
+      console.error("Error updating exam series:", error);
+      res.status(400).json({ message: "Failed to update exam series" });
+    }
+  });
+
+  app.delete("/api/exam-series/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can delete exam series
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingSeries = await storage.getExamSeries(req.params.id);
+      if (!existingSeries) {
+        return res.status(404).json({ message: "Exam series not found" });
+      }
+
+      if (user.role === 'admin' && existingSeries.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam series not in your school" });
+      }
+
+      await storage.deleteExamSeries(existingSeries.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting exam series:", error);
+      res.status(500).json({ message: "Failed to delete exam series" });
+    }
+  });
+
+  app.get("/api/exam-series/:id/papers", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const series = await storage.getExamSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Exam series not found" });
+      }
+
+      if (user.role === 'admin' && series.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam series not in your school" });
+      }
+
+      const papers = await storage.getExamPapers(series.id);
+      res.json(papers);
+    } catch (error) {
+      console.error("Error fetching exam papers:", error);
+      res.status(500).json({ message: "Failed to fetch exam papers" });
+    }
+  });
+
+  app.post("/api/exam-series/:id/papers", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const series = await storage.getExamSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Exam series not found" });
+      }
+
+      if (user.role === 'admin' && series.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam series not in your school" });
+      }
+
+      const validatedData = insertExamPaperSchema.parse({ ...req.body, seriesId: series.id });
+
+      const subject = await storage.getSubject(validatedData.subjectId);
+      if (!subject || subject.schoolId !== series.schoolId) {
+        return res.status(400).json({ message: "Subject not found in this school" });
+      }
+      if (validatedData.earliestDate && validatedData.latestDate && validatedData.latestDate < validatedData.earliestDate) {
+        return res.status(400).json({ message: "The latest date is before the earliest date" });
+      }
+
+      const paper = await storage.createExamPaper(validatedData);
+      res.status(201).json(paper);
+    } catch (error) {
+      console.error("Error creating exam paper:", error);
+      res.status(400).json({ message: "Invalid exam paper data" });
+    }
+  });
+
+  app.put("/api/exam-papers/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingPaper = await storage.getExamPaper(req.params.id);
+      const series = existingPaper && await storage.getExamSeries(existingPaper.seriesId);
+      if (!existingPaper || !series) {
+        return res.status(404).json({ message: "Exam paper not found" });
+      }
+
+      if (user.role === 'admin' && series.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam paper not in your school" });
+      }
+
+      const validatedData = insertExamPaperSchema.partial().parse(req.body);
+      delete validatedData.seriesId;
+
+      if (validatedData.subjectId) {
+        const subject = await storage.getSubject(validatedData.subjectId);
+        if (!subject || subject.schoolId !== series.schoolId) {
+          return res.status(400).json({ message: "Subject not found in this school" });
+        }
+      }
+      const merged = { ...existingPaper, ...validatedData };
+      if (merged.earliestDate && merged.latestDate && merged.latestDate < merged.earliestDate) {
+        return res.status(400).json({ message: "The latest date is before the earliest date" });
+      }
+
+      const paper = await storage.updateExamPaper(existingPaper.id, validatedData);
+      res.json(paper);
+    } catch (error) {
+      console.error("Error updating exam paper:", error);
+      res.status(400).json({ message: "Failed to update exam paper" });
+    }
+  });
+
+  app.delete("/api/exam-papers/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existingPaper = await storage.getExamPaper(req.params.id);
+      const series = existingPaper && await storage.getExamSeries(existingPaper.seriesId);
+      if (!existingPaper || !series) {
+        return res.status(404).json({ message: "Exam paper not found" });
+      }
+
+      if (user.role === 'admin' && series.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam paper not in your school" });
+      }
+
+      await storage.deleteExamPaper(existingPaper.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting exam paper:", error);
+      res.status(500).json({ message: "Failed to delete exam paper" });
+    }
+  });
+
+  // Schedule the series' papers, seat the classes and assign invigilators
+  app.post("/api/exam-series/:id/schedule", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const series = await storage.getExamSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Exam series not found" });
+      }
+
+      if (user.role === 'admin' && series.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam series not in your school" });
+      }
+
+      if (series.hallIds.length === 0) {
+        return res.status(400).json({ message: "Choose the rooms to use as exam halls first" });
+      }
+
+      const summary = await generateExamSchedule(series);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error scheduling exams:", error);
+      res.status(500).json({ message: "Failed to schedule exams" });
+    }
+  });
+
+  // The series' schedule: papers with their sittings, seating plan and invigilation duties
+  app.get("/api/exam-series/:id/schedule", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const series = await storage.getExamSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Exam series not found" });
+      }
+
+      if (user.role === 'admin' && series.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - exam series not in your school" });
+      }
+
+      const [papers, seats, invigilations] = await Promise.all([
+        storage.getExamPapers(series.id),
+        storage.getExamSeats(series.id),
+        storage.getExamInvigilations(series.id),
+      ]);
+      res.json({ series, papers, seats, invigilations });
+    } catch (error) {
+      console.error("Error fetching exam schedule:", error);
+      res.status(500).json({ message: "Failed to fetch exam schedule" });
+    }
+  });
+
   // Timetable generation endpoints
   app.post("/api/timetable/generate", authMiddleware, async (req: any, res) => {
     try {
@@ -1741,11 +3360,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Optional class ID parameter for generating timetable for specific class
-      const { classId } = req.body;
+      const { classId, seed, candidates } = req.body;
 
+      // Optional seed to reproduce a previously generated version
+      if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED)) {
+        return res.status(400).json({ success: false, message: `seed must be an integer between 0 and ${MAX_SEED}` });
+      }
+
+      // Optional number of draft candidates to generate instead of a single active timetable
+      if (candidates !== undefined && (!Number.isInteger(candidates) || candidates < 1 || candidates > MAX_CANDIDATES)) {
+        return res.status(400).json({ success: false, message: `candidates must be an integer between 1 and ${MAX_CANDIDATES}` });
+      }
 
-      const result = await scheduler.generateTimetable(classId, user.schoolId);
-      res.json(result);
+      // Generation runs as a background job; clients poll its progress by id
+      const job = generationJobs.submit({ schoolId: user.schoolId ?? null, classId, seed, candidates });
+      res.status(202).json({ success: true, jobId: job.id, job });
     } catch (error) {
       console.error("Error generating timetable:", error);
       res.status(500).json({ 
@@ -1755,6 +3384,185 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/timetable/jobs/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can follow generation jobs
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const job = generationJobs.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Generation job not found" });
+      }
+
+      if (user.role === 'admin' && job.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - job not in your school" });
+      }
+
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching generation job:", error);
+      res.status(500).json({ message: "Failed to fetch generation job" });
+    }
+  });
+
+  app.post("/api/timetable/jobs/:id/cancel", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can cancel generation jobs
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = generationJobs.getJob(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Generation job not found" });
+      }
+
+      if (user.role === 'admin' && existing.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - job not in your school" });
+      }
+
+      res.json(generationJobs.cancel(existing.id));
+    } catch (error) {
+      console.error("Error cancelling generation job:", error);
+      res.status(500).json({ message: "Failed to cancel generation job" });
+    }
+  });
+
+  // Capacity analysis: flags setups the solver cannot satisfy before generating
+  app.get("/api/timetable/feasibility", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can analyse timetable capacity
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "schoolId is required" });
+      }
+
+      const report = await scheduler.checkFeasibility(schoolId);
+      res.json(report);
+    } catch (error) {
+      console.error("Error checking timetable feasibility:", error);
+      res.status(500).json({ message: "Failed to check timetable feasibility" });
+    }
+  });
+
+  // Timetable candidates: drafts generated side by side, one of which can be activated
+  app.get("/api/timetable/candidates", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can review candidates
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const schoolId = user.role === 'super_admin' ? req.query.schoolId : user.schoolId;
+      if (!schoolId) {
+        return res.status(400).json({ message: "schoolId is required" });
+      }
+
+      const candidates = await storage.getTimetableCandidates(schoolId);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error fetching timetable candidates:", error);
+      res.status(500).json({ message: "Failed to fetch timetable candidates" });
+    }
+  });
+
+  app.get("/api/timetable/candidates/:id/entries", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can review candidates
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const candidate = await storage.getTimetableCandidate(req.params.id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Timetable candidate not found" });
+      }
+
+      if (user.role === 'admin' && candidate.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - candidate not in your school" });
+      }
+
+      const entries = await storage.getTimetableEntriesForCandidate(candidate.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching candidate entries:", error);
+      res.status(500).json({ message: "Failed to fetch candidate entries" });
+    }
+  });
+
+  app.post("/api/timetable/candidates/:id/activate", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can activate candidates
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const candidate = await storage.getTimetableCandidate(req.params.id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Timetable candidate not found" });
+      }
+
+      if (user.role === 'admin' && candidate.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - candidate not in your school" });
+      }
+
+      await storage.activateTimetableCandidate(candidate.id);
+      res.json({ success: true, message: `Candidate ${candidate.number} is now the active timetable` });
+    } catch (error) {
+      console.error("Error activating timetable candidate:", error);
+      res.status(500).json({ message: "Failed to activate timetable candidate" });
+    }
+  });
+
+  app.delete("/api/timetable/candidates/:id", authMiddleware, async (req: any, res) => {
+    try {
+      const user = req.user;
+
+      // Only school admins and super admins can discard candidates
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const candidate = await storage.getTimetableCandidate(req.params.id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Timetable candidate not found" });
+      }
+
+      if (user.role === 'admin' && candidate.schoolId !== user.schoolId) {
+        return res.status(403).json({ message: "Access denied - candidate not in your school" });
+      }
+
+      // Its entries are the timetable in use; deleting them would empty the classes
+      if (candidate.status === "active") {
+        return res.status(400).json({ message: "The active candidate cannot be deleted" });
+      }
+
+      await storage.deleteTimetableCandidate(candidate.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting timetable candidate:", error);
+      res.status(500).json({ message: "Failed to delete timetable candidate" });
+    }
+  });
+
   // Validate Timetable
   app.get("/api/timetable/validate", authMiddleware, async (req: any, res) => {
     try {
@@ -0,0 +1,107 @@
+import { storage } from "../storage";
+import { weeklyCoverCapOf } from "@shared/schema";
+import { toISTDateString } from "@shared/utils/dateUtils";
+import { weekOf } from "./coverPlanner";
+
+// The cover ledger: who covered whose lessons, from confirmed substitutions only.
+
+export interface CoverLedgerEntry {
+  substitutionId: string;
+  date: string;
+  period: number;
+  classId: string;
+  subjectId: string;
+  originalTeacherId: string;
+  substituteTeacherId: string;
+}
+
+export interface CoverWeek {
+  // Monday of the week
+  start: string;
+  covers: number;
+}
+
+export interface CoverLedgerRow {
+  teacherId: string;
+  name: string;
+  // Lessons covered for others, and own lessons covered by others
+  given: number;
+  received: number;
+  weeklyCoverCap: number | null;
+  busiestWeek: CoverWeek | null;
+  weeksOverCap: CoverWeek[];
+}
+
+export interface CoverLedger {
+  from: string;
+  to: string;
+  weeklyCoverCap: number | null;
+  rows: CoverLedgerRow[];
+  entries: CoverLedgerEntry[];
+}
+
+/**
+ * Each teacher's covers given and received, their busiest week and the weeks
+ * they covered more than their cap. Teachers without cover are listed too, so the
+ * report shows who hasn't taken a share. Most cover given first.
+ */
+export function summariseCoverLedger(
+  entries: CoverLedgerEntry[],
+  teachers: { id: string; name: string; weeklyCoverCap: number | null }[]
+): CoverLedgerRow[] {
+  return teachers
+    .map(teacher => {
+      const given = entries.filter(entry => entry.substituteTeacherId === teacher.id);
+      const weeks = new Map<string, number>();
+      for (const entry of given) {
+        const start = weekOf(entry.date).start;
+        weeks.set(start, (weeks.get(start) ?? 0) + 1);
+      }
+      const byWeek = Array.from(weeks.entries())
+        .map(([start, covers]) => ({ start, covers }))
+        .sort((a, b) => a.start.localeCompare(b.start));
+
+      return {
+        teacherId: teacher.id,
+        name: teacher.name,
+        given: given.length,
+        received: entries.filter(entry => entry.originalTeacherId === teacher.id).length,
+        weeklyCoverCap: teacher.weeklyCoverCap,
+        busiestWeek: byWeek.reduce<CoverWeek | null>((busiest, week) => (!busiest || week.covers > busiest.covers ? week : busiest), null),
+        weeksOverCap: teacher.weeklyCoverCap === null ? [] : byWeek.filter(week => week.covers > teacher.weeklyCoverCap!),
+      };
+    })
+    .sort((a, b) => b.given - a.given || a.name.localeCompare(b.name));
+}
+
+// The school's cover ledger for the dates from-to (YYYY-MM-DD)
+export async function getCoverLedger(schoolId: string, from: string, to: string): Promise<CoverLedger> {
+  const [school, teachers, cover] = await Promise.all([
+    storage.getSchool(schoolId),
+    storage.getTeachers(schoolId),
+    storage.getConfirmedCover(schoolId, from, to),
+  ]);
+
+  const entries: CoverLedgerEntry[] = cover
+    .filter(({ substitution }) => substitution.substituteTeacherId)
+    .map(({ substitution, entry }) => ({
+      substitutionId: substitution.id,
+      date: toISTDateString(substitution.date),
+      period: entry.period,
+      classId: entry.classId,
+      subjectId: entry.subjectId,
+      originalTeacherId: substitution.originalTeacherId,
+      substituteTeacherId: substitution.substituteTeacherId!,
+    }));
+
+  // Former teachers stay on the report for the cover they did
+  const involved = new Set(entries.flatMap(entry => [entry.originalTeacherId, entry.substituteTeacherId]));
+  const rows = summariseCoverLedger(
+    entries,
+    teachers
+      .filter(teacher => teacher.isActive || involved.has(teacher.id))
+      .map(teacher => ({ id: teacher.id, name: teacher.name, weeklyCoverCap: weeklyCoverCapOf(teacher, school) }))
+  );
+
+  return { from, to, weeklyCoverCap: school?.weeklyCoverCap ?? null, rows, entries };
+}
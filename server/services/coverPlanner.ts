@@ -0,0 +1,414 @@
+import { storage } from "../storage";
+import { structureSlotsForDay, weeklyCoverCapOf, type Substitution, type Teacher, type TimetableEntry, type TimetableStructure } from "@shared/schema";
+import { startOfDayIST, toISTDateString } from "@shared/utils/dateUtils";
+
+// Cover planning: when a teacher is away, every lesson they would have taught gets
+// a pending substitution with a proposed substitute, for an admin to review day by day.
+
+// A period by its clock times; structures of one school number their periods apart
+export interface CoverSlot {
+  period: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LessonToCover extends CoverSlot {
+  entryId: string;
+  subjectId: string;
+  classId: string;
+  grade: string;
+  blockId: string | null;
+  lessonGroupId: string | null;
+}
+
+export interface CoverTeacher {
+  id: string;
+  name: string;
+  subjects: string[];
+  away: boolean;
+  // Unavailable periods are recorded against the main structure; by their clock
+  // times they apply to lessons of any structure
+  unavailableSlots: CoverSlot[];
+  // Teaching periods of the day in the structure of the classes the teacher teaches most
+  periodsPerDay: number;
+  maxDailyPeriods: number | null;
+  maxLoad: number;
+  // Classes and grades the teacher teaches
+  classIds: string[];
+  grades: string[];
+  // Periods taught and covered in the week of the day
+  weekLoad: number;
+  // Lessons covered in the week and in the term of the day
+  weekCovers: number;
+  termCovers: number;
+  // Most lessons covered in a week; no cap when null
+  weeklyCoverCap: number | null;
+}
+
+export interface CoverDayState {
+  // Lessons each teacher teaches or covers that day
+  busy: Map<string, CoverSlot[]>;
+  // Periods each teacher teaches or covers that day
+  load: Map<string, number>;
+}
+
+export interface ScoreComponent {
+  factor: "subject" | "familiarity" | "freePeriods" | "weekCovers" | "termCovers";
+  points: number;
+  detail: string;
+}
+
+export interface SubstituteSuggestion {
+  teacherId: string;
+  name: string;
+  score: number;
+  components: ScoreComponent[];
+}
+
+export interface ExcludedSubstitute {
+  teacherId: string;
+  name: string;
+  reason: string;
+}
+
+export interface CoverPlanSummary {
+  lessons: number;
+  proposed: number;
+  // Dates with lessons to cover
+  dates: string[];
+}
+
+// Points of each score component; covers already done count against a teacher so
+// that cover is shared out over the week and the term
+const SUBJECT_POINTS = 30;
+const SAME_CLASS_POINTS = 15;
+const SAME_GRADE_POINTS = 8;
+const FREE_PERIOD_POINTS = 2;
+const WEEK_COVER_POINTS = -6;
+const TERM_COVER_POINTS = -1;
+
+// Without a term on the calendar, the "term" is this many days up to the date
+const DEFAULT_TERM_DAYS = 84;
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+const overlaps = (a: { startTime: string; endTime: string }, b: { startTime: string; endTime: string }) =>
+  a.startTime < b.endTime && b.startTime < a.endTime;
+
+// The teacher teaches or covers the slot that day; a lesson group's classes share one slot
+function markBusy(state: CoverDayState, teacherId: string, slot: CoverSlot) {
+  const busy = state.busy.get(teacherId) ?? [];
+  if (busy.some(other => other.startTime === slot.startTime && other.endTime === slot.endTime)) return;
+  state.busy.set(teacherId, [...busy, { period: slot.period, startTime: slot.startTime, endTime: slot.endTime }]);
+  state.load.set(teacherId, (state.load.get(teacherId) ?? 0) + 1);
+}
+
+// Why a teacher can't cover the lesson, if they can't
+function exclusionReason(lesson: LessonToCover, teacher: CoverTeacher, state: CoverDayState): string | undefined {
+  if (teacher.away) return "Absent that day";
+  // Lessons clash when they overlap in time, whichever structures they follow
+  const clash = state.busy.get(teacher.id)?.find(slot => overlaps(slot, lesson));
+  if (clash) return `Teaching from ${clash.startTime} to ${clash.endTime}`;
+  const unavailable = teacher.unavailableSlots.find(slot => overlaps(slot, lesson));
+  if (unavailable) return `Unavailable in period ${unavailable.period}`;
+  const load = state.load.get(teacher.id) ?? 0;
+  if (teacher.maxDailyPeriods !== null && load >= teacher.maxDailyPeriods) {
+    return `Already has ${plural(load, "period")} that day, their daily limit`;
+  }
+  if (teacher.weekLoad >= teacher.maxLoad) {
+    return `Already has ${plural(teacher.weekLoad, "period")} that week, their maximum load`;
+  }
+  if (teacher.weeklyCoverCap !== null && teacher.weekCovers >= teacher.weeklyCoverCap) {
+    return `Already covers ${plural(teacher.weekCovers, "lesson")} that week, their cover cap`;
+  }
+  return undefined;
+}
+
+function scoreComponents(lesson: LessonToCover, teacher: CoverTeacher, state: CoverDayState): ScoreComponent[] {
+  const teachesSubject = teacher.subjects.includes(lesson.subjectId);
+  const freePeriods = Math.max(0, teacher.periodsPerDay - (state.load.get(teacher.id) ?? 0));
+  const familiarity = teacher.classIds.includes(lesson.classId)
+    ? { points: SAME_CLASS_POINTS, detail: "Teaches this class" }
+    : teacher.grades.includes(lesson.grade)
+      ? { points: SAME_GRADE_POINTS, detail: `Teaches other grade ${lesson.grade} classes` }
+      : { points: 0, detail: `Doesn't teach grade ${lesson.grade}` };
+
+  return [
+    { factor: "subject", points: teachesSubject ? SUBJECT_POINTS : 0, detail: teachesSubject ? "Teaches the subject" : "Doesn't teach the subject" },
+    { factor: "familiarity", ...familiarity },
+    { factor: "freePeriods", points: freePeriods * FREE_PERIOD_POINTS, detail: `${plural(freePeriods, "free period")} that day` },
+    { factor: "weekCovers", points: teacher.weekCovers * WEEK_COVER_POINTS, detail: `${plural(teacher.weekCovers, "cover")} that week` },
+    { factor: "termCovers", points: teacher.termCovers * TERM_COVER_POINTS, detail: `${plural(teacher.termCovers, "cover")} that term` },
+  ];
+}
+
+/**
+ * Rank the teachers who could cover a lesson, best first, with the points each
+ * factor gave them: teaching the subject, knowing the class or grade, free periods
+ * that day, and (against them) the covers they have done that week and term.
+ * Teachers who are away, busy, unavailable, at their daily or weekly limit or at
+ * their weekly cover cap are left out with the reason.
+ */
+export function rankSubstitutes(
+  lesson: LessonToCover,
+  teachers: CoverTeacher[],
+  state: CoverDayState
+): { suggestions: SubstituteSuggestion[]; excluded: ExcludedSubstitute[] } {
+  const suggestions: SubstituteSuggestion[] = [];
+  const excluded: ExcludedSubstitute[] = [];
+
+  for (const teacher of teachers) {
+    const reason = exclusionReason(lesson, teacher, state);
+    if (reason) {
+      excluded.push({ teacherId: teacher.id, name: teacher.name, reason });
+      continue;
+    }
+    const components = scoreComponents(lesson, teacher, state);
+    const score = components.reduce((sum, component) => sum + component.points, 0);
+    suggestions.push({ teacherId: teacher.id, name: teacher.name, score, components });
+  }
+
+  suggestions.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return { suggestions, excluded };
+}
+
+/**
+ * Propose a substitute for each lesson, or null when nobody can cover it: the
+ * teacher already covering the block's other periods, otherwise the best ranked.
+ * A lesson group's classes are one lesson and get the same substitute. The
+ * teachers and state are updated with each proposal.
+ */
+export function proposeCover(
+  lessons: LessonToCover[],
+  teachers: CoverTeacher[],
+  state: CoverDayState
+): Map<string, string | null> {
+  const proposals = new Map<string, string | null>();
+  const blockCover = new Map<string, string>();
+  const groupCover = new Map<string, string | null>();
+
+  for (const lesson of [...lessons].sort((a, b) => a.period - b.period)) {
+    const groupSlot = lesson.lessonGroupId ? `${lesson.lessonGroupId}|${lesson.startTime}|${lesson.endTime}` : undefined;
+    if (groupSlot && groupCover.has(groupSlot)) {
+      proposals.set(lesson.entryId, groupCover.get(groupSlot)!);
+      continue;
+    }
+
+    const { suggestions } = rankSubstitutes(lesson, teachers, state);
+    const previous = lesson.blockId ? blockCover.get(lesson.blockId) : undefined;
+    const best = suggestions.find(suggestion => suggestion.teacherId === previous) ?? suggestions[0];
+    const substitute = best && teachers.find(teacher => teacher.id === best.teacherId)!;
+
+    proposals.set(lesson.entryId, substitute?.id ?? null);
+    if (groupSlot) groupCover.set(groupSlot, substitute?.id ?? null);
+    if (!substitute) continue;
+
+    markBusy(state, substitute.id, lesson);
+    substitute.weekLoad++;
+    substitute.weekCovers++;
+    substitute.termCovers++;
+    if (lesson.blockId) blockCover.set(lesson.blockId, substitute.id);
+  }
+
+  return proposals;
+}
+
+export interface CoverDay {
+  lessons: TimetableEntry[];
+  toCover: (entry: TimetableEntry) => LessonToCover;
+  teachers: CoverTeacher[];
+  state: CoverDayState;
+  // Pending and confirmed substitutions of the day
+  substitutions: Substitution[];
+}
+
+function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().split("T")[0];
+}
+
+// Monday-Sunday week of a date
+export function weekOf(date: string): { start: string; end: string } {
+  const sinceMonday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const start = addDays(date, -sinceMonday);
+  return { start, end: addDays(start, 6) };
+}
+
+/**
+ * Everything needed to cover lessons on a date: the lessons taught, the school's
+ * teachers with their load and cover counts, and who is busy in each period.
+ * Substitutes already planned count as busy and as covers, except for the
+ * substitution leftOut, e.g. the one whose substitute is being chosen again.
+ */
+export async function loadCoverDay(schoolId: string, date: string, leftOut?: string): Promise<CoverDay> {
+  const week = weekOf(date);
+  const [school, staff, classes, attendance, structures, events, [calendarDay], timetable] = await Promise.all([
+    storage.getSchool(schoolId),
+    storage.getTeachers(schoolId),
+    storage.getClasses(schoolId),
+    storage.getTeacherAttendance(schoolId, date),
+    storage.getTimetableStructures(schoolId),
+    storage.getAcademicCalendarEvents(schoolId),
+    storage.getCalendarDays(schoolId, date, date),
+    storage.getTimetableBetween(schoolId, week.start, week.end),
+  ]);
+
+  const term = events.find(event => event.type === "term" && event.startDate <= date && event.endDate >= date);
+  const termStart = term?.startDate ?? addDays(date, -DEFAULT_TERM_DAYS);
+  const from = termStart < week.start ? termStart : week.start;
+  const covers = (await storage.getCoverBetween(schoolId, from, week.end))
+    .filter(({ substitution }) => substitution.status !== "rejected" && substitution.id !== leftOut);
+
+  const weekLessons = Array.from(timetable.values()).flat();
+  const lessons = timetable.get(date) ?? [];
+
+  const gradeOf = new Map(classes.map(c => [c.id, c.grade]));
+  const away = new Set(attendance.filter(record => record.status !== "present").map(record => record.teacherId));
+  const weekday = lessons[0]?.day;
+  const mainStructure = structures.find(structure => structure.isActive);
+  const slotsOf = (structure?: TimetableStructure) => structure && weekday ? structureSlotsForDay(structure, weekday) : [];
+  const mainSlots = slotsOf(mainStructure);
+
+  // Teaching periods of the day in each structure, up to the last period of a half day
+  const periodsPerDay = new Map<string | undefined, number>(structures.map(structure => [
+    structure.id,
+    slotsOf(structure).filter(slot => !slot.isBreak && (!calendarDay?.lastPeriod || slot.period <= calendarDay.lastPeriod)).length,
+  ]));
+  const structureOf = new Map(classes.map(c => [c.id, c.structureId ?? mainStructure?.id]));
+  const teacherStructure = (taught: TimetableEntry[]) => {
+    const counts = new Map<string | undefined, number>();
+    for (const entry of taught) {
+      const structureId = structureOf.get(entry.classId);
+      counts.set(structureId, (counts.get(structureId) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? mainStructure?.id;
+  };
+
+  const coverDate = new Map(covers.map(({ substitution }) => [substitution.id, toISTDateString(substitution.date)]));
+  // Covering a lesson group's classes at once is one cover
+  const countCovers = (teacherId: string, start: string) => new Set(covers
+    .filter(({ substitution }) =>
+      substitution.substituteTeacherId === teacherId && coverDate.get(substitution.id)! >= start && coverDate.get(substitution.id)! <= week.end)
+    .map(({ substitution, entry }) => `${coverDate.get(substitution.id)}|${entry.lessonGroupId ?? entry.id}|${entry.startTime}`)
+  ).size;
+
+  // A lesson group's teacher appears in each of its classes' entries but teaches once
+  const periodsTaught = (entries: TimetableEntry[], teacherId: string) =>
+    new Set(entries.filter(entry => entry.teacherId === teacherId).map(entry => `${entry.day}|${entry.cycleDay}|${entry.period}|${entry.startTime}`)).size;
+
+  const teachers: CoverTeacher[] = staff
+    .filter(teacher => teacher.isActive)
+    .map(teacher => {
+      const weekCovers = countCovers(teacher.id, week.start);
+      const taught = weekLessons.filter(entry => entry.teacherId === teacher.id);
+      return {
+        id: teacher.id,
+        name: teacher.name,
+        subjects: teacher.subjects,
+        away: away.has(teacher.id),
+        unavailableSlots: weekday
+          ? mainSlots.filter(slot => !slot.isBreak && (teacher.unavailablePeriods[weekday] ?? []).includes(slot.period))
+          : [],
+        periodsPerDay: periodsPerDay.get(teacherStructure(taught)) ?? 0,
+        maxDailyPeriods: teacher.maxDailyPeriods,
+        maxLoad: teacher.maxLoad,
+        classIds: Array.from(new Set(taught.map(entry => entry.classId))),
+        grades: Array.from(new Set(taught.map(entry => gradeOf.get(entry.classId)!).filter(Boolean))),
+        weekLoad: periodsTaught(weekLessons, teacher.id) + weekCovers,
+        weekCovers,
+        termCovers: countCovers(teacher.id, termStart),
+        weeklyCoverCap: weeklyCoverCapOf(teacher, school),
+      };
+    });
+
+  const planned = covers.filter(({ substitution }) => coverDate.get(substitution.id) === date);
+  const substitutions = planned.map(({ substitution }) => substitution);
+  const state: CoverDayState = { busy: new Map(), load: new Map() };
+  for (const entry of lessons) {
+    markBusy(state, entry.teacherId, entry);
+  }
+  for (const { substitution, entry } of planned) {
+    if (!substitution.substituteTeacherId) continue;
+    markBusy(state, substitution.substituteTeacherId, entry);
+  }
+
+  const toCover = (entry: TimetableEntry): LessonToCover => ({
+    entryId: entry.id,
+    period: entry.period,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    subjectId: entry.subjectId,
+    classId: entry.classId,
+    grade: gradeOf.get(entry.classId) ?? "",
+    blockId: entry.blockId,
+    lessonGroupId: entry.lessonGroupId,
+  });
+
+  return { lessons, toCover, teachers, state, substitutions };
+}
+
+/**
+ * The best substitute left for a lesson whose substitute declined it on the date:
+ * the lesson's own teacher and everyone who has declined it are left out, and the
+ * declined substitution doesn't count as anyone's cover. Null when nobody else can
+ * cover it.
+ */
+export async function nextSubstitute(
+  schoolId: string,
+  date: string,
+  entry: TimetableEntry,
+  declinedBy: string[],
+  substitutionId: string
+): Promise<string | null> {
+  const day = await loadCoverDay(schoolId, date, substitutionId);
+  const { suggestions } = rankSubstitutes(
+    day.toCover(entry),
+    day.teachers.filter(teacher => teacher.id !== entry.teacherId && !declinedBy.includes(teacher.id)),
+    day.state
+  );
+  return suggestions[0]?.teacherId ?? null;
+}
+
+/**
+ * Create pending substitutions for the lessons a teacher misses on each date, each
+ * with the best ranked substitute. Lessons that already have a pending or
+ * confirmed substitution are left as they are, so planning a date twice adds
+ * nothing.
+ */
+export async function planCoverForAbsence(
+  teacher: Teacher,
+  dates: string[],
+  reason: string | null
+): Promise<CoverPlanSummary> {
+  const summary: CoverPlanSummary = { lessons: 0, proposed: 0, dates: [] };
+
+  for (const date of dates) {
+    const day = await loadCoverDay(teacher.schoolId, date);
+    const covered = new Set(day.substitutions.map(substitution => substitution.timetableEntryId));
+    const missed = day.lessons.filter(entry => entry.teacherId === teacher.id && !covered.has(entry.id));
+    if (missed.length === 0) continue;
+
+    // The absence may have been marked just now; the teacher is away either way
+    for (const candidate of day.teachers) {
+      if (candidate.id === teacher.id) candidate.away = true;
+    }
+    const proposals = proposeCover(missed.map(day.toCover), day.teachers, day.state);
+
+    for (const entry of missed) {
+      const substituteTeacherId = proposals.get(entry.id) ?? null;
+      await storage.createSubstitution({
+        originalTeacherId: teacher.id,
+        substituteTeacherId,
+        timetableEntryId: entry.id,
+        date: startOfDayIST(date),
+        reason,
+        status: "pending",
+      });
+      summary.lessons++;
+      if (substituteTeacherId) summary.proposed++;
+    }
+    summary.dates.push(date);
+  }
+
+  return summary;
+}
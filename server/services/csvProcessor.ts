@@ -1,4 +1,4 @@
-import type { InsertTeacher, InsertSubject, InsertClass } from "@shared/schema";
+import { teacherUnavailabilitySchema, type InsertTeacher, type InsertSubject, type InsertClass, type TeacherUnavailability } from "@shared/schema";
 
 interface CSVProcessingResult<T> {
   success: boolean;
@@ -44,7 +44,7 @@ export class CSVProcessor {
       }
 
       const headers = rows[0].map(h => h.toLowerCase().trim());
-      const expectedHeaders = ['name', 'email', 'subjects', 'max_load', 'availability'];
+      const expectedHeaders = ['name', 'email', 'subjects', 'max_load'];
       
       const missingHeaders = expectedHeaders.filter(h => !headers.includes(h));
       if (missingHeaders.length > 0) {
@@ -64,7 +64,10 @@ export class CSVProcessor {
           const email = row[headers.indexOf('email')]?.trim();
           const subjectsStr = row[headers.indexOf('subjects')]?.trim();
           const maxLoadStr = row[headers.indexOf('max_load')]?.trim();
-          const availabilityStr = row[headers.indexOf('availability')]?.trim();
+          // Optional columns; no limit when missing or empty
+          const unavailableStr = headers.includes('unavailable_periods') ? row[headers.indexOf('unavailable_periods')]?.trim() : '';
+          const maxDailyStr = headers.includes('max_daily_periods') ? row[headers.indexOf('max_daily_periods')]?.trim() : '';
+          const maxConsecutiveStr = headers.includes('max_consecutive_periods') ? row[headers.indexOf('max_consecutive_periods')]?.trim() : '';
 
           if (!name || !email) {
             errors.push(`Row ${i + 1}: Name and email are required`);
@@ -73,34 +76,23 @@ export class CSVProcessor {
 
           const subjects = subjectsStr ? subjectsStr.split(';').map(s => s.trim()).filter(Boolean) : [];
           const maxLoad = maxLoadStr ? parseInt(maxLoadStr) : 30;
+          const maxDailyPeriods = maxDailyStr ? parseInt(maxDailyStr) : null;
+          const maxConsecutivePeriods = maxConsecutiveStr ? parseInt(maxConsecutiveStr) : null;
 
-          let availability: {
-            monday: string[];
-            tuesday: string[];
-            wednesday: string[];
-            thursday: string[];
-            friday: string[];
-          } = {
-            monday: [],
-            tuesday: [],
-            wednesday: [],
-            thursday: [],
-            friday: []
-          };
-
-          if (availabilityStr) {
+          // Periods the teacher cannot teach, e.g. {"monday":[1,2],"friday":[8]}
+          let unavailablePeriods: TeacherUnavailability = {};
+          if (unavailableStr) {
+            let parsed;
             try {
-              availability = JSON.parse(availabilityStr);
+              parsed = teacherUnavailabilitySchema.safeParse(JSON.parse(unavailableStr));
             } catch {
-              // Default availability if parsing fails
-              availability = {
-                monday: ['09:00-09:45', '09:45-10:30', '11:00-11:45', '11:45-12:30', '13:30-14:15', '14:15-15:00'],
-                tuesday: ['09:00-09:45', '09:45-10:30', '11:00-11:45', '11:45-12:30', '13:30-14:15', '14:15-15:00'],
-                wednesday: ['09:00-09:45', '09:45-10:30', '11:00-11:45', '11:45-12:30', '13:30-14:15', '14:15-15:00'],
-                thursday: ['09:00-09:45', '09:45-10:30', '11:00-11:45', '11:45-12:30', '13:30-14:15', '14:15-15:00'],
-                friday: ['09:00-09:45', '09:45-10:30', '11:00-11:45', '11:45-12:30', '13:30-14:15', '14:15-15:00']
-              };
+              parsed = null;
             }
+            if (!parsed?.success) {
+              errors.push(`Row ${i + 1}: unavailable_periods must map days to period numbers, e.g. {"monday":[1,2]}`);
+              continue;
+            }
+            unavailablePeriods = parsed.data;
           }
 
           teachers.push({
@@ -108,7 +100,9 @@ export class CSVProcessor {
             email,
             subjects,
             maxLoad,
-            availability,
+            maxDailyPeriods,
+            maxConsecutivePeriods,
+            unavailablePeriods,
             isActive: true,
           });
 
@@ -0,0 +1,91 @@
+import { storage } from "../storage";
+import type { CalendarDay, CycleDay, TimetableEntry } from "@shared/schema";
+import { toISTDateString } from "@shared/utils/dateUtils";
+
+// The effective timetable: a date's lessons as they are actually taught, with
+// confirmed cover, absences and the academic calendar laid over the timetable.
+
+// scheduled: taught by its own teacher; covered: by a confirmed substitute;
+// uncovered: its teacher is away and no cover is confirmed; cancelled: after the
+// last period of a half day
+export type EffectiveLessonStatus = "scheduled" | "covered" | "uncovered" | "cancelled";
+
+export interface EffectiveLesson extends TimetableEntry {
+  status: EffectiveLessonStatus;
+  substitutionId: string | null;
+  substituteTeacherId: string | null;
+  // Why the lesson isn't taught as planned, e.g. "Half day: Sports Day"
+  note: string | null;
+}
+
+export interface EffectiveTimetable {
+  date: string;
+  day: CalendarDay;
+  // Null when there are no classes
+  cycleDay: CycleDay | null;
+  lessons: EffectiveLesson[];
+}
+
+/**
+ * The lessons of a date (YYYY-MM-DD) for the whole school, a class or a teacher. A
+ * teacher's timetable includes the lessons they cover and keeps their own lessons
+ * that someone else covers, marked as covered.
+ */
+export async function getEffectiveTimetable(
+  schoolId: string,
+  date: string,
+  filter: { classId?: string; teacherId?: string } = {}
+): Promise<EffectiveTimetable> {
+  const [[day], cycleDay] = await Promise.all([
+    storage.getCalendarDays(schoolId, date, date),
+    storage.getCycleDay(schoolId, date),
+  ]);
+  if (!day.hasClasses || !cycleDay) {
+    return { date, day, cycleDay: null, lessons: [] };
+  }
+
+  const [entries, substitutions, attendance] = await Promise.all([
+    storage.getTimetableForDate(schoolId, date, true),
+    storage.getSubstitutionsBetween(schoolId, date, date),
+    storage.getTeacherAttendance(schoolId, date),
+  ]);
+
+  const confirmed = new Map(substitutions
+    .filter(substitution => substitution.status === "confirmed" && toISTDateString(substitution.date) === date)
+    .map(substitution => [substitution.timetableEntryId, substitution]));
+  const away = new Map(attendance.filter(record => record.status !== "present").map(record => [record.teacherId, record]));
+  const halfDay = day.events.find(event => event.type === "half_day" && event.lastPeriod === day.lastPeriod);
+
+  const lessons: EffectiveLesson[] = entries.map(entry => {
+    const substitution = confirmed.get(entry.id);
+    const absence = away.get(entry.teacherId);
+    const lesson = { ...entry, substitutionId: null, substituteTeacherId: null };
+
+    if (day.lastPeriod && entry.period > day.lastPeriod) {
+      return { ...lesson, status: "cancelled", note: halfDay ? `Half day: ${halfDay.name}` : "Half day" };
+    }
+    if (substitution?.substituteTeacherId) {
+      return {
+        ...lesson,
+        status: "covered",
+        substitutionId: substitution.id,
+        substituteTeacherId: substitution.substituteTeacherId,
+        note: substitution.reason,
+      };
+    }
+    if (absence) {
+      return { ...lesson, status: "uncovered", note: absence.reason ?? `Teacher ${absence.status.replace("_", " ")}` };
+    }
+    return { ...lesson, status: "scheduled", note: null };
+  });
+
+  return {
+    date,
+    day,
+    cycleDay,
+    lessons: lessons
+      .filter(lesson => !filter.classId || lesson.classId === filter.classId)
+      .filter(lesson => !filter.teacherId || lesson.teacherId === filter.teacherId || lesson.substituteTeacherId === filter.teacherId)
+      .sort((a, b) => a.period - b.period),
+  };
+}
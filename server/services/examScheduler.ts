@@ -0,0 +1,348 @@
+import { storage } from "../storage";
+import { sittingMinutes, type ExamSeries } from "@shared/schema";
+
+// Exam scheduling: papers into sittings without clashes for any class, classes
+// seated in the exam halls, and invigilators assigned to the halls in use.
+
+export interface ExamPaperToSchedule {
+  id: string;
+  label: string;
+  subjectId: string;
+  durationMinutes: number;
+  earliestDate: string | null;
+  latestDate: string | null;
+  // Classes sitting the paper; papers sharing a class never share a sitting
+  classIds: string[];
+}
+
+export interface ExamSlot {
+  date: string;
+  sitting: number;
+  minutes: number;
+}
+
+export interface ExamHall {
+  id: string;
+  capacity: number;
+}
+
+export interface ExamPlacement {
+  paperId: string;
+  date: string;
+  sitting: number;
+}
+
+export interface ExamSeatAllocation {
+  paperId: string;
+  classId: string;
+  roomId: string;
+  seatFrom: number;
+  seatTo: number;
+}
+
+export interface UnplacedExamPaper {
+  paperId: string;
+  label: string;
+  reason: string;
+}
+
+export interface ExamScheduleResult {
+  placements: ExamPlacement[];
+  seats: ExamSeatAllocation[];
+  unplaced: UnplacedExamPaper[];
+}
+
+// Costs of putting a paper near another paper of one of its classes
+const SAME_DAY_COST = 100;
+const NEXT_DAY_COST = 10;
+
+const slotKey = (slot: { date: string; sitting: number }) => `${slot.date}|${slot.sitting}`;
+
+/**
+ * Give each paper a sitting. A paper only goes in a sitting long enough for it,
+ * within its dates, with no other paper of its classes and with hall seats left
+ * for all its students. Among those, a class's papers are kept off the same day
+ * and then off consecutive exam days where possible; ties go to the earliest
+ * sitting. Papers with most clashes go first, as they are hardest to place.
+ */
+export function scheduleExamPapers(
+  papers: ExamPaperToSchedule[],
+  slots: ExamSlot[],
+  halls: ExamHall[],
+  classSizes: Map<string, number>
+): ExamScheduleResult {
+  const hallSeats = halls.reduce((sum, hall) => sum + hall.capacity, 0);
+  const studentsOf = (paper: ExamPaperToSchedule) =>
+    paper.classIds.reduce((sum, classId) => sum + (classSizes.get(classId) ?? 0), 0);
+  const dates = Array.from(new Set(slots.map(slot => slot.date))).sort();
+  const dayIndex = new Map(dates.map((date, index) => [date, index]));
+
+  const clashes = new Map<string, Set<string>>();
+  for (const paper of papers) {
+    clashes.set(paper.id, new Set(papers
+      .filter(other => other.id !== paper.id && other.classIds.some(classId => paper.classIds.includes(classId)))
+      .map(other => other.id)));
+  }
+
+  const inWindow = (paper: ExamPaperToSchedule, slot: ExamSlot) =>
+    (!paper.earliestDate || slot.date >= paper.earliestDate) && (!paper.latestDate || slot.date <= paper.latestDate);
+  const windowSlots = (paper: ExamPaperToSchedule) => slots.filter(slot => inWindow(paper, slot)).length;
+
+  const order = [...papers].sort((a, b) =>
+    clashes.get(b.id)!.size - clashes.get(a.id)!.size ||
+    windowSlots(a) - windowSlots(b) ||
+    studentsOf(b) - studentsOf(a) ||
+    a.label.localeCompare(b.label)
+  );
+
+  const placed = new Map<string, ExamSlot>();
+  const seatsUsed = new Map<string, number>();
+  const papersInSlot = new Map<string, ExamPaperToSchedule[]>();
+  const unplaced: UnplacedExamPaper[] = [];
+
+  for (const paper of order) {
+    const students = studentsOf(paper);
+    const clashing = Array.from(clashes.get(paper.id)!)
+      .map(id => placed.get(id))
+      .filter((slot): slot is ExamSlot => !!slot);
+
+    const candidates = slots.filter(slot => inWindow(paper, slot));
+    const longEnough = candidates.filter(slot => slot.minutes >= paper.durationMinutes);
+    const clashFree = longEnough.filter(slot => !clashing.some(other => slotKey(other) === slotKey(slot)));
+    const feasible = clashFree.filter(slot => (seatsUsed.get(slotKey(slot)) ?? 0) + students <= hallSeats);
+
+    if (feasible.length === 0) {
+      const reason = candidates.length === 0
+        ? "No exam sittings fall within its dates"
+        : longEnough.length === 0
+          ? `No sitting is ${paper.durationMinutes} minutes long`
+          : clashFree.length === 0
+            ? "Every sitting within its dates already has a paper of the same classes"
+            : `Not enough hall seats for its ${students} students in any free sitting`;
+      unplaced.push({ paperId: paper.id, label: paper.label, reason });
+      continue;
+    }
+
+    const cost = (slot: ExamSlot) => clashing.reduce((sum, other) => {
+      const gap = Math.abs(dayIndex.get(other.date)! - dayIndex.get(slot.date)!);
+      return sum + (gap === 0 ? SAME_DAY_COST : gap === 1 ? NEXT_DAY_COST : 0);
+    }, 0);
+    // Slots come in date and sitting order, so the first cheapest is the earliest
+    const best = feasible.reduce((min, slot) => (cost(slot) < cost(min) ? slot : min));
+
+    placed.set(paper.id, best);
+    seatsUsed.set(slotKey(best), (seatsUsed.get(slotKey(best)) ?? 0) + students);
+    if (!papersInSlot.has(slotKey(best))) papersInSlot.set(slotKey(best), []);
+    papersInSlot.get(slotKey(best))!.push(paper);
+  }
+
+  // Seat each sitting's classes hall by hall, largest hall first; a class fills
+  // the rest of one hall before moving on to the next
+  const seats: ExamSeatAllocation[] = [];
+  const hallOrder = [...halls].sort((a, b) => b.capacity - a.capacity);
+  papersInSlot.forEach(slotPapers => {
+    let hall = 0;
+    let nextSeat = 1;
+    for (const paper of [...slotPapers].sort((a, b) => a.label.localeCompare(b.label))) {
+      for (const classId of paper.classIds) {
+        let remaining = classSizes.get(classId) ?? 0;
+        while (remaining > 0 && hall < hallOrder.length) {
+          const free = hallOrder[hall].capacity - nextSeat + 1;
+          if (free <= 0) {
+            hall++;
+            nextSeat = 1;
+            continue;
+          }
+          const taken = Math.min(free, remaining);
+          seats.push({
+            paperId: paper.id,
+            classId,
+            roomId: hallOrder[hall].id,
+            seatFrom: nextSeat,
+            seatTo: nextSeat + taken - 1,
+          });
+          nextSeat += taken;
+          remaining -= taken;
+        }
+      }
+    }
+  });
+
+  return {
+    placements: Array.from(placed.entries()).map(([paperId, slot]) => ({ paperId, date: slot.date, sitting: slot.sitting })),
+    seats,
+    unplaced,
+  };
+}
+
+export interface HallInUse {
+  date: string;
+  sitting: number;
+  roomId: string;
+  students: number;
+  // Subjects of the papers sat in the hall
+  subjectIds: string[];
+}
+
+export interface Invigilator {
+  id: string;
+  subjects: string[];
+}
+
+export interface InvigilationDuty {
+  date: string;
+  sitting: number;
+  roomId: string;
+  teacherId: string;
+}
+
+export interface InvigilationShortage {
+  date: string;
+  sitting: number;
+  roomId: string;
+  needed: number;
+  assigned: number;
+}
+
+/**
+ * Give each hall in use its invigilators: one per studentsPerInvigilator students,
+ * at least one. Teachers are never put in a hall where a subject they teach is
+ * being sat, nor on a date they are away (`${teacherId}|${date}` in away), nor in
+ * two halls at once. Duties go to whoever has had fewest so far, then fewest
+ * that day, so they spread evenly over the staff.
+ */
+export function assignInvigilators(
+  halls: HallInUse[],
+  teachers: Invigilator[],
+  away: Set<string>,
+  studentsPerInvigilator: number
+): { duties: InvigilationDuty[]; shortages: InvigilationShortage[] } {
+  const duties: InvigilationDuty[] = [];
+  const shortages: InvigilationShortage[] = [];
+  const total = new Map<string, number>();
+  const daily = new Map<string, number>();
+  const busy = new Set<string>();
+
+  const ordered = [...halls].sort((a, b) =>
+    a.date.localeCompare(b.date) || a.sitting - b.sitting || b.students - a.students
+  );
+
+  for (const hall of ordered) {
+    const needed = Math.max(1, Math.ceil(hall.students / studentsPerInvigilator));
+    const available = teachers
+      .filter(teacher =>
+        !away.has(`${teacher.id}|${hall.date}`) &&
+        !busy.has(`${teacher.id}|${slotKey(hall)}`) &&
+        !hall.subjectIds.some(subjectId => teacher.subjects.includes(subjectId))
+      )
+      .sort((a, b) =>
+        (total.get(a.id) ?? 0) - (total.get(b.id) ?? 0) ||
+        (daily.get(`${a.id}|${hall.date}`) ?? 0) - (daily.get(`${b.id}|${hall.date}`) ?? 0) ||
+        a.id.localeCompare(b.id)
+      );
+
+    const chosen = available.slice(0, needed);
+    for (const teacher of chosen) {
+      duties.push({ date: hall.date, sitting: hall.sitting, roomId: hall.roomId, teacherId: teacher.id });
+      total.set(teacher.id, (total.get(teacher.id) ?? 0) + 1);
+      daily.set(`${teacher.id}|${hall.date}`, (daily.get(`${teacher.id}|${hall.date}`) ?? 0) + 1);
+      busy.add(`${teacher.id}|${slotKey(hall)}`);
+    }
+    if (chosen.length < needed) {
+      shortages.push({ date: hall.date, sitting: hall.sitting, roomId: hall.roomId, needed, assigned: chosen.length });
+    }
+  }
+
+  return { duties, shortages };
+}
+
+export interface ExamScheduleSummary {
+  scheduled: number;
+  unplaced: UnplacedExamPaper[];
+  duties: number;
+  shortages: InvigilationShortage[];
+}
+
+const sameGrade = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Schedule a series' papers and invigilators and save the result in place of the
+ * previous one. A paper is sat by the classes of its grade that take its subject,
+ * or by the whole grade when none of them has the subject set up. Exams are held
+ * on the working days of the academic calendar within the series' dates.
+ */
+export async function generateExamSchedule(series: ExamSeries): Promise<ExamScheduleSummary> {
+  const [papers, classes, assignments, subjects, rooms, teachers, attendance, days] = await Promise.all([
+    storage.getExamPapers(series.id),
+    storage.getClasses(series.schoolId),
+    storage.getClassSubjectAssignments(undefined, series.schoolId),
+    storage.getSubjects(series.schoolId),
+    storage.getRooms(series.schoolId),
+    storage.getTeachers(series.schoolId),
+    storage.getTeacherAttendance(series.schoolId),
+    storage.getCalendarDays(series.schoolId, series.startDate, series.endDate),
+  ]);
+
+  const takesSubject = (classId: string, subjectId: string) =>
+    assignments.some(a => a.classId === classId && a.subjectId === subjectId) ||
+    !!classes.find(c => c.id === classId)?.requiredSubjects.includes(subjectId);
+
+  const toSchedule: ExamPaperToSchedule[] = papers.map(paper => {
+    const gradeClasses = classes.filter(c => sameGrade(c.grade, paper.grade));
+    const taking = gradeClasses.filter(c => takesSubject(c.id, paper.subjectId));
+    const subject = subjects.find(s => s.id === paper.subjectId)?.name ?? "Unknown subject";
+    return {
+      id: paper.id,
+      label: `Grade ${paper.grade} ${paper.name || subject}`,
+      subjectId: paper.subjectId,
+      durationMinutes: paper.durationMinutes,
+      earliestDate: paper.earliestDate,
+      latestDate: paper.latestDate,
+      classIds: (taking.length > 0 ? taking : gradeClasses).map(c => c.id),
+    };
+  });
+
+  const slots: ExamSlot[] = days
+    .filter(day => day.workingDay)
+    .flatMap(day => series.sittings.map((sitting, index) => ({ date: day.date, sitting: index, minutes: sittingMinutes(sitting) })));
+  const halls = rooms
+    .filter(room => room.isActive && series.hallIds.includes(room.id))
+    .map(room => ({ id: room.id, capacity: room.capacity }));
+  const classSizes = new Map(classes.map(c => [c.id, c.studentCount]));
+
+  const schedule = scheduleExamPapers(toSchedule, slots, halls, classSizes);
+
+  // Each hall of each sitting, with its students and the subjects sat in it
+  const hallsInUse = new Map<string, HallInUse>();
+  for (const seat of schedule.seats) {
+    const placement = schedule.placements.find(p => p.paperId === seat.paperId)!;
+    const key = `${placement.date}|${placement.sitting}|${seat.roomId}`;
+    if (!hallsInUse.has(key)) {
+      hallsInUse.set(key, { date: placement.date, sitting: placement.sitting, roomId: seat.roomId, students: 0, subjectIds: [] });
+    }
+    const hall = hallsInUse.get(key)!;
+    hall.students += seat.seatTo - seat.seatFrom + 1;
+    const subjectId = toSchedule.find(p => p.id === seat.paperId)!.subjectId;
+    if (!hall.subjectIds.includes(subjectId)) hall.subjectIds.push(subjectId);
+  }
+
+  // Teachers on leave during the series don't invigilate
+  const away = new Set(attendance
+    .filter(record => record.status !== "present" && record.attendanceDate >= series.startDate && record.attendanceDate <= series.endDate)
+    .map(record => `${record.teacherId}|${record.attendanceDate}`));
+  const { duties, shortages } = assignInvigilators(
+    Array.from(hallsInUse.values()),
+    teachers.filter(teacher => teacher.isActive).map(teacher => ({ id: teacher.id, subjects: teacher.subjects })),
+    away,
+    series.studentsPerInvigilator
+  );
+
+  await storage.saveExamSchedule(series.id, schedule.placements, schedule.seats, duties);
+
+  return {
+    scheduled: schedule.placements.length,
+    unplaced: schedule.unplaced,
+    duties: duties.length,
+    shortages,
+  };
+}
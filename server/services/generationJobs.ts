@@ -0,0 +1,148 @@
+import { randomUUID } from "crypto";
+import {
+  scheduler,
+  type GenerateTimetableResult,
+  type GenerationPhase,
+} from "./scheduler";
+
+export type GenerationJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface GenerationJob {
+  id: string;
+  schoolId: string | null;
+  classId: string | null;
+  status: GenerationJobStatus;
+  phase: GenerationPhase | null;
+  percent: number;
+  bestScore: number | null;
+  cancelRequested: boolean;
+  result: GenerateTimetableResult | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export interface SubmitGenerationJob {
+  schoolId: string | null;
+  classId?: string;
+  seed?: number;
+  candidates?: number;
+}
+
+// Finished jobs stay around this long so clients can still read their result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+const isFinished = (job: GenerationJob) =>
+  job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+
+// Runs timetable generations in the background, one at a time, so a request
+// only has to submit a job and the solver never competes with itself for CPU
+export class GenerationJobQueue {
+  private jobs = new Map<string, GenerationJob>();
+  private queue: { job: GenerationJob; request: SubmitGenerationJob }[] = [];
+  private running = false;
+
+  submit(request: SubmitGenerationJob): GenerationJob {
+    this.prune();
+
+    const job: GenerationJob = {
+      id: randomUUID(),
+      schoolId: request.schoolId,
+      classId: request.classId ?? null,
+      status: "queued",
+      phase: null,
+      percent: 0,
+      bestScore: null,
+      cancelRequested: false,
+      result: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push({ job, request });
+    void this.runNext();
+
+    return job;
+  }
+
+  getJob(id: string): GenerationJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Queued jobs are dropped at once; a running job stops at the solver's next checkpoint
+  cancel(id: string): GenerationJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job || isFinished(job)) return job;
+
+    job.cancelRequested = true;
+    if (job.status === "queued") {
+      this.queue = this.queue.filter(item => item.job.id !== id);
+      this.finish(job, "cancelled", {
+        success: false,
+        cancelled: true,
+        message: "Generation was cancelled. The current timetable is unchanged.",
+      });
+    }
+    return job;
+  }
+
+  private async runNext() {
+    if (this.running) return;
+    const next = this.queue.shift();
+    if (!next) return;
+
+    this.running = true;
+    const { job, request } = next;
+    job.status = "running";
+    job.startedAt = new Date();
+
+    try {
+      const result = await scheduler.generateTimetable(
+        request.classId,
+        request.schoolId ?? undefined,
+        request.seed,
+        {
+          onProgress: progress => {
+            job.phase = progress.phase;
+            job.percent = progress.percent;
+            job.bestScore = progress.bestScore;
+          },
+          isCancelled: () => job.cancelRequested,
+          candidates: request.candidates,
+        }
+      );
+      this.finish(job, result.cancelled ? "cancelled" : result.success ? "completed" : "failed", result);
+    } catch (error) {
+      console.error("Error running generation job:", error);
+      this.finish(job, "failed", {
+        success: false,
+        message: "An error occurred while generating the timetable. Please try again.",
+      });
+    } finally {
+      this.running = false;
+      void this.runNext();
+    }
+  }
+
+  private finish(job: GenerationJob, status: GenerationJobStatus, result: GenerateTimetableResult) {
+    job.status = status;
+    job.result = result;
+    job.finishedAt = new Date();
+    if (status === "completed") {
+      job.percent = 100;
+      job.bestScore = result.score?.total ?? job.bestScore;
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    this.jobs.forEach((job, id) => {
+      if (isFinished(job) && job.finishedAt!.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+export const generationJobs = new GenerationJobQueue();
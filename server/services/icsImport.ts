@@ -0,0 +1,180 @@
+import type { CalendarEventType, InsertAcademicCalendarEvent } from "@shared/schema";
+
+export type ImportedCalendarEvent = Omit<InsertAcademicCalendarEvent, "schoolId">;
+
+export interface IcsImportResult {
+  events: ImportedCalendarEvent[];
+  errors: string[];
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+// Terms shorter than this are taken to be one-off notices such as "Term starts"
+const MIN_TERM_DAYS = 7;
+
+// Lines starting with a space or tab continue the previous one (RFC 5545 folding)
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// NAME;PARAM=a;PARAM="b:c":value; colons inside quoted parameters don't end the name
+function parseLine(line: string): { name: string; property: IcsProperty } | undefined {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return undefined;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+}
+
+// 20250101 or 20250101T090000Z to 2025-01-01; times are dropped, the calendar works in whole days
+function toDate(value: string): string | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().split("T")[0];
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+// Whole days of a DURATION such as P3D or P2W; shorter durations stay on the start day
+function durationDays(value: string): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+  return match ? Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0) : 0;
+}
+
+/**
+ * What a calendar entry is, from its categories and title. Most school calendars
+ * don't categorise their entries, so the title is searched for the usual words;
+ * anything unrecognised gets the type chosen for the import.
+ */
+export function classifyCalendarEvent(
+  summary: string,
+  categories: string,
+  lengthInDays: number,
+  defaultType: CalendarEventType
+): CalendarEventType {
+  const text = `${categories} ${summary}`.toLowerCase();
+  if (/half[- ]?day|early (dismissal|closure|release)/.test(text)) return "half_day";
+  if (/\bexam|\bassessment (week|period)/.test(text)) return "exam_period";
+  // Before terms, so that "Half term break" is a holiday
+  if (/holiday|vacation|\bbreak\b|\bclosed\b|day off|no school|recess/.test(text)) return "holiday";
+  if (/\bterm\b|semester|trimester/.test(text)) return lengthInDays >= MIN_TERM_DAYS ? "term" : "event";
+  return defaultType;
+}
+
+/**
+ * Read the events of an ICS (iCalendar) file as academic calendar entries. Half
+ * days are given halfDayLastPeriod; repeating events are imported once, on their
+ * first date, and reported in errors.
+ */
+export function parseIcsCalendar(
+  content: string,
+  defaultType: CalendarEventType,
+  halfDayLastPeriod: number
+): IcsImportResult {
+  const events: ImportedCalendarEvent[] = [];
+  const errors: string[] = [];
+  let current: Map<string, IcsProperty> | null = null;
+  // Depth of components inside the current event, e.g. VALARM, whose properties aren't the event's
+  let nested = 0;
+
+  if (!/BEGIN:VCALENDAR/i.test(content)) {
+    return { events, errors: ["The file is not an iCalendar (.ics) file"] };
+  }
+
+  for (const line of unfold(content)) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      current = new Map();
+      nested = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    if (/^BEGIN:/i.test(line)) {
+      nested++;
+      continue;
+    }
+    if (nested > 0) {
+      if (/^END:/i.test(line)) nested--;
+      continue;
+    }
+
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      const event = current;
+      current = null;
+
+      const summary = unescapeText(event.get("SUMMARY")?.value ?? "").trim() || "Untitled event";
+      if (event.get("STATUS")?.value.toUpperCase() === "CANCELLED") continue;
+
+      const start = event.get("DTSTART");
+      const startDate = start && toDate(start.value);
+      if (!startDate) {
+        errors.push(`"${summary}" has no start date and was skipped`);
+        continue;
+      }
+
+      // An all-day DTEND is the day after the event; a timed one ends on its own day
+      let endDate = startDate;
+      const end = event.get("DTEND");
+      const endValue = end && toDate(end.value);
+      if (end && endValue) {
+        const allDay = end.params.VALUE === "DATE" || /^\d{8}$/.test(end.value);
+        endDate = allDay ? addDays(endValue, -1) : endValue;
+      } else if (event.get("DURATION")) {
+        const days = durationDays(event.get("DURATION")!.value);
+        endDate = addDays(startDate, Math.max(0, days - 1));
+      }
+      if (endDate < startDate) endDate = startDate;
+
+      if (event.get("RRULE")) {
+        errors.push(`"${summary}" repeats; only its first date was imported`);
+      }
+
+      const categories = unescapeText(event.get("CATEGORIES")?.value ?? "");
+      const type = classifyCalendarEvent(summary, categories, daysBetween(startDate, endDate) + 1, defaultType);
+      const description = unescapeText(event.get("DESCRIPTION")?.value ?? "").trim();
+
+      events.push({
+        type,
+        name: summary.slice(0, 200),
+        startDate,
+        endDate,
+        lastPeriod: type === "half_day" ? halfDayLastPeriod : null,
+        notes: description || null,
+        externalId: event.get("UID")?.value.slice(0, 255) || null,
+      });
+      continue;
+    }
+
+    const parsed = parseLine(line);
+    // Only the first of a repeated property counts
+    if (parsed && !current.has(parsed.name)) current.set(parsed.name, parsed.property);
+  }
+
+  if (events.length === 0 && errors.length === 0) {
+    errors.push("The file has no events");
+  }
+
+  return { events, errors };
+}
@@ -0,0 +1,223 @@
+import type {
+  Class,
+  Subject,
+  Teacher,
+  TeacherPreference,
+  TeacherUnavailability,
+  TimetableEntry,
+  Weekday,
+} from "@shared/schema";
+import type { TeacherPreferenceContext } from "./scoring";
+
+// What the scheduler makes of the teachers' preferences
+export interface PreferenceRules {
+  // Teachers with their hard day and period preferences added to their unavailable periods
+  teachers: Teacher[];
+  // `${teacherId}|${classId}|${subjectId}` lessons a teacher must not be given
+  excludedLessons: Set<string>;
+  soft: TeacherPreferenceContext;
+}
+
+export interface PreferenceReportRow {
+  preferenceId: string;
+  teacherId: string;
+  teacherName: string;
+  type: TeacherPreference["type"];
+  strength: TeacherPreference["strength"];
+  description: string;
+  satisfied: boolean;
+  // Periods of the timetable that go against the preference
+  violations: number;
+  detail: string;
+}
+
+const capitalize = (day: string) => day.charAt(0).toUpperCase() + day.slice(1);
+
+const className = (cls: Class) => `Grade ${cls.grade}-${cls.section}`;
+
+const matchesGrade = (preference: TeacherPreference, cls: Class) =>
+  !preference.grade || preference.grade.trim() === cls.grade.trim();
+
+// Slots a day or period preference asks to keep free; periodsByDay lists the teaching periods of each working day
+function avoidedSlots(preference: TeacherPreference, periodsByDay: Map<string, number[]>) {
+  const slots: { day: string; period: number }[] = [];
+  if (preference.type === "free_period" && preference.day && preference.period) {
+    slots.push({ day: preference.day, period: preference.period });
+  } else if (preference.type === "preferred_days") {
+    periodsByDay.forEach((periods, day) => {
+      if (preference.days.includes(day as Weekday)) return;
+      periods.forEach(period => slots.push({ day, period }));
+    });
+  }
+  return slots;
+}
+
+function addTo(map: Map<string, Set<string>>, teacherId: string, key: string) {
+  if (!map.has(teacherId)) map.set(teacherId, new Set());
+  map.get(teacherId)!.add(key);
+}
+
+/**
+ * Turn teacher preferences into scheduling rules. Hard day and period preferences
+ * make the teacher unavailable, and a hard "avoid" keeps the teacher out of the
+ * pool of qualified teachers for those lessons (an explicit assignment still wins).
+ * Everything else is scored: a soft "avoid" counts against the teacher teaching the
+ * lesson, and a "prefer" counts against any other teacher given it.
+ */
+export function buildPreferenceRules(
+  preferences: TeacherPreference[],
+  teachers: Teacher[],
+  classes: Class[],
+  periodsByDay: Map<string, number[]>
+): PreferenceRules {
+  const unavailable = new Map<string, TeacherUnavailability>();
+  const excludedLessons = new Set<string>();
+  const soft: TeacherPreferenceContext = { avoidedSlots: new Map(), avoidedLessons: new Map() };
+
+  const preferred = preferences.filter(p => p.type === "subject_priority" && p.priority === "prefer");
+  const prefersLesson = (teacherId: string, cls: Class, subjectId: string) =>
+    preferred.some(p => p.teacherId === teacherId && p.subjectId === subjectId && matchesGrade(p, cls));
+
+  for (const preference of preferences) {
+    const { teacherId } = preference;
+
+    if (preference.type === "subject_priority") {
+      const subjectId = preference.subjectId;
+      if (!subjectId) continue;
+      for (const cls of classes.filter(c => matchesGrade(preference, c))) {
+        if (preference.priority === "avoid") {
+          if (preference.strength === "hard") {
+            excludedLessons.add(`${teacherId}|${cls.id}|${subjectId}`);
+          } else {
+            addTo(soft.avoidedLessons, teacherId, `${cls.id}|${subjectId}`);
+          }
+        } else {
+          for (const other of teachers) {
+            if (other.id === teacherId || !other.subjects.includes(subjectId)) continue;
+            if (prefersLesson(other.id, cls, subjectId)) continue;
+            addTo(soft.avoidedLessons, other.id, `${cls.id}|${subjectId}`);
+          }
+        }
+      }
+      continue;
+    }
+
+    for (const { day, period } of avoidedSlots(preference, periodsByDay)) {
+      if (preference.strength === "hard") {
+        if (!unavailable.has(teacherId)) unavailable.set(teacherId, {});
+        const days = unavailable.get(teacherId)!;
+        days[day as Weekday] = [...(days[day as Weekday] ?? []), period];
+      } else {
+        addTo(soft.avoidedSlots, teacherId, `${day}|${period}`);
+      }
+    }
+  }
+
+  return {
+    teachers: teachers.map(teacher => {
+      const extra = unavailable.get(teacher.id);
+      if (!extra) return teacher;
+      const unavailablePeriods: TeacherUnavailability = { ...teacher.unavailablePeriods };
+      for (const [day, periods] of Object.entries(extra) as [Weekday, number[]][]) {
+        unavailablePeriods[day] = Array.from(new Set([...(unavailablePeriods[day] ?? []), ...periods]));
+      }
+      return { ...teacher, unavailablePeriods };
+    }),
+    excludedLessons,
+    soft,
+  };
+}
+
+export function describePreference(preference: TeacherPreference, subjects: Subject[]): string {
+  switch (preference.type) {
+    case "preferred_days":
+      return `Prefers to teach on ${preference.days.map(capitalize).join(", ")}`;
+    case "free_period":
+      return `Free period ${preference.period} on ${capitalize(preference.day ?? "")}`;
+    case "subject_priority": {
+      const subject = subjects.find(s => s.id === preference.subjectId)?.name || "Unknown subject";
+      const grade = preference.grade ? ` for grade ${preference.grade}` : "";
+      return `${preference.priority === "avoid" ? "Avoids" : "Prefers"} ${subject}${grade}`;
+    }
+  }
+}
+
+/**
+ * Check each preference against the given (active) timetable entries. Entries of a
+ * lesson group put one teacher in several classes' rows; each period counts once.
+ */
+export function evaluatePreferences(
+  preferences: TeacherPreference[],
+  entries: TimetableEntry[],
+  teachers: Teacher[],
+  classes: Class[],
+  subjects: Subject[]
+): PreferenceReportRow[] {
+  const classesById = new Map(classes.map(c => [c.id, c]));
+
+  // Distinct teacher periods among the given entries
+  const countPeriods = (matching: TimetableEntry[]) =>
+    new Set(matching.map(e => `${e.teacherId}|${e.day}|${e.period}`)).size;
+
+  return preferences.map(preference => {
+    const teacherEntries = entries.filter(e => e.teacherId === preference.teacherId);
+    let violations = 0;
+    let satisfied = true;
+    let detail = "";
+
+    switch (preference.type) {
+      case "preferred_days": {
+        const outside = teacherEntries.filter(e => !preference.days.includes(e.day as Weekday));
+        violations = countPeriods(outside);
+        const days = Array.from(new Set(outside.map(e => capitalize(e.day))));
+        detail = violations > 0
+          ? `Teaches ${violations} period${violations !== 1 ? "s" : ""} on ${days.join(", ")}`
+          : "Only teaches on preferred days";
+        satisfied = violations === 0;
+        break;
+      }
+      case "free_period": {
+        const taught = teacherEntries.filter(e => e.day === preference.day && e.period === preference.period);
+        violations = countPeriods(taught);
+        const taughtClasses = taught.map(e => classesById.get(e.classId)).filter((c): c is Class => !!c);
+        detail = violations > 0
+          ? `Teaches ${taughtClasses.map(className).join(", ") || "a class"} in that period`
+          : "Period is free";
+        satisfied = violations === 0;
+        break;
+      }
+      case "subject_priority": {
+        const matching = entries.filter(e => {
+          const cls = classesById.get(e.classId);
+          return e.subjectId === preference.subjectId && !!cls && matchesGrade(preference, cls);
+        });
+        const own = countPeriods(matching.filter(e => e.teacherId === preference.teacherId));
+        if (preference.priority === "avoid") {
+          violations = own;
+          detail = own > 0 ? `Teaches ${own} period${own !== 1 ? "s" : ""} of it` : "Not teaching it";
+          satisfied = own === 0;
+        } else {
+          violations = countPeriods(matching.filter(e => e.teacherId !== preference.teacherId));
+          detail = own + violations === 0
+            ? "No such lessons are timetabled"
+            : `Teaches ${own} of ${own + violations} periods`;
+          // Satisfied when the teacher got some of the lessons, or there are none to give
+          satisfied = own > 0 || violations === 0;
+        }
+        break;
+      }
+    }
+
+    return {
+      preferenceId: preference.id,
+      teacherId: preference.teacherId,
+      teacherName: teachers.find(t => t.id === preference.teacherId)?.name || "Unknown teacher",
+      type: preference.type,
+      strength: preference.strength,
+      description: describePreference(preference, subjects),
+      satisfied,
+      violations,
+      detail,
+    };
+  });
+}
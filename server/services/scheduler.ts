@@ -1,22 +1,189 @@
+import { randomUUID } from "crypto";
 import { storage } from "../storage";
-import type { InsertTimetableEntry, Teacher, Subject, Class } from "@shared/schema";
+import {
+  DEFAULT_PERIOD_TIMES,
+  DEFAULT_SOFT_CONSTRAINT_WEIGHTS,
+  buildingKey,
+  cycleDayLabel,
+  cycleDaysOf,
+  cycleWeeks,
+  effectivePlacementRules,
+  structureCycleDays,
+  structureSlotsForDay,
+  weekdays,
+  type InsertTimetableEntry,
+  type TimetableEntry,
+  type TimetableCandidate,
+  type Teacher,
+  type Subject,
+  type Class,
+  type Room,
+  type LessonGroup,
+  type LessonGroupStream,
+  type CycleDay,
+  type ScoreBreakdown,
+  type StructureTimeSlot,
+  type SubjectPlacementRules,
+  type TimetableStructure,
+  type Weekday,
+} from "@shared/schema";
+import {
+  ScheduleSolver,
+  createSeededRandom,
+  MAX_SEED,
+  type ScheduleConflict,
+  type SolveResult,
+  type SolverPhase,
+  type SolverOptions,
+  type SolverRequirement,
+  type TeacherLimits,
+  type UnplacedCause,
+  minutesBetween,
+} from "./solver";
+import { getAfterLunchPeriods, measureTimetable, scoreTimetable, type SoftConstraintContext } from "./scoring";
+import { buildPreferenceRules } from "./preferences";
+
+// No more than this many periods of the same subject per class per day
+const MAX_DAILY_PERIODS_PER_SUBJECT = 2;
+
+// Inside the solver and for scoring, the periods of a school's further timetable
+// structures are numbered from 100, 200, ... so that slots of different shifts
+// never share a period number; the main structure keeps its own numbers
+const STRUCTURE_PERIOD_OFFSET = 100;
+
+const overlaps = (a: { startTime: string; endTime: string }, b: { startTime: string; endTime: string }) =>
+  a.startTime < b.endTime && b.startTime < a.endTime;
+
+const formatRoomType = (type: string) => type.replace(/_/g, " ");
 
 interface TimeSlot {
   day: string;
+  cycleDay?: number | null;
   period: number;
   startTime: string;
   endTime: string;
+  breakBefore?: boolean;
+  structureId?: string;
 }
 
 interface ScheduleConstraint {
   classId: string;
   subjectId: string;
   periodsNeeded: number;
+  blockLength: number;
   preferredTeachers: string[];
+  studentCount: number;
+  // The subject's placement rules, or the class's own; not used for lesson groups
+  placementRules?: SubjectPlacementRules;
+  // Lesson groups: taught to every listed class at once, alongside the parallel streams
+  lessonGroupId?: string;
+  extraClassIds?: string[];
+  parallelStreams?: LessonGroupStream[];
+}
+
+export interface ScheduleDiagnosis {
+  requiredPeriods: number;
+  scheduledPeriods: number;
+  conflicts: (ScheduleConflict & { message: string })[];
+}
+
+export type GenerationPhase = "loading" | SolverPhase | "saving";
+
+// Share of the overall progress bar each phase covers, as [start, end] percentages
+const PHASE_PROGRESS: Record<GenerationPhase, [number, number]> = {
+  loading: [0, 5],
+  searching: [5, 60],
+  repairing: [60, 70],
+  optimizing: [70, 95],
+  saving: [95, 100],
+};
+
+export type FeasibilityIssueType =
+  | "class_over_capacity"
+  | "subject_over_capacity"
+  | "no_qualified_teacher"
+  | "teacher_over_capacity";
+
+export interface FeasibilityIssue {
+  type: FeasibilityIssueType;
+  classId?: string;
+  subjectId?: string;
+  teacherId?: string;
+  required: number;
+  available: number;
+  message: string;
+}
+
+export interface FeasibilityReport {
+  feasible: boolean;
+  // Non-break slots per week in the school's timetable structure, or per turn of a longer cycle
+  slotsPerWeek: number;
+  classes: { classId: string; name: string; required: number; available: number }[];
+  subjects: { subjectId: string; name: string; demand: number; capacity: number; qualifiedTeachers: number }[];
+  // capacity is the most a teacher can teach: available slots capped by their load limits
+  teachers: { teacherId: string; name: string; assigned: number; capacity: number; availableSlots: number }[];
+  issues: FeasibilityIssue[];
+}
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  percent: number;
+  // Penalty of the best complete timetable found so far (lower is better)
+  bestScore: number | null;
+}
+
+export interface GenerationOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  isCancelled?: () => boolean;
+  // More than one stores that many draft candidates instead of activating a timetable
+  candidates?: number;
+}
+
+export const MAX_CANDIDATES = 5;
+
+// Everything a generation run has loaded before it starts solving
+interface GenerationContext {
+  schoolId: string;
+  classes: Class[];
+  teachers: Teacher[];
+  subjects: Subject[];
+  rooms: Room[];
+  lessonGroups: LessonGroup[];
+  constraints: ScheduleConstraint[];
+  locked: TimetableEntry[];
+  occupied: TimetableEntry[];
+  weekStart: string;
+  weekEnd: string;
+}
+
+type ProgressReporter = (phase: GenerationPhase, percent: number, penalty?: number | null, candidate?: number) => void;
+
+export interface GenerateTimetableResult {
+  success: boolean;
+  message: string;
+  cancelled?: boolean;
+  entriesCreated?: number;
+  version?: string;
+  seed?: number;
+  score?: ScoreBreakdown;
+  diagnosis?: ScheduleDiagnosis;
+  candidates?: TimetableCandidate[];
 }
 
 export class TimetableScheduler {
   private timeSlots: TimeSlot[] = [];
+  // The school's structures, main one first; a structure's index sets its period offset
+  private structures: TimetableStructure[] = [];
+  // Structure each class of the school follows
+  private classStructures = new Map<string, string>();
+  // Building of each class that has one, and the time teachers need between buildings
+  private classBuildings = new Map<string, string>();
+  private travelMinutes = 0;
+  // Weeks of lessons in one turn of the school's timetable cycle
+  private weeksPerCycle = 1;
+  private softConstraints: SoftConstraintContext = TimetableScheduler.buildSoftConstraintContext();
+  // `${teacherId}|${classId}|${subjectId}` lessons hard preferences keep a teacher from
+  private excludedLessons = new Set<string>();
 
   constructor() {
     // Initialize with default slots, will be updated when generating timetable
@@ -25,59 +192,128 @@ export class TimetableScheduler {
 
   private async initializeFromStructure(schoolId?: string) {
     try {
-      let structure;
-      if (schoolId) {
-        structure = await storage.getTimetableStructureBySchool(schoolId);
-      }
+      const structures = schoolId ? await storage.getTimetableStructures(schoolId) : [];
+      const main = structures.find(structure => structure.isActive);
       
-      if (structure) {
+      if (main) {
+        // Further structures in order of their first bell, so period offsets follow the clock
+        const firstStart = (structure: TimetableStructure) => structure.timeSlots[0]?.startTime ?? "";
+        const others = structures
+          .filter(structure => structure !== main)
+          .sort((a, b) => firstStart(a).localeCompare(firstStart(b)) || a.id.localeCompare(b.id));
+        this.structures = [main, ...others];
+        
+        const schoolClasses = await storage.getClasses(schoolId);
+        this.classStructures = new Map(schoolClasses.map(c =>
+          [c.id, others.some(structure => structure.id === c.structureId) ? c.structureId! : main.id]));
+        this.classBuildings = new Map(schoolClasses.flatMap(c => {
+          const building = buildingKey(c.building);
+          return building ? [[c.id, building] as const] : [];
+        }));
+        this.travelMinutes = main.travelMinutes;
+        this.weeksPerCycle = cycleWeeks(main.cycle, main.workingDays);
+        
+        this.softConstraints = TimetableScheduler.buildSoftConstraintContext(main);
         this.timeSlots = [];
-        const workingDays = structure.workingDays || ["monday", "tuesday", "wednesday", "thursday", "friday"];
-        const timeSlots = structure.timeSlots || [
-          { period: 1, startTime: "08:00", endTime: "08:45" },
-          { period: 2, startTime: "08:45", endTime: "09:30" },
-          { period: 3, startTime: "09:30", endTime: "10:15" },
-          { period: 4, startTime: "10:15", endTime: "11:00" },
-          { period: 5, startTime: "11:15", endTime: "12:00" },
-          { period: 6, startTime: "12:00", endTime: "12:45" },
-          { period: 7, startTime: "12:45", endTime: "13:30" },
-          { period: 8, startTime: "13:30", endTime: "14:15" },
-        ];
-
-        for (const day of workingDays) {
-          for (const slot of timeSlots) {
-            if (!slot.isBreak) { // Skip break periods for scheduling
+        this.structures.forEach((structure, index) => {
+          const offset = index * STRUCTURE_PERIOD_OFFSET;
+          for (const { day, cycleDay } of structureCycleDays(structure, main)) {
+            // A block cannot run from one structure's day into the next one's
+            let afterBreak = offset > 0;
+            for (const slot of structureSlotsForDay(structure, day)) {
+              if (slot.isBreak) { // Skip break periods for scheduling, but keep blocks from spanning them
+                afterBreak = true;
+                continue;
+              }
               this.timeSlots.push({
                 day,
-                period: slot.period,
+                cycleDay,
+                period: slot.period + offset,
                 startTime: slot.startTime,
                 endTime: slot.endTime,
+                breakBefore: afterBreak,
+                structureId: structure.id,
               });
+              afterBreak = false;
             }
           }
-        }
+          if (offset > 0) {
+            getAfterLunchPeriods(structure.timeSlots).forEach(period =>
+              this.softConstraints.afterLunchPeriods.add(period + offset));
+          }
+        });
+      } else {
+        // Without a structure every class follows the default bell times
+        this.structures = [];
+        this.classStructures = new Map();
+        this.classBuildings = new Map();
+        this.travelMinutes = 0;
+        this.weeksPerCycle = 1;
+        this.softConstraints = TimetableScheduler.buildSoftConstraintContext();
+        this.timeSlots = [];
+        this.initializeTimeSlots();
       }
     } catch (error) {
       console.warn("Could not load timetable structure, using defaults:", error);
+      this.timeSlots = [];
       this.initializeTimeSlots();
     }
   }
 
+  // A weekly number of periods, as periods per turn of the timetable cycle
+  private perCycle(weekly: number): number {
+    return Math.round(weekly * this.weeksPerCycle);
+  }
+
+  // Offset of the period numbers of the class's structure inside the solver
+  private periodOffset(classId: string): number {
+    const index = this.structures.findIndex(structure => structure.id === this.classStructures.get(classId));
+    return Math.max(0, index) * STRUCTURE_PERIOD_OFFSET;
+  }
+
+  // Lessons with their periods numbered as in the solver, for scoring across structures
+  private withSolverPeriods<T extends { classId: string; period: number }>(lessons: T[]): T[] {
+    return lessons.map(lesson => ({ ...lesson, period: lesson.period + this.periodOffset(lesson.classId) }));
+  }
+
+  // Each teaching period mapped to the one that follows it without a break
+  private static followingPeriods(structure: TimetableStructure | undefined, day: Weekday): Map<number, number> | null {
+    if (!structure) return null;
+    const following = new Map<number, number>();
+    const slots = structureSlotsForDay(structure, day);
+    slots.forEach((slot, index) => {
+      const next = slots[index + 1];
+      if (!slot.isBreak && next && !next.isBreak) following.set(slot.period, next.period);
+    });
+    return following;
+  }
+
+  private static buildSoftConstraintContext(structure?: TimetableStructure): SoftConstraintContext {
+    const settings = structure?.softConstraints;
+    return {
+      weights: { ...DEFAULT_SOFT_CONSTRAINT_WEIGHTS, ...settings?.weights },
+      heavySubjectIds: new Set(settings?.heavySubjectIds || []),
+      afterLunchPeriods: structure ? getAfterLunchPeriods(structure.timeSlots) : new Set(),
+    };
+  }
+
+  private getPeriodsByDay(): Map<string, number[]> {
+    const periodsByDay = new Map<string, number[]>();
+    for (const slot of this.timeSlots) {
+      if (!periodsByDay.has(slot.day)) periodsByDay.set(slot.day, []);
+      // Every day of a cycle has its weekday's periods
+      const periods = periodsByDay.get(slot.day)!;
+      if (!periods.includes(slot.period)) periods.push(slot.period);
+    }
+    periodsByDay.forEach(periods => periods.sort((a, b) => a - b));
+    return periodsByDay;
+  }
+
   private initializeTimeSlots() {
     const days = ["monday", "tuesday", "wednesday", "thursday", "friday"];
-    const periodTimes = [
-      { period: 1, startTime: "08:00", endTime: "08:45" },
-      { period: 2, startTime: "08:45", endTime: "09:30" },
-      { period: 3, startTime: "09:30", endTime: "10:15" },
-      { period: 4, startTime: "10:15", endTime: "11:00" },
-      { period: 5, startTime: "11:15", endTime: "12:00" },
-      { period: 6, startTime: "12:00", endTime: "12:45" },
-      { period: 7, startTime: "12:45", endTime: "13:30" },
-      { period: 8, startTime: "13:30", endTime: "14:15" },
-    ];
 
     for (const day of days) {
-      for (const time of periodTimes) {
+      for (const time of DEFAULT_PERIOD_TIMES) {
         this.timeSlots.push({
           day,
           period: time.period,
@@ -88,8 +324,34 @@ export class TimetableScheduler {
     }
   }
 
-  async generateTimetable(classId?: string, userSchoolId?: string): Promise<{ success: boolean; message: string; entriesCreated?: number; version?: string }> {
+  async generateTimetable(
+    classId?: string,
+    userSchoolId?: string,
+    seed?: number,
+    options: GenerationOptions = {}
+  ): Promise<GenerateTimetableResult> {
+    // Every run is seeded so that the resulting version can be reproduced later
+    const runSeed = seed ?? Math.floor(Math.random() * MAX_SEED);
+
+    const candidateCount = options.candidates ?? 1;
+
+    let bestScore: number | null = null;
+    const report: ProgressReporter = (phase, percent, penalty = null, candidate = 0) => {
+      if (penalty !== null && (bestScore === null || penalty < bestScore)) bestScore = penalty;
+      const [start, end] = PHASE_PROGRESS[phase];
+      let overall = start + ((end - start) * percent) / 100;
+      // Each candidate's solve takes an equal share of the solver phases
+      if (phase !== "loading" && phase !== "saving") {
+        const [solveStart] = PHASE_PROGRESS.searching;
+        const [, solveEnd] = PHASE_PROGRESS.optimizing;
+        const share = (overall - solveStart) / (solveEnd - solveStart);
+        overall = solveStart + ((candidate + share) / candidateCount) * (solveEnd - solveStart);
+      }
+      options.onProgress?.({ phase, percent: Math.round(overall), bestScore });
+    };
+
     try {
+      report("loading", 0);
 
       // Get all data
       let classes: Class[];
@@ -130,14 +392,48 @@ export class TimetableScheduler {
         };
       }
 
-      const [subjects, teachers] = await Promise.all([
+      const [subjects, schoolTeachers, rooms, allLessonGroups, preferences] = await Promise.all([
         storage.getSubjects(),
         storage.getTeachers(schoolId), // Only get teachers from the same school
+        storage.getRooms(schoolId),
+        storage.getLessonGroups(schoolId),
+        storage.getTeacherPreferences(schoolId),
       ]);
 
+      // A lesson group is scheduled for all of its classes in the same slot, so
+      // every class sharing a group with a generated class is generated with it
+      let lessonGroups: LessonGroup[] = [];
+      const activeGroups = allLessonGroups.filter(g => g.isActive && g.streams.length > 0);
+      if (activeGroups.length > 0) {
+        const schoolClasses = await storage.getClasses(schoolId);
+        const schoolClassIds = new Set(schoolClasses.map(c => c.id));
+        const groups = activeGroups
+          .map(g => ({ ...g, classIds: g.classIds.filter(id => schoolClassIds.has(id)) }))
+          .filter(g => g.classIds.length > 0);
+
+        const classIds = new Set(classes.map(c => c.id));
+        let grew = true;
+        while (grew) {
+          grew = false;
+          for (const group of groups) {
+            if (group.classIds.some(id => classIds.has(id)) && group.classIds.some(id => !classIds.has(id))) {
+              group.classIds.forEach(id => classIds.add(id));
+              grew = true;
+            }
+          }
+        }
+
+        classes = schoolClasses.filter(c => classIds.has(c.id));
+        lessonGroups = groups
+          .filter(g => g.classIds.some(id => classIds.has(id)))
+          .sort((a, b) => a.id.localeCompare(b.id));
+      }
 
+      // Database row order is not guaranteed; sort so a given seed always sees the same input
+      classes = [...classes].sort((a, b) => a.id.localeCompare(b.id));
+      schoolTeachers.sort((a, b) => a.id.localeCompare(b.id));
 
-      if (classes.length === 0 || subjects.length === 0 || teachers.length === 0) {
+      if (classes.length === 0 || subjects.length === 0 || schoolTeachers.length === 0) {
         return {
           success: false,
           message: "Please ensure you have added classes, subjects, and teachers before generating timetable.",
@@ -147,16 +443,95 @@ export class TimetableScheduler {
       // Initialize time slots from structure
       await this.initializeFromStructure(schoolId);
 
-      // Calculate week range (current week)
+      // Hard preferences become unavailability and excluded lessons; soft ones are scored
+      const preferenceRules = buildPreferenceRules(preferences, schoolTeachers, classes, this.getPeriodsByDay());
+      const teachers = preferenceRules.teachers;
+      this.excludedLessons = preferenceRules.excludedLessons;
+      this.softConstraints = { ...this.softConstraints, teacherPreferences: preferenceRules.soft };
+
+      // Calculate week range (current week, through the last week of a longer cycle)
       const now = new Date();
       const startOfWeek = new Date(now);
       startOfWeek.setDate(now.getDate() - now.getDay() + 1); // Monday
       const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 5); // Saturday
+      endOfWeek.setDate(startOfWeek.getDate() + 7 * (Math.ceil(this.weeksPerCycle) - 1) + 5); // Saturday
 
       const weekStart = startOfWeek.toISOString().split('T')[0];
       const weekEnd = endOfWeek.toISOString().split('T')[0];
 
+      // Locked lessons stay where they are; only the rest of the week is generated
+      const locked = (await Promise.all(classes.map(c => storage.getTimetableForClass(c.id))))
+        .flat()
+        .filter(entry => entry.isLocked)
+        .sort((a, b) => a.id.localeCompare(b.id));
+
+      // Classes outside this run keep their active timetables, so their lessons
+      // hold their teachers and rooms just like locked lessons do
+      const generatedClassIds = new Set(classes.map(c => c.id));
+      const otherClasses = (await storage.getClasses(schoolId)).filter(c => !generatedClassIds.has(c.id));
+      const occupied = (await Promise.all(otherClasses.map(c => storage.getTimetableForClass(c.id))))
+        .flat()
+        .sort((a, b) => a.id.localeCompare(b.id));
+
+      // Build constraints
+      const constraints = await this.buildConstraints(classes, lessonGroups, locked);
+
+      if (candidateCount > 1) {
+        return await this.generateCandidates({
+          schoolId,
+          classes,
+          teachers,
+          subjects,
+          rooms,
+          lessonGroups,
+          constraints,
+          locked,
+          occupied,
+          weekStart,
+          weekEnd,
+        }, runSeed, candidateCount, report, options.isCancelled);
+      }
+      
+      // Generate schedule using constraint satisfaction
+      const result = await this.solveSchedule(constraints, teachers, subjects, rooms, runSeed, [...locked, ...occupied], {
+        onProgress: progress => report(progress.phase, progress.percent, progress.penalty),
+        isCancelled: options.isCancelled,
+      });
+
+      if (result.stats.cancelled) {
+        return {
+          success: false,
+          cancelled: true,
+          message: "Generation was cancelled. The current timetable is unchanged.",
+          seed: runSeed,
+        };
+      }
+
+      if (!result.complete) {
+        const diagnosis = this.buildDiagnosis(result, classes, teachers, subjects, rooms, lessonGroups);
+        const [firstConflict] = diagnosis.conflicts;
+        return {
+          success: false,
+          message: firstConflict
+            ? `Unable to schedule all periods (${diagnosis.scheduledPeriods}/${diagnosis.requiredPeriods}). ${firstConflict.message}${diagnosis.conflicts.length > 1 ? ` (+${diagnosis.conflicts.length - 1} more issues)` : ""}`
+            : "Unable to generate a valid timetable with current constraints. Please check teacher availability and subject requirements.",
+          seed: runSeed,
+          diagnosis,
+        };
+      }
+
+      const schedule = this.buildSchedule(result, locked, classes, rooms);
+
+      if (schedule.length === 0) {
+        return {
+          success: false,
+          message: "No subjects are assigned to the selected classes. Please assign subjects before generating timetable.",
+        };
+      }
+
+      const score = scoreTimetable(this.withSolverPeriods(schedule), this.getPeriodsByDay(), this.softConstraints);
+      report("saving", 0, score.total);
+
       let versionsCreated = [];
 
       // Process each class
@@ -175,6 +550,9 @@ export class TimetableScheduler {
           weekStart,
           weekEnd,
           isActive: true, // New version becomes active
+          seed: runSeed,
+          score: score.total,
+          scoreBreakdown: score,
         });
 
         // Deactivate previous versions for this class and week by calling setActiveVersion with the new version
@@ -188,19 +566,6 @@ export class TimetableScheduler {
         });
       }
 
-      // Build constraints
-      const constraints = await this.buildConstraints(classes);
-      
-      // Generate schedule using constraint satisfaction
-      const schedule = await this.solveSchedule(constraints, teachers, subjects);
-
-      if (schedule.length === 0) {
-        return {
-          success: false,
-          message: "Unable to generate a valid timetable with current constraints. Please check teacher availability and subject requirements.",
-        };
-      }
-
       // Associate schedule entries with their respective versions
       const scheduleWithVersions = schedule.map(entry => {
         const classVersion = versionsCreated.find(v => v.classId === entry.classId);
@@ -221,9 +586,11 @@ export class TimetableScheduler {
 
       return {
         success: true,
-        message: `Timetable generated successfully with ${schedule.length} entries.`,
+        message: `Timetable generated successfully with ${schedule.length} entries (score ${score.total}).`,
         entriesCreated: schedule.length,
         version: versionString,
+        seed: runSeed,
+        score,
       };
     } catch (error) {
       console.error("Error generating timetable:", error);
@@ -234,62 +601,304 @@ export class TimetableScheduler {
     }
   }
 
-  private async buildConstraints(classes: Class[]): Promise<ScheduleConstraint[]> {
+  // Solve the same problem with several seeds and store every result as an
+  // inactive draft, with the metrics an admin needs to pick one of them
+  private async generateCandidates(
+    context: GenerationContext,
+    runSeed: number,
+    candidateCount: number,
+    report: ProgressReporter,
+    isCancelled?: () => boolean
+  ): Promise<GenerateTimetableResult> {
+    const { classes, teachers, subjects, rooms, locked, occupied, weekStart, weekEnd } = context;
+
+    // Every candidate records its own seed, so any of them can be regenerated alone
+    const nextSeed = createSeededRandom(runSeed);
+    const seeds = [runSeed];
+    while (seeds.length < candidateCount) {
+      seeds.push(Math.floor(nextSeed() * MAX_SEED));
+    }
+
+    const solved: { seed: number; schedule: InsertTimetableEntry[]; unfilledPeriods: number }[] = [];
+    for (let index = 0; index < seeds.length; index++) {
+      const result = await this.solveSchedule(context.constraints, teachers, subjects, rooms, seeds[index], [...locked, ...occupied], {
+        onProgress: progress => report(progress.phase, progress.percent, progress.penalty, index),
+        isCancelled,
+      });
+
+      if (result.stats.cancelled) {
+        return {
+          success: false,
+          cancelled: true,
+          message: "Generation was cancelled. No candidates were saved.",
+          seed: runSeed,
+        };
+      }
+
+      const unfilledPeriods = result.conflicts
+        .filter(c => c.type === "unplaced")
+        .reduce((sum, c) => sum + c.required - c.available, 0);
+      solved.push({ seed: seeds[index], schedule: this.buildSchedule(result, locked, classes, rooms), unfilledPeriods });
+    }
+
+    if (solved.every(candidate => candidate.schedule.length === 0)) {
+      return {
+        success: false,
+        message: "No subjects are assigned to the selected classes. Please assign subjects before generating timetable.",
+      };
+    }
+
+    report("saving", 0);
+    const setId = randomUUID();
+    const candidates: TimetableCandidate[] = [];
+
+    for (let index = 0; index < solved.length; index++) {
+      const { seed, schedule, unfilledPeriods } = solved[index];
+      const score = scoreTimetable(this.withSolverPeriods(schedule), this.getPeriodsByDay(), this.softConstraints);
+      const candidate = await storage.createTimetableCandidate({
+        schoolId: context.schoolId,
+        setId,
+        number: index + 1,
+        seed,
+        score: score.total,
+        scoreBreakdown: score,
+        metrics: measureTimetable(this.withSolverPeriods(schedule), this.getPeriodsByDay(), unfilledPeriods),
+        status: "draft",
+      });
+
+      const versionIds = new Map<string, string>();
+      for (const classData of classes) {
+        const existingVersions = await storage.getTimetableVersionsForClass(classData.id, weekStart, weekEnd);
+        const version = await storage.createTimetableVersion({
+          classId: classData.id,
+          version: `v0.${existingVersions.length + 1}`,
+          weekStart,
+          weekEnd,
+          isActive: false,
+          seed,
+          score: score.total,
+          scoreBreakdown: score,
+          candidateId: candidate.id,
+        });
+        versionIds.set(classData.id, version.id);
+      }
+
+      await storage.createDraftTimetableEntries(
+        schedule.map(entry => ({ ...entry, versionId: versionIds.get(entry.classId) ?? null }))
+      );
+      candidates.push(candidate);
+      report("saving", (100 * (index + 1)) / solved.length);
+    }
+
+    return {
+      success: true,
+      message: `Generated ${candidates.length} candidate timetables. Compare them and activate one to put it in use.`,
+      seed: runSeed,
+      candidates,
+    };
+  }
+
+  // Turn solver placements, plus the locked lessons they were built around, into entries
+  private buildSchedule(result: SolveResult, locked: TimetableEntry[], classes: Class[], rooms: Room[]): InsertTimetableEntry[] {
+    // Periods of a multi-period lesson share a block id
+    const lessonPeriods = new Map<number, Set<string>>();
+    for (const placement of result.placements) {
+      if (!lessonPeriods.has(placement.lesson)) lessonPeriods.set(placement.lesson, new Set());
+      lessonPeriods.get(placement.lesson)!.add(`${placement.day}|${placement.cycleDay ?? ""}|${placement.period}`);
+    }
+    const blockIds = new Map<number, string>();
+    lessonPeriods.forEach((periods, lesson) => {
+      if (periods.size > 1) blockIds.set(lesson, randomUUID());
+    });
+
+    // Lessons without a booked room are held in the class's own room
+    return [
+      ...locked.map(({ id, versionId, createdAt, updatedAt, ...entry }) => entry),
+      ...result.placements.map(({ lesson, ...placement }) => ({
+        ...placement,
+        // Back to the period numbers of the class's own structure
+        period: placement.period % STRUCTURE_PERIOD_OFFSET,
+        day: placement.day as InsertTimetableEntry["day"],
+        blockId: blockIds.get(lesson) ?? null,
+        room: placement.roomId
+          ? rooms.find(r => r.id === placement.roomId)?.name ?? null
+          : classes.find(c => c.id === placement.classId)?.room ?? null,
+        isActive: true,
+      })),
+    ];
+  }
+
+  // A teacher is available in every period not marked unavailable for that day.
+  // Unavailability is kept in periods of the main structure: for a lesson of another
+  // structure, mainSlots holds the main structure's day and any unavailable period
+  // overlapping the lesson in clock time makes the teacher unavailable.
+  private static isTeacherAvailable(
+    teacher: Teacher,
+    timeSlot: { day: string; period: number; startTime?: string; endTime?: string },
+    mainSlots?: StructureTimeSlot[]
+  ): boolean {
+    const unavailable = teacher.unavailablePeriods?.[timeSlot.day as Weekday];
+    if (!unavailable || unavailable.length === 0) return true;
+    if (!mainSlots || timeSlot.startTime === undefined || timeSlot.endTime === undefined) {
+      return !unavailable.includes(timeSlot.period);
+    }
+    const lesson = { startTime: timeSlot.startTime, endTime: timeSlot.endTime };
+    return !mainSlots.some(slot => !slot.isBreak && unavailable.includes(slot.period) && overlaps(slot, lesson));
+  }
+
+  // Availability in one of the solver's slots. Hard preferences may add periods of
+  // any structure, as numbered in the solver, on top of the main structure's.
+  private isTeacherAvailableAt(teacher: Teacher, slot: TimeSlot): boolean {
+    if (!TimetableScheduler.isTeacherAvailable(teacher, slot)) return false;
+    const [main] = this.structures;
+    if (!main || slot.structureId === main.id) return true;
+    return TimetableScheduler.isTeacherAvailable(teacher, slot, structureSlotsForDay(main, slot.day));
+  }
+
+  // Periods of the class's structure, as numbered in the solver, that a subject's rules keep its lessons out of
+  private excludedPeriods(rules: SubjectPlacementRules, classId: string): number[] {
+    const structureId = this.classStructures.get(classId);
+    const offset = this.periodOffset(classId);
+    const periods = Array.from(new Set(this.timeSlots
+      .filter(slot => slot.structureId === structureId)
+      .map(slot => slot.period)));
+    const firstAfterLunch = Math.min(...periods.filter(period => this.softConstraints.afterLunchPeriods.has(period)));
+    return periods.filter(period =>
+      (rules.allowedPeriods && !rules.allowedPeriods.includes(period - offset)) ||
+      (rules.notAfterLunch && period === firstAfterLunch));
+  }
+
+  private async buildConstraints(
+    classes: Class[],
+    lessonGroups: LessonGroup[],
+    locked: TimetableEntry[]
+  ): Promise<ScheduleConstraint[]> {
     const constraints: ScheduleConstraint[] = [];
 
     for (const classData of classes) {
       // Get class subject assignments with weekly frequency
       const assignments = await storage.getClassSubjectAssignments(classData.id);
       
+      // Stable order so seeded runs are reproducible
+      assignments.sort((a, b) => a.subjectId.localeCompare(b.subjectId));
+
       for (const assignment of assignments) {
         // Get the assigned teacher for this class-subject combination
         const assignedTeachers = assignment.assignedTeacherId ? [assignment.assignedTeacherId] : [];
         
-        constraints.push({
-          classId: classData.id,
-          subjectId: assignment.subjectId,
-          periodsNeeded: assignment.weeklyFrequency,
-          preferredTeachers: assignedTeachers,
-        });
+        // Locked lessons already cover part of the week; a locked block counts towards
+        // the planned blocks, any other locked period towards the single periods
+        const lockedEntries = locked.filter(e =>
+          !e.lessonGroupId && e.classId === classData.id && e.subjectId === assignment.subjectId);
+        const lockedBlockIds = new Set(lockedEntries.map(e => e.blockId).filter(Boolean));
+
+        // Blocks are scheduled as their own requirement, the remaining periods as single periods
+        const blockLength = assignment.blockLength || 1;
+        const periodsNeeded = this.perCycle(assignment.weeklyFrequency);
+        const plannedBlocks = blockLength > 1
+          ? Math.min(this.perCycle(assignment.blocksPerWeek || 0), Math.floor(periodsNeeded / blockLength))
+          : 0;
+        const lockedBlocks = Math.min(plannedBlocks, lockedBlockIds.size);
+        const blockPeriods = (plannedBlocks - lockedBlocks) * blockLength;
+        const lockedSingles = lockedEntries.length - lockedBlocks * blockLength;
+        const parts = [
+          { periodsNeeded: blockPeriods, blockLength },
+          { periodsNeeded: periodsNeeded - plannedBlocks * blockLength - lockedSingles, blockLength: 1 },
+        ];
+
+        for (const part of parts) {
+          if (part.periodsNeeded <= 0) continue;
+          constraints.push({
+            classId: classData.id,
+            subjectId: assignment.subjectId,
+            periodsNeeded: part.periodsNeeded,
+            blockLength: part.blockLength,
+            preferredTeachers: assignedTeachers,
+            studentCount: classData.studentCount,
+            placementRules: effectivePlacementRules(assignment.subject?.placementRules, assignment.placementRules),
+          });
+        }
       }
     }
 
+    for (const group of lessonGroups) {
+      const [classId, ...extraClassIds] = group.classIds;
+      const [stream, ...parallelStreams] = group.streams;
+      const lockedPeriods = new Set(locked
+        .filter(e => e.lessonGroupId === group.id)
+        .map(e => `${e.day}|${e.cycleDay ?? ""}|${e.period}`)).size;
+      const periodsNeeded = this.perCycle(group.weeklyFrequency) - Math.ceil(lockedPeriods / group.blockLength) * group.blockLength;
+      if (periodsNeeded <= 0) continue;
+      constraints.push({
+        classId,
+        subjectId: stream.subjectId,
+        periodsNeeded,
+        blockLength: group.blockLength,
+        preferredTeachers: [stream.teacherId],
+        // Streams split the students between them; rooms are sized for the largest class
+        studentCount: Math.max(...classes.filter(c => group.classIds.includes(c.id)).map(c => c.studentCount)),
+        lessonGroupId: group.id,
+        extraClassIds,
+        parallelStreams,
+      });
+    }
+
     return constraints;
   }
 
-  private async solveSchedule(
+  private solveSchedule(
     constraints: ScheduleConstraint[], 
     teachers: Teacher[], 
-    subjects: Subject[]
-  ): Promise<InsertTimetableEntry[]> {
-    const schedule: InsertTimetableEntry[] = [];
-    const assignments = new Map<string, Set<string>>(); // classId-day-period -> teacherId
-    const dailySubjectCount = new Map<string, Map<string, number>>(); // classId-day-subjectId -> count
-
-    // Helper function to get daily subject count
-    const getDailySubjectCount = (classId: string, day: string, subjectId: string): number => {
-      const dayKey = `${classId}-${day}`;
-      return dailySubjectCount.get(dayKey)?.get(subjectId) || 0;
+    subjects: Subject[],
+    rooms: Room[],
+    seed: number,
+    fixed: TimetableEntry[],
+    options: Pick<SolverOptions, "onProgress" | "isCancelled">
+  ): Promise<SolveResult> {
+    const requirements: SolverRequirement[] = [];
+
+    // Smallest sufficient room first, so large labs stay free for large classes
+    const bookableRooms = rooms
+      .filter(room => room.isActive)
+      .sort((a, b) => a.capacity - b.capacity || a.id.localeCompare(b.id));
+
+    const roomIdsFor = (subjectId: string, studentCount: number) => {
+      const subject = subjects.find(s => s.id === subjectId);
+      return subject?.requiredRoomType
+        ? bookableRooms
+            .filter(room => room.type === subject.requiredRoomType && room.capacity >= studentCount)
+            .map(room => room.id)
+        : undefined;
     };
 
-    // Helper function to increment daily subject count
-    const incrementDailySubjectCount = (classId: string, day: string, subjectId: string) => {
-      const dayKey = `${classId}-${day}`;
-      if (!dailySubjectCount.has(dayKey)) {
-        dailySubjectCount.set(dayKey, new Map());
-      }
-      const dayMap = dailySubjectCount.get(dayKey)!;
-      const currentCount = dayMap.get(subjectId) || 0;
-      dayMap.set(subjectId, currentCount + 1);
-    };
+    // Lesson group streams are taught by exactly the teacher the group names
+    const activeTeacherIds = (teacherId: string) =>
+      teachers.some(t => t.id === teacherId && t.isActive) ? [teacherId] : [];
 
-    // Shuffle constraints for more varied scheduling
-    const shuffledConstraints = [...constraints].sort(() => Math.random() - 0.5);
 
-    for (const constraint of shuffledConstraints) {
+    for (const constraint of constraints) {
       const subject = subjects.find(s => s.id === constraint.subjectId);
       if (!subject) continue;
 
+      if (constraint.lessonGroupId) {
+        requirements.push({
+          classId: constraint.classId,
+          subjectId: constraint.subjectId,
+          periodsNeeded: constraint.periodsNeeded,
+          blockLength: constraint.blockLength,
+          teacherIds: activeTeacherIds(constraint.preferredTeachers[0]),
+          roomIds: roomIdsFor(constraint.subjectId, constraint.studentCount),
+          lessonGroupId: constraint.lessonGroupId,
+          extraClassIds: constraint.extraClassIds,
+          parallelStreams: (constraint.parallelStreams || []).map(stream => ({
+            subjectId: stream.subjectId,
+            teacherIds: activeTeacherIds(stream.teacherId),
+            roomIds: roomIdsFor(stream.subjectId, constraint.studentCount),
+          })),
+        });
+        continue;
+      }
+
       // Find teachers who can teach this subject
       let eligibleTeachers = teachers.filter(t => {
         // Ensure subjects is an array and check if it includes the subject
@@ -298,178 +907,596 @@ export class TimetableScheduler {
       });
 
       // If there are preferred/assigned teachers, prioritize them
-      if (constraint.preferredTeachers.length > 0) {
-        const assignedTeachers = eligibleTeachers.filter(t => 
-          constraint.preferredTeachers.includes(t.id)
+      const assignedTeachers = eligibleTeachers.filter(t => 
+        constraint.preferredTeachers.includes(t.id)
+      );
+      
+      if (assignedTeachers.length > 0) {
+        // Use only assigned teachers for this class-subject combination
+        eligibleTeachers = assignedTeachers;
+      } else {
+        // Otherwise teachers who asked not to teach these lessons are left out
+        eligibleTeachers = eligibleTeachers.filter(t =>
+          !this.excludedLessons.has(`${t.id}|${constraint.classId}|${constraint.subjectId}`)
         );
-        
-        if (assignedTeachers.length > 0) {
-          // Use only assigned teachers for this class-subject combination
-          eligibleTeachers = assignedTeachers;
-        }
       }
 
-      if (eligibleTeachers.length === 0) {
-        const assignedTeacherText = constraint.preferredTeachers.length > 0 
-          ? ` (assigned teacher not available or not qualified)`
-          : '';
-        console.warn(`No teachers available for subject ${subject.name}${assignedTeacherText}`);
-        continue;
-      }
+      requirements.push({
+        classId: constraint.classId,
+        subjectId: constraint.subjectId,
+        periodsNeeded: constraint.periodsNeeded,
+        blockLength: constraint.blockLength,
+        teacherIds: eligibleTeachers.map(t => t.id),
+        roomIds: roomIdsFor(constraint.subjectId, constraint.studentCount),
+        excludedPeriods: constraint.placementRules && this.excludedPeriods(constraint.placementRules, constraint.classId),
+        spreadDays: constraint.placementRules?.noConsecutiveDays,
+      });
+    }
 
-      let periodsScheduled = 0;
-      
-      // Sort time slots to prioritize days with fewer instances of this subject first
-      const prioritizedTimeSlots = [...this.timeSlots].sort((a, b) => {
-        const aCount = getDailySubjectCount(constraint.classId, a.day, constraint.subjectId);
-        const bCount = getDailySubjectCount(constraint.classId, b.day, constraint.subjectId);
-        // Prioritize days with fewer existing periods of this subject
-        if (aCount !== bCount) {
-          return aCount - bCount;
+    const teacherUnavailable = new Set<string>();
+    for (const teacher of teachers) {
+      for (const timeSlot of this.timeSlots) {
+        if (!this.isTeacherAvailableAt(teacher, timeSlot)) {
+          teacherUnavailable.add(`${teacher.id}|${timeSlot.day}|${timeSlot.period}`);
         }
-        // If equal count, randomize within those days
-        return Math.random() - 0.5;
+      }
+    }
+
+    const teacherLimits = new Map<string, TeacherLimits>();
+    for (const teacher of teachers) {
+      teacherLimits.set(teacher.id, {
+        maxWeekly: this.perCycle(teacher.maxLoad),
+        maxDaily: teacher.maxDailyPeriods ?? undefined,
+        maxConsecutive: teacher.maxConsecutivePeriods ?? undefined,
       });
+    }
 
-      for (const timeSlot of prioritizedTimeSlots) {
-        if (periodsScheduled >= constraint.periodsNeeded) break;
+    const solver = new ScheduleSolver({
+      slots: this.timeSlots.map(({ structureId, ...slot }) => ({ ...slot, shift: structureId })),
+      requirements,
+      teacherUnavailable,
+      teacherLimits,
+      classShifts: this.classStructures,
+      travel: this.travelMinutes > 0 ? {
+        minutes: this.travelMinutes,
+        classBuildings: this.classBuildings,
+        roomBuildings: new Map(rooms.flatMap(room => {
+          const building = buildingKey(room.building);
+          return building ? [[room.id, building] as const] : [];
+        })),
+      } : undefined,
+      fixed: fixed.map(entry => ({
+        classId: entry.classId,
+        subjectId: entry.subjectId,
+        teacherId: entry.teacherId,
+        roomId: entry.roomId,
+        day: entry.day,
+        cycleDay: entry.cycleDay,
+        period: entry.period + this.periodOffset(entry.classId),
+        blockId: entry.blockId,
+        lessonGroupId: entry.lessonGroupId,
+      })),
+      maxDailyPerSubject: MAX_DAILY_PERIODS_PER_SUBJECT,
+      softConstraints: this.softConstraints,
+    }, {
+      random: createSeededRandom(seed),
+      ...options,
+    });
+
+    return solver.solve();
+  }
 
-        const slotKey = `${constraint.classId}-${timeSlot.day}-${timeSlot.period}`;
-        
-        // Check if slot is already occupied for this class
-        if (assignments.has(slotKey)) continue;
-
-        // Check daily subject limit - no more than 2 periods of same subject per day
-        const currentDailyCount = getDailySubjectCount(constraint.classId, timeSlot.day, constraint.subjectId);
-        if (currentDailyCount >= 2) continue;
-
-        // Find available teacher for this slot
-        const availableTeacher = eligibleTeachers.find(teacher => {
-          // Check if teacher is available in this time slot
-          const teacherAvailability = teacher.availability[timeSlot.day as keyof typeof teacher.availability];
-          // If no specific availability is set, assume teacher is available during school hours
-          if (!teacherAvailability || teacherAvailability.length === 0) {
-            // Allow scheduling during school hours if no specific availability is set
-            return true;
-          }
-          if (!teacherAvailability.includes(`${timeSlot.startTime}-${timeSlot.endTime}`)) {
-            return false;
-          }
+  private buildDiagnosis(
+    result: SolveResult,
+    classes: Class[],
+    teachers: Teacher[],
+    subjects: Subject[],
+    rooms: Room[],
+    lessonGroups: LessonGroup[]
+  ): ScheduleDiagnosis {
+    const className = (id?: string) => {
+      const cls = classes.find(c => c.id === id);
+      return cls ? `${cls.grade}-${cls.section}` : "Unknown class";
+    };
+    const subjectName = (id?: string) => subjects.find(s => s.id === id)?.name || "Unknown subject";
+    // The class and subject a conflict is about, or its lesson group and stream
+    const lessonName = (conflict: ScheduleConflict) => {
+      if (!conflict.lessonGroupId) return `${className(conflict.classId)} ${subjectName(conflict.subjectId)}`;
+      const group = lessonGroups.find(g => g.id === conflict.lessonGroupId);
+      return `Lesson group ${group?.name || "Unknown group"} (${subjectName(conflict.subjectId)})`;
+    };
+    const teacherNames = (ids: string[]) =>
+      ids.map(id => teachers.find(t => t.id === id)?.name || "Unknown teacher").join(", ");
+    const roomNames = (ids: string[] = []) =>
+      ids.map(id => rooms.find(r => r.id === id)?.name || "Unknown room").join(", ");
+
+    const conflicts = result.conflicts.map(conflict => {
+      let message: string;
+      switch (conflict.type) {
+        case "no_qualified_teacher":
+          message = conflict.lessonGroupId
+            ? `${lessonName(conflict)}: the stream's teacher is not active`
+            : `${lessonName(conflict)}: no active teacher is qualified for this subject`;
+          break;
+        case "class_over_capacity":
+          message = `${className(conflict.classId)} needs ${conflict.required} periods but only ${conflict.available} slots are free`;
+          break;
+        case "teacher_over_capacity":
+          message = `${teacherNames(conflict.teacherIds)} is the only teacher for ${conflict.required} periods but is free for ${conflict.available} outside lessons already timetabled`;
+          break;
+        case "teacher_load_limit":
+          message = `${teacherNames(conflict.teacherIds)} is the only teacher for ${conflict.required} periods but their load limits allow ${conflict.available}`;
+          break;
+        case "daily_limit":
+          message = `${lessonName(conflict)} needs ${conflict.required} periods but at most ${conflict.available} fit with ${MAX_DAILY_PERIODS_PER_SUBJECT} per day`;
+          break;
+        case "no_block_slots":
+          message = `${lessonName(conflict)} needs ${conflict.required} periods in blocks but only ${conflict.available} fit without crossing a break`;
+          break;
+        case "placement_rule":
+          message = `${lessonName(conflict)} needs ${conflict.required} periods but only ${conflict.available} fit within its placement rules`;
+          break;
+        case "no_suitable_room": {
+          const roomType = subjects.find(s => s.id === conflict.subjectId)?.requiredRoomType;
+          message = `${lessonName(conflict)}: no active ${roomType ? formatRoomType(roomType) : "room"} has enough seats for the ${conflict.lessonGroupId ? "group" : "class"}`;
+          break;
+        }
+        case "room_over_capacity":
+          message = `${roomNames(conflict.roomIds)} are needed for ${conflict.required} periods but only have ${conflict.available} slots`;
+          break;
+        default: {
+          const reasons: Record<UnplacedCause, string> = {
+            class_full: "the class has no free slots left",
+            no_free_block: "no run of consecutive free periods long enough for the block is left",
+            placement_rule: "the remaining free slots are outside the periods or days its placement rules allow",
+            daily_limit: "remaining free slots are on days that already have the daily limit of this subject",
+            room_busy: `${roomNames(conflict.roomIds)} are booked in the remaining free slots`,
+            teacher_busy: `${teacherNames(conflict.teacherIds)} is busy or unavailable in the remaining free slots`,
+            teacher_limit: `${teacherNames(conflict.teacherIds)} would exceed a weekly, daily or consecutive period limit in the remaining free slots`,
+            teacher_travel: `${teacherNames(conflict.teacherIds)} would not have time to get from a lesson in another building in the remaining free slots`,
+          };
+          message = `${lessonName(conflict)}: scheduled ${conflict.available}/${conflict.required} periods; ${reasons[conflict.cause ?? "teacher_busy"]}`;
+        }
+      }
+      return { ...conflict, message };
+    });
 
-          // Check if teacher is not already assigned in this time slot across all classes
-          const assignmentKeys = Array.from(assignments.keys());
-          for (const slotKey of assignmentKeys) {
-            const [, assignedDay, assignedPeriod] = slotKey.split('-');
-            if (assignedDay === timeSlot.day && parseInt(assignedPeriod) === timeSlot.period) {
-              const assignedTeachers = assignments.get(slotKey);
-              if (assignedTeachers && assignedTeachers.has(teacher.id)) {
-                return false;
-              }
-            }
-          }
-          
-          return true;
-        });
+    const requiredPeriods = result.placements.length + result.conflicts
+      .filter(c => c.type === "unplaced")
+      .reduce((sum, c) => sum + c.required - c.available, 0);
 
-        if (availableTeacher) {
-          // Make assignment
-          const assignmentSet = new Set<string>();
-          assignmentSet.add(availableTeacher.id);
-          assignments.set(slotKey, assignmentSet);
-
-          // Increment daily subject count
-          incrementDailySubjectCount(constraint.classId, timeSlot.day, constraint.subjectId);
-
-          schedule.push({
-            classId: constraint.classId,
-            teacherId: availableTeacher.id,
-            subjectId: constraint.subjectId,
-            day: timeSlot.day as any,
-            period: timeSlot.period,
-            startTime: timeSlot.startTime,
-            endTime: timeSlot.endTime,
-            room: null,
-            isActive: true,
-          });
+    return {
+      requiredPeriods,
+      scheduledPeriods: result.placements.length,
+      conflicts,
+    };
+  }
 
-          periodsScheduled++;
+  /**
+   * Capacity analysis run before generation: compares what every class, subject
+   * and teacher needs with what the timetable structure and the staff can offer.
+   * These are necessary conditions only; passing them does not guarantee that
+   * the solver finds a timetable, but failing any of them means it cannot.
+   */
+  async checkFeasibility(schoolId: string): Promise<FeasibilityReport> {
+    // Its own instance, so the time slots of a generation in progress stay untouched
+    const analysis = new TimetableScheduler();
+    await analysis.initializeFromStructure(schoolId);
+    const slots = analysis.timeSlots;
+    const dayCount = new Set(slots.map(slot => `${slot.day}|${slot.cycleDay ?? ""}`)).size;
+
+    const [classes, subjects, teachers, lessonGroups, preferences] = await Promise.all([
+      storage.getClasses(schoolId),
+      storage.getSubjects(schoolId),
+      storage.getTeachers(schoolId),
+      storage.getLessonGroups(schoolId),
+      storage.getTeacherPreferences(schoolId),
+    ]);
+    // Hard day and period preferences take slots away just like unavailability
+    const activeTeachers = buildPreferenceRules(preferences, teachers, classes, analysis.getPeriodsByDay())
+      .teachers.filter(t => t.isActive);
+    const activeGroups = lessonGroups.filter(g => g.isActive && g.streams.length > 0);
+
+    const className = (cls: Class) => `Grade ${cls.grade}-${cls.section}`;
+    const subjectName = (id: string) => subjects.find(s => s.id === id)?.name || "Unknown subject";
+    const qualifiedFor = (subjectId: string) =>
+      activeTeachers.filter(t => Array.isArray(t.subjects) && t.subjects.includes(subjectId));
+
+    const teacherReports: FeasibilityReport["teachers"] = activeTeachers.map(teacher => {
+      // A teacher can take only one of the slots of different shifts that overlap in time
+      const counted: TimeSlot[] = [];
+      for (const slot of slots) {
+        if (!analysis.isTeacherAvailableAt(teacher, slot)) continue;
+        if (counted.some(other =>
+          other.day === slot.day && other.cycleDay === slot.cycleDay && overlaps(other, slot))) continue;
+        counted.push(slot);
+      }
+      const availableSlots = counted.length;
+      return {
+        teacherId: teacher.id,
+        name: teacher.name,
+        assigned: 0,
+        capacity: Math.min(
+          availableSlots,
+          analysis.perCycle(teacher.maxLoad),
+          teacher.maxDailyPeriods !== null ? teacher.maxDailyPeriods * dayCount : Infinity
+        ),
+        availableSlots,
+      };
+    });
+    const teacherReport = (teacherId: string) => teacherReports.find(t => t.teacherId === teacherId);
+
+    const subjectDemand = new Map<string, number>();
+    const addDemand = (subjectId: string, periods: number) =>
+      subjectDemand.set(subjectId, (subjectDemand.get(subjectId) || 0) + periods);
+
+    const classReports: FeasibilityReport["classes"] = [];
+    for (const cls of classes) {
+      const assignments = await storage.getClassSubjectAssignments(cls.id);
+      let required = 0;
+      for (const assignment of assignments) {
+        const periods = analysis.perCycle(assignment.weeklyFrequency);
+        required += periods;
+        addDemand(assignment.subjectId, periods);
+        // The solver only holds a class to its assigned teacher when that teacher is qualified
+        const assigned = assignment.assignedTeacherId ? teacherReport(assignment.assignedTeacherId) : undefined;
+        if (assigned && qualifiedFor(assignment.subjectId).some(t => t.id === assigned.teacherId)) {
+          assigned.assigned += periods;
         }
       }
+      required += activeGroups
+        .filter(g => g.classIds.includes(cls.id))
+        .reduce((sum, g) => sum + analysis.perCycle(g.weeklyFrequency), 0);
+      const structureId = analysis.classStructures.get(cls.id);
+      const available = slots.filter(slot => slot.structureId === structureId).length;
+      classReports.push({ classId: cls.id, name: className(cls), required, available });
+    }
+
+    // A lesson group stream is taught once for all of its classes, by the teacher it names
+    for (const group of activeGroups) {
+      for (const stream of group.streams) {
+        addDemand(stream.subjectId, analysis.perCycle(group.weeklyFrequency));
+        const assigned = teacherReport(stream.teacherId);
+        if (assigned) assigned.assigned += analysis.perCycle(group.weeklyFrequency);
+      }
+    }
 
-      if (periodsScheduled < constraint.periodsNeeded) {
-        console.warn(
-          `Could only schedule ${periodsScheduled}/${constraint.periodsNeeded} periods for ${subject.name}`
-        );
+    const subjectReports: FeasibilityReport["subjects"] = Array.from(subjectDemand.entries()).map(([subjectId, demand]) => {
+      const qualified = qualifiedFor(subjectId);
+      return {
+        subjectId,
+        name: subjectName(subjectId),
+        demand,
+        capacity: qualified.reduce((sum, t) => sum + (teacherReport(t.id)?.capacity || 0), 0),
+        qualifiedTeachers: qualified.length,
+      };
+    });
+
+    const issues: FeasibilityIssue[] = [];
+    for (const report of classReports) {
+      if (report.required > report.available) {
+        issues.push({
+          type: "class_over_capacity",
+          classId: report.classId,
+          required: report.required,
+          available: report.available,
+          message: `${report.name} needs ${report.required} periods but only ${report.available} slots exist`,
+        });
       }
     }
+    for (const report of subjectReports) {
+      if (report.qualifiedTeachers === 0) {
+        issues.push({
+          type: "no_qualified_teacher",
+          subjectId: report.subjectId,
+          required: report.demand,
+          available: 0,
+          message: `${report.name} demand ${report.demand} periods, but no active teacher is qualified to teach it`,
+        });
+      } else if (report.demand > report.capacity) {
+        const [only] = qualifiedFor(report.subjectId);
+        issues.push({
+          type: "subject_over_capacity",
+          subjectId: report.subjectId,
+          required: report.demand,
+          available: report.capacity,
+          message: report.qualifiedTeachers === 1
+            ? `${report.name} demand ${report.demand} periods, only one qualified teacher (${only.name}) with capacity ${report.capacity}`
+            : `${report.name} demand ${report.demand} periods, but its ${report.qualifiedTeachers} qualified teachers can teach at most ${report.capacity}`,
+        });
+      }
+    }
+    for (const report of teacherReports) {
+      if (report.assigned > report.capacity) {
+        issues.push({
+          type: "teacher_over_capacity",
+          teacherId: report.teacherId,
+          required: report.assigned,
+          available: report.capacity,
+          message: `${report.name} is assigned ${report.assigned} periods but can teach at most ${report.capacity}`,
+        });
+      }
+    }
+
+    return {
+      feasible: issues.length === 0,
+      slotsPerWeek: slots.length,
+      classes: classReports,
+      subjects: subjectReports,
+      teachers: teacherReports,
+      issues,
+    };
+  }
 
-    return schedule;
+  // Lessons of one class and subject that break its placement rules
+  private static checkPlacementRules(
+    rules: SubjectPlacementRules,
+    lessons: TimetableEntry[],
+    structure: TimetableStructure | undefined,
+    cycleDays: CycleDay[],
+    label: string
+  ): string[] {
+    const conflicts: string[] = [];
+    const dayName = (lesson: TimetableEntry) =>
+      cycleDays.find(d => d.day === lesson.day && d.cycleDay === (lesson.cycleDay ?? null))?.label ?? lesson.day;
+    const firstAfterLunch = structure
+      ? Math.min(...Array.from(getAfterLunchPeriods(structure.timeSlots)))
+      : Infinity;
+    
+    for (const lesson of lessons) {
+      if (rules.allowedPeriods?.length && !rules.allowedPeriods.includes(lesson.period)) {
+        conflicts.push(
+          `Placement rule: ${label} is in period ${lesson.period} on ${dayName(lesson)} but only periods ${rules.allowedPeriods.join(", ")} are allowed`
+        );
+      }
+      if (rules.notAfterLunch && lesson.period === firstAfterLunch) {
+        conflicts.push(
+          `Placement rule: ${label} is straight after lunch on ${dayName(lesson)} (period ${lesson.period})`
+        );
+      }
+    }
+    
+    if (rules.noConsecutiveDays) {
+      const taughtDays = cycleDays.filter(({ day, cycleDay }) =>
+        lessons.some(lesson => lesson.day === day && (lesson.cycleDay ?? null) === cycleDay));
+      for (let i = 1; i < taughtDays.length; i++) {
+        if (cycleDays.indexOf(taughtDays[i]) - cycleDays.indexOf(taughtDays[i - 1]) === 1) {
+          conflicts.push(
+            `Placement rule: ${label} is taught on consecutive days (${taughtDays[i - 1].label} and ${taughtDays[i].label})`
+          );
+        }
+      }
+    }
+    
+    return conflicts;
   }
 
   async validateTimetable(): Promise<{ isValid: boolean; conflicts: string[] }> {
     const conflicts: string[] = [];
     
     try {
-      const timetableEntries = await storage.getTimetableEntries();
+      const [timetableEntries, allStructures, allClasses] = await Promise.all([
+        storage.getTimetableEntries(),
+        storage.getTimetableStructures(),
+        storage.getClasses(),
+      ]);
+      
+      // A class follows its own structure, or else its school's main one
+      const classesById = new Map(allClasses.map(c => [c.id, c]));
+      const mainStructure = (schoolId: string) =>
+        allStructures.find(structure => structure.schoolId === schoolId && structure.isActive);
+      const structureOf = (classId: string) => {
+        const classData = classesById.get(classId);
+        if (!classData) return undefined;
+        return allStructures.find(structure => structure.id === classData.structureId && structure.schoolId === classData.schoolId)
+          ?? mainStructure(classData.schoolId);
+      };
+      // Days of the cycle of the class's school, and an entry's day as the school names it
+      const schoolOf = (classId: string) => classesById.get(classId)?.schoolId;
+      const cycleDaysOfSchool = (schoolId: string | undefined) => {
+        const main = schoolId ? mainStructure(schoolId) : undefined;
+        return cycleDaysOf(main?.cycle, main?.workingDays ?? [...weekdays]);
+      };
+      const dayName = (entry: TimetableEntry) => {
+        const main = mainStructure(schoolOf(entry.classId) ?? "");
+        return cycleDayLabel(entry, main?.cycle, main?.workingDays ?? [...weekdays]);
+      };
+      const weeksOfSchool = (schoolId: string | null | undefined) => {
+        const main = schoolId ? mainStructure(schoolId) : undefined;
+        return main ? cycleWeeks(main.cycle, main.workingDays) : 1;
+      };
       
-      // Check for teacher double-booking conflicts
-      const teacherSchedule = new Map<string, Set<string>>();
+      // Check for teacher double-booking conflicts. Lessons clash when they overlap
+      // in time, so classes following different structures are compared too.
+      const teacherDays = new Map<string, TimetableEntry[]>();
       
       for (const entry of timetableEntries) {
-        const slotKey = `${entry.day}-${entry.period}`;
-        
-        if (!teacherSchedule.has(entry.teacherId)) {
-          teacherSchedule.set(entry.teacherId, new Set());
+        const dayKey = `${entry.teacherId}|${entry.day}|${entry.cycleDay ?? ""}`;
+        if (!teacherDays.has(dayKey)) {
+          teacherDays.set(dayKey, []);
         }
         
-        const teacherSlots = teacherSchedule.get(entry.teacherId)!;
+        const earlier = teacherDays.get(dayKey)!;
+        // Find another class this teacher is assigned to at the same time;
+        // classes combined in one lesson group share the teacher legitimately
+        const conflictEntry = earlier.find(e =>
+          overlaps(e, entry) &&
+          e.classId !== entry.classId &&
+          (!entry.lessonGroupId || e.lessonGroupId !== entry.lessonGroupId)
+        );
         
-        if (teacherSlots.has(slotKey)) {
-          // Find the other class this teacher is assigned to at the same time
-          const conflictEntry = timetableEntries.find(e => 
-            e.teacherId === entry.teacherId && 
-            e.day === entry.day && 
-            e.period === entry.period && 
-            e.classId !== entry.classId
+        if (conflictEntry) {
+          conflicts.push(
+            `Teacher conflict: Teacher ${entry.teacherId} is scheduled for both Class ${entry.classId} and Class ${conflictEntry.classId} on ${dayName(entry)} period ${entry.period}`
           );
-          
-          if (conflictEntry) {
+        }
+        earlier.push(entry);
+      }
+      
+      // Check teacher load limits; a lesson group taught to several classes counts once per slot
+      const allTeachers = await storage.getTeachers();
+      // Lessons by teacher, day of the cycle and start time
+      const taughtLessons = new Map<string, Map<string, Map<string, TimetableEntry>>>();
+      for (const entry of timetableEntries) {
+        if (!taughtLessons.has(entry.teacherId)) taughtLessons.set(entry.teacherId, new Map());
+        const days = taughtLessons.get(entry.teacherId)!;
+        const dayKey = `${entry.day}|${entry.cycleDay ?? ""}`;
+        if (!days.has(dayKey)) days.set(dayKey, new Map());
+        days.get(dayKey)!.set(entry.startTime, entry);
+      }
+      
+      // Check lessons placed in periods the teacher has marked unavailable
+      const teachersById = new Map(allTeachers.map(t => [t.id, t]));
+      for (const entry of timetableEntries) {
+        const teacher = teachersById.get(entry.teacherId);
+        // Unavailable periods are those of the main structure; other structures' lessons are matched by time
+        const classData = classesById.get(entry.classId);
+        const main = classData && mainStructure(classData.schoolId);
+        const mainSlots = main && structureOf(entry.classId) !== main ? structureSlotsForDay(main, entry.day) : undefined;
+        if (teacher && !TimetableScheduler.isTeacherAvailable(teacher, entry, mainSlots)) {
+          conflicts.push(
+            `Teacher availability: ${teacher.name} is unavailable on ${dayName(entry)} period ${entry.period} but teaches Class ${entry.classId}`
+          );
+        }
+      }
+      
+      for (const teacher of allTeachers) {
+        const days = taughtLessons.get(teacher.id);
+        if (!days) continue;
+        
+        // Over a longer cycle the weekly limit applies to each of its weeks on average
+        const weeks = weeksOfSchool(teacher.schoolId);
+        const taught = Array.from(days.values()).reduce((sum, lessons) => sum + lessons.size, 0);
+        const limit = Math.round(teacher.maxLoad * weeks);
+        if (taught > limit) {
+          conflicts.push(weeks === 1
+            ? `Teacher load: ${teacher.name} teaches ${taught} periods per week but the limit is ${teacher.maxLoad}`
+            : `Teacher load: ${teacher.name} teaches ${taught} periods per cycle but the limit is ${limit}`
+          );
+        }
+        
+        days.forEach(lessons => {
+          const [first] = Array.from(lessons.values());
+          const day = first.day;
+          const label = dayName(first);
+          if (teacher.maxDailyPeriods && lessons.size > teacher.maxDailyPeriods) {
             conflicts.push(
-              `Teacher conflict: Teacher ${entry.teacherId} is scheduled for both Class ${entry.classId} and Class ${conflictEntry.classId} on ${entry.day} period ${entry.period}`
+              `Teacher daily load: ${teacher.name} teaches ${lessons.size} periods on ${label} but the limit is ${teacher.maxDailyPeriods}`
             );
           }
-        } else {
-          teacherSlots.add(slotKey);
-        }
+          
+          if (teacher.maxConsecutivePeriods) {
+            // Runs follow the bell times of each structure the teacher teaches in
+            const periodsByStructure = new Map<TimetableStructure | undefined, Set<number>>();
+            lessons.forEach(entry => {
+              const structure = structureOf(entry.classId);
+              if (!periodsByStructure.has(structure)) periodsByStructure.set(structure, new Set());
+              periodsByStructure.get(structure)!.add(entry.period);
+            });
+            
+            let longestRun = 0;
+            periodsByStructure.forEach((periods, structure) => {
+              const following = TimetableScheduler.followingPeriods(structure, day);
+              const next = (period: number) => (following ? following.get(period) : period + 1);
+              const taught = Array.from(periods);
+              // Walk each run of back-to-back periods from its first period
+              for (const start of taught.filter(period => !taught.some(other => next(other) === period))) {
+                let run = 1;
+                for (let period = next(start); period !== undefined && periods.has(period); period = next(period)) {
+                  run++;
+                }
+                longestRun = Math.max(longestRun, run);
+              }
+            });
+            if (longestRun > teacher.maxConsecutivePeriods) {
+              conflicts.push(
+                `Teacher consecutive periods: ${teacher.name} teaches ${longestRun} periods in a row on ${label} but the limit is ${teacher.maxConsecutivePeriods}`
+              );
+            }
+          }
+        });
       }
       
-      // Check for classroom conflicts (if room assignments exist)
-      const roomSchedule = new Map<string, Set<string>>();
+      // Check for classroom conflicts (if room assignments exist), again by time
+      const roomDays = new Map<string, TimetableEntry[]>();
       
       for (const entry of timetableEntries) {
-        if (!entry.room) continue;
+        const roomKey = entry.roomId || entry.room;
+        if (!roomKey) continue;
         
-        const slotKey = `${entry.day}-${entry.period}`;
+        const dayKey = `${roomKey}|${entry.day}|${entry.cycleDay ?? ""}`;
+        if (!roomDays.has(dayKey)) {
+          roomDays.set(dayKey, []);
+        }
         
-        if (!roomSchedule.has(entry.room)) {
-          roomSchedule.set(entry.room, new Set());
+        // One lesson group may hold a room for several of its classes
+        const earlier = roomDays.get(dayKey)!;
+        if (earlier.some(e => overlaps(e, entry) && (!e.lessonGroupId || e.lessonGroupId !== entry.lessonGroupId))) {
+          conflicts.push(
+            `Room conflict: Room ${entry.room} is double-booked on ${dayName(entry)} period ${entry.period}`
+          );
         }
+        earlier.push(entry);
+      }
+      
+      // Check that lessons needing a special room are held in a suitable one
+      const [rooms, subjects] = await Promise.all([
+        storage.getRooms(),
+        storage.getSubjects(),
+      ]);
+      
+      for (const entry of timetableEntries) {
+        const subject = subjects.find(s => s.id === entry.subjectId);
+        const classData = allClasses.find(c => c.id === entry.classId);
+        const room = entry.roomId ? rooms.find(r => r.id === entry.roomId) : undefined;
+        const classLabel = classData ? `${classData.grade}-${classData.section}` : entry.classId;
         
-        const roomSlots = roomSchedule.get(entry.room)!;
+        if (subject?.requiredRoomType && room?.type !== subject.requiredRoomType) {
+          conflicts.push(
+            `Room requirement: ${subject.name} for Class ${classLabel} on ${dayName(entry)} period ${entry.period} needs a ${formatRoomType(subject.requiredRoomType)}`
+          );
+        }
         
-        if (roomSlots.has(slotKey)) {
+        if (room && classData && room.capacity < classData.studentCount) {
           conflicts.push(
-            `Room conflict: Room ${entry.room} is double-booked on ${entry.day} period ${entry.period}`
+            `Room capacity: Room ${room.name} seats ${room.capacity} but Class ${classLabel} has ${classData.studentCount} students on ${dayName(entry)} period ${entry.period}`
           );
-        } else {
-          roomSlots.add(slotKey);
         }
       }
       
+      // Check that teachers have time to get between lessons in different buildings
+      const buildingOf = (entry: TimetableEntry) => {
+        const room = entry.roomId ? rooms.find(r => r.id === entry.roomId) : undefined;
+        const building = room?.building?.trim() || classesById.get(entry.classId)?.building?.trim();
+        return building || undefined;
+      };
+      teacherDays.forEach(entries => {
+        const classData = classesById.get(entries[0].classId);
+        const travelMinutes = (classData && mainStructure(classData.schoolId)?.travelMinutes) || 0;
+        if (travelMinutes <= 0) return;
+        
+        const byTime = [...entries].sort((a, b) => a.startTime.localeCompare(b.startTime));
+        for (let i = 1; i < byTime.length; i++) {
+          const [before, after] = [byTime[i - 1], byTime[i]];
+          const from = buildingOf(before);
+          const to = buildingOf(after);
+          if (!from || !to || buildingKey(from) === buildingKey(to)) continue;
+          const gap = minutesBetween(before.endTime, after.startTime);
+          if (gap >= 0 && gap < travelMinutes) {
+            const teacher = teachersById.get(after.teacherId);
+            conflicts.push(
+              `Teacher travel: ${teacher?.name ?? after.teacherId} has ${gap} minutes to get from ${from} to ${to} on ${dayName(after)} (period ${before.period} to period ${after.period}) but needs ${travelMinutes}`
+            );
+          }
+        }
+      });
+      
       // Check if classes have proper subject distribution
       const classSubjectCount = new Map<string, Map<string, number>>();
       
       for (const entry of timetableEntries) {
+        // Lesson group periods come on top of the class's own subject assignments
+        if (entry.lessonGroupId) continue;
         if (!classSubjectCount.has(entry.classId)) {
           classSubjectCount.set(entry.classId, new Map());
         }
@@ -479,25 +1506,37 @@ export class TimetableScheduler {
         subjectCount.set(entry.subjectId, currentCount + 1);
       }
       
-      // Check against required weekly frequencies
-      const classes = await storage.getClasses();
-      
-      for (const classData of classes) {
+      // Check against required weekly frequencies and placement rules
+      for (const classData of allClasses) {
         const assignments = await storage.getClassSubjectAssignments(classData.id);
         const actualCounts = classSubjectCount.get(classData.id) || new Map();
+        const structure = structureOf(classData.id);
+        const cycleDays = cycleDaysOfSchool(classData.schoolId);
+        const weeks = weeksOfSchool(classData.schoolId);
         
         for (const assignment of assignments) {
           const actualCount = actualCounts.get(assignment.subjectId) || 0;
+          const required = Math.round(assignment.weeklyFrequency * weeks);
+          
+          const lessons = timetableEntries.filter(e =>
+            !e.lessonGroupId && e.classId === classData.id && e.subjectId === assignment.subjectId);
+          conflicts.push(...TimetableScheduler.checkPlacementRules(
+            effectivePlacementRules(assignment.subject?.placementRules, assignment.placementRules),
+            lessons,
+            structure,
+            cycleDays,
+            `${assignment.subject?.name || 'Unknown Subject'} for Class ${classData.grade}-${classData.section}`
+          ));
           
-          if (actualCount < assignment.weeklyFrequency) {
+          if (actualCount < required) {
             conflicts.push(
-              `Insufficient periods: Class ${classData.grade}-${classData.section} needs ${assignment.weeklyFrequency} periods of ${assignment.subject?.name || 'Unknown Subject'} but only has ${actualCount}`
+              `Insufficient periods: Class ${classData.grade}-${classData.section} needs ${required} periods of ${assignment.subject?.name || 'Unknown Subject'} but only has ${actualCount}`
             );
           }
           
-          if (actualCount > assignment.weeklyFrequency) {
+          if (actualCount > required) {
             conflicts.push(
-              `Excess periods: Class ${classData.grade}-${classData.section} has ${actualCount} periods of ${assignment.subject?.name || 'Unknown Subject'} but only needs ${assignment.weeklyFrequency}`
+              `Excess periods: Class ${classData.grade}-${classData.section} has ${actualCount} periods of ${assignment.subject?.name || 'Unknown Subject'} but only needs ${required}`
             );
           }
         }
@@ -554,10 +1593,11 @@ export class TimetableScheduler {
           dailySchedules.set(entry.classId, new Map());
         }
         const classSchedule = dailySchedules.get(entry.classId)!;
-        if (!classSchedule.has(entry.day)) {
-          classSchedule.set(entry.day, []);
+        const dayKey = `${entry.day}|${entry.cycleDay ?? ""}`;
+        if (!classSchedule.has(dayKey)) {
+          classSchedule.set(dayKey, []);
         }
-        classSchedule.get(entry.day)!.push(entry.subjectId);
+        classSchedule.get(dayKey)!.push(entry.subjectId);
       }
 
       let hasConsecutiveSameSubjects = false;
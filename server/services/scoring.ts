@@ -0,0 +1,238 @@
+import {
+  softConstraintKeys,
+  type ScoreBreakdown,
+  type SoftConstraintKey,
+  type SoftConstraintWeights,
+  type TimetableMetrics,
+  type TimetableStructure,
+} from "@shared/schema";
+
+export interface SoftConstraintContext {
+  weights: SoftConstraintWeights;
+  heavySubjectIds: Set<string>;
+  afterLunchPeriods: Set<number>;
+  teacherPreferences?: TeacherPreferenceContext;
+}
+
+// Soft teacher preferences, by teacher id
+export interface TeacherPreferenceContext {
+  // `${day}|${period}` slots the teacher would rather keep free
+  avoidedSlots: Map<string, Set<string>>;
+  // `${classId}|${subjectId}` lessons the teacher would rather not teach
+  avoidedLessons: Map<string, Set<string>>;
+}
+
+export interface ScoredLesson {
+  classId: string;
+  subjectId: string;
+  teacherId: string;
+  day: string;
+  // Day of the timetable cycle; lessons on different days of a cycle never share a day
+  cycleDay?: number | null;
+  period: number;
+  // Periods of one block share a block id
+  blockId?: string | null;
+}
+
+export type ViolationCounts = Record<SoftConstraintKey, number>;
+
+export function emptyViolations(): ViolationCounts {
+  return {
+    teacherIdleGap: 0,
+    sameSubjectTwiceInDay: 0,
+    heavySubjectAfterLunch: 0,
+    teacherFirstAndLastPeriod: 0,
+    teacherPreference: 0,
+  };
+}
+
+// Periods that follow the last break of the day count as "after lunch"
+export function getAfterLunchPeriods(timeSlots: TimetableStructure["timeSlots"]): Set<number> {
+  const ordered = [...timeSlots].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  let lastBreak = -1;
+  ordered.forEach((slot, index) => {
+    if (slot.isBreak) lastBreak = index;
+  });
+
+  const periods = new Set<number>();
+  if (lastBreak === -1) return periods;
+  for (const slot of ordered.slice(lastBreak + 1)) {
+    if (!slot.isBreak) periods.add(slot.period);
+  }
+  return periods;
+}
+
+/**
+ * Count the class-level violations of one class on one day.
+ * subjectIds holds the subject taught in each teaching period of the day
+ * (in period order, null for a free period) and periods the matching period numbers.
+ * continues marks periods that continue the block of the previous period,
+ * which do not count as the subject repeating.
+ */
+export function countClassDayViolations(
+  subjectIds: (string | null)[],
+  periods: number[],
+  context: SoftConstraintContext,
+  into: ViolationCounts,
+  continues: boolean[] = []
+) {
+  const seen = new Set<string>();
+  subjectIds.forEach((subjectId, index) => {
+    if (!subjectId) return;
+    if (seen.has(subjectId) && !continues[index]) {
+      into.sameSubjectTwiceInDay++;
+    }
+    seen.add(subjectId);
+    if (context.heavySubjectIds.has(subjectId) && context.afterLunchPeriods.has(periods[index])) {
+      into.heavySubjectAfterLunch++;
+    }
+  });
+}
+
+// Whether teaching the given lesson goes against one of the teacher's soft preferences
+export function isDispreferred(
+  context: SoftConstraintContext,
+  teacherId: string,
+  day: string,
+  period: number,
+  classIds: string[],
+  subjectId: string
+): boolean {
+  const preferences = context.teacherPreferences;
+  if (!preferences) return false;
+  if (preferences.avoidedSlots.get(teacherId)?.has(`${day}|${period}`)) return true;
+  const avoidedLessons = preferences.avoidedLessons.get(teacherId);
+  return !!avoidedLessons && classIds.some(classId => avoidedLessons.has(`${classId}|${subjectId}`));
+}
+
+/**
+ * Count the teacher-level violations of one teacher on one day.
+ * busy holds whether the teacher teaches in each teaching period of the day, in order,
+ * and dispreferred whether that lesson goes against one of the teacher's preferences.
+ */
+export function countTeacherDayViolations(busy: boolean[], into: ViolationCounts, dispreferred: boolean[] = []) {
+  dispreferred.forEach((against, index) => {
+    if (against && busy[index]) into.teacherPreference++;
+  });
+
+  const first = busy.indexOf(true);
+  if (first === -1) return;
+  const last = busy.lastIndexOf(true);
+
+  for (let i = first; i <= last; i++) {
+    if (!busy[i]) into.teacherIdleGap++;
+  }
+  if (busy.length > 1 && first === 0 && last === busy.length - 1) {
+    into.teacherFirstAndLastPeriod++;
+  }
+}
+
+export function weighViolations(counts: ViolationCounts, weights: SoftConstraintWeights): number {
+  return softConstraintKeys.reduce((sum, key) => sum + counts[key] * (weights[key] || 0), 0);
+}
+
+/**
+ * Score a complete timetable. periodsByDay lists the teaching (non-break)
+ * periods of each working day in order; every day of a cycle shares its weekday's.
+ */
+export function scoreTimetable(
+  lessons: ScoredLesson[],
+  periodsByDay: Map<string, number[]>,
+  context: SoftConstraintContext
+): ScoreBreakdown {
+  const counts = emptyViolations();
+  const byClassDay = new Map<string, Map<number, ScoredLesson>>();
+  // Periods each teacher teaches per day, and whether the lesson goes against their preferences
+  const byTeacherDay = new Map<string, Map<number, boolean>>();
+
+  for (const lesson of lessons) {
+    const classKey = `${lesson.classId}|${lesson.day}|${lesson.cycleDay ?? ""}`;
+    if (!byClassDay.has(classKey)) byClassDay.set(classKey, new Map());
+    // Parallel streams of a lesson group share the period; the first one stands for them all
+    const classDay = byClassDay.get(classKey)!;
+    if (!classDay.has(lesson.period)) classDay.set(lesson.period, lesson);
+
+    const teacherKey = `${lesson.teacherId}|${lesson.day}|${lesson.cycleDay ?? ""}`;
+    if (!byTeacherDay.has(teacherKey)) byTeacherDay.set(teacherKey, new Map());
+    const teacherDay = byTeacherDay.get(teacherKey)!;
+    const dispreferred = isDispreferred(
+      context, lesson.teacherId, lesson.day, lesson.period, [lesson.classId], lesson.subjectId);
+    teacherDay.set(lesson.period, (teacherDay.get(lesson.period) ?? false) || dispreferred);
+  }
+
+  byClassDay.forEach((lessonsByPeriod, key) => {
+    const periods = periodsByDay.get(key.split("|")[1]) || [];
+    const dayLessons = periods.map(p => lessonsByPeriod.get(p));
+    countClassDayViolations(
+      dayLessons.map(lesson => lesson?.subjectId || null),
+      periods,
+      context,
+      counts,
+      dayLessons.map((lesson, index) =>
+        index > 0 && !!lesson?.blockId && lesson.blockId === dayLessons[index - 1]?.blockId)
+    );
+  });
+
+  byTeacherDay.forEach((taught, key) => {
+    const periods = periodsByDay.get(key.split("|")[1]) || [];
+    countTeacherDayViolations(
+      periods.map(p => taught.has(p)),
+      counts,
+      periods.map(p => taught.get(p) === true)
+    );
+  });
+
+  const constraints = {} as ScoreBreakdown["constraints"];
+  for (const key of softConstraintKeys) {
+    const weight = context.weights[key] || 0;
+    constraints[key] = { weight, violations: counts[key], penalty: weight * counts[key] };
+  }
+
+  return {
+    total: weighViolations(counts, context.weights),
+    constraints,
+  };
+}
+
+/**
+ * Quality metrics used to compare candidate timetables. unfilledPeriods comes
+ * from the solver, which knows what it could not place.
+ */
+export function measureTimetable(
+  lessons: ScoredLesson[],
+  periodsByDay: Map<string, number[]>,
+  unfilledPeriods: number
+): TimetableMetrics {
+  // Lesson groups put one teacher in several classes' entries; count each period once
+  const taughtByTeacherDay = new Map<string, Set<number>>();
+  const loadByTeacher = new Map<string, number>();
+  for (const lesson of lessons) {
+    const key = `${lesson.teacherId}|${lesson.day}|${lesson.cycleDay ?? ""}`;
+    if (!taughtByTeacherDay.has(key)) taughtByTeacherDay.set(key, new Set());
+    const taught = taughtByTeacherDay.get(key)!;
+    if (taught.has(lesson.period)) continue;
+    taught.add(lesson.period);
+    loadByTeacher.set(lesson.teacherId, (loadByTeacher.get(lesson.teacherId) || 0) + 1);
+  }
+
+  let teacherGaps = 0;
+  taughtByTeacherDay.forEach((taught, key) => {
+    const periods = periodsByDay.get(key.split("|")[1]) || [];
+    const busy = periods.map(p => taught.has(p));
+    const first = busy.indexOf(true);
+    const last = busy.lastIndexOf(true);
+    for (let index = first + 1; index < last; index++) {
+      if (!busy[index]) teacherGaps++;
+    }
+  });
+
+  const loads = Array.from(loadByTeacher.values());
+  const mean = loads.reduce((sum, load) => sum + load, 0) / Math.max(1, loads.length);
+  const variance = loads.reduce((sum, load) => sum + (load - mean) ** 2, 0) / Math.max(1, loads.length);
+
+  return {
+    unfilledPeriods,
+    teacherGaps,
+    loadVariance: Math.round(variance * 100) / 100,
+  };
+}
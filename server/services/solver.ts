@@ -0,0 +1,1462 @@
+import {
+  countClassDayViolations,
+  countTeacherDayViolations,
+  emptyViolations,
+  isDispreferred,
+  weighViolations,
+  type SoftConstraintContext,
+} from "./scoring";
+
+// Constraint solver used by the timetable scheduler.
+//
+// The solver works on a plain, storage-independent description of the problem:
+// a list of schedulable slots and a list of class/subject requirements, each
+// needing a number of periods taught by one of a set of candidate teachers
+// and, for subjects that need a special room, held in one of a set of rooms.
+// A requirement may ask for blocks of consecutive periods (double periods for
+// practicals), which are placed as one lesson and never span a break.
+// Lesson groups are requirements shared by several classes and/or taught as
+// parallel streams by several teachers; all of them are placed in one slot.
+// Teachers may carry weekly, daily and consecutive-period load limits, which
+// are hard constraints like clashes. Fixed lessons (locked entries) occupy
+// their slots from the start and are never moved.
+// Slots may belong to different shifts (timetable structures with their own
+// bell times); a class only uses the slots of its shift, and a teacher or room
+// busy in one slot is busy in every slot of another shift overlapping it.
+// With travel rules, a teacher is never given lessons in two different buildings
+// with less time between them than it takes to walk from one to the other.
+// On a fortnightly or rotating timetable every day of the cycle is a day of its
+// own; the weekday it carries only decides teacher availability and preferences.
+// It runs a backtracking search (most-constrained requirement first, with
+// forward checking on every remaining requirement) and, if that cannot find a
+// complete assignment within its budget, falls back to a greedy fill followed
+// by a local repair phase so that callers still get a best-effort placement
+// and a structured explanation of what could not be scheduled.
+//
+// When soft constraints are supplied, candidate placements are ordered by the
+// penalty they add, and a complete assignment is further improved by a local
+// search that relocates or swaps lessons whenever that does not increase the
+// total penalty.
+//
+// All tie-breaking goes through the injected random source, so a solve with a
+// seeded generator and the default node budget is fully reproducible.
+// Checkpoints along the way report progress and yield to the event loop, so a
+// long solve can be watched and cancelled without changing its outcome.
+
+export interface SolverSlot {
+  day: string;
+  // Day of the timetable cycle, when it repeats over more than one week
+  cycleDay?: number | null;
+  period: number;
+  startTime: string;
+  endTime: string;
+  // True when a break separates this slot from the previous teaching period of
+  // its day; blocks cannot span it
+  breakBefore?: boolean;
+  // Shift the slot belongs to; only classes of that shift can use it
+  shift?: string;
+}
+
+export interface SolverRequirement {
+  classId: string;
+  subjectId: string;
+  periodsNeeded: number;
+  // Consecutive periods per lesson, 1 when omitted; periodsNeeded is a multiple of it
+  blockLength?: number;
+  teacherIds: string[];
+  // Rooms the lessons may be held in, most preferred first. Undefined when the
+  // subject needs no particular room (the class's own room is used).
+  roomIds?: string[];
+  // Lesson groups only: the other classes attending the same slot, and the
+  // streams taught alongside the requirement's own subject, each by its own teacher
+  lessonGroupId?: string;
+  extraClassIds?: string[];
+  parallelStreams?: SolverStream[];
+  // Subject placement rules: periods no lesson may occupy, and whether lessons
+  // must leave at least one day free between them
+  excludedPeriods?: number[];
+  spreadDays?: boolean;
+}
+
+export interface SolverStream {
+  subjectId: string;
+  teacherIds: string[];
+  roomIds?: string[];
+}
+
+export interface SolverProblem {
+  slots: SolverSlot[];
+  requirements: SolverRequirement[];
+  // Keys of the form `${teacherId}|${day}|${period}`
+  teacherUnavailable: Set<string>;
+  // Teachers without an entry have no load limits
+  teacherLimits?: Map<string, TeacherLimits>;
+  // Shift of each class; classes without one can use any slot
+  classShifts?: Map<string, string>;
+  travel?: TravelRules;
+  fixed?: SolverFixedLesson[];
+  maxDailyPerSubject: number;
+  softConstraints?: SoftConstraintContext;
+}
+
+// A lesson that already holds its slot and stays there. It occupies its class,
+// teacher and room and counts towards their limits, but is not part of the output.
+export interface SolverFixedLesson {
+  classId: string;
+  subjectId: string;
+  teacherId: string;
+  roomId: string | null;
+  day: string;
+  cycleDay?: number | null;
+  period: number;
+  // Shared by the periods of a fixed block
+  blockId?: string | null;
+  // Entries of one lesson group stream, one per class, are a single lesson
+  lessonGroupId?: string | null;
+}
+
+export interface TravelRules {
+  // Time a teacher needs between lessons in different buildings
+  minutes: number;
+  // Building of each class, where its lessons are held without a booked room,
+  // and of each room; lessons without a building are reachable from anywhere
+  classBuildings: Map<string, string>;
+  roomBuildings: Map<string, string>;
+}
+
+export interface TeacherLimits {
+  maxWeekly?: number;
+  maxDaily?: number;
+  // Periods taught back to back; a break ends the run
+  maxConsecutive?: number;
+}
+
+export interface SolverOptions {
+  maxNodes?: number;
+  // Safety net only; the node budget is what normally bounds the search
+  timeLimitMs?: number;
+  maxRepairRounds?: number;
+  maxImproveIterations?: number;
+  random?: () => number;
+  // Called at checkpoints, after which the solver yields to the event loop
+  onProgress?: (progress: SolverProgress) => void;
+  // Checked at checkpoints; a cancelled solve stops with what it has placed so far
+  isCancelled?: () => boolean;
+}
+
+export type SolverPhase = "searching" | "repairing" | "optimizing";
+
+export interface SolverProgress {
+  phase: SolverPhase;
+  // Progress within the phase, 0-100
+  percent: number;
+  // Soft-constraint penalty of the timetable being optimised; null until it is complete
+  penalty: number | null;
+}
+
+// One scheduled period of one class and subject. Periods of the same block,
+// and every class and stream of a lesson group, share the lesson number.
+export interface SolverPlacement {
+  lesson: number;
+  classId: string;
+  subjectId: string;
+  teacherId: string;
+  roomId: string | null;
+  lessonGroupId?: string;
+  day: string;
+  cycleDay?: number | null;
+  period: number;
+  startTime: string;
+  endTime: string;
+}
+
+export type ConflictType =
+  | "no_qualified_teacher"
+  | "class_over_capacity"
+  | "teacher_over_capacity"
+  | "teacher_load_limit"
+  | "daily_limit"
+  | "no_block_slots"
+  | "placement_rule"
+  | "no_suitable_room"
+  | "room_over_capacity"
+  | "unplaced";
+
+export type UnplacedCause =
+  | "class_full"
+  | "no_free_block"
+  | "placement_rule"
+  | "teacher_busy"
+  | "teacher_limit"
+  | "teacher_travel"
+  | "daily_limit"
+  | "room_busy";
+
+export interface ScheduleConflict {
+  type: ConflictType;
+  classId?: string;
+  subjectId?: string;
+  teacherIds: string[];
+  roomIds?: string[];
+  lessonGroupId?: string;
+  required: number;
+  available: number;
+  cause?: UnplacedCause;
+}
+
+export interface SolveResult {
+  placements: SolverPlacement[];
+  complete: boolean;
+  conflicts: ScheduleConflict[];
+  stats: {
+    nodes: number;
+    backtracks: number;
+    timedOut: boolean;
+    cancelled: boolean;
+  };
+}
+
+interface Placement {
+  req: number;
+  // First slot of the lesson, and every slot it covers
+  slot: number;
+  slots: number[];
+  teacherId: string;
+  roomId: string | null;
+  // Teacher and room of each parallel stream of a lesson group
+  parallel?: StreamAssignment[];
+  fixed?: boolean;
+}
+
+interface StreamAssignment {
+  teacherId: string;
+  roomId: string | null;
+}
+
+const DONE = -1;
+const DEAD_END = -2;
+
+export const MAX_SEED = 0x7fffffff;
+
+// Minutes from one "HH:MM" time to a later one
+export function minutesBetween(from: string, to: string): number {
+  const minutes = (time: string) => {
+    const [hours, mins] = time.split(":").map(Number);
+    return hours * 60 + mins;
+  };
+  return minutes(to) - minutes(from);
+}
+
+// Identifies a day of the cycle; a weekly timetable's days are just weekdays
+function dayKey(slot: { day: string; cycleDay?: number | null }): string {
+  return slot.cycleDay != null ? `${slot.day}|${slot.cycleDay}` : slot.day;
+}
+
+// The requirement's own subject followed by its parallel streams
+function streamsOf(req: SolverRequirement): SolverStream[] {
+  return [
+    { subjectId: req.subjectId, teacherIds: req.teacherIds, roomIds: req.roomIds },
+    ...(req.parallelStreams || []),
+  ];
+}
+
+// Mulberry32: small, fast seeded PRNG returning floats in [0, 1)
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class ScheduleSolver {
+  private readonly problem: SolverProblem;
+  // The problem's requirements followed by one per fixed lesson, which has nothing left to place
+  private readonly requirements: SolverRequirement[];
+  private readonly fixedPlacements: Placement[] = [];
+  private readonly maxNodes: number;
+  private readonly timeLimitMs: number;
+  private readonly maxRepairRounds: number;
+  private readonly maxImproveIterations: number;
+  private readonly random: () => number;
+  private readonly onProgress?: (progress: SolverProgress) => void;
+  private readonly isCancelled?: () => boolean;
+
+  private readonly slotDay: number[];
+  private readonly dayCount: number;
+  // Slot indices of each day, in period order
+  private readonly daySlots: number[][];
+  // Number of consecutive slots, without a break, starting at each slot
+  private readonly blockRun: number[];
+  // Requirements of the same class (or lesson group) and subject share their per-day counts
+  private readonly groupOf: number[];
+  // Classes attending each requirement's lessons
+  private readonly classIdsOf: string[][];
+  private readonly isLessonGroup: boolean[];
+  // Slots in other shifts that overlap each slot in clock time
+  private readonly overlapping: number[][];
+  // Slots of the same day starting or ending less than the travel time away from each slot
+  private readonly nearby: number[][];
+  // Slots of the shift of each requirement's classes, null when unrestricted
+  private readonly shiftSlots: (boolean[] | null)[];
+  // Slots each requirement may use within its shift and placement rules, null when unrestricted
+  private readonly allowedSlots: (boolean[] | null)[];
+  private readonly unavailable = new Map<string, boolean[]>();
+
+  private classSlots = new Map<string, (Placement | null)[]>();
+  private teacherSlots = new Map<string, (Placement | null)[]>();
+  private roomSlots = new Map<string, (Placement | null)[]>();
+  // Periods of each class/subject group already placed per day, indexed group * dayCount + day
+  private dailyCounts = new Int16Array(0);
+  // Periods each teacher teaches per week and per day
+  private teacherLoad = new Map<string, number>();
+  private teacherDayLoad = new Map<string, Int16Array>();
+  private remaining: number[] = [];
+  private placements = new Set<Placement>();
+  private best: Placement[] = [];
+
+  private nodes = 0;
+  private backtracks = 0;
+  private deadline = 0;
+  private timedOut = false;
+  private cancelled = false;
+  private totalLessons = 0;
+
+  constructor(problem: SolverProblem, options: SolverOptions = {}) {
+    this.problem = problem;
+    const totalPeriods = problem.requirements.reduce((sum, r) => sum + r.periodsNeeded, 0);
+    this.maxNodes = options.maxNodes ?? Math.max(5000, totalPeriods * 50);
+    this.timeLimitMs = options.timeLimitMs ?? 60000;
+    this.maxRepairRounds = options.maxRepairRounds ?? 5;
+    this.maxImproveIterations = options.maxImproveIterations ?? totalPeriods * 30;
+    this.random = options.random ?? Math.random;
+    this.onProgress = options.onProgress;
+    this.isCancelled = options.isCancelled;
+
+    const days: string[] = [];
+    this.slotDay = problem.slots.map(slot => {
+      let index = days.indexOf(dayKey(slot));
+      if (index === -1) {
+        index = days.length;
+        days.push(dayKey(slot));
+      }
+      return index;
+    });
+    this.dayCount = days.length;
+    this.daySlots = days.map(() => [] as number[]);
+    this.slotDay.forEach((day, slot) => this.daySlots[day].push(slot));
+    for (const slots of this.daySlots) {
+      slots.sort((a, b) => problem.slots[a].period - problem.slots[b].period);
+    }
+
+    this.blockRun = new Array(problem.slots.length).fill(1);
+    for (const slots of this.daySlots) {
+      for (let pos = slots.length - 2; pos >= 0; pos--) {
+        if (!problem.slots[slots[pos + 1]].breakBefore) {
+          this.blockRun[slots[pos]] = this.blockRun[slots[pos + 1]] + 1;
+        }
+      }
+    }
+
+    const slotIndex = new Map(problem.slots.map((slot, index) => [`${dayKey(slot)}|${slot.period}`, index]));
+    const fixedLessons = new Map<string, { lesson: SolverFixedLesson; classIds: Set<string>; slots: Set<number> }>();
+    (problem.fixed || []).forEach((lesson, index) => {
+      const slot = slotIndex.get(`${dayKey(lesson)}|${lesson.period}`);
+      // Lessons in periods the current structure no longer has cannot hold anything
+      if (slot === undefined) return;
+      const owner = lesson.lessonGroupId ? `${lesson.lessonGroupId}|${lesson.teacherId}` : `${lesson.classId}|${lesson.teacherId}`;
+      const key = lesson.blockId ? `${lesson.blockId}|${owner}` : lesson.lessonGroupId ? `${slot}|${owner}` : String(index);
+      if (!fixedLessons.has(key)) fixedLessons.set(key, { lesson, classIds: new Set(), slots: new Set() });
+      fixedLessons.get(key)!.classIds.add(lesson.classId);
+      fixedLessons.get(key)!.slots.add(slot);
+    });
+    this.requirements = [...problem.requirements];
+    fixedLessons.forEach(({ lesson, classIds, slots: slotSet }) => {
+      const slots = Array.from(slotSet).sort((a, b) => a - b);
+      const [classId, ...extraClassIds] = Array.from(classIds);
+      this.fixedPlacements.push({
+        req: this.requirements.length,
+        slot: slots[0],
+        slots,
+        teacherId: lesson.teacherId,
+        roomId: lesson.roomId,
+        fixed: true,
+      });
+      this.requirements.push({
+        classId,
+        subjectId: lesson.subjectId,
+        periodsNeeded: 0,
+        teacherIds: [lesson.teacherId],
+        roomIds: lesson.roomId ? [lesson.roomId] : undefined,
+        lessonGroupId: lesson.lessonGroupId ?? undefined,
+        extraClassIds,
+      });
+    });
+
+    const groups: string[] = [];
+    this.groupOf = this.requirements.map(req => {
+      const key = `${req.lessonGroupId ?? req.classId}|${req.subjectId}`;
+      let index = groups.indexOf(key);
+      if (index === -1) {
+        index = groups.length;
+        groups.push(key);
+      }
+      return index;
+    });
+
+    this.classIdsOf = this.requirements.map(req => [req.classId, ...(req.extraClassIds || [])]);
+    this.isLessonGroup = this.requirements.map(req =>
+      (req.extraClassIds?.length ?? 0) > 0 || (req.parallelStreams?.length ?? 0) > 0);
+    this.overlapping = problem.slots.map((slot, index) =>
+      problem.slots
+        .map((other, otherIndex) => ({ other, otherIndex }))
+        .filter(({ other, otherIndex }) =>
+          otherIndex !== index && other.shift !== slot.shift && dayKey(other) === dayKey(slot) &&
+          other.startTime < slot.endTime && slot.startTime < other.endTime)
+        .map(({ otherIndex }) => otherIndex));
+    const travelMinutes = problem.travel?.minutes ?? 0;
+    this.nearby = problem.slots.map((slot, index) =>
+      travelMinutes <= 0 ? [] : this.daySlots[this.slotDay[index]].filter(other => {
+        const { startTime, endTime } = problem.slots[other];
+        const gap = endTime <= slot.startTime
+          ? minutesBetween(endTime, slot.startTime)
+          : minutesBetween(slot.endTime, startTime);
+        return other !== index && gap >= 0 && gap < travelMinutes;
+      }));
+    this.shiftSlots = this.classIdsOf.map(classIds => {
+      const shifts = classIds.map(classId => problem.classShifts?.get(classId));
+      if (shifts.every(shift => shift === undefined)) return null;
+      const mask = problem.slots.map(slot => !slot.shift || shifts.every(shift => shift === slot.shift));
+      return mask.every(Boolean) ? null : mask;
+    });
+    this.allowedSlots = this.requirements.map(({ excludedPeriods }, req) => {
+      const shift = this.shiftSlots[req];
+      if (!excludedPeriods?.length) return shift;
+      return problem.slots.map((slot, index) => (!shift || shift[index]) && !excludedPeriods.includes(slot.period));
+    });
+
+    for (const req of this.requirements) {
+      for (const teacherId of streamsOf(req).flatMap(stream => stream.teacherIds)) {
+        if (this.unavailable.has(teacherId)) continue;
+        this.unavailable.set(
+          teacherId,
+          problem.slots.map(slot => problem.teacherUnavailable.has(`${teacherId}|${slot.day}|${slot.period}`))
+        );
+      }
+    }
+  }
+
+  async solve(): Promise<SolveResult> {
+    this.reset();
+    this.deadline = Date.now() + this.timeLimitMs;
+    this.totalLessons = this.remaining.reduce((sum, r) => sum + r, 0);
+
+    const structural = this.findStructuralConflicts();
+    let complete = false;
+
+    if (structural.length === 0) {
+      complete = await this.search();
+    }
+
+    if (complete && this.problem.softConstraints && !this.cancelled) {
+      await this.improve();
+    }
+
+    if (!complete && !this.cancelled) {
+      // Continue from the deepest partial assignment the search reached
+      this.restore(this.best);
+      this.greedyFill();
+      await this.repair();
+      complete = this.remaining.every(r => r <= 0);
+    }
+
+    const conflicts = complete ? [] : [...structural, ...this.findUnplaced()];
+
+    return {
+      placements: Array.from(this.placements).flatMap((p, lesson) => this.toSolverPlacements(p, lesson)),
+      complete,
+      conflicts,
+      stats: {
+        nodes: this.nodes,
+        backtracks: this.backtracks,
+        timedOut: this.timedOut,
+        cancelled: this.cancelled,
+      },
+    };
+  }
+
+  private reset() {
+    const slotCount = this.problem.slots.length;
+    this.classSlots.clear();
+    this.teacherSlots.clear();
+    this.roomSlots.clear();
+    this.teacherLoad.clear();
+    this.teacherDayLoad.clear();
+    this.dailyCounts = new Int16Array((Math.max(-1, ...this.groupOf) + 1) * this.dayCount);
+    this.placements.clear();
+    this.best = [];
+    this.nodes = 0;
+    this.backtracks = 0;
+    this.timedOut = false;
+
+    this.requirements.forEach((req, index) => {
+      for (const classId of this.classIdsOf[index]) {
+        if (!this.classSlots.has(classId)) {
+          this.classSlots.set(classId, new Array(slotCount).fill(null));
+        }
+      }
+      for (const stream of streamsOf(req)) {
+        for (const teacherId of stream.teacherIds) {
+          if (!this.teacherSlots.has(teacherId)) {
+            this.teacherSlots.set(teacherId, new Array(slotCount).fill(null));
+            this.teacherLoad.set(teacherId, 0);
+            this.teacherDayLoad.set(teacherId, new Int16Array(this.dayCount));
+          }
+        }
+        for (const roomId of stream.roomIds || []) {
+          if (!this.roomSlots.has(roomId)) {
+            this.roomSlots.set(roomId, new Array(slotCount).fill(null));
+          }
+        }
+      }
+    });
+    this.remaining = this.requirements.map(r => Math.ceil(r.periodsNeeded / (r.blockLength || 1)));
+
+    // Fixed lessons occupy their slots but are not placements of this solve
+    for (const placement of this.fixedPlacements) {
+      this.mark(placement, placement);
+      this.addLoad(placement, 1);
+      this.dailyCounts[this.dailyIndex(placement.req, placement.slot)] += placement.slots.length;
+    }
+  }
+
+  private restore(placements: Placement[]) {
+    for (const placement of Array.from(this.placements)) {
+      this.unplace(placement);
+    }
+    for (const placement of placements) {
+      this.place(placement);
+    }
+  }
+
+  // ---- State helpers ----
+
+  private dailyIndex(req: number, slot: number): number {
+    return this.groupOf[req] * this.dayCount + this.slotDay[slot];
+  }
+
+  private lengthOf(req: number): number {
+    return this.requirements[req].blockLength || 1;
+  }
+
+  // A block may take more periods in a day than the usual per-subject limit
+  private dailyCap(req: number): number {
+    return Math.max(this.problem.maxDailyPerSubject, this.lengthOf(req));
+  }
+
+  // Slots covered by a lesson of the requirement starting at the given slot,
+  // or null when the block would run past the end of the day or across a break
+  private coveredSlots(req: number, slot: number): number[] | null {
+    const length = this.lengthOf(req);
+    if (length === 1) return [slot];
+    if (this.blockRun[slot] < length) return null;
+    const daySlots = this.daySlots[this.slotDay[slot]];
+    const start = daySlots.indexOf(slot);
+    return daySlots.slice(start, start + length);
+  }
+
+  private place(placement: Placement) {
+    this.mark(placement, placement);
+    this.addLoad(placement, 1);
+    this.dailyCounts[this.dailyIndex(placement.req, placement.slot)] += placement.slots.length;
+    this.remaining[placement.req]--;
+    this.placements.add(placement);
+  }
+
+  private unplace(placement: Placement) {
+    this.mark(placement, null);
+    this.addLoad(placement, -1);
+    this.dailyCounts[this.dailyIndex(placement.req, placement.slot)] -= placement.slots.length;
+    this.remaining[placement.req]++;
+    this.placements.delete(placement);
+  }
+
+  // Set the slots of every class, teacher and room the placement occupies
+  private mark(placement: Placement, value: Placement | null) {
+    const assignments = this.assignmentsOf(placement);
+    for (const slot of placement.slots) {
+      for (const classId of this.classIdsOf[placement.req]) {
+        this.classSlots.get(classId)![slot] = value;
+      }
+      for (const { teacherId, roomId } of assignments) {
+        this.teacherSlots.get(teacherId)![slot] = value;
+        if (roomId) this.roomSlots.get(roomId)![slot] = value;
+      }
+    }
+  }
+
+  private addLoad(placement: Placement, sign: number) {
+    const periods = sign * placement.slots.length;
+    const day = this.slotDay[placement.slot];
+    for (const { teacherId } of this.assignmentsOf(placement)) {
+      this.teacherLoad.set(teacherId, this.teacherLoad.get(teacherId)! + periods);
+      this.teacherDayLoad.get(teacherId)![day] += periods;
+    }
+  }
+
+  // The requirement's subject, or that of the parallel stream the teacher teaches
+  private subjectTaughtBy(placement: Placement, teacherId: string): string {
+    const { subjectId, parallelStreams = [] } = this.requirements[placement.req];
+    const index = placement.parallel?.findIndex(stream => stream.teacherId === teacherId) ?? -1;
+    return index === -1 ? subjectId : parallelStreams[index].subjectId;
+  }
+
+  private assignmentsOf(placement: Placement): StreamAssignment[] {
+    const own = { teacherId: placement.teacherId, roomId: placement.roomId };
+    return placement.parallel ? [own, ...placement.parallel] : [own];
+  }
+
+  private isTeacherFree(teacherId: string, slots: number[]): boolean {
+    const row = this.teacherSlots.get(teacherId)!;
+    return slots.every(slot => this.isFreeAt(row, slot) && !this.isTeacherUnavailable(teacherId, slot));
+  }
+
+  // Free in the slot and in any slot of another shift running at the same time
+  private isFreeAt(row: (Placement | null)[], slot: number): boolean {
+    return !row[slot] && this.overlapping[slot].every(other => !row[other]);
+  }
+
+  // Free in the slots, and teaching them keeps the teacher within their load limits
+  private canTeach(teacherId: string, slots: number[]): boolean {
+    return this.isTeacherFree(teacherId, slots) && this.withinLimits(teacherId, slots);
+  }
+
+  private withinLimits(teacherId: string, slots: number[]): boolean {
+    const limits = this.problem.teacherLimits?.get(teacherId);
+    if (!limits) return true;
+    if (limits.maxWeekly !== undefined && this.teacherLoad.get(teacherId)! + slots.length > limits.maxWeekly) {
+      return false;
+    }
+    const day = this.slotDay[slots[0]];
+    if (limits.maxDaily !== undefined && this.teacherDayLoad.get(teacherId)![day] + slots.length > limits.maxDaily) {
+      return false;
+    }
+    return limits.maxConsecutive === undefined || this.consecutiveRun(teacherId, slots) <= limits.maxConsecutive;
+  }
+
+  // Length of the run of back-to-back periods the teacher would teach through
+  // the given (contiguous) slots; a break ends a run
+  private consecutiveRun(teacherId: string, slots: number[]): number {
+    const row = this.teacherSlots.get(teacherId)!;
+    const daySlots = this.daySlots[this.slotDay[slots[0]]];
+    const busy = (pos: number) => !!row[daySlots[pos]];
+    const breakBefore = (pos: number) => !!this.problem.slots[daySlots[pos]].breakBefore;
+
+    let start = daySlots.indexOf(slots[0]);
+    let end = daySlots.indexOf(slots[slots.length - 1]);
+    while (start > 0 && !breakBefore(start) && busy(start - 1)) start--;
+    while (end < daySlots.length - 1 && !breakBefore(end + 1) && busy(end + 1)) end++;
+    return end - start + 1;
+  }
+
+  private isRoomFree(roomId: string, slots: number[]): boolean {
+    const row = this.roomSlots.get(roomId)!;
+    return slots.every(slot => this.isFreeAt(row, slot));
+  }
+
+  private isTeacherUnavailable(teacherId: string, slot: number): boolean {
+    return this.unavailable.get(teacherId)![slot];
+  }
+
+  // Building a lesson is held in: that of its room, or else that of its class
+  private buildingOf(req: number, roomId: string | null): string | undefined {
+    const travel = this.problem.travel;
+    if (!travel) return undefined;
+    return (roomId ? travel.roomBuildings.get(roomId) : undefined) ?? travel.classBuildings.get(this.requirements[req].classId);
+  }
+
+  // Whether the teacher has a lesson in another building too close before or after the slots
+  private tooFarToReach(teacherId: string, slots: number[], building: string | undefined): boolean {
+    if (!building) return false;
+    const row = this.teacherSlots.get(teacherId)!;
+    return slots.some(slot => this.nearby[slot].some(other => {
+      const placement = row[other];
+      if (!placement) return false;
+      const assignment = this.assignmentsOf(placement).find(a => a.teacherId === teacherId)!;
+      const elsewhere = this.buildingOf(placement.req, assignment.roomId);
+      return !!elsewhere && elsewhere !== building;
+    }));
+  }
+
+  private dailyLimitReached(req: number, slot: number): boolean {
+    return this.dailyCounts[this.dailyIndex(req, slot)] + this.lengthOf(req) > this.dailyCap(req);
+  }
+
+  // Room a lesson would get in the given slots: null when the requirement needs
+  // no particular room, undefined when every eligible room is taken.
+  private freeRoom(req: number, slots: number[]): string | null | undefined {
+    const { roomIds } = this.requirements[req];
+    if (!roomIds) return null;
+    return roomIds.find(roomId => this.isRoomFree(roomId, slots));
+  }
+
+  // Teachers and rooms for the parallel streams of a lesson group, chosen in
+  // preference order among those still free, or null when a stream has none
+  private assignStreams(req: number, slots: number[], teacherId: string, roomId: string | null): StreamAssignment[] | null {
+    const { parallelStreams } = this.requirements[req];
+    const assignments: StreamAssignment[] = [];
+    if (!parallelStreams) return assignments;
+
+    const usedTeachers = new Set([teacherId]);
+    const usedRooms = new Set(roomId ? [roomId] : []);
+    for (const stream of parallelStreams) {
+      let streamRoom: string | null = null;
+      if (stream.roomIds) {
+        const free = stream.roomIds.find(id => !usedRooms.has(id) && this.isRoomFree(id, slots));
+        if (!free) return null;
+        streamRoom = free;
+      }
+      const building = this.buildingOf(req, streamRoom);
+      const streamTeacher = stream.teacherIds.find(id =>
+        !usedTeachers.has(id) && this.canTeach(id, slots) && !this.tooFarToReach(id, slots, building));
+      if (!streamTeacher) return null;
+      if (streamRoom) usedRooms.add(streamRoom);
+      usedTeachers.add(streamTeacher);
+      assignments.push({ teacherId: streamTeacher, roomId: streamRoom });
+    }
+    return assignments;
+  }
+
+  private canPlace(placement: Placement): boolean {
+    const { req, slots, roomId } = placement;
+    const { roomIds, parallelStreams = [] } = this.requirements[req];
+    if (roomIds && !roomId) return false;
+    if ((placement.parallel?.length ?? 0) !== parallelStreams.length) return false;
+    if (placement.parallel?.some((stream, index) => parallelStreams[index].roomIds && !stream.roomId)) return false;
+
+    for (const classId of this.classIdsOf[req]) {
+      const classRow = this.classSlots.get(classId)!;
+      if (slots.some(slot => classRow[slot])) return false;
+    }
+    for (const assignment of this.assignmentsOf(placement)) {
+      if (!this.canTeach(assignment.teacherId, slots)) return false;
+      if (assignment.roomId && !this.isRoomFree(assignment.roomId, slots)) return false;
+      if (this.tooFarToReach(assignment.teacherId, slots, this.buildingOf(req, assignment.roomId))) return false;
+    }
+    return !this.dailyLimitReached(req, placement.slot) && this.followsPlacementRules(req, slots);
+  }
+
+  private followsPlacementRules(req: number, slots: number[]): boolean {
+    const allowed = this.allowedSlots[req];
+    if (allowed && slots.some(slot => !allowed[slot])) return false;
+    return !this.requirements[req].spreadDays || !this.adjacentDayTaken(req, this.slotDay[slots[0]]);
+  }
+
+  // Whether the requirement's class and subject already have a lesson the day before or after
+  private adjacentDayTaken(req: number, day: number): boolean {
+    const base = this.groupOf[req] * this.dayCount;
+    return (day > 0 && this.dailyCounts[base + day - 1] > 0) ||
+      (day < this.dayCount - 1 && this.dailyCounts[base + day + 1] > 0);
+  }
+
+  // Whether the slot is free for the class and for at least one teacher and room
+  private isUsable(req: number, classRow: (Placement | null)[], teacherIds: string[], slot: number): boolean {
+    if (classRow[slot]) return false;
+    if (this.allowedSlots[req] && !this.allowedSlots[req]![slot]) return false;
+
+    const { roomIds, extraClassIds, parallelStreams } = this.requirements[req];
+    if (roomIds && !roomIds.some(roomId => this.isFreeAt(this.roomSlots.get(roomId)!, slot))) return false;
+    // Without a room to choose, the lesson's building is known up front
+    if (!this.hasFreeTeacher(teacherIds, slot, roomIds ? undefined : this.buildingOf(req, null))) return false;
+
+    if (this.isLessonGroup[req]) {
+      if (extraClassIds?.some(classId => this.classSlots.get(classId)![slot])) return false;
+      for (const stream of parallelStreams || []) {
+        if (!this.hasFreeTeacher(stream.teacherIds, slot, stream.roomIds ? undefined : this.buildingOf(req, null))) return false;
+        if (stream.roomIds && !stream.roomIds.some(roomId => this.isFreeAt(this.roomSlots.get(roomId)!, slot))) return false;
+      }
+    }
+    return true;
+  }
+
+  private hasFreeTeacher(teacherIds: string[], slot: number, building?: string): boolean {
+    for (const teacherId of teacherIds) {
+      if (!this.isFreeAt(this.teacherSlots.get(teacherId)!, slot) || this.isTeacherUnavailable(teacherId, slot)) continue;
+      if (this.tooFarToReach(teacherId, [slot], building)) continue;
+      if (this.problem.teacherLimits?.has(teacherId) && !this.withinLimits(teacherId, [slot])) continue;
+      return true;
+    }
+    return false;
+  }
+
+  // Upper bound on how many more lessons a requirement can still receive,
+  // taking breaks, the per-day subject cap and placement rules into account.
+  private capacity(req: number): number {
+    const { classId, teacherIds, spreadDays } = this.requirements[req];
+    const classRow = this.classSlots.get(classId)!;
+    const length = this.lengthOf(req);
+    const cap = this.dailyCap(req);
+    let total = 0;
+
+    for (let day = 0; day < this.dayCount; day++) {
+      if (spreadDays && this.adjacentDayTaken(req, day)) continue;
+      // Count the blocks that fit into runs of usable slots
+      let lessons = 0;
+      let run = 0;
+      for (const slot of this.daySlots[day]) {
+        if (this.problem.slots[slot].breakBefore) {
+          lessons += Math.floor(run / length);
+          run = 0;
+        }
+        if (this.isUsable(req, classRow, teacherIds, slot)) {
+          run++;
+        } else {
+          lessons += Math.floor(run / length);
+          run = 0;
+        }
+      }
+      lessons += Math.floor(run / length);
+
+      const capLeft = Math.floor((cap - this.dailyCounts[this.groupOf[req] * this.dayCount + day]) / length);
+      total += Math.max(0, Math.min(lessons, capLeft));
+    }
+    return total;
+  }
+
+  // Most-constrained-first selection with forward checking: returns DEAD_END
+  // as soon as any unfinished requirement can no longer be satisfied.
+  private selectRequirement(): number {
+    let bestReq = DONE;
+    let bestSlack = Infinity;
+
+    for (let req = 0; req < this.remaining.length; req++) {
+      if (this.remaining[req] <= 0) continue;
+      const slack = this.capacity(req) - this.remaining[req];
+      if (slack < 0) return DEAD_END;
+      if (slack < bestSlack) {
+        bestSlack = slack;
+        bestReq = req;
+      }
+    }
+
+    return bestReq;
+  }
+
+  // Candidate placements ordered so that the lowest soft penalty comes first
+  // and, among equals, days with fewer periods of the subject are tried first.
+  private options(req: number, excludeSlot = -1): Placement[] {
+    const candidates = this.feasiblePlacements(req, excludeSlot).map(placement => ({
+      placement,
+      penalty: this.problem.softConstraints ? this.placementPenalty(placement) : 0,
+      dailyCount: this.dailyCounts[this.dailyIndex(req, placement.slot)],
+      tiebreak: this.random(),
+    }));
+
+    return candidates
+      .sort((a, b) => a.penalty - b.penalty || a.dailyCount - b.dailyCount || a.tiebreak - b.tiebreak)
+      .map(c => c.placement);
+  }
+
+  private feasiblePlacements(req: number, excludeSlot = -1): Placement[] {
+    const placements: Placement[] = [];
+    const { teacherIds } = this.requirements[req];
+
+    for (let slot = 0; slot < this.problem.slots.length; slot++) {
+      if (slot === excludeSlot) continue;
+      const slots = this.coveredSlots(req, slot);
+      if (!slots) continue;
+      const roomId = this.freeRoom(req, slots);
+      if (roomId === undefined) continue;
+      for (const teacherId of teacherIds) {
+        const parallel = this.assignStreams(req, slots, teacherId, roomId);
+        if (!parallel) continue;
+        const placement: Placement = { req, slot, slots, teacherId, roomId };
+        if (parallel.length > 0) placement.parallel = parallel;
+        if (this.canPlace(placement)) {
+          placements.push(placement);
+        }
+      }
+    }
+
+    return placements;
+  }
+
+  private exhausted(): boolean {
+    if (this.timedOut || this.cancelled) return true;
+    if (this.nodes >= this.maxNodes || ((this.nodes & 255) === 0 && Date.now() > this.deadline)) {
+      this.timedOut = true;
+    }
+    return this.timedOut;
+  }
+
+  private trackBest() {
+    if (this.placements.size > this.best.length) {
+      this.best = Array.from(this.placements);
+    }
+  }
+
+  // Reports progress and lets other work run, so a running solve can be polled and cancelled
+  private async checkpoint(phase: SolverPhase, percent: number) {
+    if (!this.onProgress && !this.isCancelled) return;
+    this.onProgress?.({
+      phase,
+      percent: Math.min(100, Math.round(percent)),
+      penalty: phase === "optimizing" ? this.localPenalty(Array.from(this.placements)) : null,
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    if (this.isCancelled?.()) this.cancelled = true;
+  }
+
+  // ---- Search phases ----
+
+  private async search(): Promise<boolean> {
+    if (this.exhausted()) return false;
+    this.nodes++;
+    if ((this.nodes & 1023) === 0) {
+      await this.checkpoint("searching", (100 * this.best.length) / Math.max(1, this.totalLessons));
+      if (this.exhausted()) return false;
+    }
+
+    const req = this.selectRequirement();
+    if (req === DONE) return true;
+    if (req === DEAD_END) return false;
+
+    for (const placement of this.options(req)) {
+      this.place(placement);
+      this.trackBest();
+      if (await this.search()) return true;
+      this.unplace(placement);
+      this.backtracks++;
+      if (this.exhausted()) return false;
+    }
+
+    return false;
+  }
+
+  private greedyFill() {
+    const stuck = new Set<number>();
+
+    while (true) {
+      let next = -1;
+      let nextSlack = Infinity;
+      for (let req = 0; req < this.remaining.length; req++) {
+        if (this.remaining[req] <= 0 || stuck.has(req)) continue;
+        const slack = this.capacity(req) - this.remaining[req];
+        if (slack < nextSlack) {
+          nextSlack = slack;
+          next = req;
+        }
+      }
+      if (next === -1) return;
+
+      const [placement] = this.options(next);
+      if (placement) {
+        this.place(placement);
+      } else {
+        stuck.add(next);
+      }
+    }
+  }
+
+  // Local repair: for each period still missing, try to free a slot by moving
+  // the single placement that blocks it (same class, teacher or room) to any
+  // other feasible slot.
+  private async repair() {
+    for (let round = 0; round < this.maxRepairRounds; round++) {
+      await this.checkpoint("repairing", (100 * round) / this.maxRepairRounds);
+      if (this.cancelled) return;
+      let improved = false;
+      for (let req = 0; req < this.remaining.length; req++) {
+        while (this.remaining[req] > 0 && this.repairOne(req)) {
+          improved = true;
+        }
+      }
+      if (!improved) return;
+    }
+  }
+
+  private repairOne(req: number): boolean {
+    // Lesson groups block too many classes and teachers for a single move to free them
+    if (this.isLessonGroup[req]) return false;
+    const { classId, teacherIds, roomIds } = this.requirements[req];
+    const roomChoices: (string | null)[] = roomIds || [null];
+
+    for (let slot = 0; slot < this.problem.slots.length; slot++) {
+      const slots = this.coveredSlots(req, slot);
+      if (!slots || this.dailyLimitReached(req, slot)) continue;
+
+      for (const teacherId of teacherIds) {
+        if (slots.some(s => this.isTeacherUnavailable(teacherId, s))) continue;
+
+        for (const roomId of roomChoices) {
+          const blockers = new Set<Placement>();
+          for (const s of slots) {
+            const classBlocker = this.classSlots.get(classId)![s];
+            const teacherBlocker = this.teacherSlots.get(teacherId)![s];
+            const roomBlocker = roomId ? this.roomSlots.get(roomId)![s] : null;
+            if (classBlocker) blockers.add(classBlocker);
+            if (teacherBlocker) blockers.add(teacherBlocker);
+            if (roomBlocker) blockers.add(roomBlocker);
+          }
+
+          const target: Placement = { req, slot, slots, teacherId, roomId };
+          if (blockers.size === 0) {
+            // Nothing occupies the slots, but the teacher's load limits may still rule them out
+            if (!this.canPlace(target)) continue;
+            this.place(target);
+            return true;
+          }
+          if (blockers.size > 1) continue;
+
+          const [blocker] = Array.from(blockers);
+          if (blocker.fixed) continue;
+          this.unplace(blocker);
+          if (!this.canPlace(target)) {
+            this.place(blocker);
+            continue;
+          }
+
+          this.place(target);
+          const [moved] = this.options(blocker.req, blocker.slot);
+          if (moved) {
+            this.place(moved);
+            return true;
+          }
+          this.unplace(target);
+          this.place(blocker);
+        }
+      }
+    }
+
+    return false;
+  }
+
+  // ---- Soft constraints ----
+
+  private classDayPenalty(classId: string, day: number): number {
+    const context = this.problem.softConstraints!;
+    const row = this.classSlots.get(classId)!;
+    const slots = this.daySlots[day];
+    const counts = emptyViolations();
+    countClassDayViolations(
+      slots.map(slot => (row[slot] ? this.requirements[row[slot]!.req].subjectId : null)),
+      slots.map(slot => this.problem.slots[slot].period),
+      context,
+      counts,
+      slots.map((slot, pos) => pos > 0 && row[slot] !== null && row[slot] === row[slots[pos - 1]])
+    );
+    return weighViolations(counts, context.weights);
+  }
+
+  private teacherDayPenalty(teacherId: string, day: number): number {
+    const context = this.problem.softConstraints!;
+    const row = this.teacherSlots.get(teacherId)!;
+    const slots = this.daySlots[day];
+    const counts = emptyViolations();
+    countTeacherDayViolations(
+      slots.map(slot => row[slot] !== null),
+      counts,
+      slots.map(slot => {
+        const placement = row[slot];
+        if (!placement) return false;
+        const { day: dayName, period } = this.problem.slots[slot];
+        return isDispreferred(
+          context, teacherId, dayName, period, this.classIdsOf[placement.req], this.subjectTaughtBy(placement, teacherId));
+      })
+    );
+    return weighViolations(counts, context.weights);
+  }
+
+  // Penalty of every class-day and teacher-day touched by the given placements
+  private localPenalty(placements: Placement[]): number {
+    const classDays = new Set<string>();
+    const teacherDays = new Set<string>();
+    let total = 0;
+
+    for (const placement of placements) {
+      const day = this.slotDay[placement.slot];
+      for (const classId of this.classIdsOf[placement.req]) {
+        const classKey = `${classId}|${day}`;
+        if (!classDays.has(classKey)) {
+          classDays.add(classKey);
+          total += this.classDayPenalty(classId, day);
+        }
+      }
+      for (const { teacherId } of this.assignmentsOf(placement)) {
+        const teacherKey = `${teacherId}|${day}`;
+        if (!teacherDays.has(teacherKey)) {
+          teacherDays.add(teacherKey);
+          total += this.teacherDayPenalty(teacherId, day);
+        }
+      }
+    }
+
+    return total;
+  }
+
+  // Extra penalty incurred by adding a placement to the current state
+  private placementPenalty(placement: Placement): number {
+    const before = this.localPenalty([placement]);
+    this.place(placement);
+    const after = this.localPenalty([placement]);
+    this.unplace(placement);
+    return after - before;
+  }
+
+  // Hill climbing with sideways moves: relocate a lesson to another feasible
+  // slot, or swap two lessons of the same class and length, keeping any change
+  // that does not make the penalty worse. Lesson groups are only relocated.
+  private async improve() {
+    for (let iteration = 0; iteration < this.maxImproveIterations; iteration++) {
+      if (iteration % 500 === 0) {
+        await this.checkpoint("optimizing", (100 * iteration) / this.maxImproveIterations);
+        if (this.cancelled) return;
+      }
+      const all = Array.from(this.placements);
+      if (all.length === 0) return;
+      const placement = all[Math.floor(this.random() * all.length)];
+
+      if (this.random() < 0.5) {
+        this.tryRelocate(placement);
+      } else {
+        this.trySwap(placement);
+      }
+    }
+  }
+
+  private tryRelocate(placement: Placement) {
+    this.unplace(placement);
+    const candidates = this.feasiblePlacements(placement.req, placement.slot);
+    this.place(placement);
+    if (candidates.length === 0) return;
+
+    const target = candidates[Math.floor(this.random() * candidates.length)];
+    const before = this.localPenalty([placement, target]);
+    this.unplace(placement);
+    this.place(target);
+    const after = this.localPenalty([placement, target]);
+
+    if (after > before) {
+      this.unplace(target);
+      this.place(placement);
+    }
+  }
+
+  private trySwap(placement: Placement) {
+    if (this.isLessonGroup[placement.req]) return;
+    const { classId } = this.requirements[placement.req];
+    const row = this.classSlots.get(classId)!;
+    const length = placement.slots.length;
+    const others = Array.from(new Set(row)).filter((p): p is Placement =>
+      p !== null && !p.fixed && p.req !== placement.req && p.slots.length === length && !this.isLessonGroup[p.req]);
+    if (others.length === 0) return;
+
+    const other = others[Math.floor(this.random() * others.length)];
+    const movedA: Placement = {
+      req: placement.req,
+      slot: other.slot,
+      slots: other.slots,
+      teacherId: placement.teacherId,
+      roomId: null,
+    };
+    const movedB: Placement = {
+      req: other.req,
+      slot: placement.slot,
+      slots: placement.slots,
+      teacherId: other.teacherId,
+      roomId: null,
+    };
+    const touched = [placement, other, movedA, movedB];
+
+    const before = this.localPenalty(touched);
+    this.unplace(placement);
+    this.unplace(other);
+
+    movedA.roomId = this.freeRoom(movedA.req, movedA.slots) ?? null;
+    if (this.canPlace(movedA)) {
+      this.place(movedA);
+      movedB.roomId = this.freeRoom(movedB.req, movedB.slots) ?? null;
+      if (this.canPlace(movedB)) {
+        this.place(movedB);
+        if (this.localPenalty(touched) <= before) return;
+        this.unplace(movedB);
+      }
+      this.unplace(movedA);
+    }
+
+    this.place(placement);
+    this.place(other);
+  }
+
+  // ---- Diagnosis ----
+
+  // Runs right after reset, so the only occupied slots are those of fixed lessons
+  private findStructuralConflicts(): ScheduleConflict[] {
+    const conflicts: ScheduleConflict[] = [];
+    const { slots, requirements } = this.problem;
+    const freeSlots = (row: (Placement | null)[]) => row.filter(placement => !placement).length;
+
+    const classDemand = new Map<string, number>();
+    const soleTeacherDemand = new Map<string, number>();
+    const roomSets = new Map<string, string[]>();
+
+    requirements.forEach((req, index) => {
+      const { lessonGroupId } = req;
+      for (const classId of this.classIdsOf[index]) {
+        classDemand.set(classId, (classDemand.get(classId) || 0) + req.periodsNeeded);
+      }
+
+      for (const stream of streamsOf(req)) {
+        if (stream.teacherIds.length === 0) {
+          conflicts.push({
+            type: "no_qualified_teacher",
+            classId: req.classId,
+            subjectId: stream.subjectId,
+            teacherIds: [],
+            lessonGroupId,
+            required: req.periodsNeeded,
+            available: 0,
+          });
+        } else if (stream.teacherIds.length === 1) {
+          const teacherId = stream.teacherIds[0];
+          soleTeacherDemand.set(teacherId, (soleTeacherDemand.get(teacherId) || 0) + req.periodsNeeded);
+        }
+
+        if (stream.roomIds && stream.roomIds.length === 0) {
+          conflicts.push({
+            type: "no_suitable_room",
+            classId: req.classId,
+            subjectId: stream.subjectId,
+            teacherIds: stream.teacherIds,
+            roomIds: [],
+            lessonGroupId,
+            required: req.periodsNeeded,
+            available: 0,
+          });
+        } else if (stream.roomIds) {
+          roomSets.set([...stream.roomIds].sort().join("|"), stream.roomIds);
+        }
+      }
+
+      const length = this.lengthOf(index);
+      const perDay = Math.floor(this.dailyCap(index) / length);
+      // Blocks that fit between the breaks of each day of the shift, up to the daily cap
+      const blockSlots = this.daySlots.reduce((sum, daySlots) =>
+        sum + Math.min(perDay, this.blocksWithin(index, daySlots, this.shiftSlots[index])), 0);
+      // The same within the periods the placement rules allow; spread lessons
+      // can use at most every other day
+      const ruleDays = this.daySlots
+        .map(daySlots => Math.min(perDay, this.blocksWithin(index, daySlots, this.allowedSlots[index])))
+        .sort((a, b) => b - a)
+        .slice(0, req.spreadDays ? Math.ceil(this.dayCount / 2) : this.dayCount);
+      const ruleSlots = ruleDays.reduce((sum, blocks) => sum + blocks, 0);
+
+      if (req.periodsNeeded > perDay * length * this.dayCount) {
+        conflicts.push({
+          type: "daily_limit",
+          classId: req.classId,
+          subjectId: req.subjectId,
+          teacherIds: req.teacherIds,
+          lessonGroupId,
+          required: req.periodsNeeded,
+          available: perDay * length * this.dayCount,
+        });
+      } else if (req.periodsNeeded > blockSlots * length) {
+        conflicts.push({
+          type: "no_block_slots",
+          classId: req.classId,
+          subjectId: req.subjectId,
+          teacherIds: req.teacherIds,
+          lessonGroupId,
+          required: req.periodsNeeded,
+          available: blockSlots * length,
+        });
+      } else if (req.periodsNeeded > ruleSlots * length) {
+        conflicts.push({
+          type: "placement_rule",
+          classId: req.classId,
+          subjectId: req.subjectId,
+          teacherIds: req.teacherIds,
+          lessonGroupId,
+          required: req.periodsNeeded,
+          available: ruleSlots * length,
+        });
+      }
+    });
+
+    classDemand.forEach((demand, classId) => {
+      const shift = this.problem.classShifts?.get(classId);
+      const row = this.classSlots.get(classId)!;
+      const available = slots.filter((slot, index) => !row[index] && (!shift || !slot.shift || slot.shift === shift)).length;
+      if (demand > available) {
+        conflicts.push({
+          type: "class_over_capacity",
+          classId,
+          teacherIds: [],
+          required: demand,
+          available,
+        });
+      }
+    });
+
+    soleTeacherDemand.forEach((demand, teacherId) => {
+      const row = this.teacherSlots.get(teacherId)!;
+      const available = slots.filter((_, index) => !row[index] && !this.isTeacherUnavailable(teacherId, index)).length;
+      const limits = this.problem.teacherLimits?.get(teacherId);
+      const loadLimit = Math.min(
+        limits?.maxWeekly ?? Infinity,
+        limits?.maxDaily !== undefined ? limits.maxDaily * this.dayCount : Infinity
+      ) - this.teacherLoad.get(teacherId)!;
+      if (demand > available) {
+        conflicts.push({
+          type: "teacher_over_capacity",
+          teacherIds: [teacherId],
+          required: demand,
+          available,
+        });
+      } else if (demand > loadLimit) {
+        conflicts.push({
+          type: "teacher_load_limit",
+          teacherIds: [teacherId],
+          required: demand,
+          available: loadLimit,
+        });
+      }
+    });
+
+    // Lessons that can only use rooms from a set cannot outnumber the slots of those rooms
+    roomSets.forEach(roomIds => {
+      const demand = requirements
+        .flatMap(req => streamsOf(req).map(stream => ({ stream, periods: req.periodsNeeded })))
+        .filter(({ stream }) =>
+          stream.roomIds && stream.roomIds.length > 0 && stream.roomIds.every(id => roomIds.includes(id)))
+        .reduce((sum, { periods }) => sum + periods, 0);
+      const available = roomIds.reduce((sum, roomId) => sum + freeSlots(this.roomSlots.get(roomId)!), 0);
+      if (demand > available) {
+        conflicts.push({
+          type: "room_over_capacity",
+          teacherIds: [],
+          roomIds,
+          required: demand,
+          available,
+        });
+      }
+    });
+
+    return conflicts;
+  }
+
+  // Blocks of a requirement that fit into one day between breaks, using only allowed slots
+  private blocksWithin(req: number, daySlots: number[], allowed: boolean[] | null): number {
+    const length = this.lengthOf(req);
+    let blocks = 0;
+    let run = 0;
+    for (const slot of daySlots) {
+      if (this.problem.slots[slot].breakBefore || (allowed && !allowed[slot])) {
+        blocks += Math.floor(run / length);
+        run = 0;
+      }
+      if (!allowed || allowed[slot]) run++;
+    }
+    return blocks + Math.floor(run / length);
+  }
+
+  private findUnplaced(): ScheduleConflict[] {
+    const conflicts: ScheduleConflict[] = [];
+
+    this.problem.requirements.forEach((req, index) => {
+      if (this.remaining[index] <= 0 || req.teacherIds.length === 0) return;
+
+      const classRows = this.classIdsOf[index].map(classId => this.classSlots.get(classId)!);
+      const classBusy = (slot: number) => classRows.some(row => row[slot]);
+      let freeClassSlots = 0;
+      let freeBlocks = 0;
+      let withinRules = 0;
+      let underDailyLimit = 0;
+      let withFreeRoom = 0;
+      let overTeacherLimits = 0;
+      let tooFarAway = 0;
+      this.problem.slots.forEach((_, slot) => {
+        if (classBusy(slot)) return;
+        freeClassSlots++;
+        const slots = this.coveredSlots(index, slot);
+        if (!slots || slots.some(classBusy)) return;
+        freeBlocks++;
+        if (!this.followsPlacementRules(index, slots)) return;
+        withinRules++;
+        if (this.dailyLimitReached(index, slot)) return;
+        underDailyLimit++;
+        const roomId = this.freeRoom(index, slots);
+        if (roomId === undefined) return;
+        withFreeRoom++;
+        if (req.teacherIds.some(id => this.isTeacherFree(id, slots)) &&
+            !req.teacherIds.some(id => this.canTeach(id, slots))) {
+          overTeacherLimits++;
+        }
+        const building = this.buildingOf(index, roomId);
+        if (req.teacherIds.some(id => this.canTeach(id, slots)) &&
+            req.teacherIds.every(id => !this.canTeach(id, slots) || this.tooFarToReach(id, slots, building))) {
+          tooFarAway++;
+        }
+      });
+
+      const cause: UnplacedCause =
+        freeClassSlots === 0
+          ? "class_full"
+          : freeBlocks === 0
+            ? "no_free_block"
+            : withinRules === 0
+              ? "placement_rule"
+              : underDailyLimit === 0
+                ? "daily_limit"
+                : withFreeRoom === 0
+                  ? "room_busy"
+                  : overTeacherLimits > 0
+                    ? "teacher_limit"
+                    : tooFarAway > 0
+                      ? "teacher_travel"
+                      : "teacher_busy";
+
+      conflicts.push({
+        type: "unplaced",
+        classId: req.classId,
+        subjectId: req.subjectId,
+        teacherIds: req.teacherIds,
+        roomIds: req.roomIds,
+        lessonGroupId: req.lessonGroupId,
+        required: req.periodsNeeded,
+        available: req.periodsNeeded - this.remaining[index] * this.lengthOf(index),
+        cause,
+      });
+    });
+
+    return conflicts;
+  }
+
+  private toSolverPlacements(placement: Placement, lesson: number): SolverPlacement[] {
+    const req = this.requirements[placement.req];
+    const streams = streamsOf(req);
+    const assignments = this.assignmentsOf(placement);
+    return placement.slots.flatMap(index => {
+      const slot = this.problem.slots[index];
+      return this.classIdsOf[placement.req].flatMap(classId =>
+        assignments.map((assignment, stream) => ({
+          lesson,
+          classId,
+          subjectId: streams[stream].subjectId,
+          teacherId: assignment.teacherId,
+          roomId: assignment.roomId,
+          ...(req.lessonGroupId ? { lessonGroupId: req.lessonGroupId } : {}),
+          day: slot.day,
+          ...(slot.cycleDay != null ? { cycleDay: slot.cycleDay } : {}),
+          period: slot.period,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+        }))
+      );
+    });
+  }
+}
@@ -2,21 +2,49 @@ import {
   teachers,
   subjects,
   classes,
+  rooms,
+  lessonGroups,
   timetableEntries,
   substitutions,
   timetableValidityPeriods,
   classSubjectAssignments,
   timetableStructures,
   timetableVersions,
+  timetableCandidates,
   users,
   schools,
   teacherAttendance,
+  teacherPreferences,
+  academicCalendarEvents,
+  examSeries,
+  examPapers,
+  examSeats,
+  examInvigilations,
+  calendarDayOf,
+  datesBetween,
+  resolveCycleDay,
+  type AcademicCalendarEvent,
+  type InsertAcademicCalendarEvent,
+  type CalendarDay,
+  type ExamSeries,
+  type InsertExamSeries,
+  type ExamPaper,
+  type InsertExamPaper,
+  type ExamSeat,
+  type ExamInvigilation,
+  type CycleDay,
   type Teacher,
   type InsertTeacher,
+  type TeacherPreference,
+  type InsertTeacherPreference,
   type Subject,
   type InsertSubject,
   type Class,
   type InsertClass,
+  type Room,
+  type InsertRoom,
+  type LessonGroup,
+  type InsertLessonGroup,
   type TimetableEntry,
   type InsertTimetableEntry,
   type TimetableValidityPeriod,
@@ -27,8 +55,11 @@ import {
   type InsertTimetableStructure,
   type TimetableVersion,
   type InsertTimetableVersion,
+  type TimetableCandidate,
+  type InsertTimetableCandidate,
   type Substitution,
   type InsertSubstitution,
+  type SubstitutionDecline,
   type User,
   type InsertUser,
   type School,
@@ -38,8 +69,8 @@ import {
   type BulkAttendanceData,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, inArray, sql, ne, gte, lte, between } from "drizzle-orm";
-import { getCurrentDateIST, getCurrentDateTimeIST } from "@shared/utils/dateUtils";
+import { eq, and, inArray, sql, ne, gte, lte, between, asc, desc } from "drizzle-orm";
+import { getCurrentDateIST, getCurrentDateTimeIST, startOfDayIST } from "@shared/utils/dateUtils";
 
 export interface IStorage {
   // User operations
@@ -64,7 +95,13 @@ export interface IStorage {
   createTeacher(teacher: InsertTeacher): Promise<Teacher>;
   updateTeacher(id: string, teacher: Partial<InsertTeacher>): Promise<Teacher>;
   deleteTeacher(id: string): Promise<void>;
-  getAvailableTeachers(day: string, period: number, subjectId: string, schoolId: string): Promise<Teacher[]>;
+
+  // Teacher preference operations
+  getTeacherPreferences(schoolId: string, teacherId?: string): Promise<TeacherPreference[]>;
+  getTeacherPreference(id: string): Promise<TeacherPreference | undefined>;
+  createTeacherPreference(preference: InsertTeacherPreference): Promise<TeacherPreference>;
+  updateTeacherPreference(id: string, preference: Partial<InsertTeacherPreference>): Promise<TeacherPreference>;
+  deleteTeacherPreference(id: string): Promise<void>;
 
   // Subject operations
   getSubjects(schoolId?: string): Promise<Subject[]>;
@@ -82,6 +119,20 @@ export interface IStorage {
   deleteClass(id: string): Promise<void>;
   checkClassExists(grade: string, section: string | null, schoolId: string, excludeId?: string): Promise<boolean>;
 
+  // Room operations
+  getRooms(schoolId?: string): Promise<Room[]>;
+  getRoom(id: string): Promise<Room | undefined>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: string, room: Partial<InsertRoom>): Promise<Room>;
+  deleteRoom(id: string): Promise<void>;
+
+  // Lesson group operations
+  getLessonGroups(schoolId?: string): Promise<LessonGroup[]>;
+  getLessonGroup(id: string): Promise<LessonGroup | undefined>;
+  createLessonGroup(group: InsertLessonGroup): Promise<LessonGroup>;
+  updateLessonGroup(id: string, group: Partial<InsertLessonGroup>): Promise<LessonGroup>;
+  deleteLessonGroup(id: string): Promise<void>;
+
   // Class Subject Assignment operations
   getClassSubjectAssignments(classId?: string): Promise<any[]>;
   getClassSubjectAssignment(id: string): Promise<ClassSubjectAssignment | undefined>;
@@ -97,8 +148,12 @@ export interface IStorage {
   createTimetableEntry(entry: InsertTimetableEntry): Promise<TimetableEntry>;
   updateTimetableEntry(id: string, entry: Partial<InsertTimetableEntry>): Promise<TimetableEntry>;
   deleteTimetableEntry(id: string): Promise<void>;
+  getTimetableEntry(id: string): Promise<TimetableEntry | undefined>;
+  setTimetableEntryLock(id: string, isLocked: boolean): Promise<TimetableEntry[]>;
   clearTimetable(): Promise<void>;
   bulkCreateTimetableEntries(entries: InsertTimetableEntry[]): Promise<TimetableEntry[]>;
+  getTimetableForDate(schoolId: string, date: string, wholeDay?: boolean): Promise<TimetableEntry[]>;
+  getTimetableBetween(schoolId: string, from: string, to: string, wholeDay?: boolean): Promise<Map<string, TimetableEntry[]>>;
 
   // Timetable version operations
   createTimetableVersion(version: InsertTimetableVersion): Promise<TimetableVersion>;
@@ -107,13 +162,30 @@ export interface IStorage {
   setActiveVersion(versionId: string, classId: string): Promise<void>;
   getActiveTimetableVersion(classId: string, weekStart: string, weekEnd: string): Promise<TimetableVersion | null>;
 
+  // Timetable candidate operations
+  getTimetableCandidates(schoolId: string): Promise<TimetableCandidate[]>;
+  getTimetableCandidate(id: string): Promise<TimetableCandidate | undefined>;
+  createTimetableCandidate(candidate: InsertTimetableCandidate): Promise<TimetableCandidate>;
+  createDraftTimetableEntries(entries: InsertTimetableEntry[]): Promise<TimetableEntry[]>;
+  getTimetableEntriesForCandidate(candidateId: string): Promise<TimetableEntry[]>;
+  activateTimetableCandidate(id: string): Promise<void>;
+  deleteTimetableCandidate(id: string): Promise<void>;
+
   // Substitution operations
-  getSubstitutions(): Promise<Substitution[]>;
+  getSubstitutions(schoolId?: string): Promise<Substitution[]>;
   getSubstitution(id: string): Promise<Substitution | undefined>;
   createSubstitution(substitution: InsertSubstitution): Promise<Substitution>;
   updateSubstitution(id: string, substitution: Partial<InsertSubstitution>): Promise<Substitution>;
+  acceptSubstitution(id: string): Promise<Substitution>;
+  overrideSubstitution(id: string, userId: string): Promise<Substitution>;
+  declineSubstitution(id: string, decline: SubstitutionDecline, substituteTeacherId: string | null): Promise<Substitution>;
   deleteSubstitution(id: string): Promise<void>;
-  getActiveSubstitutions(): Promise<Substitution[]>;
+  getActiveSubstitutions(schoolId: string): Promise<Substitution[]>;
+  getCoverForTeacher(teacherId: string, from: string): Promise<{ substitution: Substitution; entry: TimetableEntry }[]>;
+  getSubstitutionsBetween(schoolId: string, from: string, to: string): Promise<Substitution[]>;
+  getCoverBetween(schoolId: string, from: string, to: string): Promise<{ substitution: Substitution; entry: TimetableEntry }[]>;
+  getConfirmedCover(schoolId: string, from: string, to: string): Promise<{ substitution: Substitution; entry: TimetableEntry }[]>;
+  clearPendingCover(teacherId: string, date: string): Promise<void>;
 
   // Timetable validity period operations
   getTimetableValidityPeriods(classId?: string): Promise<TimetableValidityPeriod[]>;
@@ -128,17 +200,49 @@ export interface IStorage {
   markTeacherAttendance(attendance: InsertTeacherAttendance): Promise<TeacherAttendance>;
   markBulkTeacherAttendance(bulkData: BulkAttendanceData, markedBy: string): Promise<TeacherAttendance[]>;
   updateTeacherAttendance(id: string, attendance: Partial<InsertTeacherAttendance>): Promise<TeacherAttendance>;
-  deleteTeacherAttendance(id: string): Promise<void>;
+  deleteTeacherAttendance(id: string): Promise<TeacherAttendance | undefined>;
   isTeacherAbsent(teacherId: string, date: string): Promise<boolean>;
 
   // Timetable Structure operations
   getTimetableStructures(schoolId?: string): Promise<TimetableStructure[]>;
   getTimetableStructure(id: string): Promise<TimetableStructure | undefined>;
   getTimetableStructureBySchool(schoolId: string): Promise<TimetableStructure | undefined>;
+  getTimetableStructureForClass(classId: string): Promise<TimetableStructure | undefined>;
+  getCycleDay(schoolId: string, date: string): Promise<CycleDay | null>;
   createTimetableStructure(structure: InsertTimetableStructure): Promise<TimetableStructure>;
   updateTimetableStructure(id: string, structure: Partial<InsertTimetableStructure>): Promise<TimetableStructure>;
   deleteTimetableStructure(id: string): Promise<void>;
 
+  // Academic calendar operations
+  getAcademicCalendarEvents(schoolId?: string): Promise<AcademicCalendarEvent[]>;
+  getAcademicCalendarEvent(id: string): Promise<AcademicCalendarEvent | undefined>;
+  createAcademicCalendarEvent(event: InsertAcademicCalendarEvent): Promise<AcademicCalendarEvent>;
+  updateAcademicCalendarEvent(id: string, event: Partial<InsertAcademicCalendarEvent>): Promise<AcademicCalendarEvent>;
+  deleteAcademicCalendarEvent(id: string): Promise<void>;
+  importAcademicCalendarEvents(schoolId: string, events: InsertAcademicCalendarEvent[]): Promise<{ created: number; updated: number }>;
+  getCalendarDays(schoolId: string, from: string, to: string): Promise<CalendarDay[]>;
+  getLessonDateIssue(schoolId: string, entry: TimetableEntry, date: string): Promise<string | undefined>;
+
+  // Exam operations
+  getExamSeriesList(schoolId?: string): Promise<ExamSeries[]>;
+  getExamSeries(id: string): Promise<ExamSeries | undefined>;
+  createExamSeries(series: InsertExamSeries): Promise<ExamSeries>;
+  updateExamSeries(id: string, series: Partial<InsertExamSeries>): Promise<ExamSeries>;
+  deleteExamSeries(id: string): Promise<void>;
+  getExamPapers(seriesId: string): Promise<ExamPaper[]>;
+  getExamPaper(id: string): Promise<ExamPaper | undefined>;
+  createExamPaper(paper: InsertExamPaper): Promise<ExamPaper>;
+  updateExamPaper(id: string, paper: Partial<InsertExamPaper>): Promise<ExamPaper>;
+  deleteExamPaper(id: string): Promise<void>;
+  getExamSeats(seriesId: string): Promise<ExamSeat[]>;
+  getExamInvigilations(seriesId: string): Promise<ExamInvigilation[]>;
+  saveExamSchedule(
+    seriesId: string,
+    placements: { paperId: string; date: string; sitting: number }[],
+    seats: Omit<ExamSeat, "id">[],
+    invigilations: Omit<ExamInvigilation, "id" | "createdAt" | "seriesId">[]
+  ): Promise<void>;
+
   // Analytics
   getStats(schoolId: string): Promise<{
     totalTeachers: number;
@@ -206,6 +310,7 @@ export class DatabaseStorage implements IStorage {
         address: schools.address,
         contactPhone: schools.contactPhone,
         adminName: schools.adminName,
+        weeklyCoverCap: schools.weeklyCoverCap,
         isActive: schools.isActive,
         createdAt: schools.createdAt,
         updatedAt: schools.updatedAt,
@@ -297,34 +402,6 @@ export class DatabaseStorage implements IStorage {
     await db.update(teachers).set({ isActive: false }).where(eq(teachers.id, id));
   }
 
-  async getAvailableTeachers(day: string, period: number, subjectId: string, schoolId: string): Promise<Teacher[]> {
-    // Get teachers who teach this subject and are not already assigned in this time slot
-    const assignedTeachers = await db
-      .select({ id: timetableEntries.teacherId })
-      .from(timetableEntries)
-      .where(
-        and(
-          eq(timetableEntries.day, day as any),
-          eq(timetableEntries.period, period),
-          eq(timetableEntries.isActive, true)
-        )
-      );
-
-    const assignedIds = assignedTeachers.map(t => t.id);
-
-    return await db
-      .select()
-      .from(teachers)
-      .where(
-        and(
-          eq(teachers.isActive, true),
-          eq(teachers.schoolId, schoolId),
-          assignedIds.length > 0 ? sql`${teachers.id} NOT IN ${assignedIds}` : sql`TRUE`,
-          sql`${teachers.subjects} ? ${subjectId}`
-        )
-      );
-  }
-
   // Subject operations
   async getSubjects(schoolId?: string): Promise<Subject[]> {
     if (schoolId) {
@@ -423,6 +500,104 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Room operations
+  async getRooms(schoolId?: string): Promise<Room[]> {
+    if (schoolId) {
+      return await db.select().from(rooms).where(eq(rooms.schoolId, schoolId)).orderBy(rooms.name);
+    }
+    return await db.select().from(rooms).orderBy(rooms.name);
+  }
+
+  async getRoom(id: string): Promise<Room | undefined> {
+    const [room] = await db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    const [created] = await db.insert(rooms).values(room).returning();
+    return created;
+  }
+
+  async updateRoom(id: string, room: Partial<InsertRoom>): Promise<Room> {
+    const [updated] = await db
+      .update(rooms)
+      .set({ ...room, updatedAt: new Date() })
+      .where(eq(rooms.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRoom(id: string): Promise<void> {
+    await db.delete(rooms).where(eq(rooms.id, id));
+  }
+
+  // Teacher preference operations
+  async getTeacherPreferences(schoolId: string, teacherId?: string): Promise<TeacherPreference[]> {
+    const conditions = [eq(teacherPreferences.schoolId, schoolId)];
+    if (teacherId) {
+      conditions.push(eq(teacherPreferences.teacherId, teacherId));
+    }
+    return await db
+      .select()
+      .from(teacherPreferences)
+      .where(and(...conditions))
+      .orderBy(teacherPreferences.createdAt);
+  }
+
+  async getTeacherPreference(id: string): Promise<TeacherPreference | undefined> {
+    const [preference] = await db.select().from(teacherPreferences).where(eq(teacherPreferences.id, id));
+    return preference;
+  }
+
+  async createTeacherPreference(preference: InsertTeacherPreference): Promise<TeacherPreference> {
+    const [created] = await db.insert(teacherPreferences).values(preference).returning();
+    return created;
+  }
+
+  async updateTeacherPreference(id: string, preference: Partial<InsertTeacherPreference>): Promise<TeacherPreference> {
+    const [updated] = await db
+      .update(teacherPreferences)
+      .set({ ...preference, updatedAt: new Date() })
+      .where(eq(teacherPreferences.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTeacherPreference(id: string): Promise<void> {
+    await db.delete(teacherPreferences).where(eq(teacherPreferences.id, id));
+  }
+
+  // Lesson group operations
+  async getLessonGroups(schoolId?: string): Promise<LessonGroup[]> {
+    if (schoolId) {
+      return await db.select().from(lessonGroups).where(eq(lessonGroups.schoolId, schoolId)).orderBy(lessonGroups.name);
+    }
+    return await db.select().from(lessonGroups).orderBy(lessonGroups.name);
+  }
+
+  async getLessonGroup(id: string): Promise<LessonGroup | undefined> {
+    const [group] = await db.select().from(lessonGroups).where(eq(lessonGroups.id, id));
+    return group;
+  }
+
+  async createLessonGroup(group: InsertLessonGroup): Promise<LessonGroup> {
+    const [created] = await db.insert(lessonGroups).values(group).returning();
+    return created;
+  }
+
+  async updateLessonGroup(id: string, group: Partial<InsertLessonGroup>): Promise<LessonGroup> {
+    const [updated] = await db
+      .update(lessonGroups)
+      .set({ ...group, updatedAt: new Date() })
+      .where(eq(lessonGroups.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteLessonGroup(id: string): Promise<void> {
+    await db.delete(lessonGroups).where(eq(lessonGroups.id, id));
+  }
+
   // Timetable operations
   async getTimetableEntries(schoolId?: string): Promise<TimetableEntry[]> {
     if (schoolId) {
@@ -483,6 +658,34 @@ export class DatabaseStorage implements IStorage {
     await db.delete(timetableEntries).where(eq(timetableEntries.id, id));
   }
 
+  async getTimetableEntry(id: string): Promise<TimetableEntry | undefined> {
+    const [entry] = await db.select().from(timetableEntries).where(eq(timetableEntries.id, id));
+    return entry;
+  }
+
+  // Locks or unlocks an entry together with the rest of its lesson: the other
+  // periods of its block and, for lesson groups, every class and stream in the slot
+  async setTimetableEntryLock(id: string, isLocked: boolean): Promise<TimetableEntry[]> {
+    const entry = await this.getTimetableEntry(id);
+    if (!entry) return [];
+
+    const lesson = entry.blockId
+      ? eq(timetableEntries.blockId, entry.blockId)
+      : entry.lessonGroupId
+        ? and(
+            eq(timetableEntries.lessonGroupId, entry.lessonGroupId),
+            eq(timetableEntries.day, entry.day),
+            eq(timetableEntries.period, entry.period)
+          )
+        : eq(timetableEntries.id, entry.id);
+
+    return await db
+      .update(timetableEntries)
+      .set({ isLocked, updatedAt: new Date() })
+      .where(and(lesson, eq(timetableEntries.isActive, true)))
+      .returning();
+  }
+
   async clearTimetable(): Promise<void> {
     await db.delete(timetableEntries);
   }
@@ -504,6 +707,65 @@ export class DatabaseStorage implements IStorage {
     return await db.insert(timetableEntries).values(entries).returning();
   }
 
+  // The lessons taught on a date: each class's timetable for that week (the version
+  // chosen for the week, if any) on the cycle day the date falls on, up to the last
+  // period of a half day unless wholeDay. Nothing on days without classes.
+  async getTimetableForDate(schoolId: string, date: string, wholeDay = false): Promise<TimetableEntry[]> {
+    return (await this.getTimetableBetween(schoolId, date, date, wholeDay)).get(date) ?? [];
+  }
+
+  // The lessons taught on each date from-to, as getTimetableForDate, with one query for them all
+  async getTimetableBetween(schoolId: string, from: string, to: string, wholeDay = false): Promise<Map<string, TimetableEntry[]>> {
+    const { structure, workingDays, events } = await this.getSchoolCalendar(schoolId);
+    const noClasses = (date: string) => !calendarDayOf(events, workingDays, date).hasClasses;
+    const days = datesBetween(from, to).map(date => {
+      const calendarDay = calendarDayOf(events, workingDays, date);
+      const cycleDay = calendarDay.hasClasses ? resolveCycleDay(structure?.cycle, workingDays, date, noClasses) : null;
+      return { date, calendarDay, cycleDay };
+    });
+
+    const timetable = new Map<string, TimetableEntry[]>(days.map(({ date }) => [date, []]));
+    if (!days.some(({ cycleDay }) => cycleDay)) return timetable;
+
+    const versions = await db
+      .select({ id: timetableVersions.id, classId: timetableVersions.classId, weekStart: timetableVersions.weekStart, weekEnd: timetableVersions.weekEnd })
+      .from(timetableVersions)
+      .innerJoin(classes, eq(timetableVersions.classId, classes.id))
+      .where(and(
+        eq(classes.schoolId, schoolId),
+        eq(timetableVersions.isActive, true),
+        lte(timetableVersions.weekStart, to),
+        gte(timetableVersions.weekEnd, from)
+      ));
+
+    const rows = await db
+      .select({ entry: timetableEntries })
+      .from(timetableEntries)
+      .innerJoin(classes, eq(timetableEntries.classId, classes.id))
+      .where(and(
+        eq(classes.schoolId, schoolId),
+        versions.length > 0
+          ? sql`(${timetableEntries.isActive} OR ${inArray(timetableEntries.versionId, versions.map(version => version.id))})`
+          : eq(timetableEntries.isActive, true)
+      ));
+    const entries = rows.map(row => row.entry);
+
+    for (const { date, calendarDay, cycleDay } of days) {
+      if (!cycleDay) continue;
+      const versionByClass = new Map(versions
+        .filter(version => version.weekStart <= date && version.weekEnd >= date)
+        .map(version => [version.classId, version.id]));
+      timetable.set(date, entries
+        .filter(entry => entry.day === cycleDay.day && (entry.cycleDay ?? null) === cycleDay.cycleDay)
+        .filter(entry => {
+          const versionId = versionByClass.get(entry.classId);
+          return versionId ? entry.versionId === versionId : entry.isActive;
+        })
+        .filter(entry => wholeDay || !calendarDay.lastPeriod || entry.period <= calendarDay.lastPeriod));
+    }
+    return timetable;
+  }
+
   // Timetable version operations
   async createTimetableVersion(version: InsertTimetableVersion): Promise<TimetableVersion> {
     const [created] = await db.insert(timetableVersions).values(version).returning();
@@ -611,6 +873,82 @@ export class DatabaseStorage implements IStorage {
     return versions.length > 0 ? versions[0] : null;
   }
 
+  // Timetable candidate operations
+  async getTimetableCandidates(schoolId: string): Promise<TimetableCandidate[]> {
+    return await db
+      .select()
+      .from(timetableCandidates)
+      .where(eq(timetableCandidates.schoolId, schoolId))
+      .orderBy(desc(timetableCandidates.createdAt), asc(timetableCandidates.number));
+  }
+
+  async getTimetableCandidate(id: string): Promise<TimetableCandidate | undefined> {
+    const [candidate] = await db.select().from(timetableCandidates).where(eq(timetableCandidates.id, id));
+    return candidate;
+  }
+
+  async createTimetableCandidate(candidate: InsertTimetableCandidate): Promise<TimetableCandidate> {
+    const [created] = await db.insert(timetableCandidates).values(candidate).returning();
+    return created;
+  }
+
+  // Unlike bulkCreateTimetableEntries, leaves the classes' current timetables untouched
+  async createDraftTimetableEntries(entries: InsertTimetableEntry[]): Promise<TimetableEntry[]> {
+    if (entries.length === 0) return [];
+    return await db
+      .insert(timetableEntries)
+      .values(entries.map(entry => ({ ...entry, isActive: false })))
+      .returning();
+  }
+
+  async getTimetableEntriesForCandidate(candidateId: string): Promise<TimetableEntry[]> {
+    const rows = await db
+      .select({ entry: timetableEntries })
+      .from(timetableEntries)
+      .innerJoin(timetableVersions, eq(timetableEntries.versionId, timetableVersions.id))
+      .where(eq(timetableVersions.candidateId, candidateId));
+    return rows.map(row => row.entry);
+  }
+
+  // Makes the candidate's entries the active timetable of every class it covers
+  async activateTimetableCandidate(id: string): Promise<void> {
+    const candidate = await this.getTimetableCandidate(id);
+    if (!candidate) return;
+
+    const versions = await db
+      .select()
+      .from(timetableVersions)
+      .where(eq(timetableVersions.candidateId, id));
+
+    for (const version of versions) {
+      await db
+        .update(timetableEntries)
+        .set({ isActive: false })
+        .where(eq(timetableEntries.classId, version.classId));
+      await db
+        .update(timetableEntries)
+        .set({ isActive: true, updatedAt: new Date() })
+        .where(eq(timetableEntries.versionId, version.id));
+      await this.setActiveVersion(version.id, version.classId);
+    }
+
+    await db
+      .update(timetableCandidates)
+      .set({ status: "discarded", updatedAt: new Date() })
+      .where(and(
+        eq(timetableCandidates.setId, candidate.setId),
+        ne(timetableCandidates.id, id)
+      ));
+    await db
+      .update(timetableCandidates)
+      .set({ status: "active", updatedAt: new Date() })
+      .where(eq(timetableCandidates.id, id));
+  }
+
+  async deleteTimetableCandidate(id: string): Promise<void> {
+    await db.delete(timetableCandidates).where(eq(timetableCandidates.id, id));
+  }
+
   // Substitution operations
   async getSubstitutions(schoolId?: string): Promise<Substitution[]> {
     if (schoolId) {
@@ -623,6 +961,9 @@ export class DatabaseStorage implements IStorage {
           timetableEntryId: substitutions.timetableEntryId,
           reason: substitutions.reason,
           status: substitutions.status,
+          declines: substitutions.declines,
+          acceptedAt: substitutions.acceptedAt,
+          overriddenBy: substitutions.overriddenBy,
           createdAt: substitutions.createdAt,
           updatedAt: substitutions.updatedAt,
         })
@@ -644,9 +985,49 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateSubstitution(id: string, substitution: Partial<InsertSubstitution>): Promise<Substitution> {
+    // A newly chosen substitute hasn't accepted yet, so the cover is pending again
+    const reassignment = substitution.substituteTeacherId !== undefined
+      ? { status: "pending" as const, acceptedAt: null, overriddenBy: null }
+      : {};
+    const [updated] = await db
+      .update(substitutions)
+      .set({ ...reassignment, ...substitution, updatedAt: new Date() })
+      .where(eq(substitutions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async acceptSubstitution(id: string): Promise<Substitution> {
     const [updated] = await db
       .update(substitutions)
-      .set({ ...substitution, updatedAt: new Date() })
+      .set({ status: "confirmed", acceptedAt: new Date(), updatedAt: new Date() })
+      .where(eq(substitutions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Confirm the cover on an admin's say-so, before the substitute has accepted
+  async overrideSubstitution(id: string, userId: string): Promise<Substitution> {
+    const [updated] = await db
+      .update(substitutions)
+      .set({ status: "confirmed", overriddenBy: userId, updatedAt: new Date() })
+      .where(eq(substitutions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Record the decline and hand the cover to the next substitute, or to nobody yet
+  async declineSubstitution(id: string, decline: SubstitutionDecline, substituteTeacherId: string | null): Promise<Substitution> {
+    const [updated] = await db
+      .update(substitutions)
+      .set({
+        declines: sql`${substitutions.declines} || ${JSON.stringify([decline])}::jsonb`,
+        substituteTeacherId,
+        status: "pending",
+        acceptedAt: null,
+        overriddenBy: null,
+        updatedAt: new Date(),
+      })
       .where(eq(substitutions.id, id))
       .returning();
     return updated;
@@ -656,22 +1037,82 @@ export class DatabaseStorage implements IStorage {
     await db.delete(substitutions).where(eq(substitutions.id, id));
   }
 
-  async getActiveSubstitutions(): Promise<Substitution[]> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  // The school's confirmed substitutions for today
+  async getActiveSubstitutions(schoolId: string): Promise<Substitution[]> {
+    const today = getCurrentDateIST();
+    return (await this.getSubstitutionsBetween(schoolId, today, today))
+      .filter(substitution => substitution.status === "confirmed");
+  }
 
+  // Pending and confirmed cover a teacher is the substitute for, dated from (YYYY-MM-DD) on
+  async getCoverForTeacher(teacherId: string, from: string): Promise<{ substitution: Substitution; entry: TimetableEntry }[]> {
     return await db
-      .select()
+      .select({ substitution: substitutions, entry: timetableEntries })
       .from(substitutions)
-      .where(
-        and(
-          sql`${substitutions.date} >= ${today}`,
-          sql`${substitutions.date} < ${tomorrow}`,
-          eq(substitutions.status, "confirmed")
-        )
-      );
+      .innerJoin(timetableEntries, eq(substitutions.timetableEntryId, timetableEntries.id))
+      .where(and(
+        eq(substitutions.substituteTeacherId, teacherId),
+        ne(substitutions.status, "rejected"),
+        gte(substitutions.date, startOfDayIST(from))
+      ))
+      .orderBy(asc(substitutions.date), asc(timetableEntries.period));
+  }
+
+  // Substitutions of the school's lessons dated from-to (YYYY-MM-DD, IST)
+  async getSubstitutionsBetween(schoolId: string, from: string, to: string): Promise<Substitution[]> {
+    const end = startOfDayIST(to);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    const rows = await db
+      .select({ substitution: substitutions })
+      .from(substitutions)
+      .innerJoin(timetableEntries, eq(substitutions.timetableEntryId, timetableEntries.id))
+      .innerJoin(classes, eq(timetableEntries.classId, classes.id))
+      .where(and(
+        eq(classes.schoolId, schoolId),
+        gte(substitutions.date, startOfDayIST(from)),
+        sql`${substitutions.date} < ${end}`
+      ))
+      .orderBy(asc(substitutions.date));
+    return rows.map(row => row.substitution);
+  }
+
+  // Substitutions dated from-to with the lessons they cover
+  async getCoverBetween(schoolId: string, from: string, to: string): Promise<{ substitution: Substitution; entry: TimetableEntry }[]> {
+    const end = startOfDayIST(to);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    return await db
+      .select({ substitution: substitutions, entry: timetableEntries })
+      .from(substitutions)
+      .innerJoin(timetableEntries, eq(substitutions.timetableEntryId, timetableEntries.id))
+      .innerJoin(classes, eq(timetableEntries.classId, classes.id))
+      .where(and(
+        eq(classes.schoolId, schoolId),
+        gte(substitutions.date, startOfDayIST(from)),
+        sql`${substitutions.date} < ${end}`
+      ))
+      .orderBy(asc(substitutions.date), asc(timetableEntries.period));
+  }
+
+  async getConfirmedCover(schoolId: string, from: string, to: string): Promise<{ substitution: Substitution; entry: TimetableEntry }[]> {
+    return (await this.getCoverBetween(schoolId, from, to))
+      .filter(({ substitution }) => substitution.status === "confirmed");
+  }
+
+  // Cover not yet confirmed for a teacher who turned out to be in on the date
+  async clearPendingCover(teacherId: string, date: string): Promise<void> {
+    const end = startOfDayIST(date);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    await db
+      .delete(substitutions)
+      .where(and(
+        eq(substitutions.originalTeacherId, teacherId),
+        eq(substitutions.status, "pending"),
+        gte(substitutions.date, startOfDayIST(date)),
+        sql`${substitutions.date} < ${end}`
+      ));
   }
 
   // Analytics
@@ -842,13 +1283,17 @@ export class DatabaseStorage implements IStorage {
         classId: classSubjectAssignments.classId,
         subjectId: classSubjectAssignments.subjectId,
         weeklyFrequency: classSubjectAssignments.weeklyFrequency,
+        blockLength: classSubjectAssignments.blockLength,
+        blocksPerWeek: classSubjectAssignments.blocksPerWeek,
         assignedTeacherId: classSubjectAssignments.assignedTeacherId,
+        placementRules: classSubjectAssignments.placementRules,
         subject: {
           id: subjects.id,
           name: subjects.name,
           code: subjects.code,
           color: subjects.color,
           periodsPerWeek: subjects.periodsPerWeek,
+          placementRules: subjects.placementRules,
           schoolId: subjects.schoolId,
         },
         assignedTeacher: {
@@ -925,7 +1370,11 @@ export class DatabaseStorage implements IStorage {
   // Timetable Structure operations
   async getTimetableStructures(schoolId?: string): Promise<TimetableStructure[]> {
     if (schoolId) {
-      return await db.select().from(timetableStructures).where(eq(timetableStructures.schoolId, schoolId));
+      return await db
+        .select()
+        .from(timetableStructures)
+        .where(eq(timetableStructures.schoolId, schoolId))
+        .orderBy(desc(timetableStructures.isActive), timetableStructures.name);
     }
     return await db.select().from(timetableStructures);
   }
@@ -946,21 +1395,49 @@ export class DatabaseStorage implements IStorage {
     return structure;
   }
 
-  async createTimetableStructure(structure: InsertTimetableStructure): Promise<TimetableStructure> {
-    // First, deactivate other active structures for this school
+  // The class's own structure, or the school's main structure when it has none
+  async getTimetableStructureForClass(classId: string): Promise<TimetableStructure | undefined> {
+    const classData = await this.getClass(classId);
+    if (!classData) return undefined;
+    if (classData.structureId) {
+      const structure = await this.getTimetableStructure(classData.structureId);
+      if (structure) return structure;
+    }
+    return this.getTimetableStructureBySchool(classData.schoolId);
+  }
+
+  // The day of the school's timetable cycle a date falls on; null when there is no school
+  // Days without classes on the academic calendar don't move the cycle on
+  async getCycleDay(schoolId: string, date: string): Promise<CycleDay | null> {
+    const { structure, workingDays, events } = await this.getSchoolCalendar(schoolId);
+    return resolveCycleDay(structure?.cycle, workingDays, date, d => !calendarDayOf(events, workingDays, d).hasClasses);
+  }
+
+  // A school has one main structure; making another one main demotes it
+  private async clearMainStructure(schoolId: string) {
     await db
       .update(timetableStructures)
       .set({ isActive: false })
       .where(and(
-        eq(timetableStructures.schoolId, structure.schoolId),
+        eq(timetableStructures.schoolId, schoolId),
         eq(timetableStructures.isActive, true)
       ));
+  }
+
+  async createTimetableStructure(structure: InsertTimetableStructure): Promise<TimetableStructure> {
+    if (structure.isActive !== false) {
+      await this.clearMainStructure(structure.schoolId);
+    }
 
     const [newStructure] = await db.insert(timetableStructures).values(structure).returning();
     return newStructure;
   }
 
   async updateTimetableStructure(id: string, structure: Partial<InsertTimetableStructure>): Promise<TimetableStructure> {
+    if (structure.isActive) {
+      const existing = await this.getTimetableStructure(id);
+      if (existing && !existing.isActive) await this.clearMainStructure(existing.schoolId);
+    }
     const [updatedStructure] = await db
       .update(timetableStructures)
       .set(structure)
@@ -973,6 +1450,213 @@ export class DatabaseStorage implements IStorage {
     await db.delete(timetableStructures).where(eq(timetableStructures.id, id));
   }
 
+  // Academic calendar operations
+  async getAcademicCalendarEvents(schoolId?: string): Promise<AcademicCalendarEvent[]> {
+    if (schoolId) {
+      return await db
+        .select()
+        .from(academicCalendarEvents)
+        .where(eq(academicCalendarEvents.schoolId, schoolId))
+        .orderBy(asc(academicCalendarEvents.startDate));
+    }
+    return await db.select().from(academicCalendarEvents).orderBy(asc(academicCalendarEvents.startDate));
+  }
+
+  async getAcademicCalendarEvent(id: string): Promise<AcademicCalendarEvent | undefined> {
+    const [event] = await db.select().from(academicCalendarEvents).where(eq(academicCalendarEvents.id, id));
+    return event;
+  }
+
+  async createAcademicCalendarEvent(event: InsertAcademicCalendarEvent): Promise<AcademicCalendarEvent> {
+    const [created] = await db.insert(academicCalendarEvents).values(event).returning();
+    return created;
+  }
+
+  async updateAcademicCalendarEvent(id: string, event: Partial<InsertAcademicCalendarEvent>): Promise<AcademicCalendarEvent> {
+    const [updated] = await db
+      .update(academicCalendarEvents)
+      .set({ ...event, updatedAt: new Date() })
+      .where(eq(academicCalendarEvents.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAcademicCalendarEvent(id: string): Promise<void> {
+    await db.delete(academicCalendarEvents).where(eq(academicCalendarEvents.id, id));
+  }
+
+  // Events imported before (same ICS UID) are updated rather than added twice
+  async importAcademicCalendarEvents(schoolId: string, events: InsertAcademicCalendarEvent[]): Promise<{ created: number; updated: number }> {
+    const existing = await this.getAcademicCalendarEvents(schoolId);
+    const byExternalId = new Map(existing.filter(e => e.externalId).map(e => [e.externalId!, e]));
+    let created = 0;
+    let updated = 0;
+
+    for (const event of events) {
+      const match = event.externalId ? byExternalId.get(event.externalId) : undefined;
+      if (match) {
+        await this.updateAcademicCalendarEvent(match.id, { ...event, schoolId });
+        updated++;
+      } else {
+        await this.createAcademicCalendarEvent({ ...event, schoolId });
+        created++;
+      }
+    }
+
+    return { created, updated };
+  }
+
+  async getCalendarDays(schoolId: string, from: string, to: string): Promise<CalendarDay[]> {
+    const { workingDays, events } = await this.getSchoolCalendar(schoolId);
+    return datesBetween(from, to).map(date => calendarDayOf(events, workingDays, date));
+  }
+
+  // Why a timetabled lesson does not take place on a date, if it doesn't
+  async getLessonDateIssue(schoolId: string, entry: TimetableEntry, date: string): Promise<string | undefined> {
+    const [calendarDay] = await this.getCalendarDays(schoolId, date, date);
+    if (!calendarDay?.hasClasses) {
+      return "There are no classes on that date";
+    }
+    if (calendarDay.lastPeriod && entry.period > calendarDay.lastPeriod) {
+      return `Classes end after period ${calendarDay.lastPeriod} on that half day`;
+    }
+    const cycleDay = await this.getCycleDay(schoolId, date);
+    if (!cycleDay || cycleDay.day !== entry.day || cycleDay.cycleDay !== (entry.cycleDay ?? null)) {
+      return "This lesson is not taught on that date";
+    }
+    return undefined;
+  }
+
+  // Exam operations
+  async getExamSeriesList(schoolId?: string): Promise<ExamSeries[]> {
+    if (schoolId) {
+      return await db
+        .select()
+        .from(examSeries)
+        .where(eq(examSeries.schoolId, schoolId))
+        .orderBy(desc(examSeries.startDate));
+    }
+    return await db.select().from(examSeries).orderBy(desc(examSeries.startDate));
+  }
+
+  async getExamSeries(id: string): Promise<ExamSeries | undefined> {
+    const [series] = await db.select().from(examSeries).where(eq(examSeries.id, id));
+    return series;
+  }
+
+  async createExamSeries(series: InsertExamSeries): Promise<ExamSeries> {
+    const [created] = await db.insert(examSeries).values(series).returning();
+    return created;
+  }
+
+  async updateExamSeries(id: string, series: Partial<InsertExamSeries>): Promise<ExamSeries> {
+    const [updated] = await db
+      .update(examSeries)
+      .set({ ...series, updatedAt: new Date() })
+      .where(eq(examSeries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteExamSeries(id: string): Promise<void> {
+    await db.delete(examSeries).where(eq(examSeries.id, id));
+  }
+
+  async getExamPapers(seriesId: string): Promise<ExamPaper[]> {
+    return await db
+      .select()
+      .from(examPapers)
+      .where(eq(examPapers.seriesId, seriesId))
+      .orderBy(asc(examPapers.grade), asc(examPapers.date), asc(examPapers.sitting));
+  }
+
+  async getExamPaper(id: string): Promise<ExamPaper | undefined> {
+    const [paper] = await db.select().from(examPapers).where(eq(examPapers.id, id));
+    return paper;
+  }
+
+  async createExamPaper(paper: InsertExamPaper): Promise<ExamPaper> {
+    const [created] = await db.insert(examPapers).values(paper).returning();
+    return created;
+  }
+
+  async updateExamPaper(id: string, paper: Partial<InsertExamPaper>): Promise<ExamPaper> {
+    const [updated] = await db
+      .update(examPapers)
+      .set({ ...paper, updatedAt: new Date() })
+      .where(eq(examPapers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteExamPaper(id: string): Promise<void> {
+    await db.delete(examPapers).where(eq(examPapers.id, id));
+  }
+
+  async getExamSeats(seriesId: string): Promise<ExamSeat[]> {
+    const rows = await db
+      .select({ seat: examSeats })
+      .from(examSeats)
+      .innerJoin(examPapers, eq(examSeats.paperId, examPapers.id))
+      .where(eq(examPapers.seriesId, seriesId))
+      .orderBy(asc(examSeats.roomId), asc(examSeats.seatFrom));
+    return rows.map(row => row.seat);
+  }
+
+  async getExamInvigilations(seriesId: string): Promise<ExamInvigilation[]> {
+    return await db
+      .select()
+      .from(examInvigilations)
+      .where(eq(examInvigilations.seriesId, seriesId))
+      .orderBy(asc(examInvigilations.date), asc(examInvigilations.sitting));
+  }
+
+  // Replaces the series' previous schedule: papers left out of placements are unscheduled
+  async saveExamSchedule(
+    seriesId: string,
+    placements: { paperId: string; date: string; sitting: number }[],
+    seats: Omit<ExamSeat, "id">[],
+    invigilations: Omit<ExamInvigilation, "id" | "createdAt" | "seriesId">[]
+  ): Promise<void> {
+    const papers = await this.getExamPapers(seriesId);
+    const paperIds = papers.map(paper => paper.id);
+
+    if (paperIds.length > 0) {
+      await db.delete(examSeats).where(inArray(examSeats.paperId, paperIds));
+      await db
+        .update(examPapers)
+        .set({ date: null, sitting: null, updatedAt: new Date() })
+        .where(eq(examPapers.seriesId, seriesId));
+    }
+    await db.delete(examInvigilations).where(eq(examInvigilations.seriesId, seriesId));
+
+    for (const placement of placements) {
+      await db
+        .update(examPapers)
+        .set({ date: placement.date, sitting: placement.sitting, updatedAt: new Date() })
+        .where(eq(examPapers.id, placement.paperId));
+    }
+    if (seats.length > 0) {
+      await db.insert(examSeats).values(seats);
+    }
+    if (invigilations.length > 0) {
+      await db.insert(examInvigilations).values(invigilations.map(duty => ({ ...duty, seriesId })));
+    }
+
+    await db
+      .update(examSeries)
+      .set({ scheduledAt: new Date(), updatedAt: new Date() })
+      .where(eq(examSeries.id, seriesId));
+  }
+
+  // The main structure's working days and the calendar entries a school's dates are judged by
+  private async getSchoolCalendar(schoolId: string) {
+    const structure = await this.getTimetableStructureBySchool(schoolId);
+    const events = await this.getAcademicCalendarEvents(schoolId);
+    const workingDays = structure?.workingDays ?? ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+    return { structure, workingDays, events };
+  }
+
   // Teacher attendance operations
   async getTeacherAttendance(schoolId: string, date?: string): Promise<TeacherAttendance[]> {
     const conditions = [eq(teacherAttendance.schoolId, schoolId)];
@@ -1052,14 +1736,11 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Teacher not found");
     }
 
-    // Generate date range
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const currentDate = new Date(start);
+    // Leave is only recorded on working days of the academic calendar, not on
+    // weekends, holidays or between terms
+    const days = await this.getCalendarDays(teacher.schoolId, startDate, endDate);
     
-    while (currentDate <= end) {
-      const dateString = currentDate.toISOString().split('T')[0];
-      
+    for (const { date: dateString } of days.filter(day => day.workingDay)) {
       try {
         const attendanceRecord = await this.markTeacherAttendance({
           teacherId,
@@ -1076,8 +1757,6 @@ export class DatabaseStorage implements IStorage {
       } catch (error) {
         console.error(`Failed to mark attendance for ${dateString}:`, error);
       }
-      
-      currentDate.setDate(currentDate.getDate() + 1);
     }
     
     return records;
@@ -1100,8 +1779,9 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async deleteTeacherAttendance(id: string): Promise<void> {
-    await db.delete(teacherAttendance).where(eq(teacherAttendance.id, id));
+  async deleteTeacherAttendance(id: string): Promise<TeacherAttendance | undefined> {
+    const [deleted] = await db.delete(teacherAttendance).where(eq(teacherAttendance.id, id)).returning();
+    return deleted;
   }
 
   async isTeacherAbsent(teacherId: string, date: string): Promise<boolean> {
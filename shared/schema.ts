@@ -14,6 +14,37 @@ import {
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Soft constraints optimised by the timetable scheduler. Each weight is the
+// penalty added to a timetable's score per violation (0 disables the rule).
+export const softConstraintKeys = [
+  "teacherIdleGap",
+  "sameSubjectTwiceInDay",
+  "heavySubjectAfterLunch",
+  "teacherFirstAndLastPeriod",
+  "teacherPreference",
+] as const;
+
+export type SoftConstraintKey = typeof softConstraintKeys[number];
+export type SoftConstraintWeights = Record<SoftConstraintKey, number>;
+
+export interface SoftConstraintSettings {
+  weights: SoftConstraintWeights;
+  heavySubjectIds: string[]; // Subjects that should preferably not be taught after lunch
+}
+
+export const DEFAULT_SOFT_CONSTRAINT_WEIGHTS: SoftConstraintWeights = {
+  teacherIdleGap: 3,
+  sameSubjectTwiceInDay: 2,
+  heavySubjectAfterLunch: 2,
+  teacherFirstAndLastPeriod: 1,
+  teacherPreference: 3,
+};
+
+export interface ScoreBreakdown {
+  total: number;
+  constraints: Record<SoftConstraintKey, { weight: number; violations: number; penalty: number }>;
+}
+
 // Schools table
 export const schools = pgTable("schools", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -21,6 +52,7 @@ export const schools = pgTable("schools", {
   address: text("address"),
   contactPhone: varchar("contact_phone", { length: 15 }),
   adminName: varchar("admin_name", { length: 255 }),
+  weeklyCoverCap: integer("weekly_cover_cap"), // Lessons a teacher covers in a week at most; no cap when null
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -41,6 +73,13 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const weekdays = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type Weekday = typeof weekdays[number];
+
+// Periods a teacher cannot teach, by day: { monday: [1, 2] } blocks the first two
+// periods of every Monday. Kept by period number so editing bell times keeps it valid.
+export type TeacherUnavailability = Partial<Record<Weekday, number[]>>;
+
 // Teachers table
 export const teachers = pgTable("teachers", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -49,6 +88,7 @@ export const teachers = pgTable("teachers", {
   contactNumber: varchar("contact_number", { length: 15 }),
   schoolIdNumber: varchar("school_id_number", { length: 50 }),
   subjects: jsonb("subjects").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  // Legacy "HH:MM-HH:MM" availability lists; converted to unavailablePeriods at startup and no longer read
   availability: jsonb("availability").$type<{
     monday: string[];
     tuesday: string[];
@@ -57,13 +97,69 @@ export const teachers = pgTable("teachers", {
     friday: string[];
     saturday: string[];
   }>().notNull().default(sql`'{"monday":[],"tuesday":[],"wednesday":[],"thursday":[],"friday":[],"saturday":[]}'::jsonb`),
-  maxLoad: integer("max_load").notNull().default(30),
+  unavailablePeriods: jsonb("unavailable_periods").$type<TeacherUnavailability>().notNull().default(sql`'{}'::jsonb`),
+  maxLoad: integer("max_load").notNull().default(30), // Periods per week
+  maxDailyPeriods: integer("max_daily_periods"), // No limit when null
+  maxConsecutivePeriods: integer("max_consecutive_periods"), // No limit when null
+  maxWeeklyCovers: integer("max_weekly_covers"), // The school's weekly cover cap when null
   schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Kinds of teacher preference:
+// - preferred_days: the teacher would rather only teach on `days`
+// - free_period: the teacher would rather keep `period` on `day` free
+// - subject_priority: the teacher would rather ("prefer") or would rather not ("avoid")
+//   teach `subjectId`, to classes of `grade` only when it is set
+export const teacherPreferenceTypes = ["preferred_days", "free_period", "subject_priority"] as const;
+export type TeacherPreferenceType = typeof teacherPreferenceTypes[number];
+
+// Hard preferences are rules the scheduler never breaks; soft ones are weighed
+// against the other soft constraints
+export const teacherPreferences = pgTable("teacher_preferences", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  teacherId: uuid("teacher_id").notNull().references(() => teachers.id, { onDelete: "cascade" }),
+  schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  type: varchar("type", { enum: teacherPreferenceTypes }).notNull(),
+  strength: varchar("strength", { enum: ["hard", "soft"] }).notNull().default("soft"),
+  days: jsonb("days").$type<Weekday[]>().notNull().default(sql`'[]'::jsonb`),
+  day: varchar("day", { enum: weekdays }),
+  period: integer("period"),
+  subjectId: uuid("subject_id").references(() => subjects.id, { onDelete: "cascade" }),
+  grade: varchar("grade", { length: 50 }), // Any grade when null
+  priority: varchar("priority", { enum: ["prefer", "avoid"] }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Kinds of rooms a subject can require. "classroom" is an ordinary teaching room.
+export const roomTypes = [
+  "classroom",
+  "science_lab",
+  "chemistry_lab",
+  "physics_lab",
+  "biology_lab",
+  "computer_room",
+  "gym",
+  "music_room",
+  "art_room",
+  "library",
+] as const;
+
+export type RoomType = typeof roomTypes[number];
+
+// Where a subject's lessons may be timetabled. allowedPeriods keeps them within the
+// listed periods, notAfterLunch out of the first period after the last break, and
+// noConsecutiveDays leaves a free day between any two days with the subject.
+export interface SubjectPlacementRules {
+  allowedPeriods?: number[];
+  notAfterLunch?: boolean;
+  noConsecutiveDays?: boolean;
+}
+
 // Subjects table
 export const subjects = pgTable("subjects", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -71,6 +167,8 @@ export const subjects = pgTable("subjects", {
   code: varchar("code", { length: 10 }).notNull(),
   periodsPerWeek: integer("periods_per_week").notNull(),
   color: varchar("color", { length: 7 }).notNull().default("#3B82F6"),
+  requiredRoomType: varchar("required_room_type", { enum: roomTypes }), // null = taught in the class's own room
+  placementRules: jsonb("placement_rules").$type<SubjectPlacementRules>().notNull().default(sql`'{}'::jsonb`),
   schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -85,6 +183,23 @@ export const classes = pgTable("classes", {
   requiredSubjects: jsonb("required_subjects").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
   schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
   room: varchar("room", { length: 100 }),
+  // Building of the class's own room, e.g. "Junior block"
+  building: varchar("building", { length: 100 }),
+  // The timetable structure (shift) the class follows; null = the school's main structure
+  structureId: uuid("structure_id").references(() => timetableStructures.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Rooms and labs that can be booked by the scheduler
+export const rooms = pgTable("rooms", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  type: varchar("type", { enum: roomTypes }).notNull().default("classroom"),
+  capacity: integer("capacity").notNull(), // Number of seats
+  building: varchar("building", { length: 100 }),
+  schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -95,7 +210,55 @@ export const classSubjectAssignments = pgTable("class_subject_assignments", {
   classId: uuid("class_id").notNull().references(() => classes.id, { onDelete: "cascade" }),
   subjectId: uuid("subject_id").notNull().references(() => subjects.id, { onDelete: "cascade" }),
   weeklyFrequency: integer("weekly_frequency").notNull(), // How many periods per week
+  blockLength: integer("block_length").notNull().default(1), // Consecutive periods per block (2 = double period)
+  blocksPerWeek: integer("blocks_per_week").notNull().default(0), // Blocks taken out of weeklyFrequency, the rest are single periods
   assignedTeacherId: uuid("assigned_teacher_id").references(() => teachers.id, { onDelete: "set null" }),
+  // Replaces the subject's placement rules for this class; null = the subject's rules
+  placementRules: jsonb("placement_rules").$type<SubjectPlacementRules>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One parallel stream of a lesson group: a subject taught by a teacher
+export interface LessonGroupStream {
+  subjectId: string;
+  teacherId: string;
+}
+
+// Lessons taught in one synchronised slot across several classes and/or
+// teachers: electives that regroup the students of several classes into
+// parallel streams, or a class split into groups with different teachers
+export const lessonGroups = pgTable("lesson_groups", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  classIds: jsonb("class_ids").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  streams: jsonb("streams").$type<LessonGroupStream[]>().notNull().default(sql`'[]'::jsonb`),
+  weeklyFrequency: integer("weekly_frequency").notNull(), // Periods per week
+  blockLength: integer("block_length").notNull().default(1), // Consecutive periods per lesson
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Quality measures used to compare candidate timetables
+export interface TimetableMetrics {
+  unfilledPeriods: number; // Required periods the candidate could not place
+  teacherGaps: number; // Free periods between a teacher's first and last lesson of a day
+  loadVariance: number; // Variance of the weekly periods taught per teacher
+}
+
+// One of several timetables generated in a single run, kept as a draft until activated
+export const timetableCandidates = pgTable("timetable_candidates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  setId: uuid("set_id").notNull(), // Shared by the candidates of one generation run
+  number: integer("number").notNull(), // 1-based position within the set
+  seed: integer("seed").notNull(),
+  score: integer("score"), // Soft constraint penalty (lower is better)
+  scoreBreakdown: jsonb("score_breakdown").$type<ScoreBreakdown>(),
+  metrics: jsonb("metrics").$type<TimetableMetrics>().notNull(),
+  status: varchar("status", { enum: ["draft", "active", "discarded"] }).notNull().default("draft"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -108,6 +271,10 @@ export const timetableVersions = pgTable("timetable_versions", {
   weekStart: date("week_start").notNull(),
   weekEnd: date("week_end").notNull(),
   isActive: boolean("is_active").notNull().default(false), // Only one version can be active per class per week
+  seed: integer("seed"), // PRNG seed used by the scheduler, allows regenerating the same timetable
+  score: integer("score"), // Soft constraint penalty of the generation run (lower is better)
+  scoreBreakdown: jsonb("score_breakdown").$type<ScoreBreakdown>(),
+  candidateId: uuid("candidate_id").references(() => timetableCandidates.id, { onDelete: "cascade" }), // Set for draft candidate versions
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -118,11 +285,17 @@ export const timetableEntries = pgTable("timetable_entries", {
   classId: uuid("class_id").notNull().references(() => classes.id, { onDelete: "cascade" }),
   teacherId: uuid("teacher_id").notNull().references(() => teachers.id, { onDelete: "cascade" }),
   subjectId: uuid("subject_id").notNull().references(() => subjects.id, { onDelete: "cascade" }),
-  day: varchar("day", { enum: ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] }).notNull(),
+  day: varchar("day", { enum: weekdays }).notNull(),
+  // Day of the school's timetable cycle (see TimetableCycle); null on a weekly timetable
+  cycleDay: integer("cycle_day"),
   period: integer("period").notNull(), // 1-8 for different time slots
   startTime: varchar("start_time", { length: 5 }).notNull(), // "09:00"
   endTime: varchar("end_time", { length: 5 }).notNull(), // "09:45"
-  room: varchar("room", { length: 100 }),
+  room: varchar("room", { length: 100 }), // Display name of the room
+  roomId: uuid("room_id").references(() => rooms.id, { onDelete: "set null" }), // Booked room, when one is assigned
+  blockId: uuid("block_id"), // Shared by the consecutive periods of a double/triple period
+  lessonGroupId: uuid("lesson_group_id").references(() => lessonGroups.id, { onDelete: "set null" }),
+  isLocked: boolean("is_locked").notNull().default(false), // Kept in place when the timetable is regenerated
   versionId: uuid("version_id").references(() => timetableVersions.id, { onDelete: "cascade" }),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -140,6 +313,13 @@ export const timetableValidityPeriods = pgTable("timetable_validity_periods", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A substitute turning down a cover
+export interface SubstitutionDecline {
+  teacherId: string;
+  reason: string;
+  declinedAt: string;
+}
+
 // Substitutions table
 export const substitutions = pgTable("substitutions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -149,22 +329,67 @@ export const substitutions = pgTable("substitutions", {
   date: timestamp("date").notNull(),
   reason: text("reason"),
   status: varchar("status", { enum: ["pending", "confirmed", "rejected"] }).notNull().default("pending"),
+  declines: jsonb("declines").$type<SubstitutionDecline[]>().notNull().default(sql`'[]'::jsonb`), // Substitutes who turned the cover down, in order
+  acceptedAt: timestamp("accepted_at"), // When the substitute accepted; null until they do
+  overriddenBy: uuid("overridden_by").references(() => users.id), // Admin who confirmed the cover without the substitute accepting
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Timetable Structure table
+// One period or break of a timetable structure's day
+export interface StructureTimeSlot {
+  period: number;
+  startTime: string;
+  endTime: string;
+  isBreak?: boolean;
+}
+
+// Bell times the scheduler falls back to for schools without a timetable structure
+export const DEFAULT_PERIOD_TIMES: StructureTimeSlot[] = [
+  { period: 1, startTime: "08:00", endTime: "08:45" },
+  { period: 2, startTime: "08:45", endTime: "09:30" },
+  { period: 3, startTime: "09:30", endTime: "10:15" },
+  { period: 4, startTime: "10:15", endTime: "11:00" },
+  { period: 5, startTime: "11:15", endTime: "12:00" },
+  { period: 6, startTime: "12:00", endTime: "12:45" },
+  { period: 7, startTime: "12:45", endTime: "13:30" },
+  { period: 8, startTime: "13:30", endTime: "14:15" },
+];
+
+// How the school's timetable repeats. A weekly timetable is the same every week;
+// "weeks" runs `length` different weeks in turn (Week A, Week B, ...), and "days"
+// a rotation of `length` numbered days (Day 1-6) that moves on by one every school
+// day, whatever the weekday. startDate is a date of Week A or Day 1, and holidays
+// are dates the rotation skips.
+export interface TimetableCycle {
+  type: "weekly" | "weeks" | "days";
+  length: number;
+  startDate: string | null;
+  holidays: string[];
+}
+
+export const DEFAULT_TIMETABLE_CYCLE: TimetableCycle = { type: "weekly", length: 1, startDate: null, holidays: [] };
+
+// Timetable Structure table. A school can run several structures, e.g. a morning
+// shift for primary and an afternoon shift for secondary; classes follow the one
+// they are linked to.
 export const timetableStructures = pgTable("timetable_structures", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull().default("Main"),
   periodsPerDay: integer("periods_per_day").notNull().default(8),
   workingDays: jsonb("working_days").$type<string[]>().notNull().default(sql`'["monday","tuesday","wednesday","thursday","friday","saturday"]'::jsonb`),
-  timeSlots: jsonb("time_slots").$type<{
-    period: number;
-    startTime: string;
-    endTime: string;
-    isBreak?: boolean;
-  }[]>().notNull().default(sql`'[{"period":1,"startTime":"07:30","endTime":"08:15"},{"period":2,"startTime":"08:15","endTime":"09:00"},{"period":3,"startTime":"09:00","endTime":"09:45"},{"period":4,"startTime":"09:45","endTime":"10:15"},{"period":5,"startTime":"10:15","endTime":"11:00","isBreak":true},{"period":6,"startTime":"11:00","endTime":"11:45"},{"period":7,"startTime":"11:45","endTime":"12:30"},{"period":8,"startTime":"12:30","endTime":"13:15"}]'::jsonb`),
+  timeSlots: jsonb("time_slots").$type<StructureTimeSlot[]>().notNull().default(sql`'[{"period":1,"startTime":"07:30","endTime":"08:15"},{"period":2,"startTime":"08:15","endTime":"09:00"},{"period":3,"startTime":"09:00","endTime":"09:45"},{"period":4,"startTime":"09:45","endTime":"10:15"},{"period":5,"startTime":"10:15","endTime":"11:00","isBreak":true},{"period":6,"startTime":"11:00","endTime":"11:45"},{"period":7,"startTime":"11:45","endTime":"12:30"},{"period":8,"startTime":"12:30","endTime":"13:15"}]'::jsonb`),
+  // Days with their own bell times, e.g. a shorter Saturday; other days use timeSlots
+  daySlots: jsonb("day_slots").$type<Partial<Record<Weekday, StructureTimeSlot[]>>>().notNull().default(sql`'{}'::jsonb`),
+  // Minutes a teacher needs to get from one building to another; lessons in
+  // different buildings closer together than this are not given to one teacher
+  travelMinutes: integer("travel_minutes").notNull().default(0),
+  // The main structure's cycle applies to the whole school
+  cycle: jsonb("cycle").$type<TimetableCycle>().notNull().default(sql`'{"type":"weekly","length":1,"startDate":null,"holidays":[]}'::jsonb`),
+  softConstraints: jsonb("soft_constraints").$type<SoftConstraintSettings>().notNull().default(sql`'{"weights":{"teacherIdleGap":3,"sameSubjectTwiceInDay":2,"heavySubjectAfterLunch":2,"teacherFirstAndLastPeriod":1,"teacherPreference":3},"heavySubjectIds":[]}'::jsonb`),
+  // The school's main structure: followed by classes not linked to another one, and
+  // the one teacher availability, preferences and soft constraint settings refer to
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -187,13 +412,103 @@ export const teacherAttendance = pgTable("teacher_attendance", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// What a day on the academic calendar is. Outside the school's terms (when it has
+// any), on holidays and during exam periods there are no timetabled classes; half
+// days end after `lastPeriod`; events are shown but change nothing.
+export const calendarEventTypes = ["term", "holiday", "exam_period", "half_day", "event"] as const;
+
+export type CalendarEventType = typeof calendarEventTypes[number];
+
+// Academic calendar: terms, holidays and special days of a school, each covering startDate-endDate inclusive
+export const academicCalendarEvents = pgTable("academic_calendar_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  type: varchar("type", { enum: calendarEventTypes }).notNull(),
+  name: varchar("name", { length: 200 }).notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  lastPeriod: integer("last_period"), // Half days: the last period taught
+  notes: text("notes"),
+  externalId: varchar("external_id", { length: 255 }), // UID of the event in an imported ICS file
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One sitting of an exam day, e.g. a morning and an afternoon paper
+export interface ExamSitting {
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+// An exam series, e.g. the mid-year exams: its dates, sittings and halls. Papers
+// are only scheduled on working days of the academic calendar within its dates.
+export const examSeries = pgTable("exam_series", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: uuid("school_id").notNull().references(() => schools.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 200 }).notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  sittings: jsonb("sittings").$type<ExamSitting[]>().notNull().default(sql`'[{"name":"Morning","startTime":"09:00","endTime":"12:00"},{"name":"Afternoon","startTime":"13:30","endTime":"16:30"}]'::jsonb`),
+  hallIds: jsonb("hall_ids").$type<string[]>().notNull().default(sql`'[]'::jsonb`), // Rooms used as exam halls
+  studentsPerInvigilator: integer("students_per_invigilator").notNull().default(30), // Every hall in use has at least one
+  scheduledAt: timestamp("scheduled_at"), // Last time the papers were scheduled
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// An exam paper sat by every class of a grade that takes the subject
+export const examPapers = pgTable("exam_papers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  seriesId: uuid("series_id").notNull().references(() => examSeries.id, { onDelete: "cascade" }),
+  subjectId: uuid("subject_id").notNull().references(() => subjects.id, { onDelete: "cascade" }),
+  grade: varchar("grade", { length: 50 }).notNull(),
+  name: varchar("name", { length: 100 }), // e.g. "Paper 2"; null = the subject's name
+  durationMinutes: integer("duration_minutes").notNull().default(120),
+  // Dates the paper may be sat on, within the series' dates; null = any
+  earliestDate: date("earliest_date"),
+  latestDate: date("latest_date"),
+  // Set by the exam scheduler; sitting indexes the series' sittings
+  date: date("date"),
+  sitting: integer("sitting"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Seats seatFrom-seatTo of a hall, given to a class sitting a paper
+export const examSeats = pgTable("exam_seats", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  paperId: uuid("paper_id").notNull().references(() => examPapers.id, { onDelete: "cascade" }),
+  classId: uuid("class_id").notNull().references(() => classes.id, { onDelete: "cascade" }),
+  roomId: uuid("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  seatFrom: integer("seat_from").notNull(),
+  seatTo: integer("seat_to").notNull(),
+});
+
+// A teacher's invigilation duty in a hall during one sitting of an exam series
+export const examInvigilations = pgTable("exam_invigilations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  seriesId: uuid("series_id").notNull().references(() => examSeries.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  sitting: integer("sitting").notNull(),
+  roomId: uuid("room_id").notNull().references(() => rooms.id, { onDelete: "cascade" }),
+  teacherId: uuid("teacher_id").notNull().references(() => teachers.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const schoolsRelations = relations(schools, ({ many }) => ({
   users: many(users),
   teachers: many(teachers),
   subjects: many(subjects),
   classes: many(classes),
+  rooms: many(rooms),
+  lessonGroups: many(lessonGroups),
+  teacherPreferences: many(teacherPreferences),
+  timetableCandidates: many(timetableCandidates),
   timetableStructures: many(timetableStructures),
+  academicCalendarEvents: many(academicCalendarEvents),
+  examSeries: many(examSeries),
 }));
 
 export const usersRelations = relations(users, ({ one }) => ({
@@ -217,6 +532,22 @@ export const teachersRelations = relations(teachers, ({ one, many }) => ({
   originalSubstitutions: many(substitutions, { relationName: "originalTeacher" }),
   substituteSubstitutions: many(substitutions, { relationName: "substituteTeacher" }),
   attendanceRecords: many(teacherAttendance),
+  preferences: many(teacherPreferences),
+}));
+
+export const teacherPreferencesRelations = relations(teacherPreferences, ({ one }) => ({
+  teacher: one(teachers, {
+    fields: [teacherPreferences.teacherId],
+    references: [teachers.id],
+  }),
+  school: one(schools, {
+    fields: [teacherPreferences.schoolId],
+    references: [schools.id],
+  }),
+  subject: one(subjects, {
+    fields: [teacherPreferences.subjectId],
+    references: [subjects.id],
+  }),
 }));
 
 export const subjectsRelations = relations(subjects, ({ one, many }) => ({
@@ -232,12 +563,32 @@ export const classesRelations = relations(classes, ({ one, many }) => ({
     fields: [classes.schoolId],
     references: [schools.id],
   }),
+  structure: one(timetableStructures, {
+    fields: [classes.structureId],
+    references: [timetableStructures.id],
+  }),
   timetableEntries: many(timetableEntries),
   timetableValidityPeriods: many(timetableValidityPeriods),
   classSubjectAssignments: many(classSubjectAssignments),
   timetableVersions: many(timetableVersions),
 }));
 
+export const roomsRelations = relations(rooms, ({ one, many }) => ({
+  school: one(schools, {
+    fields: [rooms.schoolId],
+    references: [schools.id],
+  }),
+  timetableEntries: many(timetableEntries),
+}));
+
+export const lessonGroupsRelations = relations(lessonGroups, ({ one, many }) => ({
+  school: one(schools, {
+    fields: [lessonGroups.schoolId],
+    references: [schools.id],
+  }),
+  timetableEntries: many(timetableEntries),
+}));
+
 export const classSubjectAssignmentsRelations = relations(classSubjectAssignments, ({ one }) => ({
   class: one(classes, {
     fields: [classSubjectAssignments.classId],
@@ -253,11 +604,23 @@ export const classSubjectAssignmentsRelations = relations(classSubjectAssignment
   }),
 }));
 
+export const timetableCandidatesRelations = relations(timetableCandidates, ({ one, many }) => ({
+  school: one(schools, {
+    fields: [timetableCandidates.schoolId],
+    references: [schools.id],
+  }),
+  timetableVersions: many(timetableVersions),
+}));
+
 export const timetableVersionsRelations = relations(timetableVersions, ({ one, many }) => ({
   class: one(classes, {
     fields: [timetableVersions.classId],
     references: [classes.id],
   }),
+  candidate: one(timetableCandidates, {
+    fields: [timetableVersions.candidateId],
+    references: [timetableCandidates.id],
+  }),
   timetableEntries: many(timetableEntries),
 }));
 
@@ -278,6 +641,14 @@ export const timetableEntriesRelations = relations(timetableEntries, ({ one, man
     fields: [timetableEntries.versionId],
     references: [timetableVersions.id],
   }),
+  bookedRoom: one(rooms, {
+    fields: [timetableEntries.roomId],
+    references: [rooms.id],
+  }),
+  lessonGroup: one(lessonGroups, {
+    fields: [timetableEntries.lessonGroupId],
+    references: [lessonGroups.id],
+  }),
   substitutions: many(substitutions),
 }));
 
@@ -305,11 +676,12 @@ export const timetableValidityPeriodsRelations = relations(timetableValidityPeri
   }),
 }));
 
-export const timetableStructuresRelations = relations(timetableStructures, ({ one }) => ({
+export const timetableStructuresRelations = relations(timetableStructures, ({ one, many }) => ({
   school: one(schools, {
     fields: [timetableStructures.schoolId],
     references: [schools.id],
   }),
+  classes: many(classes),
 }));
 
 export const teacherAttendanceRelations = relations(teacherAttendance, ({ one }) => ({
@@ -327,6 +699,64 @@ export const teacherAttendanceRelations = relations(teacherAttendance, ({ one })
   }),
 }));
 
+export const academicCalendarEventsRelations = relations(academicCalendarEvents, ({ one }) => ({
+  school: one(schools, {
+    fields: [academicCalendarEvents.schoolId],
+    references: [schools.id],
+  }),
+}));
+
+export const examSeriesRelations = relations(examSeries, ({ one, many }) => ({
+  school: one(schools, {
+    fields: [examSeries.schoolId],
+    references: [schools.id],
+  }),
+  papers: many(examPapers),
+  invigilations: many(examInvigilations),
+}));
+
+export const examPapersRelations = relations(examPapers, ({ one, many }) => ({
+  series: one(examSeries, {
+    fields: [examPapers.seriesId],
+    references: [examSeries.id],
+  }),
+  subject: one(subjects, {
+    fields: [examPapers.subjectId],
+    references: [subjects.id],
+  }),
+  seats: many(examSeats),
+}));
+
+export const examSeatsRelations = relations(examSeats, ({ one }) => ({
+  paper: one(examPapers, {
+    fields: [examSeats.paperId],
+    references: [examPapers.id],
+  }),
+  class: one(classes, {
+    fields: [examSeats.classId],
+    references: [classes.id],
+  }),
+  room: one(rooms, {
+    fields: [examSeats.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const examInvigilationsRelations = relations(examInvigilations, ({ one }) => ({
+  series: one(examSeries, {
+    fields: [examInvigilations.seriesId],
+    references: [examSeries.id],
+  }),
+  room: one(rooms, {
+    fields: [examInvigilations.roomId],
+    references: [rooms.id],
+  }),
+  teacher: one(teachers, {
+    fields: [examInvigilations.teacherId],
+    references: [teachers.id],
+  }),
+}));
+
 // Insert schemas
 export const insertSchoolSchema = createInsertSchema(schools).omit({
   id: true,
@@ -345,13 +775,84 @@ export const loginSchema = z.object({
   password: z.string().min(6),
 });
 
-export const insertTeacherSchema = createInsertSchema(teachers).omit({
+export const teacherUnavailabilitySchema = z.record(
+  z.enum(weekdays),
+  z.array(z.number().int().positive())
+) as z.ZodType<TeacherUnavailability>;
+
+export const insertTeacherSchema = createInsertSchema(teachers, {
+  unavailablePeriods: teacherUnavailabilitySchema.optional(),
+  maxLoad: z.number().int().min(0, "Weekly load cannot be negative"),
+  maxDailyPeriods: z.number().int().min(1, "Daily limit must be at least 1").nullable(),
+  maxConsecutivePeriods: z.number().int().min(1, "Consecutive limit must be at least 1").nullable(),
+  maxWeeklyCovers: z.number().int().min(0, "Cover cap cannot be negative").nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertSubjectSchema = createInsertSchema(subjects).omit({
+const teacherPreferenceFields = createInsertSchema(teacherPreferences, {
+  days: z.array(z.enum(weekdays)),
+  period: z.number().int().positive().nullable(),
+  grade: z.string().trim().max(50).nullable(),
+  note: z.string().max(500).nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Each kind of preference needs its own fields filled in
+export const teacherPreferenceComplete = (preference: {
+  type: TeacherPreferenceType;
+  days?: Weekday[];
+  day?: Weekday | null;
+  period?: number | null;
+  subjectId?: string | null;
+  priority?: "prefer" | "avoid" | null;
+}) => {
+  switch (preference.type) {
+    case "preferred_days":
+      return !!preference.days && preference.days.length > 0;
+    case "free_period":
+      return !!preference.day && !!preference.period;
+    case "subject_priority":
+      return !!preference.subjectId && !!preference.priority;
+  }
+};
+
+export const insertTeacherPreferenceSchema = teacherPreferenceFields.refine(
+  teacherPreferenceComplete,
+  "Preferred days need at least one day, a free period a day and period, and a subject priority a subject and priority"
+);
+
+export const updateTeacherPreferenceSchema = teacherPreferenceFields.partial();
+
+export const subjectPlacementRulesSchema = z.object({
+  allowedPeriods: z.array(z.number().int().positive()).min(1, "Allow at least one period").optional(),
+  notAfterLunch: z.boolean().optional(),
+  noConsecutiveDays: z.boolean().optional(),
+}) as z.ZodType<SubjectPlacementRules>;
+
+// The rules a class's lessons of a subject follow: its own override, else the subject's
+export const effectivePlacementRules = (
+  subjectRules: SubjectPlacementRules | null | undefined,
+  classRules: SubjectPlacementRules | null | undefined
+): SubjectPlacementRules => classRules ?? subjectRules ?? {};
+
+export const insertSubjectSchema = createInsertSchema(subjects, {
+  placementRules: subjectPlacementRulesSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRoomSchema = createInsertSchema(rooms, {
+  name: z.string().trim().min(1, "Room name is required").max(100),
+  capacity: z.number().int().min(1, "Capacity must be at least 1"),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -381,10 +882,24 @@ export const insertTimetableEntrySchema = createInsertSchema(timetableEntries).o
   updatedAt: true,
 });
 
+export const timetableEntryLockSchema = z.object({
+  isLocked: z.boolean(),
+});
+
 export const insertSubstitutionSchema = createInsertSchema(substitutions).omit({
   id: true,
+  declines: true,
+  acceptedAt: true,
+  overriddenBy: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // Cover is confirmed by the substitute accepting it, or by an admin override
+  status: z.enum(["pending", "rejected"]).optional(),
+});
+
+export const declineSubstitutionSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for declining").max(500),
 });
 
 export const insertTimetableValidityPeriodSchema = createInsertSchema(timetableValidityPeriods).omit({
@@ -393,24 +908,353 @@ export const insertTimetableValidityPeriodSchema = createInsertSchema(timetableV
   updatedAt: true,
 });
 
-export const insertClassSubjectAssignmentSchema = createInsertSchema(classSubjectAssignments).omit({
+export const MAX_BLOCK_LENGTH = 4;
+
+// Periods taken by blocks cannot exceed the weekly frequency
+export const blocksFitWeeklyFrequency = (assignment: {
+  weeklyFrequency: number;
+  blockLength?: number;
+  blocksPerWeek?: number;
+}) => (assignment.blocksPerWeek ?? 0) * (assignment.blockLength ?? 1) <= assignment.weeklyFrequency;
+
+const classSubjectAssignmentFields = createInsertSchema(classSubjectAssignments, {
+  blockLength: z.number().int().min(1).max(MAX_BLOCK_LENGTH),
+  blocksPerWeek: z.number().int().min(0),
+  placementRules: subjectPlacementRulesSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertTimetableStructureSchema = createInsertSchema(timetableStructures).omit({
+export const insertClassSubjectAssignmentSchema = classSubjectAssignmentFields.refine(
+  blocksFitWeeklyFrequency,
+  "Blocks cannot take more periods than the weekly frequency"
+);
+
+export const updateClassSubjectAssignmentSchema = classSubjectAssignmentFields.partial();
+
+// Group lessons are always taught in whole blocks
+export const lessonGroupFitsBlocks = (group: {
+  weeklyFrequency: number;
+  blockLength?: number;
+}) => group.weeklyFrequency % (group.blockLength ?? 1) === 0;
+
+const lessonGroupFields = createInsertSchema(lessonGroups, {
+  name: z.string().trim().min(1, "Group name is required").max(255),
+  classIds: z.array(z.string().uuid()).min(1, "Select at least one class"),
+  streams: z.array(z.object({
+    subjectId: z.string().uuid(),
+    teacherId: z.string().uuid(),
+  })).min(1, "Add at least one stream"),
+  weeklyFrequency: z.number().int().min(1),
+  blockLength: z.number().int().min(1).max(MAX_BLOCK_LENGTH),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// A teacher cannot teach two streams of the same synchronised slot
+export const lessonGroupTeachersDistinct = (group: { streams: LessonGroupStream[] }) =>
+  new Set(group.streams.map((stream) => stream.teacherId)).size === group.streams.length;
+
+export const insertLessonGroupSchema = lessonGroupFields
+  .refine(lessonGroupFitsBlocks, "Weekly frequency must be a multiple of the block length")
+  .refine(lessonGroupTeachersDistinct, "Each stream needs a different teacher");
+
+export const updateLessonGroupSchema = lessonGroupFields.partial();
+
+export const softConstraintSettingsSchema = z.object({
+  weights: z.object({
+    teacherIdleGap: z.number().int().min(0).max(100),
+    sameSubjectTwiceInDay: z.number().int().min(0).max(100),
+    heavySubjectAfterLunch: z.number().int().min(0).max(100),
+    teacherFirstAndLastPeriod: z.number().int().min(0).max(100),
+    teacherPreference: z.number().int().min(0).max(100),
+  }),
+  heavySubjectIds: z.array(z.string().uuid()),
+});
+
+const structureTimeSlotSchema = z.object({
+  period: z.number().int().positive(),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Times must be HH:MM"),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, "Times must be HH:MM"),
+  isBreak: z.boolean().optional(),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const timetableCycleSchema = z.object({
+  type: z.enum(["weekly", "weeks", "days"]),
+  length: z.number().int().min(1).max(10, "A cycle can be at most 10 weeks or days long"),
+  startDate: isoDate.nullable(),
+  holidays: z.array(isoDate),
+}).refine(cycle => cycle.type === "weekly" || cycle.length >= 2, {
+  message: "A cycle needs at least 2 weeks or days",
+  path: ["length"],
+}).refine(cycle => cycle.type === "weekly" || !!cycle.startDate, {
+  message: "Choose the date the cycle starts on",
+  path: ["startDate"],
+});
+
+export const insertTimetableStructureSchema = createInsertSchema(timetableStructures, {
+  name: z.string().trim().min(1, "Structure name is required").max(100).optional(),
+  timeSlots: z.array(structureTimeSlotSchema).optional(),
+  daySlots: z.record(z.enum(weekdays), z.array(structureTimeSlotSchema)).optional(),
+  travelMinutes: z.number().int().min(0).max(120, "Travel time can be at most 120 minutes").optional(),
+  cycle: timetableCycleSchema.optional(),
+  softConstraints: softConstraintSettingsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The periods and breaks of one day of a structure
+export const structureSlotsForDay = (
+  structure: Pick<TimetableStructure, "timeSlots" | "daySlots">,
+  day: string
+): StructureTimeSlot[] => structure.daySlots?.[day as Weekday] ?? structure.timeSlots;
+
+// One day of a timetable cycle. day is the weekday whose bell times, teacher
+// availability and preferences apply: the real weekday on a multi-week cycle, and
+// on a rotating-day cycle the working day in the same position (Day 6 of a six-day
+// cycle over Monday-Friday follows Monday).
+export interface CycleDay {
+  cycleDay: number | null;
+  day: Weekday;
+  label: string;
+}
+
+const capitalizeDay = (day: string) => day.charAt(0).toUpperCase() + day.slice(1);
+
+// The days of the cycle in order; a weekly timetable has just the working days
+export const cycleDaysOf = (cycle: TimetableCycle | null | undefined, workingDays: string[]): CycleDay[] => {
+  const days = weekdays.filter(day => workingDays.includes(day));
+  if (!cycle || cycle.type === "weekly" || days.length === 0) {
+    return days.map(day => ({ cycleDay: null, day, label: capitalizeDay(day) }));
+  }
+  if (cycle.type === "weeks") {
+    return Array.from({ length: cycle.length }, (_, week) => days.map((day, index) => ({
+      cycleDay: week * days.length + index + 1,
+      day,
+      label: `${capitalizeDay(day)} ${String.fromCharCode(65 + week)}`,
+    }))).flat();
+  }
+  return Array.from({ length: cycle.length }, (_, index) => ({
+    cycleDay: index + 1,
+    day: days[index % days.length],
+    label: `Day ${index + 1}`,
+  }));
+};
+
+// Days a structure teaches on. The main structure's cycle is the whole school's;
+// on a weekly timetable each structure keeps its own working days.
+export const structureCycleDays = (
+  structure: Pick<TimetableStructure, "workingDays">,
+  main: { workingDays: string[]; cycle?: TimetableCycle | null } | null | undefined
+): CycleDay[] => {
+  if (!main?.cycle || main.cycle.type === "weekly") return cycleDaysOf(null, structure.workingDays);
+  return cycleDaysOf(main.cycle, main.workingDays).filter(({ day }) => structure.workingDays.includes(day));
+};
+
+// How many weeks of lessons one turn of the cycle holds; weekly quotas and load limits scale by it
+export const cycleWeeks = (cycle: TimetableCycle | null | undefined, workingDays: string[]): number => {
+  const dayCount = weekdays.filter(day => workingDays.includes(day)).length;
+  if (!cycle || cycle.type === "weekly" || dayCount === 0) return 1;
+  return cycle.type === "weeks" ? cycle.length : cycle.length / dayCount;
+};
+
+// Label of an entry's day, e.g. "Monday", "Monday B" or "Day 4"
+export const cycleDayLabel = (
+  entry: { day: string; cycleDay?: number | null },
+  cycle: TimetableCycle | null | undefined,
+  workingDays: string[]
+): string => {
+  if (entry.cycleDay == null) return capitalizeDay(entry.day);
+  return cycleDaysOf(cycle, workingDays).find(day => day.cycleDay === entry.cycleDay)?.label ?? `Day ${entry.cycleDay}`;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+const parseDate = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const formatDate = (time: number) => new Date(time).toISOString().split("T")[0];
+// Weekday of a date, undefined on Sunday
+const weekdayOf = (time: number): Weekday | undefined => weekdays[(new Date(time).getUTCDay() + 6) % 7];
+
+/**
+ * The cycle day a calendar date (YYYY-MM-DD) falls on, or null when there is no
+ * school that day. A multi-week cycle moves on one week per calendar week, except
+ * weeks that are holidays throughout; a rotating-day cycle moves on one day per
+ * school day. noClasses marks further days without lessons, e.g. those of the
+ * academic calendar, on top of the cycle's own holidays.
+ */
+export const resolveCycleDay = (
+  cycle: TimetableCycle | null | undefined,
+  workingDays: string[],
+  date: string,
+  noClasses: (date: string) => boolean = () => false
+): CycleDay | null => {
+  const time = parseDate(date);
+  if (Number.isNaN(time)) return null;
+  const holidays = new Set(cycle?.holidays ?? []);
+  const isSchoolDay = (at: number) => {
+    const day = weekdayOf(at);
+    return !!day && workingDays.includes(day) && !holidays.has(formatDate(at)) && !noClasses(formatDate(at));
+  };
+  if (!isSchoolDay(time)) return null;
+
+  const days = cycleDaysOf(cycle, workingDays);
+  const day = weekdayOf(time)!;
+  if (!cycle || cycle.type === "weekly" || !cycle.startDate) {
+    return days.find(d => d.day === day) ?? null;
+  }
+
+  const start = parseDate(cycle.startDate);
+  const step = time >= start ? 1 : -1;
+  let position = 0;
+  if (cycle.type === "weeks") {
+    // Mondays of the start's week and of the date's week
+    const monday = (at: number) => at - ((new Date(at).getUTCDay() + 6) % 7) * dayMs;
+    const hasSchool = (weekStart: number) =>
+      Array.from({ length: 6 }, (_, offset) => weekStart + offset * dayMs).some(isSchoolDay);
+    for (let weekStart = monday(start); weekStart !== monday(time); weekStart += step * 7 * dayMs) {
+      if (hasSchool(step > 0 ? weekStart : weekStart - 7 * dayMs)) position += step;
+    }
+    const week = ((position % cycle.length) + cycle.length) % cycle.length;
+    const perWeek = days.length / cycle.length;
+    return days.slice(week * perWeek, (week + 1) * perWeek).find(d => d.day === day) ?? null;
+  }
+
+  for (let at = start; at !== time; at += step * dayMs) {
+    if (isSchoolDay(step > 0 ? at : at - dayMs)) position += step;
+  }
+  return days[((position % cycle.length) + cycle.length) % cycle.length];
+};
+
+export const insertAcademicCalendarEventSchema = createInsertSchema(academicCalendarEvents, {
+  name: z.string().trim().min(1, "Name is required").max(200),
+  startDate: isoDate,
+  endDate: isoDate,
+  lastPeriod: z.number().int().min(1).max(20).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const examSittingSchema = z.object({
+  name: z.string().trim().min(1, "Sitting name is required").max(50),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Times must be HH:MM"),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, "Times must be HH:MM"),
+}).refine(sitting => sitting.endTime > sitting.startTime, {
+  message: "A sitting has to end after it starts",
+  path: ["endTime"],
+});
+
+export const insertExamSeriesSchema = createInsertSchema(examSeries, {
+  name: z.string().trim().min(1, "Name is required").max(200),
+  startDate: isoDate,
+  endDate: isoDate,
+  sittings: z.array(examSittingSchema).min(1, "Add at least one sitting").max(4).optional(),
+  hallIds: z.array(z.string().uuid()).optional(),
+  studentsPerInvigilator: z.number().int().min(1).max(500).optional(),
+}).omit({
+  id: true,
+  scheduledAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Papers are scheduled by the exam scheduler, not given a date by hand
+export const insertExamPaperSchema = createInsertSchema(examPapers, {
+  grade: z.string().trim().min(1, "Grade is required").max(50),
+  name: z.string().trim().max(100).nullable().optional(),
+  durationMinutes: z.number().int().min(15).max(480),
+  earliestDate: isoDate.nullable().optional(),
+  latestDate: isoDate.nullable().optional(),
+}).omit({
+  id: true,
+  date: true,
+  sitting: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Minutes from start to end of a sitting
+export const sittingMinutes = (sitting: ExamSitting): number => {
+  const minutes = (time: string) => {
+    const [hours, mins] = time.split(":").map(Number);
+    return hours * 60 + mins;
+  };
+  return minutes(sitting.endTime) - minutes(sitting.startTime);
+};
+
+// Why a calendar entry can't be saved, if it can't
+export const calendarEventIssue = (
+  event: Pick<InsertAcademicCalendarEvent, "type" | "startDate" | "endDate" | "lastPeriod">
+): string | undefined => {
+  if (event.endDate < event.startDate) return "The end date is before the start date";
+  if (event.type === "half_day" && !event.lastPeriod) return "Choose the last period taught on the half day";
+  return undefined;
+};
+
+// How the academic calendar treats a date
+export interface CalendarDay {
+  date: string;
+  // Teachers are expected at school: a working day within term that is not a holiday
+  workingDay: boolean;
+  // The timetable is taught; false during exam periods
+  hasClasses: boolean;
+  // Half days: the last period taught
+  lastPeriod: number | null;
+  // Calendar entries covering the date, terms included
+  events: AcademicCalendarEvent[];
+}
+
+export const calendarDayOf = (
+  events: AcademicCalendarEvent[],
+  workingDays: string[],
+  date: string
+): CalendarDay => {
+  const covering = events.filter(e => e.startDate <= date && date <= e.endDate);
+  const has = (type: CalendarEventType) => covering.some(e => e.type === type);
+  const day = weekdayOf(parseDate(date));
+  const inTerm = !events.some(e => e.type === "term") || has("term");
+  const workingDay = !!day && workingDays.includes(day) && inTerm && !has("holiday");
+  const halfDays = covering.filter(e => e.type === "half_day" && e.lastPeriod);
+  return {
+    date,
+    workingDay,
+    hasClasses: workingDay && !has("exam_period"),
+    lastPeriod: workingDay && halfDays.length > 0 ? Math.min(...halfDays.map(e => e.lastPeriod!)) : null,
+    events: covering,
+  };
+};
+
+// Dates from `from` to `to` inclusive
+export const datesBetween = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let at = parseDate(from); at <= parseDate(to); at += dayMs) dates.push(formatDate(at));
+  return dates;
+};
+
+// Buildings are typed in by hand; names differing only in case or spacing are the same building
+export const buildingKey = (building: string | null | undefined): string | undefined =>
+  building?.trim().toLowerCase() || undefined;
+
 export const insertTimetableVersionSchema = createInsertSchema(timetableVersions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertTimetableCandidateSchema = createInsertSchema(timetableCandidates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertTeacherAttendanceSchema = createInsertSchema(teacherAttendance).omit({
   id: true,
   createdAt: true,
@@ -418,13 +1262,24 @@ export const insertTeacherAttendanceSchema = createInsertSchema(teacherAttendanc
   markedAt: true,
 });
 
+// The school's cover settings, set on the cover report
+export const coverSettingsSchema = z.object({
+  weeklyCoverCap: z.number().int().min(0, "Cover cap cannot be negative").nullable(),
+});
+
+// Most lessons a teacher covers in a week: their own cap, else the school's
+export const weeklyCoverCapOf = (
+  teacher: Pick<Teacher, "maxWeeklyCovers">,
+  school: Pick<School, "weeklyCoverCap"> | undefined
+): number | null => teacher.maxWeeklyCovers ?? school?.weeklyCoverCap ?? null;
+
 // Bulk attendance marking schema for leave management
 export const bulkAttendanceSchema = z.object({
   teacherId: z.string().uuid(),
   status: z.enum(["absent", "on_leave", "medical_leave", "personal_leave"]),
   reason: z.string().optional(),
-  startDate: z.string(), // ISO date string
-  endDate: z.string(), // ISO date string
+  startDate: isoDate,
+  endDate: isoDate,
   isFullDay: z.boolean().default(true),
 });
 
@@ -439,21 +1294,40 @@ export type LoginData = z.infer<typeof loginSchema>;
 export type Teacher = typeof teachers.$inferSelect;
 export type InsertTeacher = z.infer<typeof insertTeacherSchema>;
 
+export type TeacherPreference = typeof teacherPreferences.$inferSelect;
+export type InsertTeacherPreference = z.infer<typeof insertTeacherPreferenceSchema>;
+
 export type Subject = typeof subjects.$inferSelect;
 export type InsertSubject = z.infer<typeof insertSubjectSchema>;
 
 export type Class = typeof classes.$inferSelect;
 export type InsertClass = z.infer<typeof insertClassSchema>;
 
+export type Room = typeof rooms.$inferSelect;
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+
 export type TimetableEntry = typeof timetableEntries.$inferSelect;
 export type InsertTimetableEntry = z.infer<typeof insertTimetableEntrySchema>;
 
 export type Substitution = typeof substitutions.$inferSelect;
 export type InsertSubstitution = z.infer<typeof insertSubstitutionSchema>;
 
+export type AcademicCalendarEvent = typeof academicCalendarEvents.$inferSelect;
+export type InsertAcademicCalendarEvent = z.infer<typeof insertAcademicCalendarEventSchema>;
+
+export type ExamSeries = typeof examSeries.$inferSelect;
+export type InsertExamSeries = z.infer<typeof insertExamSeriesSchema>;
+export type ExamPaper = typeof examPapers.$inferSelect;
+export type InsertExamPaper = z.infer<typeof insertExamPaperSchema>;
+export type ExamSeat = typeof examSeats.$inferSelect;
+export type ExamInvigilation = typeof examInvigilations.$inferSelect;
+
 export type TimetableValidityPeriod = typeof timetableValidityPeriods.$inferSelect;
 export type InsertTimetableValidityPeriod = z.infer<typeof insertTimetableValidityPeriodSchema>;
 
+export type LessonGroup = typeof lessonGroups.$inferSelect;
+export type InsertLessonGroup = z.infer<typeof insertLessonGroupSchema>;
+
 export type ClassSubjectAssignment = typeof classSubjectAssignments.$inferSelect;
 export type InsertClassSubjectAssignment = z.infer<typeof insertClassSubjectAssignmentSchema>;
 
@@ -463,6 +1337,9 @@ export type InsertTimetableStructure = z.infer<typeof insertTimetableStructureSc
 export type TimetableVersion = typeof timetableVersions.$inferSelect;
 export type InsertTimetableVersion = z.infer<typeof insertTimetableVersionSchema>;
 
+export type TimetableCandidate = typeof timetableCandidates.$inferSelect;
+export type InsertTimetableCandidate = z.infer<typeof insertTimetableCandidateSchema>;
+
 export type TeacherAttendance = typeof teacherAttendance.$inferSelect;
 export type InsertTeacherAttendance = z.infer<typeof insertTeacherAttendanceSchema>;
 export type BulkAttendanceData = z.infer<typeof bulkAttendanceSchema>;
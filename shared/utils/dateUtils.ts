@@ -48,6 +48,13 @@ export function toISTDateString(dateInput: string | Date): string {
   }).format(date);
 }
 
+/**
+ * Start of a day (YYYY-MM-DD) in IST, for timestamp columns that hold a date
+ */
+export function startOfDayIST(dateString: string): Date {
+  return new Date(`${dateString}T00:00:00+05:30`);
+}
+
 /**
  * Format date for display in IST
  */